@@ -0,0 +1,170 @@
+import { useState, useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { useNetworkStore } from "@/store/networkStore";
+import { AnnualSimulationCalculator } from "@/utils/annualSimulationCalculator";
+import { AnnualSimulationResult, defaultAnnualSimulationOptions } from "@/types/dailyProfile";
+import { toast } from "sonner";
+
+// Nombre de nœuds affichés dans le tableau
+const MAX_DISPLAYED_NODES = 8;
+
+export const AnnualSimulationPanel = () => {
+  const {
+    currentProject,
+    dailyProfileOptions,
+    dailyProfileCustomProfiles,
+    simulationEquipment,
+    isSimulationActive
+  } = useNetworkStore();
+  const [stepMinutes, setStepMinutes] = useState<60 | 15>(60);
+  const [study, setStudy] = useState<AnnualSimulationResult | null>(null);
+  const [selectedNodeId, setSelectedNodeId] = useState<string>('');
+  const [running, setRunning] = useState(false);
+
+  const sortedNodes = useMemo(() => {
+    if (!study) return [];
+    return [...study.nodes].sort((a, b) =>
+      (b.hoursOverVoltage + b.hoursUnderVoltage) - (a.hoursOverVoltage + a.hoursUnderVoltage)
+    );
+  }, [study]);
+
+  const chartNode = study?.nodes.find(n => n.nodeId === selectedNodeId) ?? sortedNodes[0];
+
+  if (!currentProject) return null;
+
+  const handleRun = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        const calculator = new AnnualSimulationCalculator(
+          currentProject,
+          {
+            ...defaultAnnualSimulationOptions,
+            stepMinutes,
+            enableEV: dailyProfileOptions.enableEV,
+            evBonusEvening: dailyProfileOptions.evBonusEvening,
+            evBonusNight: dailyProfileOptions.evBonusNight
+          },
+          dailyProfileCustomProfiles,
+          isSimulationActive ? simulationEquipment : undefined,
+          isSimulationActive
+        );
+        setStudy(calculator.calculateAnnual());
+        setSelectedNodeId('');
+      } catch (error) {
+        console.error('Erreur simulation annuelle:', error);
+        toast.error('Erreur lors de la simulation annuelle');
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const curtailedPercent = study && study.pvProducible_kWh > 0
+    ? (study.pvCurtailed_kWh / study.pvProducible_kWh) * 100
+    : 0;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Année complète à partir des profils journaliers modulés par mois et type de jour
+        {isSimulationActive ? ' (équipements de simulation inclus)' : ''}.
+      </p>
+      <div className="flex items-center gap-2">
+        <Label className="text-xs text-muted-foreground">Pas</Label>
+        <Select value={String(stepMinutes)} onValueChange={(value) => setStepMinutes(Number(value) as 60 | 15)}>
+          <SelectTrigger className="w-28 bg-background border text-xs h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border z-[10000]">
+            <SelectItem value="60">Horaire</SelectItem>
+            <SelectItem value="15">15 min</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button size="sm" className="flex-1" onClick={handleRun} disabled={running}>
+          {running ? 'Calcul en cours...' : 'Lancer la simulation'}
+        </Button>
+      </div>
+
+      {study && (
+        <>
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant={study.hoursOutOfLimits > 0 ? 'destructive' : 'outline'}>
+              {study.hoursOutOfLimits.toFixed(0)} h hors ±10%
+            </Badge>
+            <Badge variant="outline">Pertes câbles : {study.cableLosses_kWh.toFixed(0)} kWh</Badge>
+            <Badge variant="outline">Pertes transfo : {study.transformerLosses_kWh.toFixed(0)} kWh</Badge>
+            <Badge variant={study.pvCurtailed_kWh > 0 ? 'warning' : 'secondary'}>
+              PV découplé : {study.pvCurtailed_kWh.toFixed(0)} kWh ({curtailedPercent.toFixed(1)}%)
+            </Badge>
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            {study.stepCount} pas, {study.solvedSteps} calculs réseau
+          </p>
+
+          {chartNode && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <Label className="text-xs text-muted-foreground">Monotone de tension</Label>
+                <Select value={chartNode.nodeId} onValueChange={setSelectedNodeId}>
+                  <SelectTrigger className="w-40 bg-background border text-xs h-7">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border z-[10000]">
+                    {study.nodes.map(n => (
+                      <SelectItem key={n.nodeId} value={n.nodeId}>{n.nodeName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ResponsiveContainer width="100%" height={180}>
+                <LineChart data={chartNode.durationCurve} margin={{ top: 5, right: 10, left: -15, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                  <XAxis dataKey="percentTime" tick={{ fontSize: 10 }} unit="%" />
+                  <YAxis tick={{ fontSize: 10 }} domain={['auto', 'auto']} />
+                  <Tooltip
+                    formatter={(value: number) => `${value.toFixed(1)} V`}
+                    labelFormatter={(label) => `${Number(label).toFixed(0)}% du temps`}
+                  />
+                  <ReferenceLine y={253} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                  <ReferenceLine y={207} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                  <Line type="monotone" dataKey="voltageMax_V" name="U max" stroke="#f97316" dot={false} />
+                  <Line type="monotone" dataKey="voltageMin_V" name="U min" stroke="#3b82f6" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Nœud</TableHead>
+                <TableHead className="text-xs text-right">Umin / Umax</TableHead>
+                <TableHead className="text-xs text-right">h &gt; 253V</TableHead>
+                <TableHead className="text-xs text-right">h &lt; 207V</TableHead>
+                <TableHead className="text-xs text-right">PV découplé</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedNodes.slice(0, MAX_DISPLAYED_NODES).map(n => (
+                <TableRow key={n.nodeId}>
+                  <TableCell className="text-xs">{n.nodeName}</TableCell>
+                  <TableCell className="text-xs text-right">{n.minVoltage_V.toFixed(0)} / {n.maxVoltage_V.toFixed(0)} V</TableCell>
+                  <TableCell className="text-xs text-right">{n.hoursOverVoltage.toFixed(0)}</TableCell>
+                  <TableCell className="text-xs text-right">{n.hoursUnderVoltage.toFixed(0)}</TableCell>
+                  <TableCell className="text-xs text-right">{n.pvCurtailed_kWh.toFixed(0)} kWh</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BatteryCharging, MapPin, Trash2 } from "lucide-react";
+import { useNetworkStore } from "@/store/networkStore";
+import { DailyProfileCalculator } from "@/utils/dailyProfileCalculator";
+import { BatteryStorage, BatteryStrategy } from "@/types/network";
+import { BatteryDailyResult } from "@/types/dailyProfile";
+import { toast } from "sonner";
+
+const strategyLabels: Record<BatteryStrategy, string> = {
+  peak_shaving: 'Écrêtage de pointe',
+  pv_self_consumption: 'Autoconsommation PV',
+  voltage_triggered: 'Déclenchement en tension'
+};
+
+const numericFields: { key: keyof BatteryStorage; label: string }[] = [
+  { key: 'power_kW', label: 'P (kW)' },
+  { key: 'capacity_kWh', label: 'E (kWh)' },
+  { key: 'efficiency_percent', label: 'Rdt (%)' },
+  { key: 'initialSoC_percent', label: 'SoC init. (%)' },
+  { key: 'minSoC_percent', label: 'SoC min (%)' },
+  { key: 'maxSoC_percent', label: 'SoC max (%)' }
+];
+
+const formatPower = (power_kW: number) =>
+  power_kW > 0.005 ? `+${power_kW.toFixed(1)}` : power_kW < -0.005 ? power_kW.toFixed(1) : '0';
+
+export const BatteryPanel = () => {
+  const {
+    currentProject,
+    simulationEquipment,
+    simulationResults,
+    selectedScenario,
+    dailyProfileOptions,
+    dailyProfileCustomProfiles,
+    nodeSelectionMode,
+    startNodeSelection,
+    addBattery,
+    removeBattery,
+    updateBattery
+  } = useNetworkStore();
+
+  const [running, setRunning] = useState(false);
+  const [daily, setDaily] = useState<BatteryDailyResult | null>(null);
+
+  if (!currentProject) return null;
+
+  const batteries = simulationEquipment.batteries ?? [];
+  const summary = simulationResults[selectedScenario]?.batteries;
+  const nodes = currentProject.nodes.filter(n => !n.isSource);
+
+  const update = (batteryId: string, updates: Partial<BatteryStorage>) => {
+    updateBattery(batteryId, updates);
+    setDaily(null);
+  };
+
+  const handleDaily = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        const calculator = new DailyProfileCalculator(
+          currentProject,
+          dailyProfileOptions,
+          dailyProfileCustomProfiles,
+          simulationEquipment,
+          true
+        );
+        setDaily(calculator.calculateDailyBatteries());
+      } catch (error) {
+        console.error('Erreur batteries 24h:', error);
+        toast.error('Erreur lors du calcul des batteries sur 24h');
+      } finally {
+        setRunning(false);
+      }
+    }, 50);
+  };
+
+  // État de charge moyen pondéré par la capacité des batteries
+  const averageSoC = (hour: BatteryDailyResult['hours'][number]) => {
+    const capacity = hour.batteries.reduce((sum, b) => sum + (batteries.find(x => x.id === b.batteryId)?.capacity_kWh ?? 0), 0);
+    if (capacity <= 0) return 0;
+    return hour.batteries.reduce((sum, b) =>
+      sum + b.socEnd_percent * (batteries.find(x => x.id === b.batteryId)?.capacity_kWh ?? 0), 0) / capacity;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Stockage par batteries</h3>
+        <div className="flex items-center gap-2">
+          <Button
+            variant={nodeSelectionMode === 'battery' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => startNodeSelection('battery')}
+            title="Sélectionner sur la carte"
+          >
+            <MapPin className="h-3 w-3 mr-1" />
+            Carte
+          </Button>
+          <Select value="" onValueChange={(nodeId) => nodeId && addBattery(nodeId)}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue placeholder="Ajouter..." />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border z-[10000]">
+              {nodes.map(node => (
+                <SelectItem key={node.id} value={node.id}>{node.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {batteries.length === 0 && (
+        <Card className="bg-muted/50">
+          <CardContent className="p-4 text-sm text-muted-foreground text-center">
+            Aucune batterie configurée
+          </CardContent>
+        </Card>
+      )}
+
+      {batteries.map(battery => {
+        const node = currentProject.nodes.find(n => n.id === battery.nodeId);
+        const result = summary?.batteries.find(b => b.batteryId === battery.id);
+        return (
+          <Card key={battery.id}>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <BatteryCharging className="h-4 w-4 text-emerald-500" />
+                  <CardTitle className="text-sm">{battery.name}</CardTitle>
+                  <span className="text-xs text-muted-foreground">{node?.name ?? battery.nodeId}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={battery.enabled} onCheckedChange={(enabled) => update(battery.id, { enabled })} />
+                  <Button variant="ghost" size="sm" onClick={() => removeBattery(battery.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={battery.strategy} onValueChange={(strategy) => update(battery.id, { strategy: strategy as BatteryStrategy })}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border z-[10000]">
+                    {(Object.keys(strategyLabels) as BatteryStrategy[]).map(strategy => (
+                      <SelectItem key={strategy} value={strategy}>{strategyLabels[strategy]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={battery.phase ?? 'TRI'}
+                  onValueChange={(phase) => update(battery.id, { phase: phase === 'TRI' ? undefined : phase as 'A' | 'B' | 'C' })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border z-[10000]">
+                    <SelectItem value="TRI">Triphasée</SelectItem>
+                    <SelectItem value="A">Phase A</SelectItem>
+                    <SelectItem value="B">Phase B</SelectItem>
+                    <SelectItem value="C">Phase C</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-1">
+                {numericFields.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label className="text-[10px] text-muted-foreground">{field.label}</Label>
+                    <Input
+                      type="number"
+                      className="h-7 text-xs px-1"
+                      value={battery[field.key] as number}
+                      onChange={(e) => update(battery.id, { [field.key]: Number(e.target.value) })}
+                    />
+                  </div>
+                ))}
+                {battery.strategy === 'peak_shaving' && (
+                  <div className="space-y-1 col-span-3">
+                    <Label className="text-[10px] text-muted-foreground">Seuil transformateur (kVA)</Label>
+                    <Input
+                      type="number"
+                      className="h-7 text-xs px-1"
+                      value={battery.peakShavingThreshold_kVA}
+                      onChange={(e) => update(battery.id, { peakShavingThreshold_kVA: Number(e.target.value) })}
+                    />
+                  </div>
+                )}
+                {battery.strategy === 'voltage_triggered' && (
+                  <>
+                    <div className="space-y-1 col-span-2">
+                      <Label className="text-[10px] text-muted-foreground">Charge au-delà de (V)</Label>
+                      <Input
+                        type="number"
+                        className="h-7 text-xs px-1"
+                        value={battery.voltageHigh_V}
+                        onChange={(e) => update(battery.id, { voltageHigh_V: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-[10px] text-muted-foreground">Décharge sous (V)</Label>
+                      <Input
+                        type="number"
+                        className="h-7 text-xs px-1"
+                        value={battery.voltageLow_V}
+                        onChange={(e) => update(battery.id, { voltageLow_V: Number(e.target.value) })}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+              {battery.minSoC_percent >= battery.maxSoC_percent && (
+                <p className="text-[10px] text-destructive">Le SoC minimal doit être inférieur au SoC maximal</p>
+              )}
+
+              {result && (
+                <div className="text-xs bg-muted/50 p-2 rounded border grid grid-cols-2 gap-1">
+                  <div>P : {formatPower(result.power_kW)} kW {result.power_kW > 0.005 ? '(charge)' : result.power_kW < -0.005 ? '(décharge)' : ''}</div>
+                  <div>SoC : {result.socStart_percent.toFixed(0)} → {result.socEnd_percent.toFixed(0)} %</div>
+                  <div className="col-span-2">
+                    U nœud : {result.voltageBefore_V.toFixed(1)} → {result.voltageAfter_V.toFixed(1)} V
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {summary && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="secondary">
+            Transformateur ({selectedScenario}) : {summary.baselineTransformerLoading_percent.toFixed(0)} → {summary.transformerLoading_percent.toFixed(0)} %
+          </Badge>
+        </div>
+      )}
+
+      {batteries.some(b => b.enabled) && (
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-sm">État de charge sur 24h</CardTitle>
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleDaily} disabled={running}>
+                {running ? 'Calcul...' : 'Calculer sur 24h'}
+              </Button>
+            </div>
+          </CardHeader>
+          {daily && (
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="secondary">Chargé : {daily.chargedEnergy_kWh.toFixed(1)} kWh</Badge>
+                <Badge variant="secondary">Restitué : {daily.dischargedEnergy_kWh.toFixed(1)} kWh</Badge>
+                <Badge variant={daily.peakLoading_percent < daily.baselinePeakLoading_percent ? 'success' : 'secondary'}>
+                  Pointe transfo : {daily.baselinePeakLoading_percent.toFixed(0)} → {daily.peakLoading_percent.toFixed(0)} %
+                </Badge>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Heure</TableHead>
+                    <TableHead className="text-xs text-right">P (kW)</TableHead>
+                    <TableHead className="text-xs text-right">SoC (%)</TableHead>
+                    <TableHead className="text-xs text-right">Transfo (%)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {daily.hours.map(hour => (
+                    <TableRow key={hour.hour}>
+                      <TableCell className="text-xs py-1">{hour.hour}h</TableCell>
+                      <TableCell className="text-xs py-1 text-right">
+                        {formatPower(hour.batteries.reduce((sum, b) => sum + b.power_kW, 0))}
+                      </TableCell>
+                      <TableCell className="text-xs py-1 text-right">{averageSoC(hour).toFixed(0)}</TableCell>
+                      <TableCell className="text-xs py-1 text-right">
+                        {hour.baselineTransformerLoading_percent.toFixed(0)} → {hour.transformerLoading_percent.toFixed(0)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNetworkStore } from "@/store/networkStore";
+import { runBrokenNeutralStudy } from "@/utils/brokenNeutral";
+import { BrokenNeutralResult, BrokenNeutralSeverity, EQUI8ThermalWindow } from "@/types/network";
+import { toast } from "sonner";
+
+// Nombre de clients et de positions EQUI8 affichés
+const MAX_DISPLAYED_CLIENTS = 8;
+const MAX_DISPLAYED_MITIGATIONS = 5;
+
+const severityClasses: Record<BrokenNeutralSeverity, string> = {
+  normal: '',
+  overvoltage: 'text-warning',
+  dangerous: 'text-destructive font-medium'
+};
+
+export const BrokenNeutralPanel = () => {
+  const { currentProject, simulationEquipment, isSimulationActive } = useNetworkStore();
+  const [cableId, setCableId] = useState('');
+  const [earthResistance, setEarthResistance] = useState('');
+  const [thermalWindow, setThermalWindow] = useState<EQUI8ThermalWindow>('3h');
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<BrokenNeutralResult | null>(null);
+
+  if (!currentProject) return null;
+
+  if (currentProject.voltageSystem !== 'TÉTRAPHASÉ_400V') {
+    return <p className="text-xs text-muted-foreground">Étude réservée aux réseaux 400V avec neutre.</p>;
+  }
+
+  const handleRun = () => {
+    if (!cableId) {
+      toast.error('Veuillez choisir le câble dont le neutre est coupé');
+      return;
+    }
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        const resistance = Number(earthResistance);
+        setResult(runBrokenNeutralStudy(currentProject, {
+          cableId,
+          neutralEarthResistance_Ohm: earthResistance !== '' && resistance > 0 ? resistance : undefined,
+          thermalWindow
+        }, {
+          simulationEquipment: isSimulationActive ? simulationEquipment : undefined
+        }));
+      } catch (error) {
+        console.error('Erreur étude de rupture de neutre:', error);
+        toast.error(error instanceof Error ? error.message : 'Erreur lors de l\'étude de rupture de neutre');
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const exposedClients = result?.clients.filter(c => c.severity !== 'normal') ?? [];
+  const dangerousCount = result ? result.clients.filter(c => c.severity === 'dangerous').length : 0;
+  const worstNode = result?.nodes.reduce((worst, n) => n.maxVoltage_V > worst.maxVoltage_V ? n : worst, result.nodes[0]);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Neutre ouvert sur un câble : tensions phase-neutre en aval (déplacement du point neutre)
+        en prélèvement{isSimulationActive ? ', équipements de simulation inclus' : ''}.
+      </p>
+      <Select value={cableId} onValueChange={(value) => { setCableId(value); setResult(null); }}>
+        <SelectTrigger className="bg-background border text-xs h-8">
+          <SelectValue placeholder="Câble au neutre coupé" />
+        </SelectTrigger>
+        <SelectContent className="bg-popover border z-[10000]">
+          {currentProject.cables.filter(c => c.switchState !== 'open').map(c => (
+            <SelectItem key={c.id} value={c.id}>{c.name || c.id}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Terre neutre aval (Ω)</Label>
+          <Input
+            type="number"
+            min={0}
+            step={1}
+            className="w-24 h-8 text-xs"
+            placeholder="Flottant"
+            value={earthResistance}
+            onChange={(e) => setEarthResistance(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Limite EQUI8</Label>
+          <Select value={thermalWindow} onValueChange={(value) => setThermalWindow(value as EQUI8ThermalWindow)}>
+            <SelectTrigger className="w-28 bg-background border text-xs h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border z-[10000]">
+              <SelectItem value="15min">80 A / 15 min</SelectItem>
+              <SelectItem value="3h">60 A / 3 h</SelectItem>
+              <SelectItem value="permanent">45 A permanent</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" className="flex-1" onClick={handleRun} disabled={running || !cableId}>
+          {running ? 'Calcul en cours...' : 'Couper le neutre'}
+        </Button>
+      </div>
+
+      {result && (
+        <>
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant="outline">Déplacement du neutre : {result.neutralShift_V.toFixed(1)} V</Badge>
+            {worstNode && (
+              <Badge variant={worstNode.severity === 'normal' ? 'success' : 'destructive'}>
+                Max : {worstNode.maxVoltage_V.toFixed(1)} V ({worstNode.nodeName})
+              </Badge>
+            )}
+            <Badge variant="outline">
+              Clients &gt; 253 V : {exposedClients.length} / {result.clients.length}
+              {dangerousCount > 0 ? ` (dont ${dangerousCount} > 300 V)` : ''}
+            </Badge>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Nœud</TableHead>
+                <TableHead className="text-xs text-right">A / B / C (V)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.nodes.map(n => (
+                <TableRow key={n.nodeId}>
+                  <TableCell className="text-xs">{n.nodeName}</TableCell>
+                  <TableCell className={`text-xs text-right ${severityClasses[n.severity]}`}>
+                    {n.faultVoltages_V.A.toFixed(0)} / {n.faultVoltages_V.B.toFixed(0)} / {n.faultVoltages_V.C.toFixed(0)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {exposedClients.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Client exposé</TableHead>
+                  <TableHead className="text-xs">Phase</TableHead>
+                  <TableHead className="text-xs text-right">Tension (V)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {exposedClients.slice(0, MAX_DISPLAYED_CLIENTS).map(c => (
+                  <TableRow key={c.clientId}>
+                    <TableCell className="text-xs">{c.clientName}</TableCell>
+                    <TableCell className="text-xs">{c.phase ?? 'Poly'}</TableCell>
+                    <TableCell className={`text-xs text-right ${severityClasses[c.severity]}`}>{c.voltage_V.toFixed(1)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">EQUI8 au nœud</TableHead>
+                <TableHead className="text-xs text-right">Max (V)</TableHead>
+                <TableHead className="text-xs text-right">I EQUI8 (A)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.mitigations.slice(0, MAX_DISPLAYED_MITIGATIONS).map(m => (
+                <TableRow key={m.nodeId}>
+                  <TableCell className="text-xs">
+                    {m.nodeName}
+                    {m.existing && <Badge variant="secondary" className="ml-1 text-[10px]">installé</Badge>}
+                  </TableCell>
+                  <TableCell className={`text-xs text-right ${m.mitigates ? 'text-success' : ''}`}>{m.maxVoltage_V.toFixed(1)}</TableCell>
+                  <TableCell className={`text-xs text-right ${m.isLimited ? 'text-destructive' : ''}`}>
+                    {m.equi8Current_A.toFixed(0)} / {m.thermalLimit_A}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+};
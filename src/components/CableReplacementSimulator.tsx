@@ -15,15 +15,18 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Cable, ArrowRightLeft, CheckCircle, Trash2, TrendingDown } from 'lucide-react';
 import { CableReplacementConfig } from '@/types/network';
+import { getEffectiveAmpacity, getCableMaxCurrent } from '@/utils/cableDerating';
 
 interface SimulationComparisonResult {
   before: {
     maxVoltageDrop: number;
     losses: number;
+    overloadedCables: number;
   };
   after: {
     maxVoltageDrop: number;
     losses: number;
+    overloadedCables: number;
   };
   gains: {
     voltageDropReduction: number;
@@ -98,7 +101,7 @@ export const CableReplacementSimulator: React.FC = () => {
 
   // Compute simulation results comparison
   const simulationComparison = useMemo((): SimulationComparisonResult | null => {
-    if (!isReplacementActive || !cableReplacementConfig) return null;
+    if (!currentProject || !isReplacementActive || !cableReplacementConfig) return null;
     
     const baseResult = calculationResults[selectedScenario];
     const simResult = simulationResults[selectedScenario];
@@ -109,15 +112,23 @@ export const CableReplacementSimulator: React.FC = () => {
     const beforeLosses = baseResult.globalLosses_kW ?? 0;
     const afterMaxVoltageDrop = simResult.maxVoltageDropPercent ?? 0;
     const afterLosses = simResult.globalLosses_kW ?? 0;
+
+    // Surcharges jugées sur l'ampacité effective : les conditions de pose restent celles du tronçon remplacé
+    const countOverloaded = (cables: typeof baseResult.cables) => cables.filter(cable => {
+      const ampacity_A = getEffectiveAmpacity(cable, currentProject.cableTypes);
+      return !!ampacity_A && getCableMaxCurrent(cable) > ampacity_A;
+    }).length;
     
     return {
       before: {
         maxVoltageDrop: beforeMaxVoltageDrop,
         losses: beforeLosses,
+        overloadedCables: countOverloaded(baseResult.cables),
       },
       after: {
         maxVoltageDrop: afterMaxVoltageDrop,
         losses: afterLosses,
+        overloadedCables: countOverloaded(simResult.cables),
       },
       gains: {
         voltageDropReduction: beforeMaxVoltageDrop > 0 
@@ -129,7 +140,7 @@ export const CableReplacementSimulator: React.FC = () => {
       },
       replacedCablesCount: cableReplacementConfig.affectedCableIds.length,
     };
-  }, [isReplacementActive, cableReplacementConfig, calculationResults, simulationResults, selectedScenario]);
+  }, [currentProject, isReplacementActive, cableReplacementConfig, calculationResults, simulationResults, selectedScenario]);
 
   const handleCableTypeToggle = (typeId: string) => {
     setSelectedCableTypes(prev => 
@@ -301,6 +312,18 @@ export const CableReplacementSimulator: React.FC = () => {
                   </span>
                 </div>
               )}
+              {simulationComparison && (
+                <div className="flex justify-between">
+                  <span>Tronçons en surcharge :</span>
+                  <span className="font-mono">
+                    <span className="text-muted-foreground">{simulationComparison.before.overloadedCables}</span>
+                    <span className="mx-1">→</span>
+                    <span className={simulationComparison.after.overloadedCables > 0 ? 'text-destructive font-medium' : 'text-emerald-600 font-medium'}>
+                      {simulationComparison.after.overloadedCables}
+                    </span>
+                  </span>
+                </div>
+              )}
             </div>
           </div>
         )}
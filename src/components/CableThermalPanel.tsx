@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNetworkStore } from "@/store/networkStore";
+import { DailyProfileCalculator } from "@/utils/dailyProfileCalculator";
+import { CableThermalDailyResult } from "@/types/dailyProfile";
+import { Flame } from "lucide-react";
+import { toast } from "sonner";
+
+interface CableThermalPanelProps {
+  hasActiveSimulation: boolean;
+}
+
+export const CableThermalPanel = ({ hasActiveSimulation }: CableThermalPanelProps) => {
+  const {
+    currentProject,
+    simulationEquipment,
+    dailyProfileOptions,
+    dailyProfileCustomProfiles,
+    measuredProfile
+  } = useNetworkStore();
+
+  const [running, setRunning] = useState(false);
+  const [daily, setDaily] = useState<CableThermalDailyResult | null>(null);
+
+  if (!currentProject) return null;
+
+  const handleDaily = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        const calculator = new DailyProfileCalculator(
+          currentProject,
+          { ...dailyProfileOptions, cableThermalModel: true },
+          dailyProfileCustomProfiles,
+          hasActiveSimulation ? simulationEquipment : undefined,
+          hasActiveSimulation,
+          dailyProfileOptions.useMeasuredProfile ? measuredProfile ?? undefined : undefined
+        );
+        setDaily(calculator.calculateDailyCableTemperatures());
+      } catch (error) {
+        console.error('Erreur thermique câbles 24h:', error);
+        toast.error('Erreur lors du calcul thermique des câbles sur 24h');
+      } finally {
+        setRunning(false);
+      }
+    }, 50);
+  };
+
+  const overheated = daily?.cables.filter(c => c.hoursAboveRated > 0) ?? [];
+
+  return (
+    <Card className="bg-card/50 backdrop-blur border-border/50">
+      <CardHeader className="pb-2 pt-3 px-4">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Flame className="h-4 w-4 text-primary" />
+          Thermique des câbles (transitoire)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          La température des conducteurs suit le courant avec une constante de temps par câble (défaut : 15 min en aérien,
+          2 h en souterrain). La résistance de chaque heure est corrigée à la température atteinte en début d'heure.
+        </p>
+
+        <div className="flex items-center justify-between pt-2 border-t border-border">
+          <span className="text-xs text-muted-foreground">Saison, météo et profils de l'onglet 24h</span>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleDaily} disabled={running}>
+            {running ? 'Calcul...' : 'Calculer sur 24h'}
+          </Button>
+        </div>
+
+        {daily && (
+          <>
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant={overheated.length > 0 ? 'destructive' : 'success'}>
+                {overheated.length} câble(s) au-delà de la température admissible
+              </Badge>
+              {daily.cables[0] && (
+                <Badge variant="secondary">
+                  Pic {daily.cables[0].peakTemperature_C.toFixed(1)}°C ({daily.cables[0].cableName})
+                </Badge>
+              )}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Câble</TableHead>
+                  <TableHead className="text-xs text-right">τ (min)</TableHead>
+                  <TableHead className="text-xs text-right">T max (°C)</TableHead>
+                  <TableHead className="text-xs text-right">T établi max (°C)</TableHead>
+                  <TableHead className="text-xs text-right">T admissible (°C)</TableHead>
+                  <TableHead className="text-xs text-right">Heures &gt; adm.</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {daily.cables.slice(0, 15).map(cable => (
+                  <TableRow key={cable.cableId}>
+                    <TableCell className="text-xs">{cable.cableName}</TableCell>
+                    <TableCell className="text-xs text-right">{cable.timeConstant_min}</TableCell>
+                    <TableCell className={`text-xs text-right ${cable.hoursAboveRated > 0 ? 'text-destructive' : ''}`}>
+                      {cable.peakTemperature_C.toFixed(1)} ({cable.peakHour}h)
+                    </TableCell>
+                    <TableCell className="text-xs text-right">{cable.steadyStatePeakTemperature_C.toFixed(1)}</TableCell>
+                    <TableCell className="text-xs text-right">{cable.ratedTemperature_C.toFixed(0)}</TableCell>
+                    <TableCell className="text-xs text-right">{cable.hoursAboveRated}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {daily.cables.length > 15 && (
+              <p className="text-[10px] text-muted-foreground">
+                15 câbles les plus chauds affichés sur {daily.cables.length}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,264 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileText, MapPin } from "lucide-react";
+import { useNetworkStore } from "@/store/networkStore";
+import { branchementCableTypes } from "@/data/branchementCableTypes";
+import { runConnectionStudy, findNearestNode, describeConnectionConstraint, verdictLabels } from "@/utils/connectionFeasibility";
+import { PDFGenerator } from "@/utils/pdfGenerator";
+import { ClientConnectionType, ClientType, ConnectionStudyResult } from "@/types/network";
+import { toast } from "sonner";
+
+// Nombre de nœuds affichés dans la comparaison avant / après
+const MAX_DISPLAYED_NODES = 6;
+
+const verdictVariants: Record<ConnectionStudyResult['verdict'], 'success' | 'warning' | 'destructive'> = {
+  accepted: 'success',
+  accepted_with_works: 'warning',
+  refused: 'destructive'
+};
+
+export const ConnectionStudyPanel = () => {
+  const {
+    currentProject,
+    simulationEquipment,
+    isSimulationActive,
+    dailyProfileCustomProfiles,
+    selectedBranchementCableId,
+    selectingLocationForNewClient,
+    pendingClientLocation,
+    startClientLocationSelection,
+    clearPendingClientLocation
+  } = useNetworkStore();
+
+  const [nomCircuit, setNomCircuit] = useState('Nouveau raccordement');
+  const [existingClientId, setExistingClientId] = useState<string>('none');
+  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [nodeId, setNodeId] = useState<string>('');
+  const [charge, setCharge] = useState(12);
+  const [pv, setPv] = useState(0);
+  const [connectionType, setConnectionType] = useState<ClientConnectionType>('MONO');
+  const [clientType, setClientType] = useState<ClientType>('résidentiel');
+  const [cableId, setCableId] = useState(selectedBranchementCableId || branchementCableTypes[0].id);
+  const [awaitingLocation, setAwaitingLocation] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<ConnectionStudyResult | null>(null);
+
+  // Position choisie sur la carte : nœud le plus proche par défaut
+  useEffect(() => {
+    if (!awaitingLocation || !pendingClientLocation || !currentProject) return;
+    setLocation(pendingClientLocation);
+    setNodeId(findNearestNode(currentProject, pendingClientLocation.lat, pendingClientLocation.lng) ?? '');
+    setAwaitingLocation(false);
+    clearPendingClientLocation();
+  }, [awaitingLocation, pendingClientLocation, currentProject, clearPendingClientLocation]);
+
+  useEffect(() => {
+    if (awaitingLocation && !selectingLocationForNewClient && !pendingClientLocation) setAwaitingLocation(false);
+  }, [awaitingLocation, selectingLocationForNewClient, pendingClientLocation]);
+
+  if (!currentProject) return null;
+
+  const linkedClients = (currentProject.clientsImportes ?? []).filter(c =>
+    currentProject.clientLinks?.some(l => l.clientId === c.id)
+  );
+
+  const handlePickLocation = () => {
+    setAwaitingLocation(true);
+    startClientLocationSelection();
+    toast.info('Cliquez sur la carte pour placer le client envisagé');
+  };
+
+  const handleExistingClient = (value: string) => {
+    setExistingClientId(value);
+    const client = linkedClients.find(c => c.id === value);
+    if (!client) return;
+    // Augmentation de puissance : partir des caractéristiques actuelles du client
+    setNomCircuit(client.nomCircuit);
+    setLocation({ lat: client.lat, lng: client.lng });
+    setNodeId(currentProject.clientLinks?.find(l => l.clientId === client.id)?.nodeId ?? '');
+    setCharge(client.puissanceContractuelle_kVA);
+    setPv(client.puissancePV_kVA);
+    setConnectionType(client.connectionType ?? 'MONO');
+    setClientType(client.clientType ?? 'résidentiel');
+  };
+
+  const handleRun = () => {
+    if (!location || !nodeId) {
+      toast.error('Veuillez placer le client sur la carte');
+      return;
+    }
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        setResult(runConnectionStudy(currentProject, {
+          nomCircuit: nomCircuit.trim() || 'Nouveau raccordement',
+          lat: location.lat,
+          lng: location.lng,
+          nodeId,
+          puissanceContractuelle_kVA: charge,
+          puissancePV_kVA: pv,
+          connectionType,
+          clientType,
+          branchementCableId: cableId,
+          existingClientId: existingClientId !== 'none' ? existingClientId : undefined
+        }, {
+          simulationEquipment: isSimulationActive ? simulationEquipment : undefined,
+          dailyProfiles: dailyProfileCustomProfiles
+        }));
+      } catch (error) {
+        console.error('Erreur étude de raccordement:', error);
+        toast.error('Erreur lors de l\'étude de raccordement');
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const handleExportPDF = () => {
+    if (!result) return;
+    new PDFGenerator().generateConnectionStudyReport(currentProject, result);
+    toast.success('Rapport de raccordement généré');
+  };
+
+  const impactedNodes = result
+    ? [...result.nodes]
+        .sort((a, b) => Math.abs(b.after_percent - b.before_percent) - Math.abs(a.after_percent - a.before_percent))
+        .slice(0, MAX_DISPLAYED_NODES)
+    : [];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Client fictif placé sur la carte, comparé au réseau actuel sans modifier le projet.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Input className="h-8 text-xs col-span-2" value={nomCircuit} onChange={(e) => setNomCircuit(e.target.value)} />
+        {linkedClients.length > 0 && (
+          <Select value={existingClientId} onValueChange={handleExistingClient}>
+            <SelectTrigger className="col-span-2 bg-background border text-xs h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border z-[10000]">
+              <SelectItem value="none">Nouveau client</SelectItem>
+              {linkedClients.map(c => (
+                <SelectItem key={c.id} value={c.id}>Augmentation : {c.nomCircuit}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="space-y-1">
+          <Label className="text-[10px] text-muted-foreground">Charge (kVA)</Label>
+          <Input type="number" className="h-8 text-xs" min={0} value={charge} onChange={(e) => setCharge(Math.max(0, Number(e.target.value)))} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-[10px] text-muted-foreground">PV (kVA)</Label>
+          <Input type="number" className="h-8 text-xs" min={0} value={pv} onChange={(e) => setPv(Math.max(0, Number(e.target.value)))} />
+        </div>
+        <Select value={connectionType} onValueChange={(value) => setConnectionType(value as ClientConnectionType)}>
+          <SelectTrigger className="bg-background border text-xs h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border z-[10000]">
+            <SelectItem value="MONO">Monophasé</SelectItem>
+            <SelectItem value="TRI">Triphasé</SelectItem>
+            <SelectItem value="TETRA">Tétraphasé</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={clientType} onValueChange={(value) => setClientType(value as ClientType)}>
+          <SelectTrigger className="bg-background border text-xs h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border z-[10000]">
+            <SelectItem value="résidentiel">Résidentiel</SelectItem>
+            <SelectItem value="industriel">Industriel</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={cableId} onValueChange={setCableId}>
+          <SelectTrigger className="col-span-2 bg-background border text-xs h-8">
+            <SelectValue placeholder="Câble de branchement" />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border z-[10000]">
+            {branchementCableTypes.map(cable => (
+              <SelectItem key={cable.id} value={cable.id}>{cable.label} ({cable.maxCurrent_A} A)</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handlePickLocation} disabled={awaitingLocation}>
+          <MapPin className="h-3 w-3 mr-1" />
+          {awaitingLocation ? 'Cliquez sur la carte...' : location ? 'Déplacer' : 'Placer'}
+        </Button>
+        <Select value={nodeId} onValueChange={setNodeId} disabled={!location}>
+          <SelectTrigger className="flex-1 bg-background border text-xs h-8">
+            <SelectValue placeholder="Nœud de raccordement" />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border z-[10000]">
+            {currentProject.nodes.map(n => (
+              <SelectItem key={n.id} value={n.id}>{n.name || n.id}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Button size="sm" className="w-full" onClick={handleRun} disabled={running || !location}>
+        {running ? 'Calcul en cours...' : 'Étudier le raccordement'}
+      </Button>
+
+      {result && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant={verdictVariants[result.verdict]}>{verdictLabels[result.verdict]}</Badge>
+            <Badge variant="outline">
+              Point client : {result.clientVoltageMin_V.toFixed(1)} – {result.clientVoltageMax_V.toFixed(1)} V
+            </Badge>
+            {result.assignedPhase && <Badge variant="secondary">Phase {result.assignedPhase}</Badge>}
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0 ml-auto" onClick={handleExportPDF} title="Rapport PDF">
+              <FileText className="h-3 w-3" />
+            </Button>
+          </div>
+
+          {result.constraints.length > 0 && (
+            <ul className="space-y-1 text-xs">
+              {result.constraints.map((c, i) => (
+                <li key={`${c.kind}-${c.elementId}-${c.scenario ?? ''}-${i}`} className={c.remedy ? 'text-muted-foreground' : 'text-destructive'}>
+                  {describeConnectionConstraint(c)}
+                  {c.remedy && <span className="block pl-2">→ {c.remedy}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Nœud</TableHead>
+                <TableHead className="text-xs">Scénario</TableHead>
+                <TableHead className="text-xs text-right">Avant / Après</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {impactedNodes.map(n => (
+                <TableRow key={`${n.nodeId}-${n.scenario}`}>
+                  <TableCell className="text-xs">{n.nodeName}</TableCell>
+                  <TableCell className="text-xs">{n.scenario === 'PRÉLÈVEMENT' ? 'Prélèvement' : 'Production'}</TableCell>
+                  <TableCell className="text-xs text-right">
+                    {n.before_percent.toFixed(1)} / {n.after_percent.toFixed(1)}%
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+};
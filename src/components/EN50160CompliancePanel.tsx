@@ -0,0 +1,106 @@
+import { useState, useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { EN50160Evaluation } from "@/types/dailyProfile";
+import { EN50160_LIMITS } from "@/utils/en50160Evaluator";
+
+interface EN50160CompliancePanelProps {
+  evaluation: EN50160Evaluation;
+}
+
+/**
+ * Conformité statistique EN50160 (95% des valeurs 10 min dans ±10%, 100% dans +10%/-15%)
+ */
+export const EN50160CompliancePanel = ({ evaluation }: EN50160CompliancePanelProps) => {
+  const [kind, setKind] = useState<'node' | 'client'>('node');
+
+  const rows = useMemo(() => {
+    const list = kind === 'node' ? evaluation.nodes : evaluation.clients;
+    // Non conformes d'abord, puis par part croissante dans ±10%
+    return [...list].sort((a, b) =>
+      Number(a.compliant) - Number(b.compliant) || a.worstWeek.percentWithin10 - b.worstWeek.percentWithin10
+    );
+  }, [evaluation, kind]);
+
+  const nodeFailures = evaluation.nodes.filter(n => !n.compliant).length;
+  const clientFailures = evaluation.clients.filter(c => !c.compliant).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <Badge variant={evaluation.compliant ? 'outline' : 'destructive'}>
+          {evaluation.compliant ? 'Conforme' : 'Non conforme'}
+        </Badge>
+        <Badge variant={nodeFailures > 0 ? 'warning' : 'secondary'}>
+          Nœuds : {evaluation.nodes.length - nodeFailures}/{evaluation.nodes.length}
+        </Badge>
+        {evaluation.clients.length > 0 && (
+          <Badge variant={clientFailures > 0 ? 'warning' : 'secondary'}>
+            Clients : {evaluation.clients.length - clientFailures}/{evaluation.clients.length}
+          </Badge>
+        )}
+        <div className="flex gap-1 ml-auto">
+          <Button
+            size="sm"
+            variant={kind === 'node' ? 'default' : 'outline'}
+            onClick={() => setKind('node')}
+            className="h-6 text-[10px] px-2"
+          >
+            Nœuds
+          </Button>
+          <Button
+            size="sm"
+            variant={kind === 'client' ? 'default' : 'outline'}
+            onClick={() => setKind('client')}
+            className="h-6 text-[10px] px-2"
+            disabled={evaluation.clients.length === 0}
+          >
+            Clients
+          </Button>
+        </div>
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        {EN50160_LIMITS.required_percent}% des valeurs 10 min dans ±{EN50160_LIMITS.band95_percent}% de {evaluation.nominalVoltage_V}V,
+        100% dans +{EN50160_LIMITS.upper100_percent}% / {EN50160_LIMITS.lower100_percent}%
+        {evaluation.representativeWeek ? ` — ${evaluation.duration_h.toFixed(0)} h considérées représentatives de la semaine` : ''}
+      </p>
+
+      <ScrollArea className="h-[220px]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs">{kind === 'node' ? 'Nœud' : 'Client'}</TableHead>
+              <TableHead className="text-xs text-right">P5 / P95</TableHead>
+              <TableHead className="text-xs text-right">Min / Max</TableHead>
+              <TableHead className="text-xs text-right">Dans ±10%</TableHead>
+              <TableHead className="text-xs text-center">Bande 100%</TableHead>
+              <TableHead className="text-xs text-center">Verdict</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.id}>
+                <TableCell className="text-xs">{row.label}</TableCell>
+                <TableCell className="text-xs text-right">
+                  {row.worstWeek.p5_V.toFixed(1)} / {row.worstWeek.p95_V.toFixed(1)} V
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {row.worstWeek.min_V.toFixed(0)} / {row.worstWeek.max_V.toFixed(0)} V
+                </TableCell>
+                <TableCell className="text-xs text-right">{row.worstWeek.percentWithin10.toFixed(1)}%</TableCell>
+                <TableCell className="text-xs text-center">{row.worstWeek.within100Band ? '✓' : '✗'}</TableCell>
+                <TableCell className="text-xs text-center">
+                  <Badge variant={row.compliant ? 'outline' : 'destructive'} className="text-[10px] px-1.5 py-0">
+                    {row.compliant ? 'OK' : 'NOK'}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNetworkStore } from "@/store/networkStore";
+import { createDefaultEVFleetSettings, collectEVClients, EV_CHARGER_POWERS } from "@/utils/evCharging";
+import { DailyProfileCalculator } from "@/utils/dailyProfileCalculator";
+import { EVChargerPower, EVChargingStrategy, EVFleetSettings } from "@/types/network";
+import { EVDailyResult } from "@/types/dailyProfile";
+import { Car } from "lucide-react";
+import { toast } from "sonner";
+
+const STRATEGY_LABELS: Record<EVChargingStrategy, string> = {
+  uncontrolled: 'Non pilotée (dès l\'arrivée)',
+  delayed_night: 'Report en heures creuses',
+  voltage_limited: 'Limitée en tension'
+};
+
+const CONSTRAINT_LABELS: Record<EVDailyResult['feeders'][number]['limitingConstraint'], string> = {
+  undervoltage: 'Sous-tension',
+  overcurrent: 'Surcharge câble',
+  none: 'Aucune'
+};
+
+interface EVFleetPanelProps {
+  hasActiveSimulation: boolean;
+}
+
+export const EVFleetPanel = ({ hasActiveSimulation }: EVFleetPanelProps) => {
+  const {
+    currentProject,
+    simulationEquipment,
+    dailyProfileOptions,
+    dailyProfileCustomProfiles,
+    measuredProfile,
+    setEVFleetSettings,
+    setClientsEVCharger
+  } = useNetworkStore();
+
+  const [running, setRunning] = useState(false);
+  const [daily, setDaily] = useState<EVDailyResult | null>(null);
+  const [chargerPower, setChargerPower] = useState<EVChargerPower>(7.4);
+  const [sharePercent, setSharePercent] = useState(30);
+
+  if (!currentProject) return null;
+
+  const settings: EVFleetSettings = currentProject.evFleet ?? { ...createDefaultEVFleetSettings(), enabled: false };
+  const evClients = collectEVClients(currentProject);
+  const linkedClients = (currentProject.clientLinks ?? []).flatMap(link =>
+    currentProject.clientsImportes?.filter(c => c.id === link.clientId) ?? []
+  );
+  const unequippedClients = linkedClients.filter(c => !c.evCharger && c.clientType !== 'industriel');
+
+  const update = (updates: Partial<EVFleetSettings>) => {
+    setEVFleetSettings({ ...settings, ...updates });
+    setDaily(null);
+  };
+
+  const handleEquip = () => {
+    const count = Math.round(unequippedClients.length * sharePercent / 100);
+    if (count === 0) return;
+    // 3,7 / 7,4 kW en monophasé, 11 / 22 kW en triphasé
+    setClientsEVCharger(
+      unequippedClients.slice(0, count).map(c => c.id),
+      { power_kW: chargerPower, connection: chargerPower <= 7.4 ? 'MONO' : 'TRI' }
+    );
+    setDaily(null);
+    toast.success(`${count} borne(s) de ${chargerPower} kW ajoutée(s)`);
+  };
+
+  const handleClear = () => {
+    setClientsEVCharger(evClients.map(e => e.client.id), null);
+    setDaily(null);
+  };
+
+  const handleDaily = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        const calculator = new DailyProfileCalculator(
+          { ...currentProject, evFleet: { ...settings, enabled: true } },
+          dailyProfileOptions,
+          dailyProfileCustomProfiles,
+          hasActiveSimulation ? simulationEquipment : undefined,
+          hasActiveSimulation,
+          dailyProfileOptions.useMeasuredProfile ? measuredProfile ?? undefined : undefined
+        );
+        setDaily(calculator.calculateDailyEV());
+      } catch (error) {
+        console.error('Erreur recharge VE 24h:', error);
+        toast.error('Erreur lors du calcul de la recharge VE sur 24h');
+      } finally {
+        setRunning(false);
+      }
+    }, 50);
+  };
+
+  const numberField = (label: string, key: keyof EVFleetSettings, step = 0.5) => (
+    <div className="space-y-1">
+      <Label className="text-[10px] text-muted-foreground">{label}</Label>
+      <Input
+        type="number"
+        step={step}
+        className="h-7 text-xs px-1"
+        value={settings[key] as number}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="bg-card/50 backdrop-blur border-border/50">
+      <CardHeader className="pb-2 pt-3 px-4">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Car className="h-4 w-4 text-primary" />
+            Flotte de véhicules électriques
+          </CardTitle>
+          <Switch checked={settings.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+        </div>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Bornes attachées aux clients, arrivées et départs selon une loi normale. Activée, la flotte remplace
+          la majoration VE forfaitaire du profil résidentiel.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Badge variant="secondary">{evClients.length} borne(s) sur {linkedClients.length} client(s) lié(s)</Badge>
+          <Select value={String(chargerPower)} onValueChange={(value) => setChargerPower(Number(value) as EVChargerPower)}>
+            <SelectTrigger className="bg-background border text-xs h-7 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border z-[10000]">
+              {EV_CHARGER_POWERS.map(power => (
+                <SelectItem key={power} value={String(power)}>{power} kW {power <= 7.4 ? 'mono' : 'tri'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            className="h-7 text-xs px-1 w-16"
+            value={sharePercent}
+            onChange={(e) => setSharePercent(Number(e.target.value))}
+          />
+          <span className="text-muted-foreground">% des résidentiels sans borne</span>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleEquip} disabled={unequippedClients.length === 0}>
+            Équiper
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleClear} disabled={evClients.length === 0}>
+            Retirer les bornes
+          </Button>
+        </div>
+
+        <Select value={settings.strategy} onValueChange={(value) => update({ strategy: value as EVChargingStrategy })}>
+          <SelectTrigger className="bg-background border text-xs h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border z-[10000]">
+            {(Object.keys(STRATEGY_LABELS) as EVChargingStrategy[]).map(strategy => (
+              <SelectItem key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="grid grid-cols-5 gap-2">
+          {numberField('Arrivée (h)', 'arrivalMean_h')}
+          {numberField('σ arrivée (h)', 'arrivalStdDev_h')}
+          {numberField('Départ (h)', 'departureMean_h')}
+          {numberField('σ départ (h)', 'departureStdDev_h')}
+          {numberField('kWh / recharge', 'energyPerSession_kWh', 1)}
+          {settings.strategy === 'delayed_night' && numberField('Heures creuses (h)', 'nightStart_h', 1)}
+          {settings.strategy === 'voltage_limited' && numberField('Seuil tension (V)', 'voltageLimit_V', 1)}
+        </div>
+
+        <div className="flex items-center justify-between pt-2 border-t border-border">
+          <span className="text-xs text-muted-foreground">Nœud, saison et météo de l'onglet 24h</span>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleDaily} disabled={running || evClients.length === 0}>
+            {running ? 'Calcul...' : 'Calculer sur 24h'}
+          </Button>
+        </div>
+
+        {daily && (
+          <>
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant="secondary">{daily.totalEnergy_kWh.toFixed(1)} kWh rechargés</Badge>
+              <Badge variant={daily.unservedEnergy_kWh > 0.05 ? 'warning' : 'success'}>
+                {daily.unservedEnergy_kWh.toFixed(1)} kWh non délivrés
+              </Badge>
+              <Badge variant="secondary">Pointe à {daily.peakHour}h</Badge>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Heure</TableHead>
+                  <TableHead className="text-xs text-right">P (kW)</TableHead>
+                  <TableHead className="text-xs text-right">Reporté (kWh)</TableHead>
+                  <TableHead className="text-xs text-right">U min (V)</TableHead>
+                  <TableHead className="text-xs text-right">I neutre (A)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {daily.hours.filter(h => h.totalPower_kW > 0 || h.curtailed_kWh > 0).map(h => (
+                  <TableRow key={h.hour}>
+                    <TableCell className="text-xs">{h.hour}h</TableCell>
+                    <TableCell className="text-xs text-right">{h.totalPower_kW.toFixed(1)}</TableCell>
+                    <TableCell className="text-xs text-right">{h.curtailed_kWh.toFixed(1)}</TableCell>
+                    <TableCell className={`text-xs text-right ${h.minVoltage_V < 207 ? 'text-destructive' : ''}`}>
+                      {h.minVoltage_V.toFixed(1)}
+                    </TableCell>
+                    <TableCell className="text-xs text-right">{h.maxNeutralCurrent_A.toFixed(1)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {daily.feeders.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Départ</TableHead>
+                    <TableHead className="text-xs text-right">Bornes</TableHead>
+                    <TableHead className="text-xs text-right">+ 7,4 kW acceptables</TableHead>
+                    <TableHead className="text-xs">Contrainte</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {daily.feeders.map(feeder => (
+                    <TableRow key={feeder.feederCableId}>
+                      <TableCell className="text-xs">{feeder.feederName}</TableCell>
+                      <TableCell className="text-xs text-right">{feeder.existingChargers}</TableCell>
+                      <TableCell className="text-xs text-right">{feeder.additionalChargers}</TableCell>
+                      <TableCell className="text-xs">{CONSTRAINT_LABELS[feeder.limitingConstraint]}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
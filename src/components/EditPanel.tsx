@@ -5,13 +5,25 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
-import { Trash2, Plus, Target, Zap, Network } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Trash2, Plus, Target, Zap, Network, SlidersHorizontal } from 'lucide-react';
 import { useNetworkStore } from '@/store/networkStore';
-import { ConnectionType, VoltageSystem, ClientCharge, ProductionPV, LoadModel } from '@/types/network';
+import { ConnectionType, VoltageSystem, ClientCharge, ProductionPV, LoadModel, ProtectionDeviceType } from '@/types/network';
 import { getNodeConnectionType } from '@/utils/nodeConnectionType';
 import { getLinkedClientsForNode } from '@/utils/clientsUtils';
+import { getTransformerTypes, applyTransformerType } from '@/utils/transformerCatalogue';
 import { toast } from 'sonner';
 import { ClientEditPanel } from './ClientEditPanel';
+import { protectionDevices, getProtectionDeviceDefinition } from '@/data/protectionDevices';
+import { InverterCurveEditor } from './InverterCurveEditor';
+import { createDefaultInverterControlSettings } from '@/utils/inverterControl';
+import {
+  createDefaultCableInstallation,
+  getCableDeratingFactors,
+  REFERENCE_BURIAL_DEPTH_M,
+  REFERENCE_SOIL_RESISTIVITY_KMW
+} from '@/utils/cableDerating';
+import { getThermalTimeConstant } from '@/utils/thermalModel';
 
 export const EditPanel = () => {
   const {
@@ -30,9 +42,11 @@ export const EditPanel = () => {
   } = useNetworkStore();
 
   const [formData, setFormData] = useState<any>({});
+  const [inverterProductionId, setInverterProductionId] = useState<string | null>(null);
 
   const selectedNode = currentProject?.nodes?.find(n => n.id === selectedNodeId);
   const selectedCable = currentProject?.cables?.find(c => c.id === selectedCableId);
+  const isMainSource = !!selectedNode && currentProject?.nodes.find(n => n.isSource)?.id === selectedNode.id;
 
   // Récupérer les clients importés liés au nœud sélectionné
   const linkedClients = selectedNode && currentProject?.clientsImportes && currentProject?.clientLinks
@@ -66,14 +80,22 @@ export const EditPanel = () => {
           clients: [...(selectedNode.clients || [])],
           productions: [...(selectedNode.productions || [])],
           tensionCible: selectedNode.tensionCible || '',
-          transformerConfig: selectedNode.isSource ? currentProject?.transformerConfig : undefined,
+          isSource: !!selectedNode.isSource,
+          transformerConfig: selectedNode.isSource
+            ? (selectedNode.transformerConfig ?? currentProject?.transformerConfig)
+            : undefined,
           manualLoadType: selectedNode.manualLoadType || 'POLY'
         });
       } else if (editTarget === 'cable' && selectedCable) {
         setFormData({
           name: selectedCable.name,
           typeId: selectedCable.typeId,
-          pose: selectedCable.pose
+          pose: selectedCable.pose,
+          switchState: selectedCable.switchState,
+          switchLocation: selectedCable.switchLocation,
+          protection: selectedCable.protection,
+          installation: selectedCable.installation,
+          thermalTimeConstant_min: selectedCable.thermalTimeConstant_min
         });
       } else if (editTarget === 'project' && currentProject) {
         setFormData({
@@ -265,6 +287,83 @@ export const EditPanel = () => {
                 </p>
               </div>
 
+              {/* Poste source secondaire (réseau multi-postes) */}
+              {!isMainSource && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">🏭 Poste source</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-start space-x-2">
+                      <input
+                        type="checkbox"
+                        id="secondarySource"
+                        checked={!!formData.isSource}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          isSource: e.target.checked,
+                          transformerConfig: e.target.checked
+                            ? (formData.transformerConfig ?? { ...currentProject?.transformerConfig, sourceVoltage: undefined })
+                            : undefined
+                        })}
+                        className="mt-1 rounded border-gray-300"
+                      />
+                      <div className="flex-1">
+                        <Label htmlFor="secondarySource" className="text-sm font-medium cursor-pointer">
+                          Poste HTA/BT secondaire
+                        </Label>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Ce nœud alimente sa propre zone avec son transformateur. Il ne doit pas être relié à un autre poste.
+                        </p>
+                      </div>
+                    </div>
+
+                    {formData.isSource && formData.transformerConfig && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-1">
+                          <Label className="text-xs">Transformateur</Label>
+                          <Select
+                            value={formData.transformerConfig.typeId}
+                            onValueChange={(value) => {
+                              const type = getTransformerTypes(currentProject).find(t => t.id === value);
+                              if (!type) return;
+                              setFormData({
+                                ...formData,
+                                transformerConfig: applyTransformerType(formData.transformerConfig, type)
+                              });
+                            }}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder={`${formData.transformerConfig.nominalPower_kVA} kVA`} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {getTransformerTypes(currentProject).map(type => (
+                                <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Ucc (%)</Label>
+                          <Input
+                            type="number"
+                            step="0.1"
+                            value={formData.transformerConfig.shortCircuitVoltage_percent}
+                            onChange={(e) => setFormData({
+                              ...formData,
+                              transformerConfig: {
+                                ...formData.transformerConfig,
+                                shortCircuitVoltage_percent: Number(e.target.value) || 0
+                              }
+                            })}
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Clients importés liés - Charges */}
               {linkedClients.length > 0 && (
                 <Card>
@@ -372,7 +471,8 @@ export const EditPanel = () => {
                 </CardHeader>
                 <CardContent className="space-y-3">
                   {formData.productions?.map((prod: ProductionPV, index: number) => (
-                    <div key={prod.id} className="flex gap-2 items-end">
+                    <div key={prod.id} className="space-y-2">
+                    <div className="flex gap-2 items-end">
                       <div className="flex-1">
                         <Input
                           placeholder="Nom"
@@ -396,6 +496,14 @@ export const EditPanel = () => {
                           }}
                         />
                       </div>
+                      <Button
+                        size="sm"
+                        variant={prod.inverterControl ? 'default' : 'outline'}
+                        title="Régulation Q(U)/P(U) de l'onduleur"
+                        onClick={() => setInverterProductionId(inverterProductionId === prod.id ? null : prod.id)}
+                      >
+                        <SlidersHorizontal className="w-4 h-4" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="outline"
@@ -404,6 +512,37 @@ export const EditPanel = () => {
                         <Trash2 className="w-4 h-4" />
                       </Button>
                     </div>
+                    {inverterProductionId === prod.id && (
+                      <div className="rounded border p-2 space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-xs">Réglage propre (sinon défaut du projet)</Label>
+                          <Switch
+                            checked={!!prod.inverterControl}
+                            onCheckedChange={(checked) => {
+                              const updated = [...formData.productions];
+                              updated[index] = {
+                                ...updated[index],
+                                inverterControl: checked
+                                  ? (currentProject?.inverterControlDefault ?? createDefaultInverterControlSettings())
+                                  : undefined
+                              };
+                              setFormData({ ...formData, productions: updated });
+                            }}
+                          />
+                        </div>
+                        {prod.inverterControl && (
+                          <InverterCurveEditor
+                            settings={prod.inverterControl}
+                            onChange={(settings) => {
+                              const updated = [...formData.productions];
+                              updated[index] = { ...updated[index], inverterControl: settings };
+                              setFormData({ ...formData, productions: updated });
+                            }}
+                          />
+                        )}
+                      </div>
+                    )}
+                    </div>
                   ))}
                  </CardContent>
                </Card>
@@ -678,6 +817,208 @@ export const EditPanel = () => {
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="cable-switch">Organe de coupure</Label>
+                <Select
+                  value={formData.switchLocation || 'none'}
+                  onValueChange={(value) => setFormData({
+                    ...formData,
+                    switchLocation: value === 'none' ? undefined : value,
+                    switchState: value === 'none' ? undefined : (formData.switchState || 'closed')
+                  })}
+                >
+                  <SelectTrigger id="cable-switch">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Aucun</SelectItem>
+                    <SelectItem value="A">Extrémité A ({currentProject?.nodes.find(n => n.id === selectedCable?.nodeAId)?.name})</SelectItem>
+                    <SelectItem value="B">Extrémité B ({currentProject?.nodes.find(n => n.id === selectedCable?.nodeBId)?.name})</SelectItem>
+                  </SelectContent>
+                </Select>
+                {formData.switchLocation && (
+                  <Select
+                    value={formData.switchState || 'closed'}
+                    onValueChange={(value) => setFormData({ ...formData, switchState: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="closed">Fermé</SelectItem>
+                      <SelectItem value="open">Ouvert (point de coupure)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Un câble ouvert est ignoré par le calcul (bouclage de secours entre départs).
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="cable-protection">Protection en tête de câble</Label>
+                <Select
+                  value={formData.protection?.type || 'none'}
+                  onValueChange={(value) => {
+                    if (value === 'none') {
+                      setFormData({ ...formData, protection: undefined });
+                      return;
+                    }
+                    const definition = getProtectionDeviceDefinition(value as ProtectionDeviceType);
+                    const rating = definition?.ratings_A.includes(formData.protection?.rating_A)
+                      ? formData.protection.rating_A
+                      : definition?.ratings_A.find(r => r >= 100) ?? definition?.ratings_A[0];
+                    setFormData({ ...formData, protection: { type: value, rating_A: rating } });
+                  }}
+                >
+                  <SelectTrigger id="cable-protection">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Aucune</SelectItem>
+                    {protectionDevices.map(device => (
+                      <SelectItem key={device.type} value={device.type}>{device.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formData.protection && (
+                  <Select
+                    value={String(formData.protection.rating_A)}
+                    onValueChange={(value) => setFormData({
+                      ...formData,
+                      protection: { ...formData.protection, rating_A: Number(value) }
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getProtectionDeviceDefinition(formData.protection.type)?.ratings_A.map(rating => (
+                        <SelectItem key={rating} value={String(rating)}>{rating} A</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Protège le câble et les câbles aval jusqu'à la protection suivante.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="cable-installation">Conditions de pose</Label>
+                  <Switch
+                    id="cable-installation"
+                    checked={!!formData.installation}
+                    onCheckedChange={(checked) => setFormData({
+                      ...formData,
+                      installation: checked ? createDefaultCableInstallation(formData.pose) : undefined
+                    })}
+                  />
+                </div>
+                {formData.installation && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">
+                        {formData.pose === 'SOUTERRAIN' ? 'Câbles dans la tranchée' : 'Câbles sur la façade'}
+                      </Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={formData.installation.groupedCables}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          installation: { ...formData.installation, groupedCables: Math.max(1, parseInt(e.target.value) || 1) }
+                        })}
+                      />
+                    </div>
+                    {formData.pose === 'SOUTERRAIN' ? (
+                      <>
+                        <div className="space-y-1">
+                          <Label className="text-xs text-muted-foreground">Profondeur (m)</Label>
+                          <Input
+                            type="number"
+                            min="0.3"
+                            step="0.1"
+                            value={formData.installation.burialDepth_m ?? REFERENCE_BURIAL_DEPTH_M}
+                            onChange={(e) => setFormData({
+                              ...formData,
+                              installation: { ...formData.installation, burialDepth_m: parseFloat(e.target.value) || REFERENCE_BURIAL_DEPTH_M }
+                            })}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs text-muted-foreground">Résistivité sol (K·m/W)</Label>
+                          <Input
+                            type="number"
+                            min="0.5"
+                            step="0.1"
+                            value={formData.installation.soilThermalResistivity_KmW ?? REFERENCE_SOIL_RESISTIVITY_KMW}
+                            onChange={(e) => setFormData({
+                              ...formData,
+                              installation: {
+                                ...formData.installation,
+                                soilThermalResistivity_KmW: parseFloat(e.target.value) || REFERENCE_SOIL_RESISTIVITY_KMW
+                              }
+                            })}
+                          />
+                        </div>
+                        <div className="flex items-center gap-2 pt-5">
+                          <Switch
+                            id="cable-in-duct"
+                            checked={!!formData.installation.inDuct}
+                            onCheckedChange={(inDuct) => setFormData({ ...formData, installation: { ...formData.installation, inDuct } })}
+                          />
+                          <Label htmlFor="cable-in-duct" className="text-xs">Sous fourreau</Label>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="flex items-center gap-2 pt-5">
+                        <Switch
+                          id="cable-on-facade"
+                          checked={!!formData.installation.onFacade}
+                          onCheckedChange={(onFacade) => setFormData({ ...formData, installation: { ...formData.installation, onFacade } })}
+                        />
+                        <Label htmlFor="cable-on-facade" className="text-xs">Sur façade</Label>
+                      </div>
+                    )}
+                  </div>
+                )}
+                {(() => {
+                  const maxCurrent_A = currentProject?.cableTypes.find(t => t.id === formData.typeId)?.maxCurrent_A;
+                  if (!maxCurrent_A) return null;
+                  const derating = getCableDeratingFactors(formData.pose, formData.installation).total;
+                  return (
+                    <p className="text-xs">
+                      Iz effectif : {maxCurrent_A} A × {derating.toFixed(2)} = <span className="font-medium">{(maxCurrent_A * derating).toFixed(0)} A</span>
+                    </p>
+                  );
+                })()}
+                <p className="text-xs text-muted-foreground">
+                  Référence : câble seul, enterré à 0,8 m dans un sol à 1 K·m/W, ou torsadé à l'air libre.
+                </p>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="cable-time-constant">Constante de temps thermique (min)</Label>
+                <Input
+                  id="cable-time-constant"
+                  type="number"
+                  min="1"
+                  step="5"
+                  placeholder={String(getThermalTimeConstant({ pose: formData.pose }))}
+                  value={formData.thermalTimeConstant_min ?? ''}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    thermalTimeConstant_min: e.target.value === '' ? undefined : Math.max(1, parseFloat(e.target.value) || 1)
+                  })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Utilisée par le modèle thermique transitoire du profil 24h ; vide = valeur par défaut de la pose.
+                </p>
+              </div>
             </>
           )}
 
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNetworkStore } from "@/store/networkStore";
+import { DailyProfileCalculator } from "@/utils/dailyProfileCalculator";
+import { AnnualSimulationCalculator } from "@/utils/annualSimulationCalculator";
+import { compareEnergyLosses, DEFAULT_LOSS_PRICE_EUR_PER_KWH } from "@/utils/energyLosses";
+import { defaultAnnualSimulationOptions, EnergyLossesBreakdown, EnergyLossesLine } from "@/types/dailyProfile";
+import { toast } from "sonner";
+
+type LossPeriod = 'day' | 'year';
+
+// Nombre de câbles affichés dans le tableau
+const MAX_DISPLAYED_CABLES = 8;
+
+export const EnergyLossesPanel = () => {
+  const {
+    currentProject,
+    dailyProfileOptions,
+    dailyProfileCustomProfiles,
+    measuredProfile,
+    simulationEquipment,
+    isSimulationActive,
+    updateProjectConfig
+  } = useNetworkStore();
+  const [period, setPeriod] = useState<LossPeriod>('day');
+  const [study, setStudy] = useState<{ baseline: EnergyLossesBreakdown; simulated?: EnergyLossesBreakdown } | null>(null);
+  const [running, setRunning] = useState(false);
+
+  if (!currentProject) return null;
+
+  const price = currentProject.lossPrice_EUR_per_kWh ?? DEFAULT_LOSS_PRICE_EUR_PER_KWH;
+
+  // Pertes de la période pour le réseau de référence ou avec les équipements de simulation
+  const calculateLosses = (withSimulation: boolean): EnergyLossesBreakdown => {
+    const equipment = withSimulation ? simulationEquipment : undefined;
+    if (period === 'year') {
+      return new AnnualSimulationCalculator(
+        currentProject,
+        {
+          ...defaultAnnualSimulationOptions,
+          enableEV: dailyProfileOptions.enableEV,
+          evBonusEvening: dailyProfileOptions.evBonusEvening,
+          evBonusNight: dailyProfileOptions.evBonusNight
+        },
+        dailyProfileCustomProfiles,
+        equipment,
+        withSimulation
+      ).calculateAnnual().energyLosses;
+    }
+    return new DailyProfileCalculator(
+      currentProject,
+      dailyProfileOptions,
+      dailyProfileCustomProfiles,
+      equipment,
+      withSimulation,
+      dailyProfileOptions.useMeasuredProfile ? measuredProfile ?? undefined : undefined
+    ).calculateDailyEnergyLosses();
+  };
+
+  const handleRun = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        setStudy({
+          baseline: calculateLosses(false),
+          simulated: isSimulationActive ? calculateLosses(true) : undefined
+        });
+      } catch (error) {
+        console.error('Erreur calcul des pertes:', error);
+        toast.error('Erreur lors du calcul des pertes d\'énergie');
+      } finally {
+        setRunning(false);
+      }
+    }, 50);
+  };
+
+  const comparison = study ? compareEnergyLosses(currentProject, study.baseline, study.simulated, price) : null;
+  const unit = study && study.baseline.hours > 24 ? 'kWh/an' : 'kWh/j';
+
+  const lossRow = (line: EnergyLossesLine) => (
+    <TableRow key={line.id}>
+      <TableCell className="text-xs">{line.name}</TableCell>
+      <TableCell className="text-xs text-right">{line.baseline_kWh.toFixed(1)}</TableCell>
+      {study?.simulated && (
+        <TableCell className={`text-xs text-right ${line.simulated_kWh < line.baseline_kWh - 0.05 ? 'text-success' : ''}`}>
+          {line.simulated_kWh.toFixed(1)}
+        </TableCell>
+      )}
+      <TableCell className="text-xs text-right">{(line.baseline_kWh * price).toFixed(2)}</TableCell>
+    </TableRow>
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Pertes Joule des câbles et pertes cuivre / fer du transformateur intégrées sur la journée type
+        (onglet 24h) ou sur l'année{isSimulationActive ? ', comparées à la simulation active' : ''}.
+      </p>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Période</Label>
+          <Select value={period} onValueChange={(value) => { setPeriod(value as LossPeriod); setStudy(null); }}>
+            <SelectTrigger className="w-28 bg-background border text-xs h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border z-[10000]">
+              <SelectItem value="day">Journée</SelectItem>
+              <SelectItem value="year">Année</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Prix (€/kWh)</Label>
+          <Input
+            type="number"
+            min={0}
+            step={0.01}
+            className="w-20 h-8 text-xs"
+            value={price}
+            onChange={(e) => updateProjectConfig({ lossPrice_EUR_per_kWh: Math.max(0, Number(e.target.value)) })}
+          />
+        </div>
+        <Button size="sm" className="flex-1" onClick={handleRun} disabled={running}>
+          {running ? 'Calcul en cours...' : 'Calculer les pertes'}
+        </Button>
+      </div>
+
+      {comparison && study && (
+        <>
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant="outline">
+              Référence : {comparison.baselineTotal_kWh.toFixed(1)} {unit} ({(comparison.baselineTotal_kWh * price).toFixed(2)} €)
+            </Badge>
+            {study.simulated && (
+              <>
+                <Badge variant="outline">Simulation : {comparison.simulatedTotal_kWh.toFixed(1)} {unit}</Badge>
+                <Badge variant={comparison.savings_kWh >= 0 ? 'success' : 'destructive'}>
+                  Économie : {comparison.savings_kWh.toFixed(1)} {unit} ({comparison.savings_EUR.toFixed(2)} €)
+                </Badge>
+              </>
+            )}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Élément</TableHead>
+                <TableHead className="text-xs text-right">Réf. ({unit})</TableHead>
+                {study.simulated && <TableHead className="text-xs text-right">Simul. ({unit})</TableHead>}
+                <TableHead className="text-xs text-right">Coût réf. (€)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lossRow(comparison.transformerCopper)}
+              {lossRow(comparison.transformerIron)}
+              {comparison.feeders.map(feeder => lossRow({ ...feeder, name: `Départ ${feeder.name}` }))}
+            </TableBody>
+          </Table>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Câble</TableHead>
+                <TableHead className="text-xs text-right">Réf. ({unit})</TableHead>
+                {study.simulated && <TableHead className="text-xs text-right">Simul. ({unit})</TableHead>}
+                <TableHead className="text-xs text-right">Coût réf. (€)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.cables.slice(0, MAX_DISPLAYED_CABLES).map(lossRow)}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+};
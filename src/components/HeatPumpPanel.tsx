@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useNetworkStore } from "@/store/networkStore";
+import {
+  createDefaultHeatPump,
+  collectHeatPumpClients,
+  buildTemperatureProfile,
+  getDefaultTemperatureProfile,
+  COLD_SNAP_TEMPERATURES
+} from "@/utils/heatPump";
+import { HourlyVoltageResult } from "@/types/dailyProfile";
+import { Thermometer } from "lucide-react";
+import { toast } from "sonner";
+
+interface HeatPumpPanelProps {
+  results: HourlyVoltageResult[];
+}
+
+export const HeatPumpPanel = ({ results }: HeatPumpPanelProps) => {
+  const { currentProject, dailyProfileOptions, setDailyProfileOptions, setClientsHeatPump } = useNetworkStore();
+
+  const [thermalPower, setThermalPower] = useState(6);
+  const [sharePercent, setSharePercent] = useState(30);
+
+  if (!currentProject) return null;
+
+  const profile = dailyProfileOptions.temperatureProfile
+    ?? getDefaultTemperatureProfile(dailyProfileOptions.season, dailyProfileOptions.weather);
+  const temperatures = Object.values(profile);
+  const minTemperature = Math.min(...temperatures);
+  const maxTemperature = Math.max(...temperatures);
+  const setTemperatureRange = (min: number, max: number) =>
+    setDailyProfileOptions({ temperatureProfile: buildTemperatureProfile(min, Math.max(min, max)) });
+
+  const heatPumpClients = collectHeatPumpClients(currentProject);
+  const unequippedClients = (currentProject.clientLinks ?? []).flatMap(link =>
+    currentProject.clientsImportes?.filter(c => c.id === link.clientId && !c.heatPump && c.clientType !== 'industriel') ?? []
+  );
+
+  const peak = results.reduce<HourlyVoltageResult | null>((best, h) =>
+    (h.heatPumpPower_kW ?? 0) > (best?.heatPumpPower_kW ?? 0) ? h : best, null);
+
+  const handleEquip = () => {
+    const count = Math.round(unequippedClients.length * sharePercent / 100);
+    if (count === 0) return;
+    setClientsHeatPump(unequippedClients.slice(0, count).map(c => c.id), createDefaultHeatPump(thermalPower));
+    toast.success(`${count} PAC de ${thermalPower} kW ajoutée(s)`);
+  };
+
+  return (
+    <Card className="bg-card/50 backdrop-blur border-border/50">
+      <CardHeader className="pb-2 pt-3 px-4">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Thermometer className="h-4 w-4 text-primary" />
+          Pompes à chaleur et température extérieure
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Besoin de chauffage linéaire entre 15°C et la température de base (-7°C), divisé par le COP de l'heure ;
+          appoint résistif en dessous. La PAC s'ajoute à la puissance souscrite du client.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">T min (°C, 6h)</Label>
+            <Input
+              type="number"
+              className="h-7 text-xs px-1 w-20"
+              value={Number(minTemperature.toFixed(1))}
+              onChange={(e) => setTemperatureRange(Number(e.target.value), maxTemperature)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">T max (°C, 15h)</Label>
+            <Input
+              type="number"
+              className="h-7 text-xs px-1 w-20"
+              value={Number(maxTemperature.toFixed(1))}
+              onChange={(e) => setTemperatureRange(minTemperature, Number(e.target.value))}
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setTemperatureRange(COLD_SNAP_TEMPERATURES.min, COLD_SNAP_TEMPERATURES.max)}
+          >
+            Vague de froid
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setDailyProfileOptions({ temperatureProfile: undefined })}
+            disabled={!dailyProfileOptions.temperatureProfile}
+          >
+            Profil de saison
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs pt-2 border-t border-border">
+          <Badge variant="secondary">{heatPumpClients.length} PAC</Badge>
+          <Input
+            type="number"
+            min={1}
+            className="h-7 text-xs px-1 w-16"
+            value={thermalPower}
+            onChange={(e) => setThermalPower(Number(e.target.value))}
+          />
+          <span className="text-muted-foreground">kW thermiques pour</span>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            className="h-7 text-xs px-1 w-16"
+            value={sharePercent}
+            onChange={(e) => setSharePercent(Number(e.target.value))}
+          />
+          <span className="text-muted-foreground">% des résidentiels sans PAC</span>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleEquip} disabled={unequippedClients.length === 0}>
+            Équiper
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setClientsHeatPump(heatPumpClients.map(c => c.client.id), null)}
+            disabled={heatPumpClients.length === 0}
+          >
+            Retirer les PAC
+          </Button>
+        </div>
+
+        {peak && (
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant="warning">
+              Pointe PAC : {peak.heatPumpPower_kW!.toFixed(1)} kW à {peak.hour}h ({peak.outdoorTemperature_C?.toFixed(1)}°C)
+            </Badge>
+            <Badge variant={peak.status === 'critical' ? 'destructive' : peak.status === 'warning' ? 'warning' : 'success'}>
+              Écart au nœud : {peak.deviationPercent.toFixed(1)}%
+            </Badge>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,154 @@
+import { useState, useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNetworkStore } from "@/store/networkStore";
+import { HostingCapacityCalculator, defaultHostingCapacityOptions } from "@/utils/hostingCapacity";
+import { HostingCapacityConstraint, HostingCapacityEntry, HostingCapacityOptions, HostingCapacityPhase } from "@/types/network";
+import { toast } from "sonner";
+
+const constraintLabels: Record<HostingCapacityConstraint, string> = {
+  voltage: 'U > 253 V',
+  cable: 'Courant câble',
+  transformer: 'Transformateur'
+};
+
+export const HostingCapacityPanel = () => {
+  const {
+    currentProject,
+    simulationEquipment,
+    isSimulationActive,
+    hostingCapacityResult,
+    setHostingCapacityResult,
+    showHostingCapacityMap,
+    toggleHostingCapacityMap
+  } = useNetworkStore();
+  const [options, setOptions] = useState<HostingCapacityOptions>(defaultHostingCapacityOptions);
+  const [running, setRunning] = useState(false);
+
+  const sortedEntries = useMemo(() => {
+    if (!hostingCapacityResult) return [];
+    return [...hostingCapacityResult.entries].sort((a, b) => a.capacity_kVA - b.capacity_kVA);
+  }, [hostingCapacityResult]);
+
+  if (!currentProject) return null;
+
+  const is400V = currentProject.voltageSystem === 'TÉTRAPHASÉ_400V';
+
+  const handleRun = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        const calculator = new HostingCapacityCalculator(
+          currentProject,
+          { ...options, phase: is400V ? options.phase : 'TRI' },
+          isSimulationActive ? simulationEquipment : undefined
+        );
+        setHostingCapacityResult(calculator.calculate());
+      } catch (error) {
+        console.error('Erreur capacité d\'accueil:', error);
+        toast.error('Erreur lors du calcul de capacité d\'accueil');
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const describeLimit = (entry: HostingCapacityEntry) => {
+    if (!entry.limitingConstraint) return `≥ ${hostingCapacityResult?.options.maxPower_kVA} kVA`;
+    const element = entry.limitingConstraint === 'cable'
+      ? currentProject.cables.find(c => c.id === entry.limitingElementId)?.name
+      : currentProject.nodes.find(n => n.id === entry.limitingElementId)?.name;
+    return `${constraintLabels[entry.limitingConstraint]}${element ? ` (${element})` : ''}`;
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        PV supplémentaire raccordable en scénario Production avant surtension, surcharge câble ou transformateur
+        {isSimulationActive ? ' (équipements de simulation inclus)' : ''}.
+      </p>
+      <div className="flex items-center gap-2">
+        <Select
+          value={options.target}
+          onValueChange={(value) => setOptions(prev => ({ ...prev, target: value as HostingCapacityOptions['target'] }))}
+        >
+          <SelectTrigger className="w-28 bg-background border text-xs h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border z-[10000]">
+            <SelectItem value="nodes">Par nœud</SelectItem>
+            <SelectItem value="clients" disabled={!currentProject.clientLinks?.length}>Par client</SelectItem>
+          </SelectContent>
+        </Select>
+        {options.target === 'nodes' && (
+          <Select
+            value={is400V ? options.phase : 'TRI'}
+            onValueChange={(value) => setOptions(prev => ({ ...prev, phase: value as HostingCapacityPhase }))}
+          >
+            <SelectTrigger className="w-24 bg-background border text-xs h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border z-[10000]">
+              <SelectItem value="TRI">Tri</SelectItem>
+              {is400V && (['A', 'B', 'C'] as const).map(phase => (
+                <SelectItem key={phase} value={phase}>Mono {phase}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          type="number"
+          className="w-20 h-8 text-xs"
+          min={1}
+          value={options.maxPower_kVA}
+          onChange={(e) => setOptions(prev => ({ ...prev, maxPower_kVA: Math.max(1, Number(e.target.value)) }))}
+          title="Puissance max recherchée (kVA)"
+        />
+      </div>
+      <Button size="sm" className="w-full" onClick={handleRun} disabled={running}>
+        {running ? 'Calcul en cours...' : 'Calculer la capacité d\'accueil'}
+      </Button>
+
+      {hostingCapacityResult && (
+        <>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="hosting-map" className="text-xs">Afficher sur la carte</Label>
+            <Switch id="hosting-map" checked={showHostingCapacityMap} onCheckedChange={toggleHostingCapacityMap} />
+          </div>
+          <ScrollArea className="h-[220px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">{hostingCapacityResult.options.target === 'nodes' ? 'Nœud' : 'Client'}</TableHead>
+                  <TableHead className="text-xs text-right">Capacité</TableHead>
+                  <TableHead className="text-xs">Contrainte</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedEntries.map(entry => (
+                  <TableRow key={entry.targetId}>
+                    <TableCell className="text-xs">
+                      {entry.targetName}
+                      <Badge variant="outline" className="ml-1 text-[10px] px-1 py-0">
+                        {entry.phase === 'TRI' ? 'Tri' : `Mono ${entry.phase}`}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs text-right">{entry.capacity_kVA.toFixed(1)} kVA</TableCell>
+                    <TableCell className="text-xs">{describeLimit(entry)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </>
+      )}
+    </div>
+  );
+};
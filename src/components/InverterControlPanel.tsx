@@ -0,0 +1,113 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNetworkStore } from "@/store/networkStore";
+import { createDefaultInverterControlSettings } from "@/utils/inverterControl";
+import { InverterCurveEditor } from "@/components/InverterCurveEditor";
+
+// Nombre d'onduleurs affichés, les plus sollicités en premier
+const MAX_DISPLAYED_INVERTERS = 12;
+
+export const InverterControlPanel = () => {
+  const {
+    currentProject,
+    simulationEquipment,
+    simulationResults,
+    selectedScenario,
+    setInverterControlEnabled,
+    updateInverterControlDefault
+  } = useNetworkStore();
+
+  if (!currentProject) return null;
+
+  const enabled = !!simulationEquipment.inverterControlEnabled;
+  const settings = currentProject.inverterControlDefault ?? createDefaultInverterControlSettings();
+  const summary = enabled ? simulationResults[selectedScenario]?.inverterControl : undefined;
+  const customCount = currentProject.nodes.reduce(
+    (sum, n) => sum + n.productions.filter(p => p.inverterControl).length, 0
+  );
+
+  const displayedInverters = summary
+    ? [...summary.inverters]
+        .sort((a, b) => (Math.abs(b.reactiveAbsorbed_kVAr) + b.activeCurtailed_kW) - (Math.abs(a.reactiveAbsorbed_kVAr) + a.activeCurtailed_kW))
+        .slice(0, MAX_DISPLAYED_INVERTERS)
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-sm">Régulation des onduleurs PV</CardTitle>
+            <Switch checked={enabled} onCheckedChange={setInverterControlEnabled} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            Réglage par défaut des onduleurs (productions manuelles et PV des clients importés).
+            {customCount > 0 && ` ${customCount} production(s) ont un réglage propre.`}
+          </p>
+          <InverterCurveEditor settings={settings} onChange={updateInverterControlDefault} />
+        </CardContent>
+      </Card>
+
+      {summary && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm">Résultats ({selectedScenario})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant={summary.converged ? 'success' : 'destructive'}>
+                {summary.converged ? `Convergé (${summary.iterations} it.)` : 'Non convergé'}
+              </Badge>
+              <Badge variant="secondary">Q absorbée : {summary.totalReactiveAbsorbed_kVAr.toFixed(1)} kVAr</Badge>
+              <Badge variant="secondary">P écrêtée : {summary.totalCurtailed_kW.toFixed(1)} kW</Badge>
+            </div>
+
+            <div className="text-xs bg-muted/50 p-2 rounded border space-y-1">
+              <div className="font-medium">Besoin en SRG2 (réseau sans régulateur)</div>
+              <div className="grid grid-cols-2 gap-1">
+                <div>Sans régulation : {summary.baselineMaxVoltage_V.toFixed(1)} V max</div>
+                <div>Avec régulation : {summary.controlledMaxVoltage_V.toFixed(1)} V max</div>
+                <div>{summary.baselineOvervoltageNodes} nœud(s) &gt; 253 V</div>
+                <div>{summary.controlledOvervoltageNodes} nœud(s) &gt; 253 V</div>
+              </div>
+              {summary.baselineOvervoltageNodes > 0 && summary.controlledOvervoltageNodes === 0 && (
+                <Badge variant="success">Surtensions levées sans SRG2</Badge>
+              )}
+            </div>
+
+            {displayedInverters.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Onduleur</TableHead>
+                    <TableHead className="text-xs text-right">U (V)</TableHead>
+                    <TableHead className="text-xs text-right">Q (kVAr)</TableHead>
+                    <TableHead className="text-xs text-right">P écrêtée (kW)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {displayedInverters.map(inv => (
+                    <TableRow key={`${inv.kind}-${inv.inverterId}`}>
+                      <TableCell className="text-xs">
+                        {inv.label}
+                        <span className="block text-[10px] text-muted-foreground">{inv.ratedPower_kVA.toFixed(1)} kVA</span>
+                      </TableCell>
+                      <TableCell className="text-xs text-right">{inv.voltage_V.toFixed(1)}</TableCell>
+                      <TableCell className="text-xs text-right">{inv.reactiveAbsorbed_kVAr.toFixed(2)}</TableCell>
+                      <TableCell className="text-xs text-right">{inv.activeCurtailed_kW.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
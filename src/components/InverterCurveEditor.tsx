@@ -0,0 +1,84 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { InverterControlSettings, InverterQUCurve, InverterPUCurve } from "@/types/network";
+
+interface InverterCurveEditorProps {
+  settings: InverterControlSettings;
+  onChange: (settings: InverterControlSettings) => void;
+}
+
+const quFields: { key: keyof Omit<InverterQUCurve, 'enabled'>; label: string }[] = [
+  { key: 'V1_V', label: 'V1 (V)' },
+  { key: 'V2_V', label: 'V2 (V)' },
+  { key: 'V3_V', label: 'V3 (V)' },
+  { key: 'V4_V', label: 'V4 (V)' },
+  { key: 'Qmax_percent', label: 'Qmax (% Sn)' }
+];
+
+const puFields: { key: keyof Omit<InverterPUCurve, 'enabled'>; label: string }[] = [
+  { key: 'Ustart_V', label: 'Début (V)' },
+  { key: 'Ustop_V', label: 'Fin (V)' },
+  { key: 'Pmin_percent', label: 'Pmin (% Sn)' }
+];
+
+/**
+ * Édition des courbes Q(U) et P(U) d'un onduleur (réglage du projet ou d'une production)
+ */
+export const InverterCurveEditor = ({ settings, onChange }: InverterCurveEditorProps) => {
+  const updateQU = (updates: Partial<InverterQUCurve>) => onChange({ ...settings, qu: { ...settings.qu, ...updates } });
+  const updatePU = (updates: Partial<InverterPUCurve>) => onChange({ ...settings, pu: { ...settings.pu, ...updates } });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Q(U) volt-var</Label>
+          <Switch checked={settings.qu.enabled} onCheckedChange={(enabled) => updateQU({ enabled })} />
+        </div>
+        <div className="grid grid-cols-5 gap-1">
+          {quFields.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label className="text-[10px] text-muted-foreground">{field.label}</Label>
+              <Input
+                type="number"
+                className="h-7 text-xs px-1"
+                disabled={!settings.qu.enabled}
+                value={settings.qu[field.key]}
+                onChange={(e) => updateQU({ [field.key]: Number(e.target.value) })}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">P(U) volt-watt</Label>
+          <Switch checked={settings.pu.enabled} onCheckedChange={(enabled) => updatePU({ enabled })} />
+        </div>
+        <div className="grid grid-cols-3 gap-1">
+          {puFields.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label className="text-[10px] text-muted-foreground">{field.label}</Label>
+              <Input
+                type="number"
+                className="h-7 text-xs px-1"
+                disabled={!settings.pu.enabled}
+                value={settings.pu[field.key]}
+                onChange={(e) => updatePU({ [field.key]: Number(e.target.value) })}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {settings.qu.enabled && !(settings.qu.V1_V < settings.qu.V2_V && settings.qu.V2_V <= settings.qu.V3_V && settings.qu.V3_V < settings.qu.V4_V) && (
+        <p className="text-[10px] text-destructive">Les tensions Q(U) doivent vérifier V1 &lt; V2 ≤ V3 &lt; V4</p>
+      )}
+      {settings.pu.enabled && settings.pu.Ustart_V >= settings.pu.Ustop_V && (
+        <p className="text-[10px] text-destructive">Le début de la réduction P(U) doit précéder la fin</p>
+      )}
+    </div>
+  );
+};
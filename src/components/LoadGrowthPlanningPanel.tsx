@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { useNetworkStore } from "@/store/networkStore";
+import { createDefaultLoadGrowthOptions, runLoadGrowthPlanning } from "@/utils/loadGrowthPlanning";
+import { LoadGrowthOptions, LoadGrowthResult } from "@/types/network";
+import { toast } from "sonner";
+
+// Nombre d'éléments affichés dans le tableau des premières années de dépassement
+const MAX_DISPLAYED_VIOLATIONS = 10;
+
+const optionFields: { key: keyof LoadGrowthOptions; label: string; step: number }[] = [
+  { key: 'horizonYears', label: 'Horizon (ans)', step: 1 },
+  { key: 'residentialGrowth_percent', label: 'Résidentiel (%/an)', step: 0.5 },
+  { key: 'industrialGrowth_percent', label: 'Industriel (%/an)', step: 0.5 },
+  { key: 'pvGrowth_percent', label: 'PV (%/an)', step: 1 },
+  { key: 'evPenetrationStart_percent', label: 'VE initial (%)', step: 1 },
+  { key: 'evPenetrationGrowth_percent', label: 'VE (+pts/an)', step: 1 },
+  { key: 'evPower_kVA', label: 'Puissance VE (kVA)', step: 0.1 }
+];
+
+export const LoadGrowthPlanningPanel = () => {
+  const { currentProject } = useNetworkStore();
+  const [options, setOptions] = useState<LoadGrowthOptions>(createDefaultLoadGrowthOptions);
+  const [result, setResult] = useState<LoadGrowthResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  if (!currentProject) return null;
+
+  const handleRun = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        setResult(runLoadGrowthPlanning(currentProject, options));
+      } catch (error) {
+        console.error('Erreur planification pluriannuelle:', error);
+        toast.error('Erreur lors du calcul de planification');
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const firstViolationYear = result?.violations[0]?.firstYear;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Croissance annuelle des charges, du PV et des VE : première année de dépassement par nœud et tronçon.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        {optionFields.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">{field.label}</Label>
+            <Input
+              type="number"
+              className="h-7 text-xs"
+              step={field.step}
+              min={field.key === 'horizonYears' ? 1 : undefined}
+              value={options[field.key]}
+              onChange={(e) => setOptions(prev => ({
+                ...prev,
+                [field.key]: field.key === 'horizonYears'
+                  ? Math.min(30, Math.max(1, Math.round(Number(e.target.value))))
+                  : Number(e.target.value)
+              }))}
+            />
+          </div>
+        ))}
+      </div>
+
+      <Button size="sm" className="w-full" onClick={handleRun} disabled={running}>
+        {running ? 'Calcul en cours...' : 'Calculer l\'horizon'}
+      </Button>
+
+      {result && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant={firstViolationYear !== undefined ? 'destructive' : 'success'}>
+              {firstViolationYear !== undefined ? `Première contrainte : ${firstViolationYear}` : 'Aucune contrainte sur l\'horizon'}
+            </Badge>
+            <Badge variant="secondary">{result.violations.length} élément(s) en contrainte</Badge>
+            {result.years.some(y => y.failed) && <Badge variant="warning">Années non calculées</Badge>}
+          </div>
+
+          <ResponsiveContainer width="100%" height={180}>
+            <LineChart data={result.years} margin={{ top: 5, right: 0, left: -15, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis dataKey="year" tick={{ fontSize: 10 }} />
+              <YAxis yAxisId="voltage" tick={{ fontSize: 10 }} unit="%" domain={['auto', 'auto']} />
+              <YAxis yAxisId="loading" orientation="right" tick={{ fontSize: 10 }} unit="%" domain={[0, 'auto']} />
+              <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+              <ReferenceLine yAxisId="voltage" y={10} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+              <ReferenceLine yAxisId="voltage" y={-10} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+              <Line yAxisId="voltage" type="monotone" dataKey="maxDeviation_percent" name="Écart max" stroke="#f97316" dot={false} />
+              <Line yAxisId="voltage" type="monotone" dataKey="minDeviation_percent" name="Écart min" stroke="#3b82f6" dot={false} />
+              <Line yAxisId="loading" type="monotone" dataKey="maxCableLoading_percent" name="Charge câble max" stroke="#a855f7" strokeDasharray="3 3" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+
+          {result.violations.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Année</TableHead>
+                  <TableHead className="text-xs">Élément</TableHead>
+                  <TableHead className="text-xs text-right">Valeur</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.violations.slice(0, MAX_DISPLAYED_VIOLATIONS).map(v => (
+                  <TableRow key={v.elementId}>
+                    <TableCell className="text-xs">{v.firstYear}</TableCell>
+                    <TableCell className="text-xs">{v.kind === 'node' ? 'Nœud' : 'Tronçon'} {v.elementName}</TableCell>
+                    <TableCell className="text-xs text-right">
+                      {v.kind === 'node' ? `${v.value.toFixed(1)}%` : `${v.value.toFixed(0)}% Iadm`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
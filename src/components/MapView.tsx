@@ -6,11 +6,20 @@ import { CableTypeSelector } from './CableTypeSelector';
 import { AddressSearch } from './AddressSearch';
 import { Button } from './ui/button';
 import { Globe, Map as MapIcon, Target, Mountain, X, MousePointer } from 'lucide-react';
-import { getConnectedNodes } from '@/utils/networkConnectivity';
+import { getConnectedNodes, isCableClosed } from '@/utils/networkConnectivity';
 import { getNodeConnectionType } from '@/utils/nodeConnectionType';
 import { useClientMarkers } from './ClientMarkers';
 import { getLinkedClientsForNode, calculateNodePowersFromClients } from '@/utils/clientsUtils';
+import { HOSTING_CAPACITY_THRESHOLDS_KVA } from '@/utils/hostingCapacity';
+import {
+  getEffectiveAmpacity,
+  getEffectiveNeutralAmpacity,
+  getCableDeratingFactors,
+  getCableMaxCurrent,
+  getCableNeutralCurrent
+} from '@/utils/cableDerating';
 import { toast } from 'sonner';
+import { hasActiveSimulationEquipment } from '@/types/network';
 
 // Configuration des icônes Leaflet
 const configureLeafletIcons = () => {
@@ -30,6 +39,7 @@ export const MapView = () => {
   const markersRef = useRef<Map<string, L.Marker>>(new Map<string, L.Marker>());
   const cablesRef = useRef<Map<string, L.Polyline>>(new Map<string, L.Polyline>());
   const cableLabelsRef = useRef<Map<string, L.Marker>>(new Map<string, L.Marker>());
+  const switchMarkersRef = useRef<Map<string, L.Marker>>(new Map<string, L.Marker>());
   const tileLayerRef = useRef<L.TileLayer | null>(null);
   const overlayLayerRef = useRef<L.TileLayer.WMS | null>(null);
   const [mapType, setMapType] = useState<'osm' | 'satellite' | 'picc'>('osm');
@@ -59,6 +69,7 @@ export const MapView = () => {
     selectedScenario,
     deleteNode,
     deleteCable,
+    toggleCableSwitch,
     showVoltages,
     moveNode,
     simulationMode,
@@ -75,6 +86,10 @@ export const MapView = () => {
     circuitColorMapping,
     generateCircuitColorMapping,
     showClientTensionLabels,
+    monteCarloResult,
+    showMonteCarloMap,
+    hostingCapacityResult,
+    showHostingCapacityMap,
     // État partagé pour création client
     selectingLocationForNewClient,
     setClientLocation,
@@ -134,15 +149,14 @@ export const MapView = () => {
   const isSimulationActive = useNetworkStore(state => state.isSimulationActive);
   
   // Déterminer quels résultats utiliser - simulation si active ET équipements actifs
-  const activeEquipmentCount = (simulationEquipment.srg2Devices?.filter(s => s.enabled).length || 0) + 
-                               simulationEquipment.neutralCompensators.filter(c => c.enabled).length +
-                               (simulationEquipment.cableReplacement?.enabled ? 1 : 0);
+  const hasActiveEquipment = hasActiveSimulationEquipment(simulationEquipment) ||
+                             !!simulationEquipment.cableReplacement?.enabled;
   
-  const useSimulation = isSimulationActive && activeEquipmentCount > 0;
+  const useSimulation = isSimulationActive && hasActiveEquipment;
   
   console.log('🐛 MapView results logic:', {
     isSimulationActive,
-    activeEquipmentCount,
+    hasActiveEquipment,
     useSimulation,
     resultsType: useSimulation ? 'SIMULATION' : 'CALCULATION',
     cableReplacementActive: simulationEquipment.cableReplacement?.enabled
@@ -757,6 +771,16 @@ export const MapView = () => {
           break;
       }
       
+      // Infobulle : nom du nœud + courants de court-circuit présumés
+      const shortCircuit = calculationResults[selectedScenario]?.shortCircuit?.nodes.find(sc => sc.nodeId === node.id);
+      let nodeTooltip = node.name;
+      if (shortCircuit) {
+        nodeTooltip += `<br><span class="text-xs">Ik3 max: ${shortCircuit.Ik3_max_kA.toFixed(2)} kA · Ik2 min: ${shortCircuit.Ik2_min_kA.toFixed(2)} kA</span>`;
+        if (shortCircuit.Ik1_min_kA !== undefined) {
+          nodeTooltip += `<br><span class="text-xs">Ik1 max: ${shortCircuit.Ik1_max_kA!.toFixed(2)} kA · Ik1 min: ${shortCircuit.Ik1_min_kA.toFixed(2)} kA</span>`;
+        }
+      }
+
       let nodeVoltage = sourceVoltage; // Utiliser la tension source
       let isOutOfCompliance = false;
       let nominalDropPercent = 0; // Déclarer la variable pour la conformité (signée)
@@ -871,6 +895,37 @@ export const MapView = () => {
         }
       }
 
+      // Coloration Monte Carlo : probabilité de sortie de ±10%
+      const monteCarloNode = showMonteCarloMap && !node.isSource && connectedNodes.has(node.id)
+        ? monteCarloResult?.nodes.find(n => n.nodeId === node.id)
+        : undefined;
+      if (monteCarloNode) {
+        if (monteCarloNode.violationProbability < 0.05) {
+          iconClass = 'bg-green-500 border-green-600 text-white';
+        } else if (monteCarloNode.violationProbability < 0.2) {
+          iconClass = 'bg-voltage-warning border-orange-600 text-white';
+        } else {
+          iconClass = 'bg-voltage-critical border-red-600 text-white';
+        }
+        nodeTooltip += `<br><span class="text-xs">P(hors ±10%): ${(monteCarloNode.violationProbability * 100).toFixed(1)}% · P5/P95: ${monteCarloNode.p5_percent.toFixed(1)}% / ${monteCarloNode.p95_percent.toFixed(1)}%</span>`;
+      }
+
+      // Couche capacité d'accueil PV : capacité la plus faible des cibles du nœud
+      const hostingEntries = showHostingCapacityMap && !node.isSource && connectedNodes.has(node.id)
+        ? hostingCapacityResult?.entries.filter(e => e.nodeId === node.id) ?? []
+        : [];
+      if (hostingEntries.length > 0) {
+        const hostingCapacity = Math.min(...hostingEntries.map(e => e.capacity_kVA));
+        if (hostingCapacity >= HOSTING_CAPACITY_THRESHOLDS_KVA.high) {
+          iconClass = 'bg-green-500 border-green-600 text-white';
+        } else if (hostingCapacity >= HOSTING_CAPACITY_THRESHOLDS_KVA.low) {
+          iconClass = 'bg-voltage-warning border-orange-600 text-white';
+        } else {
+          iconClass = 'bg-voltage-critical border-red-600 text-white';
+        }
+        nodeTooltip += `<br><span class="text-xs">Capacité d'accueil PV: ${hostingCapacity.toFixed(1)} kVA</span>`;
+      }
+
       // Obtenir le numéro de circuit
       const circuitNumber = getNodeCircuit(node.id);
       
@@ -910,7 +965,7 @@ export const MapView = () => {
           zIndexOffset: 0
         })
           .addTo(map)
-          .bindTooltip(node.name, {
+          .bindTooltip(nodeTooltip, {
             permanent: false,
             direction: 'top',
             offset: [0, -12],
@@ -1145,11 +1200,11 @@ export const MapView = () => {
                 const results = resultsToUse[selectedScenario];
                 const phaseMetrics = results?.nodeMetricsPerPhase?.find(n => n.nodeId === node.id);
                 
-                const isUsingSimulation = (simulationMode && activeEquipmentCount > 0);
+                const isUsingSimulation = (simulationMode && hasActiveEquipment);
                 
                 console.log('🐛 Phase voltages for node', node.id, {
                   simulationMode,
-                  activeEquipmentCount,
+                  hasActiveEquipment,
                   usingSimulation: isUsingSimulation,
                   hasPhaseMetrics: !!phaseMetrics,
                   voltages: phaseMetrics?.voltagesPerPhase
@@ -1222,7 +1277,7 @@ export const MapView = () => {
         zIndexOffset: 0
       })
         .addTo(map)
-        .bindTooltip(node.name, {
+        .bindTooltip(nodeTooltip, {
           permanent: false,
           direction: 'top',
           offset: [0, -28],
@@ -1404,7 +1459,7 @@ export const MapView = () => {
 
       markersRef.current.set(node.id, marker);
     });
-  }, [currentProject?.nodes, selectedTool, selectedNodeId, selectedCableType, addCable, setSelectedNode, openEditPanel, deleteNode, showVoltages, resultsToUse, selectedScenario, moveNode, routingActive, routingFromNode, routingToNode, selectedClientForLinking, linkClientToNode, nodeSelectionMode, handleNodeSelectionClick]);
+  }, [currentProject?.nodes, selectedTool, selectedNodeId, selectedCableType, addCable, setSelectedNode, openEditPanel, deleteNode, showVoltages, resultsToUse, selectedScenario, moveNode, routingActive, routingFromNode, routingToNode, selectedClientForLinking, linkClientToNode, nodeSelectionMode, handleNodeSelectionClick, monteCarloResult, showMonteCarloMap, hostingCapacityResult, showHostingCapacityMap]);
 
   // Update cables
   useEffect(() => {
@@ -1418,6 +1473,10 @@ export const MapView = () => {
     cableLabelsRef.current.forEach(label => map.removeLayer(label));
     cableLabelsRef.current.clear();
 
+    // Nettoyer les organes de coupure existants
+    switchMarkersRef.current.forEach(marker => map.removeLayer(marker));
+    switchMarkersRef.current.clear();
+
     // Calculer les nœuds alimentés (connectés à une source)
     const connectedNodes = getConnectedNodes(currentProject.nodes, currentProject.cables);
 
@@ -1540,15 +1599,59 @@ export const MapView = () => {
         }
       }
       
+      // Surcharge thermique : courant au-delà de l'ampacité effective (conditions de pose)
+      const loadedCable = resultsToUse[selectedScenario]?.cables.find(c => c.id === cable.id);
+      const effectiveAmpacity_A = loadedCable ? getEffectiveAmpacity(loadedCable, currentProject.cableTypes) : undefined;
+      const loadedCurrent_A = loadedCable ? getCableMaxCurrent(loadedCable) : 0;
+      // Neutre en surcharge (neutre de section réduite notamment)
+      const neutralAmpacity_A = loadedCable ? getEffectiveNeutralAmpacity(loadedCable, currentProject.cableTypes) : undefined;
+      const neutralCurrent_A = loadedCable ? getCableNeutralCurrent(loadedCable) : 0;
+      const neutralOverloaded = !!neutralAmpacity_A && neutralCurrent_A > neutralAmpacity_A;
+      if ((effectiveAmpacity_A && loadedCurrent_A > effectiveAmpacity_A) || neutralOverloaded) {
+        cableColor = '#7f1d1d'; // BORDEAUX - surcharge
+        cableWeight = Math.max(cableWeight, 6);
+      }
+
+      // Point de coupure ouvert : câble en pointillés gris
+      const isOpen = !isCableClosed(cable);
       const polyline = L.polyline(
         cable.coordinates.map(coord => [coord.lat, coord.lng] as [number, number]),
         { 
-          color: cableColor,
+          color: isOpen ? '#6b7280' : cableColor,
           weight: cableWeight,
-          opacity: 0.8
+          opacity: 0.8,
+          dashArray: isOpen ? '8, 8' : undefined
         }
       ).addTo(map);
 
+      // === ORGANE DE COUPURE ===
+      if (cable.switchState !== undefined && cable.coordinates.length >= 2) {
+        // Placé à 15% du premier segment, côté extrémité équipée
+        const coords = cable.switchLocation === 'B' ? [...cable.coordinates].reverse() : cable.coordinates;
+        const switchPos = {
+          lat: coords[0].lat + (coords[1].lat - coords[0].lat) * 0.15,
+          lng: coords[0].lng + (coords[1].lng - coords[0].lng) * 0.15
+        };
+        const switchIcon = L.divIcon({
+          className: 'cable-switch-marker',
+          html: `<div style="
+            width: 14px;
+            height: 14px;
+            border: 2px solid ${isOpen ? '#dc2626' : '#16a34a'};
+            background: ${isOpen ? '#ffffff' : '#16a34a'};
+            transform: rotate(45deg);
+            cursor: pointer;
+          "></div>`,
+          iconSize: [14, 14],
+          iconAnchor: [7, 7]
+        });
+        const switchMarker = L.marker([switchPos.lat, switchPos.lng], { icon: switchIcon })
+          .bindTooltip(`${cable.name} : organe ${isOpen ? 'ouvert' : 'fermé'} (cliquer pour basculer)`, { direction: 'top' })
+          .addTo(map);
+        switchMarker.on('click', () => toggleCableSwitch(cable.id));
+        switchMarkersRef.current.set(cable.id, switchMarker);
+      }
+
       const nodeA = currentProject.nodes.find(n => n.id === cable.nodeAId);
       const nodeB = currentProject.nodes.find(n => n.id === cable.nodeBId);
       
@@ -1564,6 +1667,11 @@ export const MapView = () => {
         <div class="font-semibold">${cable.name}</div>
         <div>Type: ${cableType?.label || cable.typeId}</div>
         <div>Longueur: ${Math.round(cable.length_m || 0)}m</div>`;
+
+      if (cable.switchState !== undefined) {
+        tooltipContent += `
+          <div>Organe de coupure (${cable.switchLocation || 'A'}): ${isOpen ? 'ouvert' : 'fermé'}</div>`;
+      }
       
       if (cableCalc) {
         tooltipContent += `
@@ -1571,6 +1679,19 @@ export const MapView = () => {
           <div>Chute: ${cableCalc.voltageDropPercent?.toFixed(2) || '-'}%</div>
           <div>Pertes: ${(cableCalc.losses_kW || 0).toFixed(3)}kW</div>`;
       }
+
+      if (effectiveAmpacity_A) {
+        const derating = getCableDeratingFactors(cable.pose, cable.installation).total;
+        tooltipContent += `
+          <div>Iz effectif: ${effectiveAmpacity_A.toFixed(0)}A${derating < 1 ? ` (k = ${derating.toFixed(2)})` : ''}</div>
+          <div>Charge: ${(loadedCurrent_A / effectiveAmpacity_A * 100).toFixed(0)}%</div>`;
+      }
+
+      if (neutralAmpacity_A && neutralCurrent_A > 0) {
+        const neutralSection = cableType?.neutralSection_mm2 ? ` (${cableType.neutralSection_mm2} mm²)` : '';
+        tooltipContent += `
+          <div>Neutre${neutralSection}: ${neutralCurrent_A.toFixed(1)}A / ${neutralAmpacity_A.toFixed(0)}A${neutralOverloaded ? ' ⚠️ surcharge' : ''}</div>`;
+      }
       
       tooltipContent += `</div>`;
       
@@ -1641,7 +1762,7 @@ export const MapView = () => {
         }
       }
     });
-  }, [currentProject?.cables, selectedTool, setSelectedCable, openEditPanel, deleteCable, calculationResults, selectedScenario, simulationEquipment, simulationMode, currentZoom]);
+  }, [currentProject?.cables, selectedTool, setSelectedCable, openEditPanel, deleteCable, toggleCableSwitch, calculationResults, resultsToUse, selectedScenario, simulationEquipment, simulationMode, currentZoom]);
 
   return (
     <div className="flex-1 relative">
@@ -1704,6 +1825,26 @@ export const MapView = () => {
       </div>
       
       <CableTypeSelector />
+
+      {/* Légende capacité d'accueil PV */}
+      {showHostingCapacityMap && hostingCapacityResult && (
+        <div className="absolute bottom-4 left-4 z-[1000] bg-background/90 backdrop-blur-sm border rounded-lg px-3 py-2 text-xs space-y-1">
+          <div className="font-semibold">Capacité d'accueil PV</div>
+          <div className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-green-500" /> &ge; {HOSTING_CAPACITY_THRESHOLDS_KVA.high} kVA</div>
+          <div className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-voltage-warning" /> {HOSTING_CAPACITY_THRESHOLDS_KVA.low} - {HOSTING_CAPACITY_THRESHOLDS_KVA.high} kVA</div>
+          <div className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-voltage-critical" /> &lt; {HOSTING_CAPACITY_THRESHOLDS_KVA.low} kVA</div>
+        </div>
+      )}
+
+      {/* Légende Monte Carlo */}
+      {showMonteCarloMap && monteCarloResult && (
+        <div className="absolute bottom-4 left-4 z-[1000] bg-background/90 backdrop-blur-sm border rounded-lg px-3 py-2 text-xs space-y-1">
+          <div className="font-semibold">P(hors ±10%) - {monteCarloResult.iterations} tirages</div>
+          <div className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-green-500" /> &lt; 5%</div>
+          <div className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-voltage-warning" /> 5 - 20%</div>
+          <div className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-voltage-critical" /> &ge; 20%</div>
+        </div>
+      )}
       
       {/* Tool indicator */}
       <div className="absolute top-4 left-20 bg-background/90 backdrop-blur-sm border rounded-lg px-3 py-2 text-sm z-40">
@@ -1763,6 +1904,8 @@ export const MapView = () => {
               {nodeSelectionMode === 'profil24h' && 'Cliquez sur un nœud pour l\'analyse 24h'}
               {nodeSelectionMode === 'srg2' && 'Cliquez sur un nœud pour placer le SRG2'}
               {nodeSelectionMode === 'equi8' && 'Cliquez sur un nœud pour placer le compensateur EQUI8'}
+              {nodeSelectionMode === 'battery' && 'Cliquez sur un nœud pour placer la batterie'}
+              {nodeSelectionMode === 'shuntBank' && 'Cliquez sur un nœud pour placer le gradin shunt'}
             </span>
           </div>
           <Button
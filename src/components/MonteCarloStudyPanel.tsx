@@ -0,0 +1,188 @@
+import { useState, useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+import { useNetworkStore } from "@/store/networkStore";
+import { createDefaultMonteCarloOptions, runMonteCarloLoadFlow, monteCarloResultToCSV } from "@/utils/monteCarloLoadFlow";
+import { CalculationScenario, MonteCarloOptions } from "@/types/network";
+import { toast } from "sonner";
+
+// Nombre de nœuds affichés dans le tableau
+const MAX_DISPLAYED_NODES = 8;
+
+export const MonteCarloStudyPanel = () => {
+  const {
+    currentProject,
+    monteCarloResult,
+    setMonteCarloResult,
+    showMonteCarloMap,
+    toggleMonteCarloMap
+  } = useNetworkStore();
+  const [overrides, setOverrides] = useState<Partial<MonteCarloOptions>>({});
+  const [running, setRunning] = useState(false);
+
+  const sortedNodes = useMemo(() => {
+    if (!monteCarloResult) return [];
+    return [...monteCarloResult.nodes].sort((a, b) => b.violationProbability - a.violationProbability);
+  }, [monteCarloResult]);
+
+  if (!currentProject) return null;
+
+  const options: MonteCarloOptions = { ...createDefaultMonteCarloOptions(currentProject), ...overrides };
+
+  const handleRun = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        setMonteCarloResult(runMonteCarloLoadFlow(currentProject, options));
+      } catch (error) {
+        console.error('Erreur Monte Carlo:', error);
+        toast.error('Erreur lors du calcul probabiliste');
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const handleExport = () => {
+    if (!monteCarloResult) return;
+    const blob = new Blob([monteCarloResultToCSV(monteCarloResult)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `monte-carlo-${currentProject.name.replace(/\s+/g, '_')}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('Résultats exportés en CSV');
+  };
+
+  const updateDistribution = (key: 'residentialLoad' | 'industrialLoad' | 'pvOutput', field: 'mean_percent' | 'stdDev_percent', value: number) => {
+    setOverrides(prev => ({ ...prev, [key]: { ...options[key], [field]: value } }));
+  };
+
+  const distributionRows: { key: 'residentialLoad' | 'industrialLoad' | 'pvOutput'; label: string }[] = [
+    { key: 'residentialLoad', label: 'Résidentiel' },
+    { key: 'industrialLoad', label: 'Industriel' },
+    { key: 'pvOutput', label: 'Production PV' }
+  ];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Tirages aléatoires des charges par type de client, de la production PV et de la présence de VE.
+      </p>
+
+      <div className="grid grid-cols-3 gap-2 text-xs items-center">
+        <span />
+        <Label className="text-[10px] text-muted-foreground">Moyenne (%)</Label>
+        <Label className="text-[10px] text-muted-foreground">Écart-type (%)</Label>
+        {distributionRows.map(row => (
+          <div key={row.key} className="contents">
+            <span>{row.label}</span>
+            <Input
+              type="number"
+              className="h-7 text-xs"
+              value={options[row.key].mean_percent}
+              onChange={(e) => updateDistribution(row.key, 'mean_percent', Number(e.target.value))}
+            />
+            <Input
+              type="number"
+              className="h-7 text-xs"
+              value={options[row.key].stdDev_percent}
+              onChange={(e) => updateDistribution(row.key, 'stdDev_percent', Number(e.target.value))}
+            />
+          </div>
+        ))}
+        <span>VE (% clients / kVA)</span>
+        <Input
+          type="number"
+          className="h-7 text-xs"
+          value={options.evPenetration_percent}
+          onChange={(e) => setOverrides(prev => ({ ...prev, evPenetration_percent: Number(e.target.value) }))}
+        />
+        <Input
+          type="number"
+          className="h-7 text-xs"
+          value={options.evPower_kVA}
+          onChange={(e) => setOverrides(prev => ({ ...prev, evPower_kVA: Number(e.target.value) }))}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select
+          value={options.scenario}
+          onValueChange={(value) => setOverrides(prev => ({ ...prev, scenario: value as CalculationScenario }))}
+        >
+          <SelectTrigger className="w-32 bg-background border text-xs h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border z-[10000]">
+            <SelectItem value="PRÉLÈVEMENT">Prélèvement</SelectItem>
+            <SelectItem value="MIXTE">Mixte</SelectItem>
+            <SelectItem value="PRODUCTION">Production</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          className="w-20 h-8 text-xs"
+          min={10}
+          step={50}
+          value={options.iterations}
+          onChange={(e) => setOverrides(prev => ({ ...prev, iterations: Math.max(1, Number(e.target.value)) }))}
+          title="Nombre de tirages"
+        />
+        <Button size="sm" className="flex-1" onClick={handleRun} disabled={running}>
+          {running ? 'Calcul en cours...' : 'Lancer'}
+        </Button>
+      </div>
+
+      {monteCarloResult && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant={monteCarloResult.networkViolationProbability > 0.05 ? 'destructive' : 'outline'}>
+              P(réseau hors ±10%) : {(monteCarloResult.networkViolationProbability * 100).toFixed(1)}%
+            </Badge>
+            <Badge variant="secondary">{monteCarloResult.iterations} tirages</Badge>
+            {monteCarloResult.failedIterations > 0 && (
+              <Badge variant="warning">{monteCarloResult.failedIterations} échecs</Badge>
+            )}
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0 ml-auto" onClick={handleExport} title="Exporter en CSV">
+              <Download className="h-3 w-3" />
+            </Button>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="monte-carlo-map" className="text-xs">Colorer la carte (probabilité)</Label>
+            <Switch id="monte-carlo-map" checked={showMonteCarloMap} onCheckedChange={toggleMonteCarloMap} />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Nœud</TableHead>
+                <TableHead className="text-xs text-right">P5 / P50 / P95</TableHead>
+                <TableHead className="text-xs text-right">P(hors ±10%)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedNodes.slice(0, MAX_DISPLAYED_NODES).map(n => (
+                <TableRow key={n.nodeId}>
+                  <TableCell className="text-xs">{n.nodeName}</TableCell>
+                  <TableCell className="text-xs text-right">
+                    {n.p5_percent.toFixed(1)} / {n.p50_percent.toFixed(1)} / {n.p95_percent.toFixed(1)}%
+                  </TableCell>
+                  <TableCell className="text-xs text-right">{(n.violationProbability * 100).toFixed(1)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+};
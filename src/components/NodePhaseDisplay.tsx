@@ -1,5 +1,6 @@
 import React from 'react';
 import { useNetworkStore } from "@/store/networkStore";
+import { hasActiveSimulationEquipment } from "@/types/network";
 
 interface NodePhaseDisplayProps {
   nodeId: string;
@@ -13,15 +14,14 @@ export const NodePhaseDisplay = ({ nodeId }: NodePhaseDisplayProps) => {
   }
 
   // Utiliser les résultats de simulation si active ET du matériel de simulation est actif
-  const activeEquipmentCount = (simulationEquipment.srg2Devices?.filter(s => s.enabled).length || 0) + 
-                               simulationEquipment.neutralCompensators.filter(c => c.enabled).length;
+  const hasActiveEquipment = hasActiveSimulationEquipment(simulationEquipment);
   
-  const useSimulation = isSimulationActive && activeEquipmentCount > 0;
+  const useSimulation = isSimulationActive && hasActiveEquipment;
   const resultsToUse = useSimulation ? simulationResults : calculationResults;
   
   console.log('🐛 NodePhaseDisplay logic:', {
     isSimulationActive,
-    activeEquipmentCount,
+    hasActiveEquipment,
     useSimulation,
     resultsType: useSimulation ? 'simulation' : 'calculation'
   });
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNetworkStore } from "@/store/networkStore";
+import { branchementCableTypes } from "@/data/branchementCableTypes";
+import { createDefaultPVTrippingSettings } from "@/utils/pvTripping";
+import { DailyProfileCalculator } from "@/utils/dailyProfileCalculator";
+import { PVTrippingSettings } from "@/types/network";
+import { PVTrippingDailyResult } from "@/types/dailyProfile";
+import { toast } from "sonner";
+
+// Nombre de clients affichés dans le bilan journalier, par ordre de découplage
+const MAX_DISPLAYED_CLIENTS = 12;
+
+export const PVTrippingPanel = () => {
+  const {
+    currentProject,
+    simulationEquipment,
+    simulationResults,
+    selectedScenario,
+    dailyProfileOptions,
+    dailyProfileCustomProfiles,
+    selectedBranchementCableId,
+    setPVTrippingSettings
+  } = useNetworkStore();
+
+  const [running, setRunning] = useState(false);
+  const [daily, setDaily] = useState<PVTrippingDailyResult | null>(null);
+
+  if (!currentProject) return null;
+
+  const settings: PVTrippingSettings = simulationEquipment.pvTripping ?? {
+    ...createDefaultPVTrippingSettings(),
+    enabled: false,
+    branchementCableId: selectedBranchementCableId ?? undefined
+  };
+  const summary = settings.enabled ? simulationResults[selectedScenario]?.pvTripping : undefined;
+  const pvClientCount = (currentProject.clientLinks ?? []).filter(link =>
+    currentProject.clientsImportes?.some(c => c.id === link.clientId && c.puissancePV_kVA > 0)
+  ).length;
+
+  const update = (updates: Partial<PVTrippingSettings>) => {
+    setPVTrippingSettings({ ...settings, ...updates });
+    setDaily(null);
+  };
+
+  const handleDaily = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        const calculator = new DailyProfileCalculator(
+          currentProject,
+          dailyProfileOptions,
+          dailyProfileCustomProfiles,
+          { ...simulationEquipment, pvTripping: { ...settings, enabled: true } },
+          true
+        );
+        setDaily(calculator.calculateDailyPVTripping());
+      } catch (error) {
+        console.error('Erreur découplage PV 24h:', error);
+        toast.error('Erreur lors du calcul du découplage sur 24h');
+      } finally {
+        setRunning(false);
+      }
+    }, 50);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-sm">Découplage PV en surtension</CardTitle>
+            <Switch checked={settings.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            Chaque PV client ({pvClientCount} raccordé(s)) se découple au-delà du seuil vu à son point de
+            raccordement et ne se reconnecte que sous le seuil bas.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-[10px] text-muted-foreground">Découplage (V)</Label>
+              <Input
+                type="number"
+                className="h-7 text-xs px-1"
+                value={settings.tripVoltage_V}
+                onChange={(e) => update({ tripVoltage_V: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px] text-muted-foreground">Reconnexion (V)</Label>
+              <Input
+                type="number"
+                className="h-7 text-xs px-1"
+                value={settings.reconnectVoltage_V}
+                onChange={(e) => update({ reconnectVoltage_V: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          {settings.reconnectVoltage_V >= settings.tripVoltage_V && (
+            <p className="text-[10px] text-destructive">Le seuil de reconnexion doit être inférieur au seuil de découplage</p>
+          )}
+          <Select
+            value={settings.branchementCableId ?? 'none'}
+            onValueChange={(value) => update({ branchementCableId: value !== 'none' ? value : undefined })}
+          >
+            <SelectTrigger className="bg-background border text-xs h-8">
+              <SelectValue placeholder="Câble de branchement" />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border z-[10000]">
+              <SelectItem value="none">Sans branchement (tension du nœud)</SelectItem>
+              {branchementCableTypes.map(cable => (
+                <SelectItem key={cable.id} value={cable.id}>{cable.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {summary && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm">Cascade ({selectedScenario})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant={summary.stable ? 'success' : 'destructive'}>
+                {summary.stable ? 'État stable' : 'Pompage détecté'}
+              </Badge>
+              <Badge variant="secondary">{summary.trippedClientIds.length} découplé(s)</Badge>
+              <Badge variant="secondary">P perdue : {summary.lostPower_kW.toFixed(1)} kW</Badge>
+            </div>
+            {summary.events.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">#</TableHead>
+                    <TableHead className="text-xs">Client</TableHead>
+                    <TableHead className="text-xs">Action</TableHead>
+                    <TableHead className="text-xs text-right">U (V)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.events.map(event => (
+                    <TableRow key={event.step}>
+                      <TableCell className="text-xs">{event.step}</TableCell>
+                      <TableCell className="text-xs">{event.clientName}</TableCell>
+                      <TableCell className="text-xs">{event.action === 'trip' ? 'Découplage' : 'Reconnexion'}</TableCell>
+                      <TableCell className="text-xs text-right">{event.voltage_V.toFixed(1)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-xs text-muted-foreground">Aucun découplage dans ce scénario</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-sm">Énergie perdue sur 24h</CardTitle>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleDaily} disabled={running || pvClientCount === 0}>
+              {running ? 'Calcul...' : 'Calculer sur 24h'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            Profil journalier de l'onglet 24h, état des découplages conservé d'une heure à l'autre.
+          </p>
+          {daily && (
+            <>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant={daily.totalEnergyLost_kWh > 0 ? 'warning' : 'success'}>
+                  {daily.totalEnergyLost_kWh.toFixed(1)} kWh perdus / {daily.totalEnergyAvailable_kWh.toFixed(1)} kWh
+                </Badge>
+                {daily.hours.some(h => !h.stable) && <Badge variant="destructive">Pompage à certaines heures</Badge>}
+              </div>
+              {daily.clients.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs">Client</TableHead>
+                      <TableHead className="text-xs text-right">1er découplage</TableHead>
+                      <TableHead className="text-xs text-right">Heures</TableHead>
+                      <TableHead className="text-xs text-right">kWh</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {daily.clients.slice(0, MAX_DISPLAYED_CLIENTS).map(client => (
+                      <TableRow key={client.clientId}>
+                        <TableCell className="text-xs">{client.clientName}</TableCell>
+                        <TableCell className="text-xs text-right">{client.firstTripHour}h (étape {client.firstTripStep})</TableCell>
+                        <TableCell className="text-xs text-right">{client.trippedHours}</TableCell>
+                        <TableCell className="text-xs text-right">{client.energyLost_kWh.toFixed(1)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -8,6 +8,7 @@ import { RefreshCw } from "lucide-react";
 import type { Node, ClientImporte } from "@/types/network";
 import { analyzeClientPower } from "@/utils/clientsUtils";
 import * as Complex from "@/utils/complex";
+import { EN50160_UNBALANCE_LIMIT_PERCENT, EN50160_UNBALANCE_WARNING_PERCENT, getUnbalanceCompliance } from "@/utils/symmetricalComponents";
 
 // Helper pour calculer le courant de neutre (400V uniquement)
 function calculateNeutralCurrent(Ia: number, Ib: number, Ic: number): number {
@@ -239,13 +240,17 @@ function calculateGlobalFoisonne(
 }
 
 interface PhaseDistributionDisplayProps {
-  section?: 'table' | 'stats' | 'alerts' | 'all';
+  section?: 'table' | 'stats' | 'alerts' | 'sequence' | 'all';
 }
 
 export const PhaseDistributionDisplay = ({ section = 'all' }: PhaseDistributionDisplayProps) => {
-  const { currentProject, rebalanceAllMonoClients } = useNetworkStore();
+  const { currentProject, rebalanceAllMonoClients, calculationResults, selectedScenario } = useNetworkStore();
   
-  if (!currentProject || currentProject.loadModel !== 'mixte_mono_poly') {
+  if (!currentProject) return null;
+
+  // Composantes symétriques : tout modèle déséquilibré ; autres sections : mode mixte uniquement
+  const isUnbalancedModel = currentProject.loadModel === 'monophase_reparti' || currentProject.loadModel === 'mixte_mono_poly';
+  if (section === 'sequence' ? !isUnbalancedModel : currentProject.loadModel !== 'mixte_mono_poly') {
     return null;
   }
 
@@ -585,16 +590,80 @@ export const PhaseDistributionDisplay = ({ section = 'all' }: PhaseDistributionD
     );
   };
 
+  // Section: Composantes symétriques et taux de déséquilibre (EN50160 u2 ≤ 2%)
+  const renderSequence = () => {
+    const sequenceVoltages = calculationResults[selectedScenario]?.nodeSequenceVoltages;
+    if (!sequenceVoltages || sequenceVoltages.length === 0) {
+      return (
+        <div className="text-xs text-muted-foreground text-center py-2">
+          Aucun calcul déséquilibré disponible
+        </div>
+      );
+    }
+
+    const sourceIds = new Set(currentProject.nodes.filter(n => n.isSource).map(n => n.id));
+    const rows = sequenceVoltages
+      .filter(s => !sourceIds.has(s.nodeId))
+      .sort((a, b) => b.unbalanceFactor_percent - a.unbalanceFactor_percent);
+    const worst = rows[0];
+    const nonCompliantCount = rows.filter(s => !s.compliant).length;
+    const compliance = getUnbalanceCompliance(rows);
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Badge variant={compliance === 'normal' ? 'default' : compliance === 'warning' ? 'secondary' : 'destructive'} className="text-xs">
+            {compliance === 'normal' ? '✓' : compliance === 'warning' ? '⚠️' : '🔴'} u2 max: {(worst?.unbalanceFactor_percent ?? 0).toFixed(2)}%
+          </Badge>
+          <span className="text-xs text-muted-foreground">
+            Limite EN50160 : {EN50160_UNBALANCE_LIMIT_PERCENT}% (vigilance {EN50160_UNBALANCE_WARNING_PERCENT}%){nonCompliantCount > 0 && ` · ${nonCompliantCount} nœud(s) hors limite`}
+          </span>
+        </div>
+        <div className="overflow-x-auto max-h-48 overflow-y-auto">
+          <table className="w-full text-[10px] border-collapse">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-1 px-1 font-semibold">Nœud</th>
+                <th className="text-right py-1 px-1 font-semibold">V1 (V)</th>
+                <th className="text-right py-1 px-1 font-semibold">V2 (V)</th>
+                <th className="text-right py-1 px-1 font-semibold">V0 (V)</th>
+                <th className="text-right py-1 px-1 font-semibold">u2 (%)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(s => {
+                const node = currentProject.nodes.find(n => n.id === s.nodeId);
+                return (
+                  <tr key={s.nodeId} className="border-b border-border/30">
+                    <td className="py-1 px-1 text-foreground">{node?.name || s.nodeId}</td>
+                    <td className="text-right py-1 px-1">{s.V1_V.toFixed(1)}</td>
+                    <td className="text-right py-1 px-1">{s.V2_V.toFixed(2)}</td>
+                    <td className="text-right py-1 px-1">{s.V0_V.toFixed(2)}</td>
+                    <td className={`text-right py-1 px-1 font-bold ${!s.compliant ? 'text-destructive' : s.unbalanceFactor_percent > EN50160_UNBALANCE_WARNING_PERCENT ? 'text-orange-500' : 'text-green-600 dark:text-green-400'}`}>
+                      {s.unbalanceFactor_percent.toFixed(2)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
   // Rendu selon la section demandée
   if (section === 'table') return renderTable();
   if (section === 'stats') return renderStats();
   if (section === 'alerts') return renderAlerts();
+  if (section === 'sequence') return renderSequence();
 
   // Section 'all': affichage complet (legacy)
   return (
     <div className="flex flex-col gap-3">
       {renderTable()}
       {renderStats()}
+      {renderSequence()}
       {hasHighPowerClients && renderAlerts()}
     </div>
   );
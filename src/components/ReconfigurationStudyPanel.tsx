@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNetworkStore } from "@/store/networkStore";
+import { runReconfigurationStudy, ReconfigurationStudyResult } from "@/utils/reconfigurationStudy";
+import { toast } from "sonner";
+
+// Nombre de configurations affichées dans le tableau
+const MAX_DISPLAYED_OPTIONS = 10;
+
+export const ReconfigurationStudyPanel = () => {
+  const { currentProject, selectedScenario, applyOpenPoints } = useNetworkStore();
+  const [study, setStudy] = useState<ReconfigurationStudyResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  if (!currentProject) return null;
+
+  const switchCount = currentProject.cables.filter(c => c.switchState !== undefined).length;
+  const cableName = (id: string) => currentProject.cables.find(c => c.id === id)?.name || id;
+
+  const handleRun = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        const result = runReconfigurationStudy(currentProject, selectedScenario);
+        setStudy(result);
+        if (result.noResultReason) toast.warning(result.noResultReason);
+      } catch (error) {
+        console.error('Erreur étude de reconfiguration:', error);
+        toast.error('Erreur lors de l\'étude de reconfiguration');
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Compare les positions possibles des points de coupure ({switchCount} organe{switchCount > 1 ? 's' : ''} de coupure)
+        pour le scénario {selectedScenario}.
+      </p>
+      <Button size="sm" className="w-full" onClick={handleRun} disabled={running || switchCount < 2}>
+        {running ? 'Calcul en cours...' : 'Lancer l\'étude'}
+      </Button>
+
+      {study && study.options.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant="outline">{study.options.length} configuration{study.options.length > 1 ? 's' : ''} valide{study.options.length > 1 ? 's' : ''}</Badge>
+            {study.truncated && <Badge variant="secondary">Énumération tronquée ({study.evaluatedCount})</Badge>}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Points ouverts</TableHead>
+                <TableHead className="text-xs text-right">Pertes</TableHead>
+                <TableHead className="text-xs text-right">Écart U</TableHead>
+                <TableHead className="text-xs"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {study.options.slice(0, MAX_DISPLAYED_OPTIONS).map(option => {
+                const key = option.openCableIds.join('|');
+                return (
+                  <TableRow key={key}>
+                    <TableCell className="text-xs">
+                      {option.openCableIds.map(cableName).join(', ')}
+                      <div className="flex gap-1 mt-1">
+                        {option === study.bestByLosses && <Badge className="text-[10px] px-1">Pertes min</Badge>}
+                        {option === study.bestByVoltage && <Badge className="text-[10px] px-1" variant="secondary">Tension</Badge>}
+                        {option.isCurrent && <Badge className="text-[10px] px-1" variant="outline">Actuel</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs text-right">{option.globalLosses_kW.toFixed(2)} kW</TableCell>
+                    <TableCell className="text-xs text-right">{option.worstDeviationPercent.toFixed(1)}%</TableCell>
+                    <TableCell className="text-xs">
+                      {!option.isCurrent && (
+                        <Button size="sm" variant="outline" className="h-6 text-[10px] px-2" onClick={() => { applyOpenPoints(option.openCableIds); setStudy(null); }}>
+                          Appliquer
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+};
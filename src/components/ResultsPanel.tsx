@@ -8,6 +8,7 @@ import { jsPDF } from 'jspdf';
 import { getConnectedNodes, getConnectedCables } from '@/utils/networkConnectivity';
 import { getNodeConnectionType } from '@/utils/nodeConnectionType';
 import { calculateTotalPowersForNodes } from '@/utils/clientsUtils';
+import { isNeutralOverloaded } from '@/utils/cableDerating';
 
 
 interface ResultsPanelProps {
@@ -224,6 +225,26 @@ export const ResultsPanel = ({ results, selectedScenario, isCollapsed = false }:
     );
   };
 
+  const getProtectionBadge = (compliance: 'normal' | 'warning' | 'critical') => {
+    const variants = {
+      normal: 'default',
+      warning: 'warning',
+      critical: 'critical'
+    } as const;
+
+    const texts = {
+      normal: 'Protections conformes',
+      warning: 'Protections à vérifier',
+      critical: 'Protections non conformes'
+    };
+
+    return (
+      <Badge variant={variants[compliance]} className="text-xs">
+        {texts[compliance]}
+      </Badge>
+    );
+  };
+
   const formatScenarioName = (scenario: CalculationScenario) => {
     const names = {
       'PRÉLÈVEMENT': 'Prélèvement seul',
@@ -285,6 +306,7 @@ export const ResultsPanel = ({ results, selectedScenario, isCollapsed = false }:
               <span>Résumé Global</span>
               <div className="flex items-center gap-2">
                 {getComplianceBadge(currentResult.compliance)}
+                {currentResult.protection && currentResult.protection.checks.length > 0 && getProtectionBadge(currentResult.protection.compliance)}
                 <Button
                   variant="ghost"
                   size="icon"
@@ -582,8 +604,38 @@ export const ResultsPanel = ({ results, selectedScenario, isCollapsed = false }:
               </div>
             )}
             
-            {/* Infos Transformateur et Jeu de Barres */}
-            {currentResult.virtualBusbar && (
+            {/* Réseau multi-postes : transformateur et jeu de barres par poste */}
+            {currentResult.substations && currentResult.substations.length > 1 ? (
+              <div className="pt-3 border-t space-y-3">
+                <p className="text-muted-foreground text-sm">Postes sources ({currentResult.substations.length}) :</p>
+                {currentResult.substations.map((substation) => (
+                  <div key={substation.sourceNodeId} className="p-2 rounded border text-xs space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-sm">{substation.sourceName}</span>
+                      {getComplianceBadge(substation.compliance)}
+                    </div>
+                    {substation.transformerConfig && (
+                      <div className="text-muted-foreground">
+                        {substation.transformerConfig.rating} - {substation.transformerConfig.shortCircuitVoltage_percent}% Ucc
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-1">
+                      <span>Charges: {substation.totalLoads_kVA.toFixed(1)} kVA</span>
+                      <span>Productions: {substation.totalProductions_kVA.toFixed(1)} kVA</span>
+                      {substation.virtualBusbar && (
+                        <>
+                          <span>Tension: {substation.virtualBusbar.voltage_V.toFixed(1)} V</span>
+                          <span>Courant: {substation.virtualBusbar.current_A.toFixed(1)} A</span>
+                          <span>Net S: {substation.virtualBusbar.netSkVA.toFixed(1)} kVA</span>
+                          <span>Pertes transfo: {substation.virtualBusbar.losses_kW?.toFixed(3) || 0} kW</span>
+                        </>
+                      )}
+                      <span>Chute max: {substation.maxVoltageDropPercent.toFixed(2)}%</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : currentResult.virtualBusbar && (
               <div className="pt-3 border-t space-y-3">
                 <div>
                   <p className="text-muted-foreground text-sm mb-2">Transformateur :</p>
@@ -609,6 +661,43 @@ export const ResultsPanel = ({ results, selectedScenario, isCollapsed = false }:
               </div>
             )}
 
+            {/* Réseau maillé : boucles détectées */}
+            {currentResult.solverMode === 'meshed' && currentResult.meshLoops && currentResult.meshLoops.length > 0 && (
+              <div className="pt-3 border-t">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-muted-foreground text-sm">Réseau maillé :</p>
+                  <Badge variant="secondary">
+                    {currentResult.meshLoops.length} boucle{currentResult.meshLoops.length > 1 ? 's' : ''}
+                  </Badge>
+                </div>
+                <div className="space-y-1">
+                  {currentResult.meshLoops.map((loop) => {
+                    const loopCable = currentResult.cables.find(c => c.id === loop.cableId);
+                    const phases = loopCable?.currentsPerPhase_A;
+                    return (
+                      <div key={loop.cableId} className="text-xs">
+                        <div className="flex justify-between">
+                          <span className="truncate pr-2">
+                            Bouclage {loopCable?.name || loop.cableId}
+                            <span className="text-muted-foreground ml-1">
+                              ({loop.cableIds.length} câbles, {loop.nodeIds.length} nœuds)
+                            </span>
+                          </span>
+                          <span className="font-medium">{(loopCable?.current_A || 0).toFixed(1)} A</span>
+                        </div>
+                        {phases && (
+                          <div className="text-muted-foreground">
+                            A: {phases.A.toFixed(1)} A · B: {phases.B.toFixed(1)} A · C: {phases.C.toFixed(1)} A
+                            {phases.N !== undefined && ` · N: ${phases.N.toFixed(1)} A`}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Statistiques par circuit */}
             <div className="pt-3 border-t">
               <div className="grid grid-cols-2 gap-4 text-sm mb-3">
@@ -777,6 +866,101 @@ export const ResultsPanel = ({ results, selectedScenario, isCollapsed = false }:
           </Card>
         )}
 
+        {/* Short-circuit currents */}
+        {currentResult?.shortCircuit && currentResult.shortCircuit.nodes.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Courants de Court-Circuit</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground text-xs mb-2">
+                Ik max (c={currentResult.shortCircuit.cMax}, conducteurs froids) / Ik min (c={currentResult.shortCircuit.cMin}, conducteurs chauds) en kA
+              </p>
+              <div className="max-h-64 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs">Nœud</TableHead>
+                      <TableHead className="text-xs text-right">Ik3 max</TableHead>
+                      <TableHead className="text-xs text-right">Ik2 min</TableHead>
+                      <TableHead className="text-xs text-right">Ik1 max</TableHead>
+                      <TableHead className="text-xs text-right">Ik1 min</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {currentResult.shortCircuit.nodes.map((sc) => {
+                      const node = currentProject?.nodes.find(n => n.id === sc.nodeId);
+                      if (!node) return null;
+                      return (
+                        <TableRow key={sc.nodeId}>
+                          <TableCell className="text-xs py-1">
+                            {node.name}
+                            {node.isSource && <span className="text-muted-foreground ml-1">(Source)</span>}
+                          </TableCell>
+                          <TableCell className="text-xs py-1 text-right">{sc.Ik3_max_kA.toFixed(2)}</TableCell>
+                          <TableCell className="text-xs py-1 text-right">{sc.Ik2_min_kA.toFixed(2)}</TableCell>
+                          <TableCell className="text-xs py-1 text-right">{sc.Ik1_max_kA !== undefined ? sc.Ik1_max_kA.toFixed(2) : '-'}</TableCell>
+                          <TableCell className="text-xs py-1 text-right font-medium">{sc.Ik1_min_kA !== undefined ? sc.Ik1_min_kA.toFixed(2) : '-'}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Protection devices check */}
+        {currentResult?.protection && currentResult.protection.checks.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center justify-between">
+                <span>Protections</span>
+                {getProtectionBadge(currentResult.protection.compliance)}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground text-xs mb-2">
+                Défaut minimal en bout de zone éliminé en moins de {currentResult.protection.maxClearingTime_s} s, calibre adapté à l'ampacité des câbles protégés
+              </p>
+              <div className="space-y-2 text-xs max-h-64 overflow-y-auto">
+                {currentResult.protection.checks.map((check) => {
+                  const cable = currentProject?.cables.find(c => c.id === check.cableId);
+                  const endNode = currentProject?.nodes.find(n => n.id === check.endFaultNodeId);
+                  const colors = { normal: 'bg-green-500', warning: 'bg-yellow-500', critical: 'bg-red-500' };
+                  return (
+                    <div key={check.cableId} className="border-b border-border/50 pb-1">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <div className={`w-3 h-3 rounded-full ${colors[check.compliance]} flex-shrink-0`} />
+                          <span className="font-medium">
+                            {cable?.name || check.cableId}
+                            {check.isFeederHead && <span className="text-muted-foreground ml-1">(départ)</span>}
+                          </span>
+                        </div>
+                        <span>
+                          {check.device ? `${check.device.type.replace('_', ' ')} ${check.device.rating_A} A` : '-'}
+                        </span>
+                      </div>
+                      {check.endFaultCurrent_A !== undefined && (
+                        <div className="text-muted-foreground">
+                          Ik min {endNode?.name || ''} : {check.endFaultCurrent_A.toFixed(0)} A
+                          {check.clearingTime_s !== undefined && ` · coupure ${isFinite(check.clearingTime_s) ? `${check.clearingTime_s.toFixed(2)} s` : 'aucune'}`}
+                          {check.weakestAmpacity_A !== undefined && ` · Iz min ${check.weakestAmpacity_A} A`}
+                        </div>
+                      )}
+                      {check.messages.map((message, i) => (
+                        <div key={i} className={check.compliance === 'critical' ? 'text-red-600' : 'text-orange-600'}>{message}</div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Comparison by Circuits */}
         {currentResult?.virtualBusbar?.circuits && currentResult.virtualBusbar.circuits.length > 0 && (
           <Card>
@@ -985,7 +1169,7 @@ export const ResultsPanel = ({ results, selectedScenario, isCollapsed = false }:
                                  {cable.current_A?.toFixed(1) || '-'}
                                </TableCell>
                                {currentProject?.loadModel === 'monophase_reparti' && currentProject?.voltageSystem === 'TÉTRAPHASÉ_400V' && (
-                                 <TableCell className="text-xs">
+                                 <TableCell className={`text-xs ${isNeutralOverloaded(cable, currentProject.cableTypes) ? 'text-destructive font-medium' : ''}`}>
                                    {cable.currentsPerPhase_A?.N?.toFixed(1) || '-'}
                                  </TableCell>
                                )}
@@ -1108,7 +1292,7 @@ export const ResultsPanel = ({ results, selectedScenario, isCollapsed = false }:
                                    {cable.current_A?.toFixed(1) || '-'}
                                  </TableCell>
                                  {currentProject?.loadModel === 'monophase_reparti' && currentProject?.voltageSystem === 'TÉTRAPHASÉ_400V' && (
-                                   <TableCell className="text-xs">
+                                   <TableCell className={`text-xs ${isNeutralOverloaded(cable, currentProject.cableTypes) ? 'text-destructive font-medium' : ''}`}>
                                      {cable.currentsPerPhase_A?.N?.toFixed(1) || '-'}
                                    </TableCell>
                                  )}
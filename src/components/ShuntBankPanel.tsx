@@ -0,0 +1,211 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from "@/components/ui/switch";
+import { Gauge, MapPin, Trash2 } from "lucide-react";
+import { useNetworkStore } from "@/store/networkStore";
+import { ShuntBank } from "@/types/network";
+
+const typeLabels: Record<ShuntBank['type'], string> = {
+  capacitor: 'Condensateurs',
+  reactor: 'Réactance'
+};
+
+const switchingLabels: Record<ShuntBank['switching'], string> = {
+  fixed: 'Fixe',
+  voltage_controlled: 'Commutée en tension'
+};
+
+const formatReactive = (Q_kVAr: number) =>
+  Q_kVAr > 0.005 ? `+${Q_kVAr.toFixed(1)}` : Q_kVAr < -0.005 ? Q_kVAr.toFixed(1) : '0';
+
+export const ShuntBankPanel = () => {
+  const {
+    currentProject,
+    simulationEquipment,
+    simulationResults,
+    selectedScenario,
+    nodeSelectionMode,
+    startNodeSelection,
+    addShuntBank,
+    removeShuntBank,
+    updateShuntBank
+  } = useNetworkStore();
+
+  if (!currentProject) return null;
+
+  const banks = simulationEquipment.shuntBanks ?? [];
+  const simulationResult = simulationResults[selectedScenario];
+  const nodes = currentProject.nodes.filter(n => !n.isSource);
+
+  // Transits réactifs des câbles raccordés au nœud du gradin (Q > 0 de l'amont vers l'aval)
+  const getNodeCableFlows = (nodeId: string) => currentProject.cables
+    .filter(c => c.nodeAId === nodeId || c.nodeBId === nodeId)
+    .flatMap(cable => {
+      const flow = simulationResult?.cablePowerFlows?.find(f => f.cableId === cable.id);
+      return flow ? [{ cable, flow }] : [];
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Compensation réactive shunt</h3>
+        <div className="flex items-center gap-2">
+          <Button
+            variant={nodeSelectionMode === 'shuntBank' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => startNodeSelection('shuntBank')}
+            title="Sélectionner sur la carte"
+          >
+            <MapPin className="h-3 w-3 mr-1" />
+            Carte
+          </Button>
+          <Select value="" onValueChange={(nodeId) => nodeId && addShuntBank(nodeId)}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue placeholder="Ajouter..." />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border z-[10000]">
+              {nodes.map(node => (
+                <SelectItem key={node.id} value={node.id}>{node.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Gradins modélisés en impédance constante : le réactif fourni varie comme le carré de la tension.
+        Les condensateurs relèvent la tension, les réactances l'abaissent.
+      </p>
+
+      {banks.length === 0 && (
+        <Card className="bg-muted/50">
+          <CardContent className="p-4 text-sm text-muted-foreground text-center">
+            Aucun gradin configuré
+          </CardContent>
+        </Card>
+      )}
+
+      {banks.map(bank => {
+        const node = currentProject.nodes.find(n => n.id === bank.nodeId);
+        const result = simulationResult?.shuntBanks?.find(b => b.bankId === bank.id);
+        const cableFlows = result ? getNodeCableFlows(bank.nodeId) : [];
+        return (
+          <Card key={bank.id}>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Gauge className="h-4 w-4 text-sky-500" />
+                  <CardTitle className="text-sm">{bank.name}</CardTitle>
+                  <span className="text-xs text-muted-foreground">{node?.name ?? bank.nodeId}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={bank.enabled} onCheckedChange={(enabled) => updateShuntBank(bank.id, { enabled })} />
+                  <Button variant="ghost" size="sm" onClick={() => removeShuntBank(bank.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={bank.type} onValueChange={(type) => updateShuntBank(bank.id, { type: type as ShuntBank['type'] })}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border z-[10000]">
+                    {(Object.keys(typeLabels) as ShuntBank['type'][]).map(type => (
+                      <SelectItem key={type} value={type}>{typeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={bank.switching}
+                  onValueChange={(switching) => updateShuntBank(bank.id, { switching: switching as ShuntBank['switching'] })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border z-[10000]">
+                    {(Object.keys(switchingLabels) as ShuntBank['switching'][]).map(switching => (
+                      <SelectItem key={switching} value={switching}>{switchingLabels[switching]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-4 gap-1">
+                {(['A', 'B', 'C'] as const).map(phase => (
+                  <div key={phase} className="space-y-1">
+                    <Label className="text-[10px] text-muted-foreground">Q{phase} (kVAr)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="h-7 text-xs px-1"
+                      value={bank.ratedPerPhase_kVAr[phase]}
+                      onChange={(e) => updateShuntBank(bank.id, {
+                        ratedPerPhase_kVAr: { ...bank.ratedPerPhase_kVAr, [phase]: Math.max(0, Number(e.target.value)) }
+                      })}
+                    />
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label className="text-[10px] text-muted-foreground">Gradins</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="h-7 text-xs px-1"
+                    value={bank.steps}
+                    onChange={(e) => updateShuntBank(bank.id, { steps: Math.max(1, Math.round(Number(e.target.value))) })}
+                  />
+                </div>
+                {bank.switching === 'voltage_controlled' && (
+                  <>
+                    <div className="space-y-1 col-span-2">
+                      <Label className="text-[10px] text-muted-foreground">U basse (V)</Label>
+                      <Input
+                        type="number"
+                        className="h-7 text-xs px-1"
+                        value={bank.voltageLow_V}
+                        onChange={(e) => updateShuntBank(bank.id, { voltageLow_V: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-1 col-span-2">
+                      <Label className="text-[10px] text-muted-foreground">U haute (V)</Label>
+                      <Input
+                        type="number"
+                        className="h-7 text-xs px-1"
+                        value={bank.voltageHigh_V}
+                        onChange={(e) => updateShuntBank(bank.id, { voltageHigh_V: Number(e.target.value) })}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+              {bank.switching === 'voltage_controlled' && bank.voltageLow_V >= bank.voltageHigh_V && (
+                <p className="text-[10px] text-destructive">La tension basse doit être inférieure à la tension haute</p>
+              )}
+
+              {result && (
+                <div className="text-xs bg-muted/50 p-2 rounded border grid grid-cols-2 gap-1">
+                  <div>Gradins en service : {result.stepsOn} / {bank.steps}</div>
+                  <div>Q fourni : {formatReactive(result.Q_kVAr)} kVAr</div>
+                  <div className="col-span-2">
+                    U nœud : {result.voltageBefore_V.toFixed(1)} → {result.voltageAfter_V.toFixed(1)} V
+                  </div>
+                  {cableFlows.map(({ cable, flow }) => (
+                    <div key={cable.id} className="col-span-2 text-muted-foreground">
+                      Transit {cable.name} : {flow.P_kW.toFixed(1)} kW / {formatReactive(flow.Q_kVAr)} kVAr (cos φ {flow.pf.toFixed(2)})
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -17,13 +17,18 @@ import { toast } from "sonner";
 import { DocumentationPanel } from "@/components/DocumentationPanel";
 import { SRG2Panel } from "@/components/SRG2Panel";
 import { CableReplacementSimulator } from "@/components/CableReplacementSimulator";
+import { InverterControlPanel } from "@/components/InverterControlPanel";
+import { PVTrippingPanel } from "@/components/PVTrippingPanel";
+import { BatteryPanel } from "@/components/BatteryPanel";
+import { ShuntBankPanel } from "@/components/ShuntBankPanel";
 import { Settings, Play, RotateCcw, Trash2, Plus, AlertTriangle, CheckCircle, Cable, MapPin, Sparkles, Target } from "lucide-react";
 import { useState, useMemo } from 'react';
-import { findOptimalEqui8Node, OptimalEqui8Analysis } from "@/utils/optimalEqui8Finder";
+import { findOptimalEqui8Node, OptimalEqui8Analysis, Equi8ScoringMetric } from "@/utils/optimalEqui8Finder";
 
 export const SimulationPanel = () => {
   const [showNodeSelector, setShowNodeSelector] = useState(false);
   const [showOptimalSuggestion, setShowOptimalSuggestion] = useState(false);
+  const [equi8Metric, setEqui8Metric] = useState<Equi8ScoringMetric>('neutral_current');
   const {
     currentProject,
     simulationMode,
@@ -54,8 +59,8 @@ export const SimulationPanel = () => {
     const baseResult = baseline || calculationResults[selectedScenario];
     if (!baseResult || !currentProject) return null;
     
-    return findOptimalEqui8Node(currentProject, baseResult);
-  }, [currentProject, baseline, calculationResults, selectedScenario]);
+    return findOptimalEqui8Node(currentProject, baseResult, equi8Metric);
+  }, [currentProject, baseline, calculationResults, selectedScenario, equi8Metric]);
   
   const handleAddOptimalNode = () => {
     if (optimalEqui8Analysis?.optimalNode) {
@@ -365,10 +370,13 @@ export const SimulationPanel = () => {
       <ScrollArea className="flex-1">
         <div className="p-4">
           <Tabs defaultValue="equi8" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="equi8">EQUI8</TabsTrigger>
               <TabsTrigger value="srg2">SRG2</TabsTrigger>
               <TabsTrigger value="cables">Câbles</TabsTrigger>
+              <TabsTrigger value="inverters">PV</TabsTrigger>
+              <TabsTrigger value="batteries">Stock.</TabsTrigger>
+              <TabsTrigger value="shunts">Shunt</TabsTrigger>
               <TabsTrigger value="doc">Doc</TabsTrigger>
             </TabsList>
 
@@ -406,6 +414,15 @@ export const SimulationPanel = () => {
                     </div>
                   </CardHeader>
                   <CardContent className="px-4 pb-3 pt-0">
+                    <Select value={equi8Metric} onValueChange={(value) => setEqui8Metric(value as Equi8ScoringMetric)}>
+                      <SelectTrigger className="h-7 text-xs mb-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="neutral_current">Critère : courant de neutre</SelectItem>
+                        <SelectItem value="unbalance">Critère : déséquilibre u2 (EN50160)</SelectItem>
+                      </SelectContent>
+                    </Select>
                     {optimalEqui8Analysis.optimalNode ? (
                       <div className="space-y-2">
                         <div className="flex items-center justify-between">
@@ -429,13 +446,21 @@ export const SimulationPanel = () => {
                           <div className="bg-background/50 rounded p-2 text-xs space-y-1">
                             <div className="grid grid-cols-2 gap-x-4">
                               <div>I neutre: <span className="font-mono">{optimalEqui8Analysis.optimalNode.neutralCurrent_A.toFixed(1)} A</span></div>
+                              {optimalEqui8Analysis.optimalNode.unbalanceFactor_percent !== undefined && (
+                                <div>u2: <span className="font-mono">{optimalEqui8Analysis.optimalNode.unbalanceFactor_percent.toFixed(2)} %</span></div>
+                              )}
                               <div>Z amont: <span className="font-mono">{optimalEqui8Analysis.optimalNode.upstreamImpedance_Zph_Ohm.toFixed(3)} Ω</span></div>
                               <div>Score: <span className="font-mono">{optimalEqui8Analysis.optimalNode.score.toFixed(2)}</span></div>
                               <div>Position: <span className="font-mono">{(optimalEqui8Analysis.optimalNode.positionRatio * 100).toFixed(0)}%</span></div>
+                              {optimalEqui8Analysis.overloadedNeutralCableIds.length > 0 && (
+                                <div className="col-span-2 text-destructive">
+                                  Neutres en surcharge soulagés : {optimalEqui8Analysis.optimalNode.relievedNeutralOverloads} / {optimalEqui8Analysis.overloadedNeutralCableIds.length}
+                                </div>
+                              )}
                             </div>
                             <Separator className="my-1" />
                             <p className="text-muted-foreground">
-                              💡 Score = I_N / Z_up. Un score élevé indique un fort déséquilibre proche de la source.
+                              💡 Score = {optimalEqui8Analysis.metric === 'unbalance' ? 'u2' : 'I_N'} / Z_up. Un score élevé indique un fort déséquilibre proche de la source.
                             </p>
                             {optimalEqui8Analysis.candidates.length > 1 && (
                               <>
@@ -583,6 +608,19 @@ export const SimulationPanel = () => {
               <CableReplacementSimulator />
             </TabsContent>
 
+            <TabsContent value="inverters" className="mt-4 space-y-4">
+              <InverterControlPanel />
+              <PVTrippingPanel />
+            </TabsContent>
+
+            <TabsContent value="batteries" className="mt-4">
+              <BatteryPanel />
+            </TabsContent>
+
+            <TabsContent value="shunts" className="mt-4">
+              <ShuntBankPanel />
+            </TabsContent>
+
             <TabsContent value="doc" className="mt-4">
               <DocumentationPanel />
             </TabsContent>
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNetworkStore } from "@/store/networkStore";
+import { findBestTapPosition, TapStudyResult } from "@/utils/transformerTap";
+import type { CalculationScenario, TransformerTapPosition } from "@/types/network";
+import { toast } from "sonner";
+
+const formatTap = (tap: number) => `${tap > 0 ? '+' : ''}${tap}%`;
+
+const formatRange = (min: number, max: number) =>
+  `${min >= 0 ? '+' : ''}${min.toFixed(1)} / ${max >= 0 ? '+' : ''}${max.toFixed(1)}%`;
+
+export const TapChangerStudyPanel = () => {
+  const { currentProject, updateProjectConfig, updateAllCalculations } = useNetworkStore();
+  const [study, setStudy] = useState<TapStudyResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  if (!currentProject) return null;
+
+  const handleRun = () => {
+    setRunning(true);
+    // Laisser le temps au bouton de passer en état "calcul"
+    setTimeout(() => {
+      try {
+        setStudy(findBestTapPosition(currentProject));
+      } catch (error) {
+        console.error('Erreur étude de prise transformateur:', error);
+        toast.error('Erreur lors de l\'étude de prise transformateur');
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const applyTap = (tap: TransformerTapPosition) => {
+    updateProjectConfig({
+      transformerConfig: { ...currentProject.transformerConfig, tapPosition_percent: tap }
+    });
+    updateAllCalculations();
+    setStudy(null);
+    toast.success(`Prise transformateur réglée sur ${formatTap(tap)}`);
+  };
+
+  const scenarioRange = (option: TapStudyResult['options'][number], scenario: CalculationScenario) => {
+    const s = option.scenarios.find(sc => sc.scenario === scenario);
+    return s ? formatRange(s.minDeviationPercent, s.maxDeviationPercent) : '-';
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Évalue chaque prise hors tension sur les scénarios PRÉLÈVEMENT et PRODUCTION et recommande
+        celle qui minimise le pire écart EN50160 (prise actuelle : {formatTap(currentProject.transformerConfig?.tapPosition_percent ?? 0)}).
+      </p>
+      <Button size="sm" className="w-full" onClick={handleRun} disabled={running}>
+        {running ? 'Calcul en cours...' : 'Lancer l\'étude'}
+      </Button>
+
+      {study && (
+        <>
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant="outline">Prise recommandée : {formatTap(study.bestTap)}</Badge>
+            {study.improvementPercent > 0.05 && (
+              <Badge variant="secondary">Gain : {study.improvementPercent.toFixed(1)} pts</Badge>
+            )}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Prise</TableHead>
+                <TableHead className="text-xs text-right">Prélèvement</TableHead>
+                <TableHead className="text-xs text-right">Production</TableHead>
+                <TableHead className="text-xs text-right">Pire écart</TableHead>
+                <TableHead className="text-xs"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {study.options.map(option => (
+                <TableRow key={option.tap}>
+                  <TableCell className="text-xs">
+                    {formatTap(option.tap)}
+                    <div className="flex gap-1 mt-1">
+                      {option.tap === study.bestTap && <Badge className="text-[10px] px-1">Meilleure</Badge>}
+                      {option.isCurrent && <Badge className="text-[10px] px-1" variant="outline">Actuel</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs text-right">{scenarioRange(option, 'PRÉLÈVEMENT')}</TableCell>
+                  <TableCell className="text-xs text-right">{scenarioRange(option, 'PRODUCTION')}</TableCell>
+                  <TableCell className="text-xs text-right">
+                    <span className={option.compliant ? '' : 'text-destructive'}>{option.worstDeviationPercent.toFixed(1)}%</span>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {!option.isCurrent && (
+                      <Button size="sm" variant="outline" className="h-6 text-[10px] px-2" onClick={() => applyTap(option.tap)}>
+                        Appliquer
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+};
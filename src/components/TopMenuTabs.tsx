@@ -1,10 +1,10 @@
 import { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
-import { Zap, Users, Settings2, FlaskConical, FileDown, Clock, Cable } from "lucide-react";
+import { Zap, Users, Settings2, FlaskConical, FileDown, Clock, Cable, ClipboardList } from "lucide-react";
 import { useNetworkStore } from "@/store/networkStore";
 import { ExcelImporter } from '@/components/ExcelImporter';
-import { NetworkTab, RaccordementsTab, ParametersTab, SimulationTab, DailyProfileTab, ExportTab, TensionClientTab } from '@/components/topMenu';
+import { NetworkTab, RaccordementsTab, ParametersTab, SimulationTab, DailyProfileTab, ExportTab, TensionClientTab, StudiesTab } from '@/components/topMenu';
 
 interface TopMenuTabsProps {
   defaultTab?: string;
@@ -73,6 +73,13 @@ export const TopMenuTabs = ({ defaultTab = 'network', className = '' }: TopMenuT
               <Cable className="h-4 w-4 mr-2" />
               Tension Client
             </TabsTrigger>
+            <TabsTrigger 
+              value="studies" 
+              className="relative h-10 rounded-none border-b-2 border-transparent bg-transparent px-4 font-medium text-muted-foreground shadow-none transition-none data-[state=active]:border-violet-500 data-[state=active]:text-violet-500 data-[state=active]:shadow-none"
+            >
+              <ClipboardList className="h-4 w-4 mr-2" />
+              Études
+            </TabsTrigger>
             <TabsTrigger 
               value="export" 
               className="relative h-10 rounded-none border-b-2 border-transparent bg-transparent px-4 font-medium text-muted-foreground shadow-none transition-none data-[state=active]:border-destructive data-[state=active]:text-destructive data-[state=active]:shadow-none"
@@ -102,6 +109,9 @@ export const TopMenuTabs = ({ defaultTab = 'network', className = '' }: TopMenuT
         <TabsContent value="tension-client" className="mt-0">
           <TensionClientTab />
         </TabsContent>
+        <TabsContent value="studies" className="mt-0">
+          <StudiesTab />
+        </TabsContent>
         <TabsContent value="export" className="mt-0">
           <ExportTab />
         </TabsContent>
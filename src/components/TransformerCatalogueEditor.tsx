@@ -0,0 +1,151 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2, RotateCcw } from "lucide-react";
+import { useNetworkStore } from "@/store/networkStore";
+import { getTransformerTypes, applyTransformerType, createTransformerType } from '@/utils/transformerCatalogue';
+import { defaultTransformerTypes } from '@/data/defaultTransformerTypes';
+import type { TransformerType, TransformerCoupling, TransformerMounting } from '@/types/network';
+import { toast } from "sonner";
+
+// Colonnes numériques éditables du catalogue
+const NUMERIC_FIELDS: { key: keyof TransformerType; label: string; step: string }[] = [
+  { key: 'nominalPower_kVA', label: 'kVA', step: '10' },
+  { key: 'shortCircuitVoltage_percent', label: 'Ucc %', step: '0.1' },
+  { key: 'xOverR', label: 'X/R', step: '0.1' },
+  { key: 'noLoadLosses_W', label: 'P0 (W)', step: '10' },
+  { key: 'loadLosses_W', label: 'Pk (W)', step: '50' },
+  { key: 'zeroSequenceImpedance_percent', label: 'Z0 %', step: '0.1' },
+  { key: 'zeroSequenceXOverR', label: 'X0/R0', step: '0.1' },
+];
+
+export const TransformerCatalogueEditor = () => {
+  const { currentProject, updateProjectConfig, updateAllCalculations } = useNetworkStore();
+
+  if (!currentProject) return null;
+
+  const transformerTypes = getTransformerTypes(currentProject);
+  const selectedTypeId = currentProject.transformerConfig?.typeId;
+
+  // Sauvegarde du catalogue ; le transformateur principal suit son entrée si elle est modifiée
+  const saveTypes = (types: TransformerType[], changedId?: string) => {
+    const selected = changedId && changedId === selectedTypeId ? types.find(t => t.id === changedId) : undefined;
+    updateProjectConfig({
+      transformerTypes: types,
+      ...(selected ? { transformerConfig: applyTransformerType(currentProject.transformerConfig, selected) } : {})
+    });
+    if (selected) updateAllCalculations();
+  };
+
+  const updateType = (id: string, updates: Partial<TransformerType>) => {
+    saveTypes(transformerTypes.map(t => (t.id === id ? { ...t, ...updates } : t)), id);
+  };
+
+  const selectType = (id: string) => {
+    const type = transformerTypes.find(t => t.id === id);
+    if (!type) return;
+    updateProjectConfig({ transformerConfig: applyTransformerType(currentProject.transformerConfig, type) });
+    updateAllCalculations();
+    toast.success(`Transformateur principal : ${type.label}`);
+  };
+
+  const removeType = (id: string) => {
+    if (id === selectedTypeId) {
+      toast.error('Ce transformateur est utilisé par le poste principal');
+      return;
+    }
+    saveTypes(transformerTypes.filter(t => t.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="flex flex-col gap-1 min-w-[220px]">
+          <Label className="text-[10px] text-muted-foreground">Transformateur du poste principal</Label>
+          <Select value={selectedTypeId} onValueChange={selectType}>
+            <SelectTrigger className="w-full bg-background border text-xs h-8">
+              <SelectValue placeholder={`${currentProject.transformerConfig.nominalPower_kVA} kVA (hors catalogue)`} />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border z-[10000]">
+              {transformerTypes.map(type => (
+                <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" variant="outline" className="h-8 text-xs" onClick={() => saveTypes([...transformerTypes, createTransformerType()])}>
+          <Plus className="h-3 w-3 mr-1" />
+          Ajouter
+        </Button>
+        <Button size="sm" variant="ghost" className="h-8 text-xs" onClick={() => saveTypes([...defaultTransformerTypes])}>
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Catalogue par défaut
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-xs">Désignation</TableHead>
+            <TableHead className="text-xs">Pose</TableHead>
+            <TableHead className="text-xs">Couplage</TableHead>
+            {NUMERIC_FIELDS.map(f => (
+              <TableHead key={f.key} className="text-xs text-right">{f.label}</TableHead>
+            ))}
+            <TableHead className="text-xs"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {transformerTypes.map(type => (
+            <TableRow key={type.id} className={type.id === selectedTypeId ? 'bg-primary/5' : undefined}>
+              <TableCell className="p-1">
+                <Input
+                  className="h-7 text-xs min-w-[160px]"
+                  value={type.label}
+                  onChange={(e) => updateType(type.id, { label: e.target.value })}
+                />
+              </TableCell>
+              <TableCell className="p-1">
+                <Select value={type.mounting} onValueChange={(value) => updateType(type.id, { mounting: value as TransformerMounting })}>
+                  <SelectTrigger className="h-7 text-xs w-24"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-popover border z-[10000]">
+                    <SelectItem value="CABINE">Cabine</SelectItem>
+                    <SelectItem value="POTEAU">Poteau</SelectItem>
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell className="p-1">
+                <Select value={type.coupling} onValueChange={(value) => updateType(type.id, { coupling: value as TransformerCoupling })}>
+                  <SelectTrigger className="h-7 text-xs w-24"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-popover border z-[10000]">
+                    <SelectItem value="Dyn11">Dyn11</SelectItem>
+                    <SelectItem value="Yzn11">Yzn11</SelectItem>
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              {NUMERIC_FIELDS.map(f => (
+                <TableCell key={f.key} className="p-1">
+                  <Input
+                    type="number"
+                    step={f.step}
+                    min="0"
+                    className="h-7 text-xs w-20 text-right"
+                    value={type[f.key] as number}
+                    onChange={(e) => updateType(type.id, { [f.key]: Number(e.target.value) || 0 })}
+                  />
+                </TableCell>
+              ))}
+              <TableCell className="p-1">
+                <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => removeType(type.id)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -14,15 +14,20 @@ import {
 import { useNetworkStore } from '@/store/networkStore';
 import { DailyProfileCalculator } from '@/utils/dailyProfileCalculator';
 import { DailyProfileChart } from '@/components/DailyProfileChart';
+import { EN50160CompliancePanel } from '@/components/EN50160CompliancePanel';
+import { EVFleetPanel } from '@/components/EVFleetPanel';
+import { HeatPumpPanel } from '@/components/HeatPumpPanel';
+import { CableThermalPanel } from '@/components/CableThermalPanel';
 import { ProfileVisualEditor } from '@/components/ProfileVisualEditor';
 import { MeasuredProfileImporter } from '@/components/MeasuredProfileImporter';
 import { HourlyVoltageResult, ClientHourlyVoltageResult } from '@/types/dailyProfile';
-import { Clock, Sun, Cloud, Car, Factory, Edit3, AlertTriangle, Percent, Home, Zap, FlaskConical, Moon, Upload, FileBarChart, X, Download, MapPin, User, Cable } from 'lucide-react';
+import { Clock, Sun, Cloud, Car, Factory, Edit3, AlertTriangle, Percent, Home, Zap, FlaskConical, Moon, Upload, FileBarChart, X, Download, MapPin, User, Cable, ShieldCheck, Thermometer } from 'lucide-react';
 import { toast } from 'sonner';
 import { HourlyProfile, MeasuredProfileMetadata } from '@/types/dailyProfile';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Project } from '@/types/network';
+import { Project, CalculationResult, countActiveSimulationEquipment } from '@/types/network';
 import { calculateClientDailyVoltages } from '@/utils/clientDailyProfileCalculator';
+import { buildNetworkVoltageSeries, evaluateEN50160 } from '@/utils/en50160Evaluator';
 import { branchementCableTypes, calculateGeodeticDistance } from '@/data/branchementCableTypes';
 
 /**
@@ -120,6 +125,7 @@ export const DailyProfileTab = () => {
   // Résultats du calcul
   const [results, setResults] = useState<HourlyVoltageResult[]>([]);
   const [resultsWithoutSim, setResultsWithoutSim] = useState<HourlyVoltageResult[]>([]);
+  const [networkResults, setNetworkResults] = useState<(CalculationResult | null)[]>([]);
 
   // Liste des nœuds disponibles
   const nodes = useMemo(() => {
@@ -135,10 +141,8 @@ export const DailyProfileTab = () => {
   }, [nodes, dailyProfileOptions.selectedNodeId, setDailyProfileOptions]);
 
   // Compteur d'équipements de simulation
-  const srg2Count = simulationEquipment.srg2Devices?.filter(s => s.enabled).length || 0;
-  const compensatorCount = simulationEquipment.neutralCompensators?.filter(c => c.enabled).length || 0;
   const hasCableReplacement = simulationEquipment.cableReplacement?.enabled;
-  const totalEquipment = srg2Count + compensatorCount + (hasCableReplacement ? 1 : 0);
+  const totalEquipment = countActiveSimulationEquipment(simulationEquipment) + (hasCableReplacement ? 1 : 0);
   const hasAnyEquipment = totalEquipment > 0 || 
     (simulationEquipment.srg2Devices?.length || 0) > 0 || 
     simulationEquipment.neutralCompensators.length > 0;
@@ -151,6 +155,7 @@ export const DailyProfileTab = () => {
     if (!currentProject || !dailyProfileOptions.selectedNodeId) {
       setResults([]);
       setResultsWithoutSim([]);
+      setNetworkResults([]);
       return;
     }
 
@@ -164,6 +169,7 @@ export const DailyProfileTab = () => {
       dailyProfileOptions.useMeasuredProfile ? measuredProfile ?? undefined : undefined
     );
     setResults(calculatorWithSim.calculateDailyVoltages());
+    setNetworkResults(calculatorWithSim.getHourlyNetworkResults());
 
     // Calcul SANS simulation (pour comparaison)
     if (hasActiveSimulation && comparisonMode) {
@@ -186,6 +192,12 @@ export const DailyProfileTab = () => {
     return DailyProfileCalculator.findCriticalHours(results).slice(0, 5);
   }, [results]);
 
+  // Conformité statistique EN50160 sur tous les nœuds et clients
+  const en50160Evaluation = useMemo(() => {
+    if (!currentProject || networkResults.length === 0) return null;
+    return evaluateEN50160(buildNetworkVoltageSeries(currentProject, networkResults));
+  }, [currentProject, networkResults]);
+
   // Tension nominale : toujours 230V car on calcule en phase-neutre
   const nominalVoltage = 230;
 
@@ -437,10 +449,30 @@ export const DailyProfileTab = () => {
               </div>
             )}
             
+            {dailyProfileOptions.enableEV && currentProject.evFleet?.enabled && (
+              <p className="text-[10px] text-muted-foreground">Majoration remplacée par les bornes de la flotte VE</p>
+            )}
+
             {/* Statistiques clients détectés */}
             <ClientStatsDisplay project={currentProject} />
           </div>
 
+          {/* Modèle thermique des câbles */}
+          <div className="space-y-1 pt-2 border-t border-border">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="cable-thermal-toggle" className="text-sm flex items-center gap-2">
+                <Thermometer className="h-4 w-4 text-muted-foreground" />
+                Échauffement des câbles
+              </Label>
+              <Switch
+                id="cable-thermal-toggle"
+                checked={dailyProfileOptions.cableThermalModel ?? false}
+                onCheckedChange={(checked) => setDailyProfileOptions({ cableThermalModel: checked })}
+              />
+            </div>
+            <p className="text-[10px] text-muted-foreground">Résistances corrigées de la température horaire des conducteurs (régime périodique)</p>
+          </div>
+
           {/* Section profil mesuré */}
           <div className="space-y-2 pt-2 border-t border-border">
             <Label className="text-xs text-muted-foreground flex items-center gap-2">
@@ -701,6 +733,30 @@ export const DailyProfileTab = () => {
           </CardContent>
         </Card>
 
+        {/* Conformité EN50160 statistique */}
+        {en50160Evaluation && (
+          <Card className="bg-card/50 backdrop-blur border-border/50">
+            <CardHeader className="pb-2 pt-3 px-4">
+              <CardTitle className="text-sm font-medium flex items-center gap-2">
+                <ShieldCheck className="h-4 w-4 text-primary" />
+                Conformité EN50160 (statistique)
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 pb-4">
+              <EN50160CompliancePanel evaluation={en50160Evaluation} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Flotte VE : bornes explicites et pilotage de la recharge */}
+        <EVFleetPanel hasActiveSimulation={hasActiveSimulation} />
+
+        {/* Pompes à chaleur : charge fonction de la température extérieure */}
+        <HeatPumpPanel results={results} />
+
+        {/* Thermique transitoire des câbles sur la journée */}
+        <CableThermalPanel hasActiveSimulation={hasActiveSimulation} />
+
         {/* Heures critiques */}
         {criticalHours.length > 0 && (
           <Card className="bg-card/50 backdrop-blur border-border/50">
@@ -3,7 +3,10 @@ import { Button } from "@/components/ui/button";
 import { FileDown, FileText } from "lucide-react";
 import { useNetworkStore } from "@/store/networkStore";
 import { PDFGenerator } from "@/utils/pdfGenerator";
+import { DailyProfileCalculator } from "@/utils/dailyProfileCalculator";
+import { buildNetworkVoltageSeries, evaluateEN50160 } from "@/utils/en50160Evaluator";
 import { toast } from "sonner";
+import { hasActiveSimulationEquipment } from "@/types/network";
 
 export const ExportTab = () => {
   const {
@@ -13,6 +16,9 @@ export const ExportTab = () => {
     simulationResults,
     isSimulationActive,
     simulationEquipment,
+    dailyProfileOptions,
+    dailyProfileCustomProfiles,
+    measuredProfile,
   } = useNetworkStore();
 
   const handleExportPDF = async () => {
@@ -21,22 +27,34 @@ export const ExportTab = () => {
       return;
     }
     
-    const activeEquipmentCount = (simulationEquipment.srg2Devices?.filter(s => s.enabled).length || 0) + 
-                                 simulationEquipment.neutralCompensators.filter(c => c.enabled).length;
+    const hasActiveEquipment = hasActiveSimulationEquipment(simulationEquipment);
     
-    const resultsToUse = (isSimulationActive && activeEquipmentCount > 0) 
+    const resultsToUse = (isSimulationActive && hasActiveEquipment) 
       ? simulationResults 
       : calculationResults;
     
     const generatePDF = async () => {
+      // Conformité EN50160 sur le profil journalier courant (mêmes options que l'onglet Profil 24h)
+      const dailyCalculator = new DailyProfileCalculator(
+        currentProject,
+        dailyProfileOptions,
+        dailyProfileCustomProfiles,
+        hasActiveEquipment && isSimulationActive ? simulationEquipment : undefined,
+        hasActiveEquipment && isSimulationActive,
+        dailyProfileOptions.useMeasuredProfile ? measuredProfile ?? undefined : undefined
+      );
+      dailyCalculator.calculateDailyVoltages();
+      const en50160 = evaluateEN50160(buildNetworkVoltageSeries(currentProject, dailyCalculator.getHourlyNetworkResults()));
+
       const pdfGenerator = new PDFGenerator();
       await pdfGenerator.generateReport({
         project: currentProject,
         results: resultsToUse,
         selectedScenario,
-        simulationResults: (isSimulationActive && activeEquipmentCount > 0) 
+        simulationResults: (isSimulationActive && hasActiveEquipment) 
           ? simulationResults[selectedScenario] 
-          : undefined
+          : undefined,
+        en50160
       });
     };
     
@@ -9,7 +9,9 @@ import { Zap, Layers, Gauge, FileText } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { useNetworkStore } from "@/store/networkStore";
 import { useState, useEffect, useRef } from 'react';
-import type { LoadModel, TransformerRating } from '@/types/network';
+import { TRANSFORMER_TAP_POSITIONS } from '@/utils/transformerTap';
+import { getTransformerTypes, applyTransformerType } from '@/utils/transformerCatalogue';
+import type { LoadModel, TransformerTapPosition } from '@/types/network';
 
 export const NetworkTab = () => {
   const {
@@ -54,6 +56,8 @@ export const NetworkTab = () => {
 
   if (!currentProject) return null;
 
+  const transformerTypes = getTransformerTypes(currentProject);
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 p-4">
       {/* Card 0: Projet */}
@@ -139,39 +143,25 @@ export const NetworkTab = () => {
           <div className="pt-2 border-t border-border/50">
             <Label className="text-xs text-muted-foreground mb-2 block">Transformateur HT1/BT</Label>
             <Select
-              value={currentProject.transformerConfig?.rating || '250kVA'}
+              value={currentProject.transformerConfig?.typeId}
               onValueChange={(value) => {
-                const powerMap: Record<string, number> = {
-                  "160kVA": 160,
-                  "250kVA": 250, 
-                  "400kVA": 400,
-                  "630kVA": 630
-                };
-                const shortCircuitMap: Record<string, number> = {
-                  "160kVA": 4.0,
-                  "250kVA": 4.0,
-                  "400kVA": 4.5,
-                  "630kVA": 4.5
-                };
+                const type = transformerTypes.find(t => t.id === value);
+                if (!type) return;
                 updateProjectConfig({
-                  transformerConfig: {
-                    ...currentProject.transformerConfig,
-                    rating: value as TransformerRating,
-                    nominalPower_kVA: powerMap[value],
-                    shortCircuitVoltage_percent: shortCircuitMap[value]
-                  }
+                  transformerConfig: applyTransformerType(currentProject.transformerConfig, type)
                 });
                 updateAllCalculations();
               }}
             >
               <SelectTrigger className="w-full bg-background border text-sm h-9">
-                <SelectValue />
+                <SelectValue placeholder={`${currentProject.transformerConfig?.nominalPower_kVA ?? 250} kVA (Ucc: ${(currentProject.transformerConfig?.shortCircuitVoltage_percent ?? 4).toFixed(1)}%)`} />
               </SelectTrigger>
               <SelectContent className="bg-popover border z-[10000]">
-                <SelectItem value="160kVA">160 kVA (Ucc: 4.0%)</SelectItem>
-                <SelectItem value="250kVA">250 kVA (Ucc: 4.0%)</SelectItem>
-                <SelectItem value="400kVA">400 kVA (Ucc: 4.5%)</SelectItem>
-                <SelectItem value="630kVA">630 kVA (Ucc: 4.5%)</SelectItem>
+                {transformerTypes.map(type => (
+                  <SelectItem key={type.id} value={type.id}>
+                    {type.label} (Ucc: {type.shortCircuitVoltage_percent.toFixed(1)}%)
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -212,6 +202,34 @@ export const NetworkTab = () => {
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
+
+          {/* Prise hors tension du transformateur */}
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-xs text-muted-foreground">Prise transfo</Label>
+            <Select
+              value={String(currentProject.transformerConfig?.tapPosition_percent ?? 0)}
+              onValueChange={(value) => {
+                updateProjectConfig({
+                  transformerConfig: {
+                    ...currentProject.transformerConfig,
+                    tapPosition_percent: Number(value) as TransformerTapPosition
+                  }
+                });
+                updateAllCalculations();
+              }}
+            >
+              <SelectTrigger className="w-24 bg-background border text-xs h-7">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border z-[10000]">
+                {TRANSFORMER_TAP_POSITIONS.map(tap => (
+                  <SelectItem key={tap} value={String(tap)}>
+                    {tap > 0 ? '+' : ''}{tap}%
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           
           {/* Busbar info */}
           {calculationResults[selectedScenario]?.virtualBusbar && (
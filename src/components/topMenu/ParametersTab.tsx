@@ -2,10 +2,11 @@ import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { Home, Factory, Sun, Activity, Table, BarChart3, AlertTriangle, Snowflake, Thermometer } from "lucide-react";
+import { Home, Factory, Sun, Activity, Table, BarChart3, AlertTriangle, Snowflake, Thermometer, Zap } from "lucide-react";
 import { useNetworkStore } from "@/store/networkStore";
 import { PhaseDistributionSliders } from "@/components/PhaseDistributionSliders";
 import { PhaseDistributionDisplay } from "@/components/PhaseDistributionDisplay";
+import { TransformerCatalogueEditor } from "@/components/TransformerCatalogueEditor";
 import { calculatePowersByClientType } from '@/utils/clientsUtils';
 import { getConnectedNodes } from '@/utils/networkConnectivity';
 
@@ -258,6 +259,21 @@ export const ParametersTab = () => {
         </div>
       )}
 
+      {/* Catalogue transformateurs (toujours disponible) */}
+      <Accordion type="single" collapsible className="w-full">
+        <AccordionItem value="transformers" className="border border-border/50 rounded-lg bg-card/80 backdrop-blur">
+          <AccordionTrigger className="px-3 py-2 hover:no-underline">
+            <div className="flex items-center gap-2 text-xs font-medium">
+              <Zap className="h-3.5 w-3.5 text-muted-foreground" />
+              Catalogue transformateurs ({currentProject.transformerConfig?.nominalPower_kVA} kVA sélectionné)
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="px-3 pb-3">
+            <TransformerCatalogueEditor />
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+
       {/* Rangée 3: Sections détaillées en accordéon */}
       {showPhaseDistribution && (
         <Accordion type="single" collapsible className="w-full">
@@ -285,6 +301,18 @@ export const ParametersTab = () => {
             </AccordionContent>
           </AccordionItem>
           
+          <AccordionItem value="sequence" className="border border-border/50 rounded-lg bg-card/80 backdrop-blur mt-1">
+            <AccordionTrigger className="px-3 py-2 hover:no-underline">
+              <div className="flex items-center gap-2 text-xs font-medium">
+                <Activity className="h-3.5 w-3.5 text-muted-foreground" />
+                Déséquilibre de tension (composantes symétriques)
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="px-3 pb-3">
+              <PhaseDistributionDisplay section="sequence" />
+            </AccordionContent>
+          </AccordionItem>
+          
           <AccordionItem value="alerts" className="border border-border/50 rounded-lg bg-card/80 backdrop-blur mt-1">
             <AccordionTrigger className="px-3 py-2 hover:no-underline">
               <div className="flex items-center gap-2 text-xs font-medium">
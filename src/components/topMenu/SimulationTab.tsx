@@ -5,6 +5,7 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { FlaskConical, Settings2, Zap, Cable, Gauge } from "lucide-react";
 import { useNetworkStore } from "@/store/networkStore";
+import { countActiveSimulationEquipment } from "@/types/network";
 
 export const SimulationTab = () => {
   const {
@@ -21,7 +22,7 @@ export const SimulationTab = () => {
   const srg2Count = simulationEquipment.srg2Devices?.filter(s => s.enabled).length || 0;
   const compensatorCount = simulationEquipment.neutralCompensators.filter(c => c.enabled).length;
   const hasCableReplacement = simulationEquipment.cableReplacement?.enabled;
-  const totalEquipment = srg2Count + compensatorCount + (hasCableReplacement ? 1 : 0);
+  const totalEquipment = countActiveSimulationEquipment(simulationEquipment) + (hasCableReplacement ? 1 : 0);
 
   const hasAnyEquipment = totalEquipment > 0 || 
     (simulationEquipment.srg2Devices?.length || 0) > 0 || 
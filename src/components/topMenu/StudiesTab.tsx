@@ -0,0 +1,139 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Shuffle, SlidersHorizontal, CalendarRange, Dices, SunMedium, PlugZap, TrendingUp, Euro, Unplug } from "lucide-react";
+import { useNetworkStore } from "@/store/networkStore";
+import { ReconfigurationStudyPanel } from "@/components/ReconfigurationStudyPanel";
+import { TapChangerStudyPanel } from "@/components/TapChangerStudyPanel";
+import { AnnualSimulationPanel } from "@/components/AnnualSimulationPanel";
+import { MonteCarloStudyPanel } from "@/components/MonteCarloStudyPanel";
+import { HostingCapacityPanel } from "@/components/HostingCapacityPanel";
+import { ConnectionStudyPanel } from "@/components/ConnectionStudyPanel";
+import { LoadGrowthPlanningPanel } from "@/components/LoadGrowthPlanningPanel";
+import { EnergyLossesPanel } from "@/components/EnergyLossesPanel";
+import { BrokenNeutralPanel } from "@/components/BrokenNeutralPanel";
+
+export const StudiesTab = () => {
+  const { currentProject } = useNetworkStore();
+
+  if (!currentProject) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-4">
+      {/* Card 1: Reconfiguration des points de coupure */}
+      <Card className="bg-card/50 backdrop-blur border-border/50">
+        <CardHeader className="pb-2 pt-3 px-4">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Shuffle className="h-4 w-4 text-primary" />
+            Reconfiguration
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          <ReconfigurationStudyPanel />
+        </CardContent>
+      </Card>
+
+      {/* Card 2: Prise du transformateur */}
+      <Card className="bg-card/50 backdrop-blur border-border/50">
+        <CardHeader className="pb-2 pt-3 px-4">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4 text-primary" />
+            Prise transformateur
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          <TapChangerStudyPanel />
+        </CardContent>
+      </Card>
+
+      {/* Card 3: Simulation annuelle */}
+      <Card className="bg-card/50 backdrop-blur border-border/50">
+        <CardHeader className="pb-2 pt-3 px-4">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <CalendarRange className="h-4 w-4 text-primary" />
+            Simulation annuelle
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          <AnnualSimulationPanel />
+        </CardContent>
+      </Card>
+
+      {/* Card 4: Répartition probabiliste */}
+      <Card className="bg-card/50 backdrop-blur border-border/50">
+        <CardHeader className="pb-2 pt-3 px-4">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Dices className="h-4 w-4 text-primary" />
+            Monte Carlo
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          <MonteCarloStudyPanel />
+        </CardContent>
+      </Card>
+
+      {/* Card 5: Capacité d'accueil PV */}
+      <Card className="bg-card/50 backdrop-blur border-border/50">
+        <CardHeader className="pb-2 pt-3 px-4">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <SunMedium className="h-4 w-4 text-primary" />
+            Capacité d'accueil PV
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          <HostingCapacityPanel />
+        </CardContent>
+      </Card>
+
+      {/* Card 6: Faisabilité de raccordement */}
+      <Card className="bg-card/50 backdrop-blur border-border/50">
+        <CardHeader className="pb-2 pt-3 px-4">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <PlugZap className="h-4 w-4 text-primary" />
+            Faisabilité de raccordement
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          <ConnectionStudyPanel />
+        </CardContent>
+      </Card>
+
+      {/* Card 7: Planification pluriannuelle */}
+      <Card className="bg-card/50 backdrop-blur border-border/50">
+        <CardHeader className="pb-2 pt-3 px-4">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <TrendingUp className="h-4 w-4 text-primary" />
+            Croissance pluriannuelle
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          <LoadGrowthPlanningPanel />
+        </CardContent>
+      </Card>
+
+      {/* Card 8: Pertes d'énergie et coût */}
+      <Card className="bg-card/50 backdrop-blur border-border/50">
+        <CardHeader className="pb-2 pt-3 px-4">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Euro className="h-4 w-4 text-primary" />
+            Pertes et coût
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          <EnergyLossesPanel />
+        </CardContent>
+      </Card>
+
+      {/* Card 9: Rupture de neutre */}
+      <Card className="bg-card/50 backdrop-blur border-border/50">
+        <CardHeader className="pb-2 pt-3 px-4">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Unplug className="h-4 w-4 text-primary" />
+            Rupture de neutre
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          <BrokenNeutralPanel />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
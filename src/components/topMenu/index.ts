@@ -4,5 +4,6 @@ export { RaccordementsTab } from './RaccordementsTab';
 export { ParametersTab } from './ParametersTab';
 export { SimulationTab } from './SimulationTab';
 export { DailyProfileTab } from './DailyProfileTab';
+export { StudiesTab } from './StudiesTab';
 export { ExportTab } from './ExportTab';
 export { TensionClientTab } from './TensionClientTab';
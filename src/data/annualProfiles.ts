@@ -0,0 +1,49 @@
+/**
+ * Facteurs de modulation annuels appliqués aux profils journaliers (hourlyProfiles.json)
+ * Utilisés par la simulation annuelle 8760h
+ */
+
+import { Season } from '@/types/dailyProfile';
+
+export type DayType = 'weekday' | 'saturday' | 'sunday';
+
+export interface MonthlyProfileFactors {
+  month: number;            // 0 = janvier
+  label: string;
+  season: Season;           // Profil journalier de référence
+  loadFactor: number;       // Multiplicateur des profils de charge de la saison
+  pvFactor: number;         // Multiplicateur du profil PV de la saison
+  sunnyDaysRatio: number;   // Part des jours ensoleillés (le reste est couvert)
+}
+
+export interface DayTypeFactors {
+  residential: number;      // Multiplicateur du profil résidentiel
+  industrial: number;       // Multiplicateur du profil industriel/PME
+}
+
+/**
+ * Mois de novembre à mars sur le profil d'hiver, avril à octobre sur le profil d'été
+ */
+export const monthlyProfileFactors: MonthlyProfileFactors[] = [
+  { month: 0, label: 'Janvier', season: 'winter', loadFactor: 1.05, pvFactor: 0.9, sunnyDaysRatio: 0.25 },
+  { month: 1, label: 'Février', season: 'winter', loadFactor: 1.0, pvFactor: 1.1, sunnyDaysRatio: 0.3 },
+  { month: 2, label: 'Mars', season: 'winter', loadFactor: 0.9, pvFactor: 1.3, sunnyDaysRatio: 0.4 },
+  { month: 3, label: 'Avril', season: 'summer', loadFactor: 1.1, pvFactor: 0.85, sunnyDaysRatio: 0.45 },
+  { month: 4, label: 'Mai', season: 'summer', loadFactor: 1.0, pvFactor: 0.95, sunnyDaysRatio: 0.5 },
+  { month: 5, label: 'Juin', season: 'summer', loadFactor: 0.95, pvFactor: 1.0, sunnyDaysRatio: 0.6 },
+  { month: 6, label: 'Juillet', season: 'summer', loadFactor: 0.95, pvFactor: 1.0, sunnyDaysRatio: 0.7 },
+  { month: 7, label: 'Août', season: 'summer', loadFactor: 0.9, pvFactor: 0.95, sunnyDaysRatio: 0.65 },
+  { month: 8, label: 'Septembre', season: 'summer', loadFactor: 1.0, pvFactor: 0.85, sunnyDaysRatio: 0.55 },
+  { month: 9, label: 'Octobre', season: 'summer', loadFactor: 1.1, pvFactor: 0.7, sunnyDaysRatio: 0.4 },
+  { month: 10, label: 'Novembre', season: 'winter', loadFactor: 0.9, pvFactor: 1.0, sunnyDaysRatio: 0.25 },
+  { month: 11, label: 'Décembre', season: 'winter', loadFactor: 1.05, pvFactor: 0.8, sunnyDaysRatio: 0.2 }
+];
+
+/**
+ * Modulation semaine / week-end : les PME sont peu actives le week-end
+ */
+export const dayTypeFactors: Record<DayType, DayTypeFactors> = {
+  weekday: { residential: 1.0, industrial: 1.0 },
+  saturday: { residential: 1.1, industrial: 0.4 },
+  sunday: { residential: 1.15, industrial: 0.15 }
+};
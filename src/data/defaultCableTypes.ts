@@ -324,4 +324,39 @@ export const defaultCableTypes: CableType[] = [
     posesPermises: ['SOUTERRAIN'],
     maxCurrent_A: 270,
   },
+
+  // ============================================
+  // CÂBLES SOUTERRAINS ALUMINIUM À NEUTRE RÉDUIT (anciens réseaux)
+  // R0/X0 = 3 × RN/XN, comme pour les câbles symétriques
+  // ============================================
+  {
+    id: 'ca-3x95+50al',
+    label: '3×95+50 Alu',
+    R12_ohm_per_km: 0.363,
+    X12_ohm_per_km: 0.107,
+    R0_ohm_per_km: 2.181,
+    X0_ohm_per_km: 0.330,
+    matiere: 'ALUMINIUM',
+    posesPermises: ['SOUTERRAIN'],
+    maxCurrent_A: 210,
+    neutralSection_mm2: 50,
+    RN_ohm_per_km: 0.727,
+    XN_ohm_per_km: 0.110,
+    neutralMaxCurrent_A: 140,
+  },
+  {
+    id: 'ca-3x150+70al',
+    label: '3×150+70 Alu',
+    R12_ohm_per_km: 0.229,
+    X12_ohm_per_km: 0.100,
+    R0_ohm_per_km: 1.506,
+    X0_ohm_per_km: 0.315,
+    matiere: 'ALUMINIUM',
+    posesPermises: ['SOUTERRAIN'],
+    maxCurrent_A: 270,
+    neutralSection_mm2: 70,
+    RN_ohm_per_km: 0.502,
+    XN_ohm_per_km: 0.105,
+    neutralMaxCurrent_A: 175,
+  },
 ];
@@ -0,0 +1,132 @@
+import { TransformerType } from '@/types/network';
+
+/**
+ * Catalogue transformateurs HTA/BT par défaut
+ * Pertes : niveaux A0/Ak (EN 50588-1 / EN 50464-1)
+ * Z0 : Dyn11 ≈ 0,9 × Ucc ; Yzn11 ≈ 0,1 × Ucc (enroulement zigzag)
+ */
+export const defaultTransformerTypes: TransformerType[] = [
+  // ============================================
+  // TRANSFORMATEURS SUR POTEAU (H61)
+  // ============================================
+  {
+    id: 'h61-50',
+    label: 'H61 50 kVA (poteau)',
+    nominalPower_kVA: 50,
+    mounting: 'POTEAU',
+    coupling: 'Yzn11',
+    shortCircuitVoltage_percent: 4.0,
+    xOverR: 1.5,
+    noLoadLosses_W: 90,
+    loadLosses_W: 750,
+    zeroSequenceImpedance_percent: 0.4,
+    zeroSequenceXOverR: 1.0,
+  },
+  {
+    id: 'h61-100',
+    label: 'H61 100 kVA (poteau)',
+    nominalPower_kVA: 100,
+    mounting: 'POTEAU',
+    coupling: 'Yzn11',
+    shortCircuitVoltage_percent: 4.0,
+    xOverR: 2.0,
+    noLoadLosses_W: 145,
+    loadLosses_W: 1250,
+    zeroSequenceImpedance_percent: 0.4,
+    zeroSequenceXOverR: 1.0,
+  },
+  {
+    id: 'h61-160',
+    label: 'H61 160 kVA (poteau)',
+    nominalPower_kVA: 160,
+    mounting: 'POTEAU',
+    coupling: 'Yzn11',
+    shortCircuitVoltage_percent: 4.0,
+    xOverR: 2.2,
+    noLoadLosses_W: 210,
+    loadLosses_W: 1750,
+    zeroSequenceImpedance_percent: 0.4,
+    zeroSequenceXOverR: 1.0,
+  },
+  // ============================================
+  // TRANSFORMATEURS DE CABINE
+  // ============================================
+  {
+    id: 'cab-160',
+    label: 'Cabine 160 kVA',
+    nominalPower_kVA: 160,
+    mounting: 'CABINE',
+    coupling: 'Dyn11',
+    shortCircuitVoltage_percent: 4.0,
+    xOverR: 2.2,
+    noLoadLosses_W: 210,
+    loadLosses_W: 1750,
+    zeroSequenceImpedance_percent: 3.6,
+    zeroSequenceXOverR: 2.2,
+  },
+  {
+    id: 'cab-250',
+    label: 'Cabine 250 kVA',
+    nominalPower_kVA: 250,
+    mounting: 'CABINE',
+    coupling: 'Dyn11',
+    shortCircuitVoltage_percent: 4.0,
+    xOverR: 2.5,
+    noLoadLosses_W: 300,
+    loadLosses_W: 2350,
+    zeroSequenceImpedance_percent: 3.6,
+    zeroSequenceXOverR: 2.5,
+  },
+  {
+    id: 'cab-400',
+    label: 'Cabine 400 kVA',
+    nominalPower_kVA: 400,
+    mounting: 'CABINE',
+    coupling: 'Dyn11',
+    shortCircuitVoltage_percent: 4.0,
+    xOverR: 3.0,
+    noLoadLosses_W: 430,
+    loadLosses_W: 3250,
+    zeroSequenceImpedance_percent: 3.6,
+    zeroSequenceXOverR: 3.0,
+  },
+  {
+    id: 'cab-630',
+    label: 'Cabine 630 kVA',
+    nominalPower_kVA: 630,
+    mounting: 'CABINE',
+    coupling: 'Dyn11',
+    shortCircuitVoltage_percent: 4.0,
+    xOverR: 3.5,
+    noLoadLosses_W: 600,
+    loadLosses_W: 4600,
+    zeroSequenceImpedance_percent: 3.6,
+    zeroSequenceXOverR: 3.5,
+  },
+  {
+    id: 'cab-800',
+    label: 'Cabine 800 kVA',
+    nominalPower_kVA: 800,
+    mounting: 'CABINE',
+    coupling: 'Dyn11',
+    shortCircuitVoltage_percent: 6.0,
+    xOverR: 4.5,
+    noLoadLosses_W: 650,
+    loadLosses_W: 7000,
+    zeroSequenceImpedance_percent: 5.4,
+    zeroSequenceXOverR: 4.5,
+  },
+  {
+    id: 'cab-1000',
+    label: 'Cabine 1000 kVA',
+    nominalPower_kVA: 1000,
+    mounting: 'CABINE',
+    coupling: 'Dyn11',
+    shortCircuitVoltage_percent: 6.0,
+    xOverR: 5.0,
+    noLoadLosses_W: 770,
+    loadLosses_W: 9000,
+    zeroSequenceImpedance_percent: 5.4,
+    zeroSequenceXOverR: 5.0,
+  },
+];
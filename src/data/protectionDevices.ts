@@ -0,0 +1,125 @@
+/**
+ * Catalogue des appareils de protection BT
+ * Courbes temps-courant simplifiées (valeurs indicatives NF C 15-100 / IEC 60269 / IEC 60898)
+ * utilisées pour la vérification de coordination fusible / câble
+ */
+
+import { ProtectionDeviceType } from '@/types/network';
+
+export interface TimeCurrentPoint {
+  current_A: number;        // Courant de défaut (A)
+  time_s: number;           // Temps de coupure (s)
+}
+
+export interface ProtectionDeviceDefinition {
+  type: ProtectionDeviceType;
+  label: string;
+  family: 'fusible' | 'disjoncteur';
+  ratings_A: number[];            // Calibres disponibles (A)
+  overloadProtection: boolean;    // Protège contre les surcharges (aM : non)
+  conventionalTripRatio: number;  // I2 / In (courant conventionnel de fonctionnement)
+  instantaneousRatio?: number;    // Seuil magnétique garanti (multiple de In, disjoncteurs)
+}
+
+const FUSE_RATINGS_A = [16, 20, 25, 32, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630];
+const BREAKER_RATINGS_A = [10, 16, 20, 25, 32, 40, 50, 63, 80, 100, 125];
+
+export const protectionDevices: ProtectionDeviceDefinition[] = [
+  { type: 'FUSIBLE_gG', label: 'Fusible gG', family: 'fusible', ratings_A: FUSE_RATINGS_A, overloadProtection: true, conventionalTripRatio: 1.6 },
+  { type: 'FUSIBLE_aM', label: 'Fusible aM', family: 'fusible', ratings_A: FUSE_RATINGS_A, overloadProtection: false, conventionalTripRatio: 4 },
+  { type: 'DISJONCTEUR_B', label: 'Disjoncteur courbe B', family: 'disjoncteur', ratings_A: BREAKER_RATINGS_A, overloadProtection: true, conventionalTripRatio: 1.45, instantaneousRatio: 5 },
+  { type: 'DISJONCTEUR_C', label: 'Disjoncteur courbe C', family: 'disjoncteur', ratings_A: BREAKER_RATINGS_A, overloadProtection: true, conventionalTripRatio: 1.45, instantaneousRatio: 10 },
+  { type: 'DISJONCTEUR_D', label: 'Disjoncteur courbe D', family: 'disjoncteur', ratings_A: BREAKER_RATINGS_A, overloadProtection: true, conventionalTripRatio: 1.45, instantaneousRatio: 20 }
+];
+
+/**
+ * Courants de fusion des fusibles gG (A) pour 5 s et 0,4 s par calibre
+ */
+const GG_FUSING_CURRENTS_A: Record<number, { t5s: number; t04s: number }> = {
+  16: { t5s: 65, t04s: 107 },
+  20: { t5s: 85, t04s: 145 },
+  25: { t5s: 110, t04s: 180 },
+  32: { t5s: 150, t04s: 265 },
+  40: { t5s: 190, t04s: 295 },
+  50: { t5s: 250, t04s: 460 },
+  63: { t5s: 320, t04s: 550 },
+  80: { t5s: 425, t04s: 800 },
+  100: { t5s: 580, t04s: 1050 },
+  125: { t5s: 715, t04s: 1500 },
+  160: { t5s: 950, t04s: 1900 },
+  200: { t5s: 1250, t04s: 2500 },
+  250: { t5s: 1650, t04s: 3200 },
+  315: { t5s: 2200, t04s: 4300 },
+  400: { t5s: 2840, t04s: 5500 },
+  500: { t5s: 3800, t04s: 7000 },
+  630: { t5s: 5100, t04s: 9300 }
+};
+
+// Courbe aM en multiples de In (pas de fonctionnement en dessous de 4 In)
+const AM_CURVE_MULTIPLES: Array<[number, number]> = [[4, 60], [6.3, 5], [12, 0.4], [20, 0.05]];
+
+// Partie thermique des disjoncteurs en multiples de In (IEC 60898)
+const BREAKER_THERMAL_MULTIPLES: Array<[number, number]> = [[1.45, 3600], [2.55, 60], [4, 15], [8, 3], [20, 0.6]];
+
+// Temps de coupure retenu au-delà du seuil magnétique (s)
+const INSTANTANEOUS_TIME_S = 0.01;
+
+export const getProtectionDeviceDefinition = (type: ProtectionDeviceType): ProtectionDeviceDefinition | undefined =>
+  protectionDevices.find(d => d.type === type);
+
+/**
+ * Points de la courbe temps-courant d'un appareil (courant croissant)
+ */
+export const getTimeCurrentCurve = (type: ProtectionDeviceType, rating_A: number): TimeCurrentPoint[] => {
+  const fromMultiples = (multiples: Array<[number, number]>) =>
+    multiples.map(([m, t]) => ({ current_A: m * rating_A, time_s: t }));
+
+  switch (type) {
+    case 'FUSIBLE_gG': {
+      const tabulated = GG_FUSING_CURRENTS_A[rating_A];
+      // Calibre hors tableau : multiples moyens de la gamme
+      const t5s = tabulated?.t5s ?? 5.5 * rating_A;
+      const t04s = tabulated?.t04s ?? 9.5 * rating_A;
+      return [
+        { current_A: 1.6 * rating_A, time_s: 3600 },
+        { current_A: t5s, time_s: 5 },
+        { current_A: t04s, time_s: 0.4 }
+      ];
+    }
+    case 'FUSIBLE_aM':
+      return fromMultiples(AM_CURVE_MULTIPLES);
+    default:
+      return fromMultiples(BREAKER_THERMAL_MULTIPLES);
+  }
+};
+
+/**
+ * Temps de coupure (s) pour un courant de défaut donné
+ * Interpolation log-log entre les points de la courbe, extrapolation au-delà du dernier point.
+ * Retourne Infinity si le courant est inférieur au seuil de fonctionnement.
+ */
+export const getClearingTime = (type: ProtectionDeviceType, rating_A: number, current_A: number): number => {
+  const definition = getProtectionDeviceDefinition(type);
+  if (!definition || rating_A <= 0 || current_A <= 0) return Infinity;
+
+  if (definition.instantaneousRatio && current_A >= definition.instantaneousRatio * rating_A) {
+    return INSTANTANEOUS_TIME_S;
+  }
+
+  const curve = getTimeCurrentCurve(type, rating_A);
+  if (current_A < curve[0].current_A) return Infinity;
+
+  let segment = curve.length - 2;
+  for (let i = 0; i < curve.length - 1; i++) {
+    if (current_A <= curve[i + 1].current_A) {
+      segment = i;
+      break;
+    }
+  }
+
+  const p1 = curve[segment];
+  const p2 = curve[segment + 1];
+  const slope = Math.log(p2.time_s / p1.time_s) / Math.log(p2.current_A / p1.current_A);
+  const time = p1.time_s * Math.pow(current_A / p1.current_A, slope);
+  return Math.max(INSTANTANEOUS_TIME_S, time);
+};
@@ -12,6 +12,7 @@ import { RecoveryDialog } from "@/components/RecoveryDialog";
 import { SaveProjectDialog } from "@/components/SaveProjectDialog";
 import DebugConsole from "@/components/DebugConsole";
 import { useNetworkStore } from "@/store/networkStore";
+import { hasActiveSimulationEquipment } from "@/types/network";
 import { useProjectPersistence } from "@/hooks/useProjectPersistence";
 import { useUnsavedChangesGuard } from "@/hooks/useUnsavedChangesGuard";
 import { Button } from "@/components/ui/button";
@@ -58,10 +59,9 @@ const Index = () => {
   }, [hasDraft, draftInfo]);
 
   // Déterminer quels résultats utiliser - simulation si équipements actifs ET isSimulationActive, sinon calculs normaux
-  const activeEquipmentCount = (simulationEquipment.srg2Devices?.filter(s => s.enabled).length || 0) + 
-                               simulationEquipment.neutralCompensators.filter(c => c.enabled).length;
+  const hasActiveEquipment = hasActiveSimulationEquipment(simulationEquipment);
   
-  const resultsToUse = (isSimulationActive && activeEquipmentCount > 0) ? simulationResults : calculationResults;
+  const resultsToUse = (isSimulationActive && hasActiveEquipment) ? simulationResults : calculationResults;
 
 
   // Fonction de sauvegarde avec nom optionnel
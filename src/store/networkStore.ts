@@ -9,7 +9,6 @@ import {
   CalculationScenario, 
   CalculationResult,
   TransformerConfig,
-  TransformerRating,
   VirtualBusbar,
   NeutralCompensator,
   CableUpgrade,
@@ -17,7 +16,18 @@ import {
   CableReplacementConfig,
   ClientLink,
   LoadModel,
-  ClientImporte
+  ClientImporte,
+  MonteCarloResult,
+  HostingCapacityResult,
+  InverterControlSettings,
+  PVTrippingSettings,
+  BatteryStorage,
+  ShuntBank,
+  EVCharger,
+  EVFleetSettings,
+  HeatPump,
+  hasActiveSimulationEquipment,
+  countActiveSimulationEquipment
 } from '@/types/network';
 import { DailySimulationOptions, DailyProfileConfig, defaultDailySimulationOptions, HourlyProfile, MeasuredProfileMetadata } from '@/types/dailyProfile';
 import defaultProfilesData from '@/data/hourlyProfiles.json';
@@ -26,8 +36,15 @@ export type ClientColorMode = 'couplage' | 'circuit' | 'tension' | 'lien' | 'gps
 import { SRG2Config, DEFAULT_SRG2_400_CONFIG, DEFAULT_SRG2_230_CONFIG } from '@/types/srg2';
 import { NodeWithConnectionType, getNodeConnectionType, addConnectionTypeToNodes } from '@/utils/nodeConnectionType';
 import { defaultCableTypes } from '@/data/defaultCableTypes';
+import { defaultTransformerTypes } from '@/data/defaultTransformerTypes';
 import { ElectricalCalculator } from '@/utils/electricalCalculations';
 import { SimulationCalculator } from '@/utils/simulationCalculator';
+import { createDefaultInverterControlSettings } from '@/utils/inverterControl';
+import { createDefaultBattery } from '@/utils/batteryStorage';
+import { createDefaultShuntBank } from '@/utils/shuntCompensation';
+import { calculateShortCircuitCurrents } from '@/utils/shortCircuitCalculator';
+import { migrateTransformerTypeId } from '@/utils/transformerCatalogue';
+import { checkProtections } from '@/utils/protectionCoordination';
 import { toast } from 'sonner';
 import {
   normalizeClientConnectionType,
@@ -97,6 +114,12 @@ interface NetworkStoreState extends NetworkState {
   clientColorMode: ClientColorMode;
   circuitColorMapping: Map<string, string>;
   showClientTensionLabels: boolean;
+  // Répartition probabiliste (Monte Carlo) et coloration de la carte
+  monteCarloResult: MonteCarloResult | null;
+  showMonteCarloMap: boolean;
+  // Capacité d'accueil PV et couche carte associée
+  hostingCapacityResult: HostingCapacityResult | null;
+  showHostingCapacityMap: boolean;
   // Câble de branchement sélectionné (partagé entre TensionClient et Profil24h)
   selectedBranchementCableId: string | null;
   // État partagé pour la création de client avec sélection sur carte
@@ -111,7 +134,7 @@ interface NetworkStoreState extends NetworkState {
   measuredProfile: HourlyProfile | null;
   measuredProfileMetadata: MeasuredProfileMetadata | null;
   // Mode de sélection de nœud sur la carte (centralisé)
-  nodeSelectionMode: 'profil24h' | 'srg2' | 'equi8' | null;
+  nodeSelectionMode: 'profil24h' | 'srg2' | 'equi8' | 'battery' | 'shuntBank' | null;
   // Gestion de la sauvegarde
   isDirty: boolean;
   lastSavedAt: Date | null;
@@ -122,7 +145,7 @@ interface NetworkActions {
   // Project actions
   createNewProject: (name: string, voltageSystem: VoltageSystem) => void;
   loadProject: (project: Project) => void;
-  updateProjectConfig: (updates: Partial<Pick<Project, 'name' | 'voltageSystem' | 'cosPhi' | 'cosPhiCharges' | 'cosPhiProductions' | 'foisonnementCharges' | 'foisonnementProductions' | 'defaultChargeKVA' | 'defaultProductionKVA' | 'loadModel' | 'desequilibrePourcent' | 'forcedModeConfig' | 'manualPhaseDistribution' | 'phaseDistributionModeCharges' | 'phaseDistributionModeProductions' | 'transformerConfig' | 'season'>>) => void;
+  updateProjectConfig: (updates: Partial<Pick<Project, 'name' | 'voltageSystem' | 'cosPhi' | 'cosPhiCharges' | 'cosPhiProductions' | 'foisonnementCharges' | 'foisonnementProductions' | 'defaultChargeKVA' | 'defaultProductionKVA' | 'loadModel' | 'desequilibrePourcent' | 'forcedModeConfig' | 'manualPhaseDistribution' | 'phaseDistributionModeCharges' | 'phaseDistributionModeProductions' | 'transformerConfig' | 'transformerTypes' | 'season' | 'lossPrice_EUR_per_kWh'>>) => void;
   
   // Node actions
   addNode: (lat: number, lng: number) => void;
@@ -134,6 +157,8 @@ interface NetworkActions {
   addCable: (nodeAId: string, nodeBId: string, typeId: string, coordinates: { lat: number; lng: number; }[]) => void;
   updateCable: (cableId: string, updates: Partial<Cable>) => void;
   deleteCable: (cableId: string) => void;
+  toggleCableSwitch: (cableId: string) => void;
+  applyOpenPoints: (openCableIds: string[]) => void;
   
   // UI actions
   setSelectedTool: (tool: NetworkState['selectedTool']) => void;
@@ -159,6 +184,11 @@ interface NetworkActions {
   }) => void;
   updateClientImporte: (clientId: string, updates: Partial<import('@/types/network').ClientImporte>) => void;
   deleteClientImporte: (clientId: string) => void;
+  // Flotte de véhicules électriques (profil 24h)
+  setEVFleetSettings: (settings: EVFleetSettings) => void;
+  setClientsEVCharger: (clientIds: string[], charger: EVCharger | null) => void;
+  // Pompes à chaleur (profil 24h, puissance fonction de la température extérieure)
+  setClientsHeatPump: (clientIds: string[], heatPump: HeatPump | null) => void;
   linkClientToNode: (clientId: string, nodeId: string) => void;
   unlinkClient: (clientId: string) => void;
   updateNodePhaseDistribution: (nodeId: string) => void;
@@ -181,9 +211,22 @@ interface NetworkActions {
   addNeutralCompensator: (nodeId: string) => void;
   removeNeutralCompensator: (compensatorId: string) => void;
   updateNeutralCompensator: (compensatorId: string, updates: Partial<NeutralCompensator>) => void;
+  // Méthodes stockage par batteries
+  addBattery: (nodeId: string) => void;
+  removeBattery: (batteryId: string) => void;
+  updateBattery: (batteryId: string, updates: Partial<BatteryStorage>) => void;
+  // Méthodes gradins de compensation shunt
+  addShuntBank: (nodeId: string) => void;
+  removeShuntBank: (bankId: string) => void;
+  updateShuntBank: (bankId: string, updates: Partial<ShuntBank>) => void;
   proposeCableUpgrades: (threshold?: number) => void;
   toggleCableUpgrade: (upgradeId: string) => void;
   setCableReplacementConfig: (config: CableReplacementConfig | null) => void;
+  // Régulation Q(U)/P(U) des onduleurs PV
+  setInverterControlEnabled: (enabled: boolean) => void;
+  updateInverterControlDefault: (settings: InverterControlSettings) => void;
+  // Découplage en cascade des PV clients en surtension
+  setPVTrippingSettings: (settings: PVTrippingSettings) => void;
   runSimulation: () => void;
   
   // Validation
@@ -195,6 +238,10 @@ interface NetworkActions {
   toggleResultsPanelFullscreen: () => void;
   toggleFocusMode: () => void;
   toggleClientTensionLabels: () => void;
+  setMonteCarloResult: (result: MonteCarloResult | null) => void;
+  toggleMonteCarloMap: () => void;
+  setHostingCapacityResult: (result: HostingCapacityResult | null) => void;
+  toggleHostingCapacityMap: () => void;
   changeVoltageSystem: () => void;
   setFoisonnementCharges: (value: number) => void;
   setFoisonnementChargesResidentiel: (value: number) => void;
@@ -219,7 +266,7 @@ interface NetworkActions {
   setMeasuredProfile: (profile: HourlyProfile, metadata: MeasuredProfileMetadata) => void;
   clearMeasuredProfile: () => void;
   // Actions de sélection de nœud sur la carte
-  startNodeSelection: (mode: 'profil24h' | 'srg2' | 'equi8') => void;
+  startNodeSelection: (mode: 'profil24h' | 'srg2' | 'equi8' | 'battery' | 'shuntBank') => void;
   cancelNodeSelection: () => void;
   handleNodeSelectionClick: (nodeId: string) => void;
   // Action câble de branchement
@@ -236,7 +283,8 @@ const createDefaultTransformerConfig = (voltageSystem: VoltageSystem): Transform
   const nominalVoltage = voltageSystem === "TRIPHASÉ_230V" ? 230 : 400;
   
   return {
-    rating: "160kVA" as TransformerRating,
+    rating: "160kVA",
+    typeId: 'cab-160',
     nominalPower_kVA: 160,
     nominalVoltage_V: nominalVoltage,
     shortCircuitVoltage_percent: 4.0, // Valeur typique pour un transformateur 160kVA
@@ -328,7 +376,8 @@ const createDefaultProject = (): Project => ({
   phaseDistributionModeProductions: 'mono_only', // Mode conservateur par défaut pour les productions
   nodes: [],
   cables: [],
-  cableTypes: defaultCableTypes
+  cableTypes: defaultCableTypes,
+  transformerTypes: [...defaultTransformerTypes]
 });
 
 const createDefaultProject2 = (name: string, voltageSystem: VoltageSystem): Project => ({
@@ -359,9 +408,32 @@ const createDefaultProject2 = (name: string, voltageSystem: VoltageSystem): Proj
   phaseDistributionModeProductions: 'mono_only', // Mode conservateur par défaut pour les productions
   nodes: [],
   cables: [],
-  cableTypes: [...defaultCableTypes]
+  cableTypes: [...defaultCableTypes],
+  transformerTypes: [...defaultTransformerTypes]
 });
 
+/**
+ * Ajoute les courants de court-circuit et la vérification des protections
+ * (communs à tous les scénarios) aux résultats
+ */
+const attachShortCircuitResults = (
+  project: Project,
+  results: { [key in CalculationScenario]: CalculationResult | null }
+) => {
+  try {
+    const shortCircuit = calculateShortCircuitCurrents(project);
+    const protection = checkProtections(project, shortCircuit);
+    Object.values(results).forEach(result => {
+      if (result) {
+        result.shortCircuit = shortCircuit;
+        result.protection = protection;
+      }
+    });
+  } catch (error) {
+    console.error('❌ Erreur calcul des courts-circuits:', error);
+  }
+};
+
 export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set, get) => ({
   // État de preview de simulation
   simulationPreview: {
@@ -406,6 +478,10 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
   clientColorMode: 'couplage',
   circuitColorMapping: new Map(),
   showClientTensionLabels: false,
+  monteCarloResult: null,
+  showMonteCarloMap: false,
+  hostingCapacityResult: null,
+  showHostingCapacityMap: false,
   // Câble de branchement sélectionné
   selectedBranchementCableId: null,
   // État partagé pour la création de client
@@ -439,6 +515,10 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
       showVoltages: true,
       simulationMode: false,
       isSimulationActive: false,
+      monteCarloResult: null,
+      showMonteCarloMap: false,
+      hostingCapacityResult: null,
+      showHostingCapacityMap: false,
       isDirty: false, // Nouveau projet = pas de modifications
       lastSavedAt: null,
       calculationResults: {
@@ -690,6 +770,18 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
       toast.info(`Types de câbles mis à jour: ${defaultCableTypes.length} types disponibles`);
     }
 
+    // Rétrocompatibilité: catalogue transformateurs absent des anciens projets
+    if (!project.transformerTypes || project.transformerTypes.length === 0) {
+      project.transformerTypes = [...defaultTransformerTypes];
+    }
+    // Rétrocompatibilité: entrée du catalogue sélectionnée (typeId) déduite de la puissance et de l'Ucc
+    const transformerTypes = project.transformerTypes;
+    project.transformerConfig = migrateTransformerTypeId(project.transformerConfig, transformerTypes);
+    project.nodes = project.nodes.map(node => node.transformerConfig
+      ? { ...node, transformerConfig: migrateTransformerTypeId(node.transformerConfig, transformerTypes) }
+      : node
+    );
+
     console.log('🔄 Setting state with project:', project.name);
     set({ 
       currentProject: project,
@@ -701,6 +793,10 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
       showVoltages: true,
       simulationMode: false,
       isSimulationActive: false,
+      monteCarloResult: null,
+      showMonteCarloMap: false,
+      hostingCapacityResult: null,
+      showHostingCapacityMap: false,
       isDirty: false, // Projet chargé = pas de modifications
       lastSavedAt: new Date(), // Considérer le projet chargé comme "sauvé"
       calculationResults: {
@@ -882,10 +978,24 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
       
       const updatedNodes = [...state.currentProject.nodes];
       const nodeUpdates = { ...updates };
+      const mainSourceId = updatedNodes.find(n => n.isSource)?.id;
+      const isMainSource = nodeId === mainSourceId;
+      
+      // Promotion / rétrogradation d'un poste source secondaire
+      if (updates.isSource !== undefined && !isMainSource && updates.isSource !== !!updatedNodes[nodeIndex].isSource) {
+        const voltageSystem = state.currentProject.voltageSystem;
+        nodeUpdates.connectionType = updates.isSource
+          ? mapConnectionTypeForLoadModel(voltageSystem, state.currentProject.loadModel || 'polyphase_equilibre', true)
+          : mapConnectionTypeForLoadModel(voltageSystem, state.currentProject.loadModel || 'polyphase_equilibre', false);
+        nodeUpdates.transformerConfig = updates.isSource
+          ? (updates.transformerConfig ?? createDefaultTransformerConfig(voltageSystem))
+          : undefined;
+      }
       
-      // Si on met à jour la configuration du transformateur d'une source
+      // Le transformateur du poste principal est porté par le projet,
+      // celui des postes secondaires par leur nœud
       let projectUpdates = {};
-      if (updates.transformerConfig && updatedNodes[nodeIndex].isSource) {
+      if (updates.transformerConfig && updatedNodes[nodeIndex].isSource && isMainSource) {
         projectUpdates = { transformerConfig: updates.transformerConfig };
         delete nodeUpdates.transformerConfig;
       }
@@ -1017,6 +1127,11 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
       },
       isDirty: true
     });
+
+    // Changement d'état d'un organe de coupure (topologie) ou de protection
+    if ('switchState' in updates || 'switchLocation' in updates || 'protection' in updates) {
+      get().updateAllCalculations();
+    }
   },
 
   deleteCable: (cableId) => {
@@ -1033,6 +1148,47 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
     });
   },
 
+  toggleCableSwitch: (cableId) => {
+    const { currentProject } = get();
+    if (!currentProject) return;
+
+    set({
+      currentProject: {
+        ...currentProject,
+        cables: currentProject.cables.map(cable => {
+          if (cable.id !== cableId) return cable;
+          // Sans organe de coupure : en créer un ouvert côté A
+          if (cable.switchState === undefined) {
+            return { ...cable, switchState: 'open' as const, switchLocation: 'A' as const };
+          }
+          return { ...cable, switchState: cable.switchState === 'open' ? 'closed' as const : 'open' as const };
+        })
+      },
+      isDirty: true
+    });
+    get().updateAllCalculations();
+  },
+
+  applyOpenPoints: (openCableIds) => {
+    const { currentProject } = get();
+    if (!currentProject) return;
+
+    const openIds = new Set(openCableIds);
+    set({
+      currentProject: {
+        ...currentProject,
+        cables: currentProject.cables.map(cable =>
+          cable.switchState === undefined
+            ? cable
+            : { ...cable, switchState: openIds.has(cable.id) ? 'open' as const : 'closed' as const }
+        )
+      },
+      isDirty: true
+    });
+    get().updateAllCalculations();
+    toast.success(`Points de coupure appliqués (${openCableIds.length} ouvert${openCableIds.length > 1 ? 's' : ''})`);
+  },
+
   setSelectedTool: (tool) => set({ selectedTool: tool }),
   setSelectedScenario: (scenario) => {
     const { currentProject, updateAllCalculations } = get();
@@ -1218,6 +1374,38 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
     }
   },
 
+  setEVFleetSettings: (settings: EVFleetSettings) => {
+    const { currentProject } = get();
+    if (!currentProject) return;
+
+    // Les bornes ne sont modélisées que dans le profil 24h : pas de recalcul des scénarios statiques
+    set({ currentProject: { ...currentProject, evFleet: settings }, isDirty: true });
+  },
+
+  setClientsEVCharger: (clientIds, charger) => {
+    const { currentProject } = get();
+    if (!currentProject) return;
+
+    const ids = new Set(clientIds);
+    const clientsImportes = (currentProject.clientsImportes || []).map(client =>
+      ids.has(client.id) ? { ...client, evCharger: charger ?? undefined } : client
+    );
+    set({ currentProject: { ...currentProject, clientsImportes }, isDirty: true });
+    console.log(`🚗 Bornes VE: ${ids.size} client(s) ${charger ? `équipé(s) ${charger.power_kW} kW ${charger.connection}` : 'sans borne'}`);
+  },
+
+  setClientsHeatPump: (clientIds, heatPump) => {
+    const { currentProject } = get();
+    if (!currentProject) return;
+
+    const ids = new Set(clientIds);
+    const clientsImportes = (currentProject.clientsImportes || []).map(client =>
+      ids.has(client.id) ? { ...client, heatPump: heatPump ?? undefined } : client
+    );
+    set({ currentProject: { ...currentProject, clientsImportes }, isDirty: true });
+    console.log(`🌡️ PAC: ${ids.size} client(s) ${heatPump ? `équipé(s) ${heatPump.thermalPower_kW} kW ${heatPump.connection}` : 'sans PAC'}`);
+  },
+
   deleteClientImporte: (clientId) => {
     const { currentProject, updateAllCalculations } = get();
     if (!currentProject) return;
@@ -1723,14 +1911,12 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
       )
     };
 
+    attachShortCircuitResults(currentProject, results);
     set({ calculationResults: results });
 
     // Si mode simulation actif avec équipements actifs, recalculer aussi la simulation
     const { simulationMode, simulationEquipment } = get();
-    const hasActiveEquipment = simulationMode && (
-      (simulationEquipment.srg2Devices?.some(s => s.enabled) || false) ||
-      simulationEquipment.neutralCompensators.some(c => c.enabled)
-    );
+    const hasActiveEquipment = simulationMode && hasActiveSimulationEquipment(simulationEquipment);
 
     if (hasActiveEquipment) {
       get().runSimulation();
@@ -1741,11 +1927,11 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
     const { currentProject } = get();
     if (!currentProject) return;
 
-    // Renuméroter les câbles depuis la source vers les nœuds les plus éloignés
+    // Renuméroter les câbles depuis les sources vers les nœuds les plus éloignés
     const renumberCables = () => {
-      // Trouver la source
-      const sourceNode = currentProject.nodes.find(node => node.isSource);
-      if (!sourceNode || currentProject.cables.length === 0) return;
+      // Trouver les postes sources (le poste principal en premier)
+      const sourceNodes = currentProject.nodes.filter(node => node.isSource);
+      if (sourceNodes.length === 0 || currentProject.cables.length === 0) return;
 
       // Construire un graphe des connexions
       const connections = new Map<string, string[]>();
@@ -1766,29 +1952,31 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
         cableMap.set(key2, cable);
       });
 
-      // Parcours BFS depuis la source pour renuméroter
+      // Parcours BFS depuis chaque poste source pour renuméroter
       const visited = new Set<string>();
       const cableOrder: any[] = [];
-      const queue = [sourceNode.id];
-      visited.add(sourceNode.id);
-
-      while (queue.length > 0) {
-        const currentNodeId = queue.shift()!;
-        const neighbors = connections.get(currentNodeId) || [];
-
-        neighbors.forEach(neighborId => {
-          if (!visited.has(neighborId)) {
-            visited.add(neighborId);
-            queue.push(neighborId);
+      for (const sourceNode of sourceNodes) {
+        const queue = [sourceNode.id];
+        visited.add(sourceNode.id);
+
+        while (queue.length > 0) {
+          const currentNodeId = queue.shift()!;
+          const neighbors = connections.get(currentNodeId) || [];
+
+          neighbors.forEach(neighborId => {
+            if (!visited.has(neighborId)) {
+              visited.add(neighborId);
+              queue.push(neighborId);
             
-            // Trouver le câble correspondant
-            const cableKey = `${currentNodeId}-${neighborId}`;
-            const cable = cableMap.get(cableKey);
-            if (cable && !cableOrder.find(c => c.id === cable.id)) {
-              cableOrder.push(cable);
+              // Trouver le câble correspondant
+              const cableKey = `${currentNodeId}-${neighborId}`;
+              const cable = cableMap.get(cableKey);
+              if (cable && !cableOrder.find(c => c.id === cable.id)) {
+                cableOrder.push(cable);
+              }
             }
-          }
-        });
+          });
+        }
       }
 
       // Renuméroter les câbles trouvés
@@ -1796,7 +1984,7 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
         cable.name = `Câble ${index + 1}`;
       });
 
-      console.log(`Câbles renumérotés: ${cableOrder.length} câbles depuis la source`);
+      console.log(`Câbles renumérotés: ${cableOrder.length} câbles depuis ${sourceNodes.length} source(s)`);
     };
 
     // Appliquer la renumérotation
@@ -1878,6 +2066,7 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
       })()
     };
 
+    attachShortCircuitResults(currentProject, results);
     set({ calculationResults: results });
   },
 
@@ -1963,9 +2152,7 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
     updateAllCalculations();
     
     // Relancer la simulation si des équipements sont actifs
-    const hasActiveEquipment = updatedSRG2Devices.some(s => s.enabled) || 
-                               updatedNeutralCompensators.some(c => c.enabled);
-    if (hasActiveEquipment) {
+    if (hasActiveSimulationEquipment(get().simulationEquipment)) {
       get().runSimulation();
     }
     
@@ -2001,10 +2188,7 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
 
     // Si mode simulation actif avec équipements actifs, recalculer aussi la simulation
     const { simulationMode, simulationEquipment } = get();
-    const hasActiveEquipment = simulationMode && (
-      (simulationEquipment.srg2Devices?.some(s => s.enabled) || false) ||
-      simulationEquipment.neutralCompensators.some(c => c.enabled)
-    );
+    const hasActiveEquipment = simulationMode && hasActiveSimulationEquipment(simulationEquipment);
 
     if (hasActiveEquipment) {
       get().runSimulation();
@@ -2024,10 +2208,7 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
     get().updateAllCalculations();
 
     const { simulationMode, simulationEquipment } = get();
-    const hasActiveEquipment = simulationMode && (
-      (simulationEquipment.srg2Devices?.some(s => s.enabled) || false) ||
-      simulationEquipment.neutralCompensators.some(c => c.enabled)
-    );
+    const hasActiveEquipment = simulationMode && hasActiveSimulationEquipment(simulationEquipment);
 
     if (hasActiveEquipment) {
       get().runSimulation();
@@ -2047,10 +2228,7 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
     get().updateAllCalculations();
 
     const { simulationMode, simulationEquipment } = get();
-    const hasActiveEquipment = simulationMode && (
-      (simulationEquipment.srg2Devices?.some(s => s.enabled) || false) ||
-      simulationEquipment.neutralCompensators.some(c => c.enabled)
-    );
+    const hasActiveEquipment = simulationMode && hasActiveSimulationEquipment(simulationEquipment);
 
     if (hasActiveEquipment) {
       get().runSimulation();
@@ -2073,10 +2251,7 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
 
     // Si mode simulation actif avec équipements actifs, recalculer aussi la simulation
     const { simulationMode, simulationEquipment } = get();
-    const hasActiveEquipment = simulationMode && (
-      (simulationEquipment.srg2Devices?.some(s => s.enabled) || false) ||
-      simulationEquipment.neutralCompensators.some(c => c.enabled)
-    );
+    const hasActiveEquipment = simulationMode && hasActiveSimulationEquipment(simulationEquipment);
 
     if (hasActiveEquipment) {
       get().runSimulation();
@@ -2197,7 +2372,11 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
       simulationEquipment: newSimulationMode ? simulationEquipment : {
         srg2Devices: simulationEquipment.srg2Devices?.map(s => ({ ...s, enabled: false })) || [],
         neutralCompensators: simulationEquipment.neutralCompensators.map(c => ({ ...c, enabled: false })),
-        cableUpgrades: simulationEquipment.cableUpgrades
+        cableUpgrades: simulationEquipment.cableUpgrades,
+        inverterControlEnabled: false,
+        pvTripping: simulationEquipment.pvTripping ? { ...simulationEquipment.pvTripping, enabled: false } : undefined,
+        batteries: simulationEquipment.batteries?.map(b => ({ ...b, enabled: false })),
+        shuntBanks: simulationEquipment.shuntBanks?.map(b => ({ ...b, enabled: false }))
       }
     });
   },
@@ -2213,6 +2392,8 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
         ...simulationEquipment,
         srg2Devices: simulationEquipment.srg2Devices?.map(s => ({ ...s, enabled: newActiveState })) || [],
         neutralCompensators: simulationEquipment.neutralCompensators.map(c => ({ ...c, enabled: newActiveState })),
+        batteries: simulationEquipment.batteries?.map(b => ({ ...b, enabled: newActiveState })),
+        shuntBanks: simulationEquipment.shuntBanks?.map(b => ({ ...b, enabled: newActiveState })),
         cableReplacement: simulationEquipment.cableReplacement 
           ? { ...simulationEquipment.cableReplacement, enabled: newActiveState }
           : undefined
@@ -2471,6 +2652,123 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
     }
   },
 
+  addBattery: (nodeId: string) => {
+    const { simulationEquipment, currentProject, simulationMode } = get();
+    if (!currentProject) return;
+
+    const node = currentProject.nodes.find(n => n.id === nodeId);
+    if (!node) {
+      toast.error('Nœud introuvable');
+      return;
+    }
+
+    const batteries = simulationEquipment.batteries ?? [];
+    const battery = createDefaultBattery(
+      `battery-${nodeId}-${Date.now()}`,
+      nodeId,
+      `Batterie ${batteries.length + 1}`,
+      currentProject.transformerConfig?.nominalPower_kVA ?? 250
+    );
+
+    set({
+      simulationEquipment: { ...simulationEquipment, batteries: [...batteries, battery] },
+      isSimulationActive: true
+    });
+    if (!simulationMode) {
+      set({ simulationMode: true, selectedTool: 'simulation' });
+    }
+    toast.success(`Batterie ajoutée sur ${node.name}`);
+
+    get().runSimulation();
+  },
+
+  removeBattery: (batteryId: string) => {
+    const { simulationEquipment } = get();
+    set({
+      simulationEquipment: {
+        ...simulationEquipment,
+        batteries: (simulationEquipment.batteries ?? []).filter(b => b.id !== batteryId)
+      }
+    });
+    toast.success('Batterie supprimée');
+    get().runSimulation();
+  },
+
+  updateBattery: (batteryId: string, updates: Partial<BatteryStorage>) => {
+    const { simulationEquipment, simulationMode } = get();
+    set({
+      simulationEquipment: {
+        ...simulationEquipment,
+        batteries: (simulationEquipment.batteries ?? []).map(b =>
+          b.id === batteryId ? { ...b, ...updates } : b
+        )
+      }
+    });
+
+    if (updates.enabled === true && !simulationMode) {
+      set({ simulationMode: true, selectedTool: 'simulation', isSimulationActive: true });
+    }
+    if (get().simulationMode) {
+      get().runSimulation();
+    }
+  },
+
+  addShuntBank: (nodeId: string) => {
+    const { simulationEquipment, currentProject, simulationMode } = get();
+    if (!currentProject) return;
+
+    const node = currentProject.nodes.find(n => n.id === nodeId);
+    if (!node) {
+      toast.error('Nœud introuvable');
+      return;
+    }
+
+    const shuntBanks = simulationEquipment.shuntBanks ?? [];
+    const bank = createDefaultShuntBank(`shunt-${nodeId}-${Date.now()}`, nodeId, `Gradin ${shuntBanks.length + 1}`);
+
+    set({
+      simulationEquipment: { ...simulationEquipment, shuntBanks: [...shuntBanks, bank] },
+      isSimulationActive: true
+    });
+    if (!simulationMode) {
+      set({ simulationMode: true, selectedTool: 'simulation' });
+    }
+    toast.success(`Gradin shunt ajouté sur ${node.name}`);
+
+    get().runSimulation();
+  },
+
+  removeShuntBank: (bankId: string) => {
+    const { simulationEquipment } = get();
+    set({
+      simulationEquipment: {
+        ...simulationEquipment,
+        shuntBanks: (simulationEquipment.shuntBanks ?? []).filter(b => b.id !== bankId)
+      }
+    });
+    toast.success('Gradin shunt supprimé');
+    get().runSimulation();
+  },
+
+  updateShuntBank: (bankId: string, updates: Partial<ShuntBank>) => {
+    const { simulationEquipment, simulationMode } = get();
+    set({
+      simulationEquipment: {
+        ...simulationEquipment,
+        shuntBanks: (simulationEquipment.shuntBanks ?? []).map(b =>
+          b.id === bankId ? { ...b, ...updates } : b
+        )
+      }
+    });
+
+    if (updates.enabled === true && !simulationMode) {
+      set({ simulationMode: true, selectedTool: 'simulation', isSimulationActive: true });
+    }
+    if (get().simulationMode) {
+      get().runSimulation();
+    }
+  },
+
   proposeCableUpgrades: (threshold?: number) => {
     const { currentProject, calculationResults, selectedScenario, simulationEquipment } = get();
     if (!currentProject || !calculationResults[selectedScenario]) return;
@@ -2524,17 +2822,58 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
       toast.success(`Simulation de remplacement configurée: ${config.affectedCableIds.length} câble(s)`);
     } else {
       // Vérifier s'il reste d'autres équipements actifs, sinon désactiver isSimulationActive
-      const otherActiveEquipment = 
-        (simulationEquipment.srg2Devices?.some(s => s.enabled) || false) ||
-        simulationEquipment.neutralCompensators.some(c => c.enabled);
-      
-      if (!otherActiveEquipment) {
+      if (!hasActiveSimulationEquipment(simulationEquipment)) {
         set({ isSimulationActive: false });
       }
       toast.info('Simulation de remplacement annulée');
     }
   },
 
+  setInverterControlEnabled: (enabled: boolean) => {
+    const { simulationEquipment, simulationMode, currentProject } = get();
+    if (!currentProject) return;
+
+    set({
+      simulationEquipment: { ...simulationEquipment, inverterControlEnabled: enabled },
+      isSimulationActive: enabled || get().isSimulationActive,
+      // Réglage par défaut initialisé à la première activation
+      currentProject: currentProject.inverterControlDefault
+        ? currentProject
+        : { ...currentProject, inverterControlDefault: createDefaultInverterControlSettings() }
+    });
+
+    if (enabled && !simulationMode) {
+      set({ simulationMode: true, selectedTool: 'simulation' });
+    }
+    get().runSimulation();
+  },
+
+  updateInverterControlDefault: (settings: InverterControlSettings) => {
+    const { currentProject, simulationEquipment } = get();
+    if (!currentProject) return;
+
+    set({ currentProject: { ...currentProject, inverterControlDefault: settings } });
+    if (simulationEquipment.inverterControlEnabled) {
+      get().runSimulation();
+    }
+  },
+
+  setPVTrippingSettings: (settings: PVTrippingSettings) => {
+    const { simulationEquipment, simulationMode } = get();
+
+    set({
+      simulationEquipment: { ...simulationEquipment, pvTripping: settings },
+      isSimulationActive: settings.enabled || get().isSimulationActive
+    });
+
+    if (settings.enabled && !simulationMode) {
+      set({ simulationMode: true, selectedTool: 'simulation' });
+    }
+    if (settings.enabled || simulationEquipment.pvTripping?.enabled) {
+      get().runSimulation();
+    }
+  },
+
   runSimulation: () => {
     const { currentProject, selectedScenario, simulationEquipment, calculationResults } = get();
     if (!currentProject) return;
@@ -2574,8 +2913,7 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
       // Mettre à jour l'état avec les résultats de simulation
       set({ simulationResults: newSimulationResults });
       
-      const activeEquipmentCount = (simulationEquipment.srg2Devices?.filter(s => s.enabled).length || 0) + 
-                                   simulationEquipment.neutralCompensators.filter(c => c.enabled).length +
+      const activeEquipmentCount = countActiveSimulationEquipment(simulationEquipment) +
                                    (simulationEquipment.cableReplacement?.enabled ? 1 : 0);
       
       toast.success(`Simulation recalculée avec ${activeEquipmentCount} équipement(s) actif(s)`);
@@ -2631,6 +2969,26 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
     showClientTensionLabels: !state.showClientTensionLabels 
   })),
 
+  setMonteCarloResult: (result) => set({ 
+    monteCarloResult: result,
+    showMonteCarloMap: result ? get().showMonteCarloMap : false
+  }),
+
+  toggleMonteCarloMap: () => set(state => ({ 
+    showMonteCarloMap: !state.showMonteCarloMap,
+    showHostingCapacityMap: state.showMonteCarloMap ? state.showHostingCapacityMap : false
+  })),
+
+  setHostingCapacityResult: (result) => set({ 
+    hostingCapacityResult: result,
+    showHostingCapacityMap: result ? get().showHostingCapacityMap : false
+  }),
+
+  toggleHostingCapacityMap: () => set(state => ({ 
+    showHostingCapacityMap: !state.showHostingCapacityMap,
+    showMonteCarloMap: state.showHostingCapacityMap ? state.showMonteCarloMap : false
+  })),
+
   setClientColorMode: (mode) => set({ clientColorMode: mode }),
 
   generateCircuitColorMapping: () => {
@@ -2745,7 +3103,7 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
   },
 
   handleNodeSelectionClick: (nodeId) => {
-    const { nodeSelectionMode, addSRG2Device, addNeutralCompensator, simulationEquipment } = get();
+    const { nodeSelectionMode, addSRG2Device, addNeutralCompensator, addBattery, addShuntBank, simulationEquipment } = get();
     console.log('🗺️ Nœud cliqué en mode sélection:', nodeId, 'mode:', nodeSelectionMode);
     
     if (!nodeSelectionMode) return;
@@ -2782,6 +3140,16 @@ export const useNetworkStore = create<NetworkStoreState & NetworkActions>((set,
         }
         set({ nodeSelectionMode: null });
         break;
+
+      case 'battery':
+        addBattery(nodeId);
+        set({ nodeSelectionMode: null });
+        break;
+
+      case 'shuntBank':
+        addShuntBank(nodeId);
+        set({ nodeSelectionMode: null });
+        break;
     }
   },
   
@@ -1,4 +1,5 @@
 import { SRG2SwitchState } from './srg2';
+import { PVTrippingSummary, BatterySimulationSummary } from './network';
 
 export type Season = 'winter' | 'summer';
 export type Weather = 'sunny' | 'gray';
@@ -69,6 +70,10 @@ export interface DailySimulationOptions {
   zeroProduction?: boolean;
   /** Utiliser le profil mesuré importé au lieu des profils théoriques */
   useMeasuredProfile?: boolean;
+  /** Température extérieure heure par heure (°C), profil type de la saison et de la météo à défaut */
+  temperatureProfile?: HourlyProfile;
+  /** Température des conducteurs suivie d'une heure à l'autre (modèle thermique transitoire) */
+  cableThermalModel?: boolean;
 }
 
 export interface HourlyVoltageResult {
@@ -94,6 +99,15 @@ export interface HourlyVoltageResult {
   evBonus: number;
   // État SRG2 pour cette heure (si simulation active)
   srg2States?: SRG2HourlyActivation[];
+  // Découplages PV de l'heure (si simulation du découplage en cascade active)
+  pvTripping?: PVTrippingSummary;
+  // Batteries de l'heure (puissance et état de charge, si simulation active)
+  batteries?: BatterySimulationSummary;
+  // Recharge des véhicules électriques (bornes explicites de la flotte)
+  ev?: EVHourResult;
+  // Température extérieure de l'heure (°C) et puissance appelée par les pompes à chaleur (kW)
+  outdoorTemperature_C?: number;
+  heatPumpPower_kW?: number;
 }
 
 export const defaultDailySimulationOptions: DailySimulationOptions = {
@@ -104,7 +118,8 @@ export const defaultDailySimulationOptions: DailySimulationOptions = {
   evBonusNight: 5,
   enableIndustrialPME: true,
   selectedNodeId: '',
-  zeroProduction: false
+  zeroProduction: false,
+  cableThermalModel: false
 };
 
 /**
@@ -123,3 +138,271 @@ export interface ClientHourlyVoltageResult {
   /** Statut de conformité EN50160 */
   status: 'normal' | 'warning' | 'critical';
 }
+
+/**
+ * Options de la simulation annuelle (8760 h ou pas de 15 min)
+ */
+export interface AnnualSimulationOptions {
+  /** Année civile simulée (jours de semaine / week-end) */
+  year: number;
+  /** Pas de temps : 60 min (8760 pas) ou 15 min (35040 pas) */
+  stepMinutes: 60 | 15;
+  enableEV: boolean;
+  evBonusEvening: number;
+  evBonusNight: number;
+}
+
+export const defaultAnnualSimulationOptions: AnnualSimulationOptions = {
+  year: new Date().getFullYear(),
+  stepMinutes: 60,
+  enableEV: true,
+  evBonusEvening: 2.5,
+  evBonusNight: 5
+};
+
+/**
+ * Point d'une monotone de tension (tension dépassée pendant percentTime % du temps)
+ */
+export interface VoltageDurationPoint {
+  percentTime: number;
+  /** Tension max des 3 phases, triée décroissante (V, référence 230V) */
+  voltageMax_V: number;
+  /** Tension min des 3 phases, triée croissante (V, référence 230V) */
+  voltageMin_V: number;
+}
+
+export interface AnnualNodeResult {
+  nodeId: string;
+  nodeName: string;
+  minVoltage_V: number;
+  maxVoltage_V: number;
+  /** Heures au-dessus de +10% (253V) */
+  hoursOverVoltage: number;
+  /** Heures en dessous de -10% (207V) */
+  hoursUnderVoltage: number;
+  durationCurve: VoltageDurationPoint[];
+  /** Énergie PV non injectée suite aux découplages sur surtension (kWh) */
+  pvCurtailed_kWh: number;
+}
+
+export interface AnnualMonthResult {
+  month: number;
+  label: string;
+  losses_kWh: number;
+  pvCurtailed_kWh: number;
+  hoursOutOfLimits: number;
+}
+
+export interface AnnualSimulationResult {
+  year: number;
+  stepMinutes: number;
+  stepCount: number;
+  /** Nombre de calculs de réseau effectivement réalisés (pas identiques mutualisés) */
+  solvedSteps: number;
+  nodes: AnnualNodeResult[];
+  months: AnnualMonthResult[];
+  /** Pertes annuelles dans les câbles (kWh) */
+  cableLosses_kWh: number;
+  /** Pertes annuelles du transformateur : cuivre + fer si connues (kWh) */
+  transformerLosses_kWh: number;
+  /** Heures où au moins un nœud est hors ±10% */
+  hoursOutOfLimits: number;
+  /** Énergie PV productible avant découplages (kWh) */
+  pvProducible_kWh: number;
+  pvCurtailed_kWh: number;
+  /** Pertes annuelles détaillées par câble et par nature (transformateur) */
+  energyLosses: EnergyLossesBreakdown;
+}
+
+/**
+ * Pertes d'énergie intégrées sur une période (journée type ou année)
+ */
+export interface EnergyLossesBreakdown {
+  /** Durée intégrée (h) */
+  hours: number;
+  /** Pertes Joule par câble (kWh), indexées par id de câble */
+  cables: Record<string, number>;
+  /** Pertes cuivre du transformateur (kWh) */
+  transformerCopper_kWh: number;
+  /** Pertes fer du transformateur, sous tension toute la période (kWh) */
+  transformerIron_kWh: number;
+}
+
+/**
+ * Pertes d'un élément (câble, départ, transformateur) : réseau de référence et simulation
+ */
+export interface EnergyLossesLine {
+  id: string;
+  name: string;
+  baseline_kWh: number;
+  simulated_kWh: number;
+}
+
+/**
+ * Comparaison des pertes d'énergie référence / simulation et valorisation des économies
+ */
+export interface EnergyLossesComparison {
+  hours: number;
+  price_EUR_per_kWh: number;
+  /** Câbles triés par pertes de référence décroissantes */
+  cables: EnergyLossesLine[];
+  /** Départs BT (câble de tête et aval) */
+  feeders: EnergyLossesLine[];
+  transformerCopper: EnergyLossesLine;
+  transformerIron: EnergyLossesLine;
+  baselineTotal_kWh: number;
+  simulatedTotal_kWh: number;
+  /** Économie d'énergie (kWh, négative si la simulation augmente les pertes) */
+  savings_kWh: number;
+  savings_EUR: number;
+}
+
+/**
+ * Série temporelle de tensions soumise à l'évaluation statistique EN50160
+ * (profil 24h, simulation annuelle, mesures...)
+ */
+export interface VoltageTimeSeries {
+  id: string;
+  label: string;
+  kind: 'node' | 'client';
+  /** Pas de temps entre deux échantillons (min) */
+  stepMinutes: number;
+  /** Tensions phase-neutre par échantillon (1 valeur en mono, 3 en tri) */
+  samples_V: number[][];
+}
+
+export interface EN50160WeekEvaluation {
+  week: number;
+  /** Nombre de valeurs moyennes 10 min évaluées */
+  sampleCount: number;
+  /** 95e centile de la tension la plus haute des phases (V) */
+  p95_V: number;
+  /** 5e centile de la tension la plus basse des phases (V) */
+  p5_V: number;
+  min_V: number;
+  max_V: number;
+  /** Part des valeurs dans ±10%, phase la plus défavorable (%) */
+  percentWithin10: number;
+  /** Toutes les valeurs dans la bande +10% / -15% */
+  within100Band: boolean;
+  compliant: boolean;
+}
+
+export interface EN50160SeriesEvaluation {
+  id: string;
+  label: string;
+  kind: 'node' | 'client';
+  weeks: EN50160WeekEvaluation[];
+  /** Semaine la plus défavorable (plus faible part dans ±10%) */
+  worstWeek: EN50160WeekEvaluation;
+  compliant: boolean;
+}
+
+export interface EN50160Evaluation {
+  nominalVoltage_V: number;
+  /** Durée couverte par les séries (h) */
+  duration_h: number;
+  /** Série plus courte qu'une semaine : considérée comme représentative de la semaine */
+  representativeWeek: boolean;
+  nodes: EN50160SeriesEvaluation[];
+  clients: EN50160SeriesEvaluation[];
+  compliant: boolean;
+}
+
+/**
+ * Découplage PV en cascade sur 24 h : l'état des protections est conservé d'une heure
+ * à l'autre (reconnexion uniquement sous le seuil bas)
+ */
+export interface PVTrippingHourResult {
+  hour: number;
+  trippedClients: number;
+  lostPower_kW: number;
+  stable: boolean;
+}
+
+export interface PVTrippingClientResult {
+  clientId: string;
+  clientName: string;
+  nodeId: string;
+  /** Heure et rang dans la cascade du premier découplage */
+  firstTripHour: number;
+  firstTripStep: number;
+  trippedHours: number;
+  energyLost_kWh: number;
+}
+
+export interface PVTrippingDailyResult {
+  hours: PVTrippingHourResult[];
+  /** Clients découplés au moins une fois, dans l'ordre des découplages */
+  clients: PVTrippingClientResult[];
+  totalEnergyLost_kWh: number;
+  /** Production PV des clients sur la journée sans découplage */
+  totalEnergyAvailable_kWh: number;
+}
+
+/**
+ * Stockage par batteries sur 24 h : état de charge suivi d'une heure à l'autre,
+ * charge du transformateur avec et sans batteries
+ */
+export interface BatteryDailyResult {
+  hours: (BatterySimulationSummary & { hour: number })[];
+  chargedEnergy_kWh: number;
+  dischargedEnergy_kWh: number;
+  baselinePeakLoading_percent: number;
+  peakLoading_percent: number;
+}
+
+/**
+ * Recharge de la flotte de véhicules électriques sur une heure
+ */
+export interface EVHourResult {
+  hour: number;
+  chargers: { clientId: string; power_kW: number }[];
+  totalPower_kW: number;
+  /** Énergie reportée aux heures suivantes par la limitation en tension (kWh) */
+  curtailed_kWh: number;
+  minVoltage_V: number;
+  /** Courant de neutre maximal des câbles (calcul déséquilibré uniquement) */
+  maxNeutralCurrent_A: number;
+}
+
+/**
+ * Nombre de bornes supplémentaires accueillies par départ à l'heure la plus contrainte
+ */
+export interface EVFeederHosting {
+  feederCableId: string;
+  feederName: string;
+  existingChargers: number;
+  additionalChargers: number;
+  limitingConstraint: 'undervoltage' | 'overcurrent' | 'none';
+}
+
+export interface EVDailyResult {
+  hours: EVHourResult[];
+  totalEnergy_kWh: number;
+  /** Énergie demandée non délivrée avant le départ des véhicules */
+  unservedEnergy_kWh: number;
+  peakHour: number;
+  feeders: EVFeederHosting[];
+}
+
+/**
+ * Température d'un câble sur 24 h (modèle du premier ordre), comparée au régime établi instantané
+ */
+export interface CableThermalResult {
+  cableId: string;
+  cableName: string;
+  timeConstant_min: number;
+  ratedTemperature_C: number;
+  /** Température du conducteur en fin de chaque heure (°C) */
+  hourlyTemperatures_C: number[];
+  peakTemperature_C: number;
+  peakHour: number;
+  /** Pic de température du modèle en régime établi à chaque instant (°C) */
+  steadyStatePeakTemperature_C: number;
+  hoursAboveRated: number;
+}
+
+export interface CableThermalDailyResult {
+  cables: CableThermalResult[];
+}
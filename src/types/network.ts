@@ -79,6 +79,55 @@ export interface ClientImporte {
   geocoded?: boolean;           // True si géocodé automatiquement
   geocodingStatus?: 'success' | 'failed' | 'ambiguous' | 'manual'; // État du géocodage
   geocodingConfidence?: number; // Score de confiance (0-1)
+
+  // Borne de recharge de véhicule électrique
+  evCharger?: EVCharger;
+
+  // Pompe à chaleur (chauffage électrique dépendant de la température extérieure)
+  heatPump?: HeatPump;
+}
+
+// Point de la courbe de performance : COP à une température extérieure
+export interface HeatPumpCOPPoint {
+  temperature_C: number;
+  cop: number;
+}
+
+// Besoin de chauffage linéaire entre la température de non-chauffage (0) et la température de base (nominal)
+export interface HeatPump {
+  thermalPower_kW: number;        // Puissance calorifique de la PAC à la température de base
+  designTemperature_C: number;    // Température extérieure de base
+  heatingThreshold_C: number;     // Température de non-chauffage
+  backupHeater_kW: number;        // Appoint résistif sous la température de base
+  connection: 'MONO' | 'TRI';
+  copCurve: HeatPumpCOPPoint[];   // Triée par température croissante
+}
+
+// Puissances normalisées des bornes de recharge (16 A / 32 A mono, 16 A / 32 A tri)
+export type EVChargerPower = 3.7 | 7.4 | 11 | 22;
+
+export interface EVCharger {
+  power_kW: EVChargerPower;
+  connection: 'MONO' | 'TRI';
+}
+
+// Pilotage de la recharge
+export type EVChargingStrategy =
+  | 'uncontrolled'     // Recharge dès l'arrivée
+  | 'delayed_night'    // Report au début des heures creuses
+  | 'voltage_limited'; // Puissance réduite quand la tension de la borne baisse
+
+// Comportement de la flotte : arrivées / départs (loi normale, h) et énergie par recharge
+export interface EVFleetSettings {
+  enabled: boolean;
+  strategy: EVChargingStrategy;
+  arrivalMean_h: number;
+  arrivalStdDev_h: number;
+  departureMean_h: number;
+  departureStdDev_h: number;
+  energyPerSession_kWh: number;
+  nightStart_h: number;          // Début des heures creuses (report de charge)
+  voltageLimit_V: number;        // Pleine puissance au-dessus, arrêt 10 V en dessous
 }
 
 export interface ClientLink {
@@ -103,7 +152,32 @@ export interface ClientGroupe {
 }
 
 // Types pour le transformateur HT1/BT
-export type TransformerRating = "160kVA" | "250kVA" | "400kVA" | "630kVA";
+// Désignation de la puissance (ex: "160kVA"), dérivée de la puissance de l'entrée du catalogue
+export type TransformerRating = `${number}kVA`;
+
+// Identifiant d'une entrée du catalogue transformateurs (ex: "cab-160", "h61-100", "transformer-1718000000000")
+export type TransformerTypeId = `${'h61' | 'cab' | 'transformer'}-${number}`;
+
+// Couplage du transformateur (détermine l'impédance homopolaire vue du réseau BT)
+export type TransformerCoupling = 'Dyn11' | 'Yzn11';
+
+// Type d'installation du transformateur
+export type TransformerMounting = 'CABINE' | 'POTEAU';
+
+// Entrée du catalogue transformateurs (éditable, sauvegardée dans le projet)
+export interface TransformerType {
+  id: TransformerTypeId;
+  label: string;                        // ex: "H61 100 kVA (poteau)"
+  nominalPower_kVA: number;
+  mounting: TransformerMounting;
+  coupling: TransformerCoupling;
+  shortCircuitVoltage_percent: number;  // Ucc (%)
+  xOverR: number;                       // Ratio X/R direct
+  noLoadLosses_W: number;               // Pertes à vide (fer) en W
+  loadLosses_W: number;                 // Pertes en charge (cuivre) à Sn en W
+  zeroSequenceImpedance_percent: number; // Z0 en % de Zbase
+  zeroSequenceXOverR: number;           // Ratio X0/R0
+}
 
 export interface TransformerConfig {
   rating: TransformerRating;
@@ -113,13 +187,25 @@ export interface TransformerConfig {
   cosPhi: number;              // Facteur de puissance (peut être utilisé ailleurs, mais pas pour Ztr)
   xOverR?: number;             // Ratio X/R du transformateur (optionnel)
   sourceVoltage?: number;      // Tension source en V (±5% de la tension nominale)
+  tapPosition_percent?: TransformerTapPosition; // Prise à vide : décalage de la tension BT à vide (%)
+  // Caractéristiques issues du catalogue (optionnelles : Z0 = Z1 si absentes)
+  typeId?: TransformerTypeId;          // Entrée du catalogue sélectionnée
+  coupling?: TransformerCoupling;
+  zeroSequenceImpedance_percent?: number;
+  zeroSequenceXOverR?: number;
+  noLoadLosses_W?: number;
+  loadLosses_W?: number;
 }
 
+// Positions du changeur de prises hors tension (effet sur la tension BT, %)
+export type TransformerTapPosition = -5 | -2.5 | 0 | 2.5 | 5;
+
 // Interface pour le jeu de barres virtuel
 export interface VirtualBusbar {
   voltage_V: number;          // tension au jeu de barres après ΔU global (ligne)
   current_A: number;          // courant net (RMS)
   current_N?: number;         // courant neutre (A RMS) en mode déséquilibré 400V
+  neutralShift_V?: number;    // déplacement du point neutre transfo (Z0-Z1)·I0 en mode déséquilibré 400V
   netSkVA: number;            // total charges - productions (kVA)
   deltaU_V: number;           // ΔU global appliqué au bus (V, ligne)
   deltaU_percent?: number;    // ΔU global en %/U_line
@@ -148,6 +234,13 @@ export interface CableType {
   matiere: "CUIVRE" | "ALUMINIUM";
   posesPermises: CablePose[];
   maxCurrent_A?: number; // Ampacité (I_iz) optionnelle si disponible
+  // Neutre de section réduite (ex. 3×95+50) : conducteur neutre explicite (RN/XN du
+  // conducteur seul, ramenés à la base R0/X0 par ×3). À défaut, le neutre est modélisé
+  // par R0/X0 du câble symétrique.
+  neutralSection_mm2?: number;
+  RN_ohm_per_km?: number;
+  XN_ohm_per_km?: number;
+  neutralMaxCurrent_A?: number; // Ampacité du neutre (défaut : ampacité des phases)
 }
 
 export interface ClientCharge {
@@ -166,6 +259,31 @@ export interface ProductionPV {
   // NOUVEAU : Phase assignée pour les productions manuelles en mode mixte MONO
   assignedPhase?: 'A' | 'B' | 'C';
   phaseCoupling?: 'A-B' | 'B-C' | 'A-C'; // Pour réseau 230V
+  // Régulation propre de l'onduleur (sinon réglage par défaut du projet)
+  inverterControl?: InverterControlSettings;
+}
+
+// Courbe Q(U) de l'onduleur (volt-var) : tensions phase-neutre croissantes V1 < V2 ≤ V3 < V4
+export interface InverterQUCurve {
+  enabled: boolean;
+  V1_V: number;          // En dessous : injection de Qmax (capacitif)
+  V2_V: number;          // Début de la bande morte
+  V3_V: number;          // Fin de la bande morte
+  V4_V: number;          // Au-dessus : absorption de Qmax (inductif)
+  Qmax_percent: number;  // Q maximal en % de la puissance nominale de l'onduleur
+}
+
+// Courbe P(U) de l'onduleur (volt-watt) : réduction linéaire de la puissance active
+export interface InverterPUCurve {
+  enabled: boolean;
+  Ustart_V: number;      // Début de la réduction
+  Ustop_V: number;       // Puissance réduite à Pmin
+  Pmin_percent: number;  // Puissance résiduelle en % de la puissance nominale
+}
+
+export interface InverterControlSettings {
+  qu: InverterQUCurve;
+  pu: InverterPUCurve;
 }
 
 export interface Node {
@@ -177,6 +295,7 @@ export interface Node {
   clients: ClientCharge[];
   productions: ProductionPV[];
   isSource?: boolean;
+  transformerConfig?: TransformerConfig; // Transformateur propre au poste (postes sources secondaires)
   tensionCible?: number; // tension cible en V (optionnel)
   // Tensions cibles par phase (pour mode monophasé déséquilibré)
   tensionCiblePhaseA?: number;
@@ -186,6 +305,8 @@ export interface Node {
   hasSRG2Device?: boolean; // indique si ce nœud a un dispositif SRG2
   srg2RegulationCoefficients?: {A: number, B: number, C: number}; // coefficients de régulation SRG2 en % (multiplicateurs)
   srg2TensionSortie?: {A: number, B: number, C: number}; // tensions de sortie SRG2 pré-calculées (V)
+  // Compensation shunt en service (kVAr par phase sous tension nominale, > 0 capacitif, < 0 inductif)
+  shuntCompensation_kVAr?: { A: number; B: number; C: number };
   // Répartition des charges et productions par phase (mode monophasé)
   phaseDistribution?: {
     charges?: { A: number; B: number; C: number };
@@ -223,6 +344,16 @@ export interface Node {
   equi8_ids?: string[];
 }
 
+// Conditions de pose d'un tronçon (références : souterrain seul à 0,8 m dans un sol à 1 K·m/W,
+// aérien seul à l'air libre)
+export interface CableInstallation {
+  groupedCables: number;                  // Câbles jointifs (même tranchée ou même façade), 1 = isolé
+  burialDepth_m?: number;                 // Souterrain : profondeur de pose
+  soilThermalResistivity_KmW?: number;    // Souterrain : résistivité thermique du sol
+  inDuct?: boolean;                       // Souterrain : sous fourreau
+  onFacade?: boolean;                     // Aérien : torsadé posé sur façade
+}
+
 export interface Cable {
   id: string;
   name: string;
@@ -232,6 +363,16 @@ export interface Cable {
   nodeBId: string;
   coordinates: { lat: number; lng: number; }[];
   length_m?: number; // calculée automatiquement
+  // Organe de coupure (sectionneur / point de coupure entre départs)
+  switchState?: 'open' | 'closed'; // absent = pas d'organe de coupure (câble toujours fermé)
+  switchLocation?: 'A' | 'B';      // extrémité portant l'organe de coupure
+  // Appareil de protection en tête de câble (départ ou dérivation)
+  protection?: ProtectionDevice;
+  // Conditions de pose réelles : déclassement de l'ampacité du type de câble
+  installation?: CableInstallation;
+  // Modèle thermique transitoire (profil 24h)
+  thermalTimeConstant_min?: number;  // Constante de temps thermique, défaut selon la pose
+  conductorTemperature_C?: number;   // Température conducteur imposée au calcul (prioritaire sur la saison)
   // Résultats de calcul (agrégés)
   current_A?: number;
   voltageDrop_V?: number;
@@ -323,6 +464,7 @@ export interface Project {
   nodes: Node[];
   cables: Cable[];
   cableTypes: CableType[];
+  transformerTypes?: TransformerType[]; // Catalogue transformateurs du projet
   // Clients importés et liaisons
   clientsImportes?: ClientImporte[];
   clientLinks?: ClientLink[];
@@ -334,6 +476,10 @@ export interface Project {
   importCount?: number;
   // Équipements de simulation (SRG2 et EQUI8)
   simulationEquipment?: SimulationEquipment;
+  // Régulation Q(U)/P(U) appliquée aux onduleurs sans réglage propre
+  inverterControlDefault?: InverterControlSettings;
+  // Flotte de véhicules électriques (bornes portées par les clients importés)
+  evFleet?: EVFleetSettings;
   // Debug flags pour développement
   debug?: {
     equi8?: {
@@ -343,6 +489,8 @@ export interface Project {
   };
   // Saison pour le modèle thermique des câbles
   season?: 'winter' | 'summer';
+  // Prix de valorisation des pertes d'énergie (€/kWh)
+  lossPrice_EUR_per_kWh?: number;
 }
 
 
@@ -444,6 +592,138 @@ export interface SimulationEquipment {
   neutralCompensators: NeutralCompensator[];
   cableUpgrades: CableUpgrade[];
   cableReplacement?: CableReplacementConfig; // Configuration de remplacement de câbles
+  inverterControlEnabled?: boolean; // Régulation Q(U)/P(U) des onduleurs PV
+  pvTripping?: PVTrippingSettings;  // Découplage en cascade des PV clients en surtension
+  batteries?: BatteryStorage[];     // Stockage par batteries
+  shuntBanks?: ShuntBank[];         // Batteries de condensateurs / réactances shunt
+}
+
+// Nombre d'équipements de simulation actifs (un par dispositif, un par régulation globale), hors remplacement de câbles
+export const countActiveSimulationEquipment = (equipment: SimulationEquipment): number =>
+  (equipment.srg2Devices?.filter(s => s.enabled).length || 0) +
+  (equipment.neutralCompensators?.filter(c => c.enabled).length || 0) +
+  (equipment.inverterControlEnabled ? 1 : 0) +
+  (equipment.pvTripping?.enabled ? 1 : 0) +
+  (equipment.batteries?.filter(b => b.enabled).length || 0) +
+  (equipment.shuntBanks?.filter(b => b.enabled).length || 0);
+
+export const hasActiveSimulationEquipment = (equipment: SimulationEquipment): boolean =>
+  countActiveSimulationEquipment(equipment) > 0;
+
+// Gradins de compensation réactive : fixes ou commutés selon la tension du nœud
+export interface ShuntBank {
+  id: string;
+  nodeId: string;
+  name: string;
+  enabled: boolean;
+  type: 'capacitor' | 'reactor';
+  ratedPerPhase_kVAr: { A: number; B: number; C: number }; // Puissance totale sous tension nominale
+  switching: 'fixed' | 'voltage_controlled';
+  steps: number;                   // Nombre de gradins égaux (commutation)
+  // Condensateur : gradin ajouté sous voltageLow_V, retiré au-dessus de voltageHigh_V (inverse pour une réactance)
+  voltageLow_V: number;
+  voltageHigh_V: number;
+}
+
+export interface ShuntBankResult {
+  bankId: string;
+  name: string;
+  nodeId: string;
+  stepsOn: number;
+  Q_kVAr: number;                  // Réactif effectif sous la tension du nœud (> 0 fourni au réseau)
+  voltageBefore_V: number;         // Tension de commande sans compensation
+  voltageAfter_V: number;
+}
+
+// Stratégie de pilotage d'une batterie
+export type BatteryStrategy =
+  | 'peak_shaving'         // Écrêtage de la pointe transformateur (recharge sous le seuil)
+  | 'pv_self_consumption'  // Autoconsommation : stocke le surplus PV du nœud, restitue le déficit
+  | 'voltage_triggered';   // Charge en surtension, décharge en sous-tension au nœud
+
+export interface BatteryStorage {
+  id: string;
+  nodeId: string;
+  name: string;
+  enabled: boolean;
+  phase?: 'A' | 'B' | 'C';         // Monophasée sur cette phase, triphasée équilibrée sinon
+  power_kW: number;                // Puissance max de charge / décharge
+  capacity_kWh: number;
+  initialSoC_percent: number;      // État de charge en début de simulation
+  minSoC_percent: number;
+  maxSoC_percent: number;
+  efficiency_percent: number;      // Rendement aller-retour
+  strategy: BatteryStrategy;
+  peakShavingThreshold_kVA: number; // Puissance transformateur visée (écrêtage)
+  voltageHigh_V: number;           // Charge au-delà (déclenchement en tension)
+  voltageLow_V: number;            // Décharge en deçà (déclenchement en tension)
+}
+
+// Point de fonctionnement d'une batterie sur un pas de calcul
+export interface BatteryDispatchResult {
+  batteryId: string;
+  name: string;
+  nodeId: string;
+  power_kW: number;                // > 0 charge, < 0 décharge
+  socStart_percent: number;
+  socEnd_percent: number;
+  voltageBefore_V: number;         // Tension au nœud sans batterie (phase la plus haute ou phase de la batterie)
+  voltageAfter_V: number;
+}
+
+export interface BatterySimulationSummary {
+  batteries: BatteryDispatchResult[];
+  baselineTransformerLoading_percent: number;
+  transformerLoading_percent: number;
+}
+
+// Protection de découplage des onduleurs PV clients (surtension au point de raccordement)
+export interface PVTrippingSettings {
+  enabled: boolean;
+  tripVoltage_V: number;        // Déclenchement au-delà de cette tension
+  reconnectVoltage_V: number;   // Reconnexion en dessous (hystérésis)
+  branchementCableId?: string;  // Câble de branchement (sinon tension du nœud)
+}
+
+export interface PVTripEvent {
+  step: number;                 // Ordre dans la cascade
+  clientId: string;
+  clientName: string;
+  nodeId: string;
+  action: 'trip' | 'reconnect';
+  voltage_V: number;            // Tension au point de raccordement au moment de l'événement
+}
+
+export interface PVTrippingSummary {
+  stable: boolean;              // false : oscillation ou nombre d'étapes maximal atteint
+  events: PVTripEvent[];
+  trippedClientIds: string[];   // Clients découplés à l'état final
+  lostPower_kW: number;         // Production active perdue à l'état final
+}
+
+// Point de fonctionnement d'un onduleur après régulation Q(U)/P(U)
+export interface InverterControlResult {
+  inverterId: string;
+  label: string;
+  nodeId: string;
+  kind: 'production' | 'client';   // Production manuelle ou PV d'un client importé
+  ratedPower_kVA: number;
+  voltage_V: number;               // Tension phase-neutre vue par l'onduleur
+  reactiveAbsorbed_kVAr: number;   // > 0 absorbé, < 0 injecté
+  activeCurtailed_kW: number;
+}
+
+export interface InverterControlSummary {
+  converged: boolean;
+  iterations: number;
+  inverters: InverterControlResult[];
+  totalReactiveAbsorbed_kVAr: number;
+  totalCurtailed_kW: number;
+  // Besoin en SRG2 : surtensions sans régulateur, avant / après régulation des onduleurs
+  baselineMaxVoltage_V: number;
+  baselineOvervoltageNodes: number;
+  controlledMaxVoltage_V: number;
+  controlledOvervoltageNodes: number;
 }
 
 export interface SimulationResult extends CalculationResult {
@@ -452,6 +732,321 @@ export interface SimulationResult extends CalculationResult {
   baselineResult?: CalculationResult; // Résultats sans équipements pour comparaison
   convergenceStatus?: 'converged' | 'not_converged';
   iterations?: number; // Nombre d'itérations pour convergence
+  inverterControl?: InverterControlSummary;
+  pvTripping?: PVTrippingSummary;
+  batteries?: BatterySimulationSummary;
+  shuntBanks?: ShuntBankResult[];
+}
+
+// Tensions de séquence d'un nœud (composantes symétriques)
+export interface NodeSequenceVoltages {
+  nodeId: string;
+  V0_V: number;                      // |V homopolaire| (V)
+  V1_V: number;                      // |V directe| (V)
+  V2_V: number;                      // |V inverse| (V)
+  unbalanceFactor_percent: number;   // u2 = |V2| / |V1| (%)
+  zeroSequenceFactor_percent: number; // u0 = |V0| / |V1| (%)
+  compliant: boolean;                // u2 ≤ 2% (EN50160)
+}
+
+// Appareil de protection BT (fusible ou disjoncteur)
+export type ProtectionDeviceType = 'FUSIBLE_gG' | 'FUSIBLE_aM' | 'DISJONCTEUR_B' | 'DISJONCTEUR_C' | 'DISJONCTEUR_D';
+
+export interface ProtectionDevice {
+  type: ProtectionDeviceType;
+  rating_A: number;            // Calibre In (A)
+}
+
+// Courants de court-circuit présumés à un nœud (IEC 60909 simplifiée)
+export interface NodeShortCircuit {
+  nodeId: string;
+  sourceNodeId: string;        // Poste alimentant le nœud
+  Z1_max_ohm: number;          // |Z directe| amont, conducteurs froids (Ω)
+  Z1_min_ohm: number;          // |Z directe| amont, conducteurs chauds (Ω)
+  Ik3_max_kA: number;          // Triphasé, conditions max
+  Ik3_min_kA: number;          // Triphasé, conditions min
+  Ik2_max_kA: number;          // Biphasé (phase-phase), conditions max
+  Ik2_min_kA: number;          // Biphasé (phase-phase), conditions min
+  Ik1_max_kA?: number;         // Phase-neutre (réseau 400V uniquement), conditions max
+  Ik1_min_kA?: number;         // Phase-neutre (réseau 400V uniquement), conditions min
+}
+
+export interface ShortCircuitResult {
+  voltage_V: number;           // Tension nominale entre phases (V)
+  cMax: number;                // Facteur de tension c max
+  cMin: number;                // Facteur de tension c min
+  nodes: NodeShortCircuit[];
+}
+
+// Vérification d'une protection (zone protégée jusqu'aux protections aval)
+export interface ProtectionCheck {
+  cableId: string;             // Câble portant la protection (ou départ non protégé)
+  device?: ProtectionDevice;
+  isFeederHead: boolean;       // Câble de départ depuis le poste
+  zoneCableIds: string[];      // Câbles protégés par l'appareil
+  endFaultNodeId?: string;     // Nœud au courant de défaut minimal
+  endFaultCurrent_A?: number;  // Ik min en bout de zone (Ik1 en 400V, Ik2 en 230V)
+  clearingTime_s?: number;     // Temps de coupure pour ce défaut (Infinity = pas de fonctionnement)
+  faultCleared: boolean;       // Défaut éliminé dans le temps requis
+  weakestCableId?: string;     // Câble de plus faible ampacité dans la zone
+  weakestAmpacity_A?: number;
+  ampacityProtected: boolean | null; // null si ampacité inconnue
+  compliance: 'normal' | 'warning' | 'critical';
+  messages: string[];
+}
+
+export interface ProtectionResult {
+  compliance: 'normal' | 'warning' | 'critical';
+  maxClearingTime_s: number;   // Temps de coupure maximal admis (s)
+  checks: ProtectionCheck[];
+}
+
+// Résultat par poste source (réseau multi-postes)
+export interface SubstationResult {
+  sourceNodeId: string;
+  sourceName: string;
+  transformerConfig?: TransformerConfig;
+  nodeIds: string[];          // Nœuds alimentés par ce poste
+  cableIds: string[];         // Câbles de la zone du poste
+  totalLoads_kVA: number;
+  totalProductions_kVA: number;
+  globalLosses_kW: number;
+  maxVoltageDropPercent: number;
+  maxVoltageDropCircuitNumber?: number;
+  compliance: 'normal' | 'warning' | 'critical';
+  virtualBusbar?: VirtualBusbar;
+}
+
+// Boucle détectée dans un réseau maillé (câble de bouclage + chemin fermé)
+export interface MeshLoop {
+  cableId: string;      // Câble de bouclage (point de coupure du solveur)
+  nodeAId: string;      // Extrémité A du câble de bouclage
+  nodeBId: string;      // Extrémité B du câble de bouclage
+  nodeIds: string[];    // Nœuds parcourus par la boucle (A → ... → B)
+  cableIds: string[];   // Câbles formant la boucle (arbre + câble de bouclage)
+}
+
+// Loi de tirage bornée à [0, 100] % (loi bêta de moyenne et d'écart-type donnés)
+export interface LoadDistribution {
+  mean_percent: number;
+  stdDev_percent: number;
+}
+
+// Options du calcul de répartition probabiliste (Monte Carlo)
+export interface MonteCarloOptions {
+  iterations: number;
+  scenario: CalculationScenario;
+  residentialLoad: LoadDistribution;    // Par client résidentiel (et charges manuelles)
+  industrialLoad: LoadDistribution;     // Par client industriel
+  pvOutput: LoadDistribution;           // Ensoleillement commun à toutes les productions
+  evPenetration_percent: number;        // Probabilité qu'un client résidentiel recharge un VE
+  evPower_kVA: number;                  // Puissance de recharge VE
+  seed: number;                         // Graine du générateur (tirages reproductibles)
+}
+
+export interface MonteCarloNodeResult {
+  nodeId: string;
+  nodeName: string;
+  p5_percent: number;          // 5e centile de l'écart de la phase la plus basse (%)
+  p50_percent: number;         // Médiane de l'écart moyen des phases (%)
+  p95_percent: number;         // 95e centile de l'écart de la phase la plus haute (%)
+  overVoltageProbability: number;   // Probabilité d'écart > +10% (0-1)
+  underVoltageProbability: number;  // Probabilité d'écart < -10% (0-1)
+  violationProbability: number;     // Probabilité de sortie de ±10% (0-1)
+}
+
+export interface MonteCarloResult {
+  options: MonteCarloOptions;
+  iterations: number;          // Tirages calculés avec succès
+  failedIterations: number;
+  nodes: MonteCarloNodeResult[];
+  networkViolationProbability: number; // Probabilité qu'au moins un nœud sorte de ±10% (0-1)
+}
+
+// Capacité d'accueil PV : raccordement mono sur une phase ou triphasé
+export type HostingCapacityPhase = 'A' | 'B' | 'C' | 'TRI';
+export type HostingCapacityConstraint = 'voltage' | 'cable' | 'transformer';
+
+export interface HostingCapacityOptions {
+  target: 'nodes' | 'clients';   // Par nœud ou par client lié (couplage du client)
+  phase: HostingCapacityPhase;   // Raccordement testé en mode "nœuds"
+  maxPower_kVA: number;          // Borne haute de la recherche
+  tolerance_kVA: number;         // Précision de la dichotomie
+}
+
+export interface HostingCapacityEntry {
+  targetId: string;              // Nœud ou client
+  targetName: string;
+  kind: 'node' | 'client';
+  nodeId: string;
+  phase: HostingCapacityPhase;
+  capacity_kVA: number;          // PV supplémentaire raccordable
+  limitingConstraint?: HostingCapacityConstraint; // Absente si la borne haute est atteinte
+  limitingElementId?: string;    // Nœud, câble ou poste source en contrainte
+}
+
+export interface HostingCapacityResult {
+  options: HostingCapacityOptions;
+  withSimulation: boolean;       // Équipements de simulation pris en compte
+  entries: HostingCapacityEntry[];
+}
+
+// Étude de faisabilité de raccordement (nouveau client ou augmentation de puissance)
+export interface ConnectionStudyRequest {
+  nomCircuit: string;
+  lat: number;
+  lng: number;
+  nodeId: string;                      // Nœud de raccordement
+  puissanceContractuelle_kVA: number;
+  puissancePV_kVA: number;
+  connectionType: ClientConnectionType;
+  clientType: ClientType;
+  branchementCableId: string;
+  existingClientId?: string;           // Augmentation de puissance d'un client existant
+}
+
+export type ConnectionStudyVerdict = 'accepted' | 'accepted_with_works' | 'refused';
+
+export type ConnectionStudyConstraintKind =
+  | 'node_voltage'
+  | 'cable_current'
+  | 'transformer'
+  | 'client_voltage'
+  | 'branchement_current';
+
+export interface ConnectionStudyConstraint {
+  kind: ConnectionStudyConstraintKind;
+  scenario?: CalculationScenario;
+  elementId: string;
+  elementName: string;
+  before?: number;                     // Valeur sans le raccordement (%, A ou V selon le type)
+  after: number;                       // Valeur avec le raccordement
+  limit: number;
+  remedy?: string;                     // Travaux proposés (absent si contrainte rédhibitoire)
+}
+
+export interface ConnectionStudyNodeComparison {
+  nodeId: string;
+  nodeName: string;
+  scenario: CalculationScenario;
+  before_percent: number;              // Écart de tension le plus défavorable (signé)
+  after_percent: number;
+}
+
+export interface ConnectionStudyCableComparison {
+  cableId: string;
+  cableName: string;
+  scenario: CalculationScenario;
+  before_A: number;
+  after_A: number;
+  maxCurrent_A?: number;   // Ampacité effective (conditions de pose)
+}
+
+export interface ConnectionStudyResult {
+  request: ConnectionStudyRequest;
+  nodeName: string;
+  assignedPhase?: 'A' | 'B' | 'C';
+  branchementLength_m: number;
+  branchementCurrent_A: number;
+  clientVoltageMin_V: number;          // Journée d'hiver sans production
+  clientVoltageMax_V: number;          // Journée d'été ensoleillée
+  nodes: ConnectionStudyNodeComparison[];
+  cables: ConnectionStudyCableComparison[];
+  constraints: ConnectionStudyConstraint[];
+  verdict: ConnectionStudyVerdict;
+  withSimulation: boolean;
+}
+
+// Planification pluriannuelle : croissance des charges, du PV et des VE
+export interface LoadGrowthOptions {
+  horizonYears: number;
+  startYear: number;
+  residentialGrowth_percent: number;   // Croissance annuelle des charges résidentielles (%/an)
+  industrialGrowth_percent: number;    // Croissance annuelle des charges industrielles (%/an)
+  pvGrowth_percent: number;            // Croissance annuelle du PV installé (%/an)
+  evPenetrationStart_percent: number;  // Part des clients résidentiels équipés d'un VE en année 0
+  evPenetrationGrowth_percent: number; // Points de pénétration VE gagnés chaque année
+  evPower_kVA: number;                 // Puissance de recharge ajoutée par client équipé
+}
+
+export interface LoadGrowthYearResult {
+  year: number;
+  residentialLoad_kVA: number;         // Puissances contractuelles (avant foisonnement)
+  industrialLoad_kVA: number;
+  pv_kVA: number;
+  evPenetration_percent: number;
+  minDeviation_percent: number;        // Écart de tension le plus bas (prélèvement)
+  maxDeviation_percent: number;        // Écart de tension le plus haut (production)
+  maxCableLoading_percent: number;
+  violatingNodes: number;
+  overloadedCables: number;
+  failed?: boolean;                    // Calcul non convergé pour cette année
+}
+
+export interface LoadGrowthViolation {
+  elementId: string;
+  elementName: string;
+  kind: 'node' | 'cable';
+  firstYear: number;
+  scenario: CalculationScenario;
+  value: number;                       // Écart de tension (%) ou charge câble (%) l'année du dépassement
+}
+
+export interface LoadGrowthResult {
+  options: LoadGrowthOptions;
+  years: LoadGrowthYearResult[];
+  violations: LoadGrowthViolation[];   // Triées par année de premier dépassement
+}
+
+// Rupture de neutre sur un câble d'un réseau 400V (déplacement du point neutre en aval)
+export type BrokenNeutralSeverity = 'normal' | 'overvoltage' | 'dangerous';
+
+export interface BrokenNeutralOptions {
+  cableId: string;                     // Câble dont le neutre est coupé
+  neutralEarthResistance_Ohm?: number; // Prise de terre du neutre en aval de la coupure (absente = neutre flottant)
+  thermalWindow: EQUI8ThermalWindow;   // Limite thermique retenue pour un EQUI8 ajouté
+}
+
+export interface BrokenNeutralNodeResult {
+  nodeId: string;
+  nodeName: string;
+  healthyVoltages_V: { A: number; B: number; C: number };  // Phase-neutre, neutre continu
+  faultVoltages_V: { A: number; B: number; C: number };    // Phase-neutre, neutre coupé
+  maxVoltage_V: number;
+  severity: BrokenNeutralSeverity;
+}
+
+export interface BrokenNeutralClientResult {
+  clientId: string;
+  clientName: string;
+  nodeId: string;
+  phase?: 'A' | 'B' | 'C';             // Phase du client monophasé (absente = polyphasé, phase la plus haute)
+  voltage_V: number;
+  severity: BrokenNeutralSeverity;
+}
+
+export interface BrokenNeutralMitigation {
+  nodeId: string;
+  nodeName: string;
+  existing: boolean;                   // EQUI8 déjà présent dans la simulation à ce nœud
+  neutralShift_V: number;              // Déplacement du point neutre avec l'EQUI8 (et ceux déjà installés)
+  maxVoltage_V: number;                // Tension phase-neutre la plus haute de l'îlot avec l'EQUI8
+  equi8Current_A: number;              // Courant de neutre repris par l'EQUI8
+  thermalLimit_A: number;
+  isLimited: boolean;                  // Courant au-delà de la limite thermique
+  mitigates: boolean;                  // Plus aucune tension > 253 V sans dépasser la limite thermique
+}
+
+export interface BrokenNeutralResult {
+  options: BrokenNeutralOptions;
+  cableName: string;
+  downstreamNodeIds: string[];         // Îlot privé de neutre
+  islandCurrents_A: { A: number; B: number; C: number };  // Courants de phase du câble avant coupure
+  neutralShift_V: number;              // Déplacement du point neutre (EQUI8 déjà installés inclus)
+  nodes: BrokenNeutralNodeResult[];
+  clients: BrokenNeutralClientResult[];
+  mitigations: BrokenNeutralMitigation[];  // Triées par tension maximale croissante
+  withSimulation: boolean;
 }
 
 export interface CalculationResult {
@@ -467,6 +1062,8 @@ export interface CalculationResult {
   nodeMetrics?: { nodeId: string; V_phase_V: number; V_pu: number; I_inj_A: number }[];
   nodePhasors?: { nodeId: string; V_real: number; V_imag: number; V_phase_V: number; V_angle_deg: number }[];
   nodePhasorsPerPhase?: { nodeId: string; phase: 'A' | 'B' | 'C'; V_real: number; V_imag: number; V_phase_V: number; V_angle_deg: number }[];
+  nodeSequenceVoltages?: NodeSequenceVoltages[]; // Composantes symétriques (mode déséquilibré)
+  unbalanceCompliance?: 'normal' | 'warning' | 'critical'; // Taux de déséquilibre EN50160 (u2 ≤ 2%, vigilance > 1,5%)
   nodeMetricsPerPhase?: { 
     nodeId: string; 
     voltagesPerPhase: { A: number; B: number; C: number };
@@ -476,7 +1073,15 @@ export interface CalculationResult {
     nodeCompliance?: 'normal' | 'warning' | 'critical';
   }[];
   cablePowerFlows?: { cableId: string; P_kW: number; Q_kVAr: number; S_kVA: number; pf: number }[];
-  virtualBusbar?: VirtualBusbar; // Informations du jeu de barres virtuel
+  virtualBusbar?: VirtualBusbar; // Informations du jeu de barres virtuel (poste principal)
+  substations?: SubstationResult[]; // Détail par poste source (réseau multi-postes)
+  // Courants de court-circuit présumés (indépendants du scénario)
+  shortCircuit?: ShortCircuitResult;
+  // Vérification des protections (fusibles / disjoncteurs)
+  protection?: ProtectionResult;
+  // Réseau maillé : mode de résolution utilisé et boucles détectées
+  solverMode?: 'radial' | 'meshed';
+  meshLoops?: MeshLoop[];
   manualPhaseDistribution?: {
     charges: { A: number; B: number; C: number };
     productions: { A: number; B: number; C: number };
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { AnnualSimulationCalculator } from '@/utils/annualSimulationCalculator';
+import { defaultAnnualSimulationOptions } from '@/types/dailyProfile';
+import type { Node, Cable, CableType, Project } from '@/types/network';
+
+const cableTypes: CableType[] = [
+  { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+];
+
+const buildProject = (chargeKVA: number, productionKVA: number): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1, noLoadLosses_W: 300 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    {
+      id: 'n1', name: 'N1', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V',
+      clients: [{ id: 'c', label: 'c', S_kVA: chargeKVA }],
+      productions: [{ id: 'pv', label: 'pv', S_kVA: productionKVA }]
+    }
+  ] as Node[],
+  cables: [{
+    id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1',
+    coordinates: [{ lat: 0, lng: 0 }, { lat: 0.004, lng: 0 }],
+    length_m: 450
+  }] as Cable[],
+  cableTypes
+} as Project);
+
+// Départ de 2 × 200 m avec 30 kVA de PV sur chacun des deux nœuds
+const buildPVLineProject = (): Project => ({
+  ...buildProject(0, 0),
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [{ id: 'pv1', label: 'pv1', S_kVA: 30 }] },
+    { id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [{ id: 'pv2', label: 'pv2', S_kVA: 30 }] }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[]
+});
+
+const run = (project: Project) =>
+  new AnnualSimulationCalculator(project, { ...defaultAnnualSimulationOptions, year: 2025 }).calculateAnnual();
+
+describe('Simulation annuelle', () => {
+  // Les calculs de réseau sont très verbeux
+  beforeAll(() => { vi.spyOn(console, 'log').mockImplementation(() => {}); });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('8760 pas horaires, pas identiques mutualisés, bilans cohérents', () => {
+    const result = run(buildProject(20, 0));
+    const node = result.nodes.find(n => n.nodeId === 'n1')!;
+
+    expect(result.stepCount).toBe(8760);
+    expect(result.solvedSteps).toBeLessThan(result.stepCount);
+    expect(result.cableLosses_kWh).toBeGreaterThan(0);
+    expect(result.months.reduce((sum, m) => sum + m.losses_kWh, 0)).toBeCloseTo(result.cableLosses_kWh, 6);
+    // Pertes fer seules : 300 W × 8760 h
+    expect(result.transformerLosses_kWh).toBeGreaterThanOrEqual(2628);
+    expect(result.energyLosses.hours).toBe(8760);
+    expect(result.energyLosses.cables.c1).toBeCloseTo(result.cableLosses_kWh, 2);
+    expect(result.energyLosses.transformerIron_kWh).toBeCloseTo(2628, 6);
+
+    // Monotones : max décroissante, min croissante
+    const curve = node.durationCurve;
+    expect(curve).toHaveLength(101);
+    for (let i = 1; i < curve.length; i++) {
+      expect(curve[i].voltageMax_V).toBeLessThanOrEqual(curve[i - 1].voltageMax_V);
+      expect(curve[i].voltageMin_V).toBeGreaterThanOrEqual(curve[i - 1].voltageMin_V);
+    }
+    expect(node.maxVoltage_V).toBe(curve[0].voltageMax_V);
+    expect(result.pvCurtailed_kWh).toBe(0);
+  });
+
+  it('forte production PV : surtensions et énergie découplée', () => {
+    const result = run(buildProject(0, 80));
+    const node = result.nodes.find(n => n.nodeId === 'n1')!;
+
+    expect(node.maxVoltage_V).toBeGreaterThan(253);
+    expect(node.hoursOverVoltage).toBeGreaterThan(0);
+    expect(result.hoursOutOfLimits).toBeGreaterThanOrEqual(node.hoursOverVoltage);
+    expect(result.pvCurtailed_kWh).toBeGreaterThan(0);
+    expect(result.pvCurtailed_kWh).toBeLessThan(result.pvProducible_kWh);
+    expect(node.pvCurtailed_kWh).toBeCloseTo(result.pvCurtailed_kWh, 6);
+  });
+
+  it('découplage en cascade : le nœud le plus haut découple, son voisin reste couplé', () => {
+    const result = run(buildPVLineProject());
+    const n1 = result.nodes.find(n => n.nodeId === 'n1')!;
+    const n2 = result.nodes.find(n => n.nodeId === 'n2')!;
+
+    expect(n1.hoursOverVoltage).toBeGreaterThan(0);
+    expect(n2.pvCurtailed_kWh).toBeGreaterThan(0);
+    // Le découplage de n2 ramène n1 sous 253V : production de n1 conservée
+    expect(n1.pvCurtailed_kWh).toBe(0);
+    expect(result.pvCurtailed_kWh).toBeCloseTo(n2.pvCurtailed_kWh, 6);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createDefaultBattery, getStrategyRequest, applySoCLimits } from '@/utils/batteryStorage';
+import { SimulationCalculator } from '@/utils/simulationCalculator';
+import { DailyProfileCalculator } from '@/utils/dailyProfileCalculator';
+import { defaultDailySimulationOptions } from '@/types/dailyProfile';
+import type { Node, Cable, CableType, Project, BatteryStorage, SimulationEquipment } from '@/types/network';
+
+const buildProject = (production_kVA: number): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [{ id: 'ch', label: 'Charge', S_kVA: 6 }], productions: [] },
+    { id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [{ id: 'pv', label: 'PV', S_kVA: production_kVA }] }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+  ] as CableType[]
+} as Project);
+
+const battery = (updates: Partial<BatteryStorage> = {}): BatteryStorage => ({
+  ...createDefaultBattery('b1', 'n2', 'B1', 250),
+  ...updates
+});
+
+const withBatteries = (batteries: BatteryStorage[]): SimulationEquipment => ({
+  srg2Devices: [],
+  neutralCompensators: [],
+  cableUpgrades: [],
+  batteries
+});
+
+describe('Stockage par batteries', () => {
+  beforeAll(() => { vi.spyOn(console, 'log').mockImplementation(() => {}); });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('stratégies de pilotage bornées à la puissance de la batterie', () => {
+    const context = { nodeVoltage_V: 230, nodeSurplus_kW: 4, transformerPower_kVA: 120 };
+
+    expect(getStrategyRequest(battery(), context)).toBe(4);
+    expect(getStrategyRequest(battery(), { ...context, nodeSurplus_kW: -25 })).toBe(-10);
+    // Écrêtage : décharge de l'excédent au-dessus du seuil (200 kVA), recharge en dessous
+    expect(getStrategyRequest(battery({ strategy: 'peak_shaving' }), { ...context, transformerPower_kVA: 206 })).toBe(-6);
+    expect(getStrategyRequest(battery({ strategy: 'peak_shaving' }), context)).toBe(10);
+    const voltage = battery({ strategy: 'voltage_triggered' });
+    expect(getStrategyRequest(voltage, { ...context, nodeVoltage_V: 250 })).toBe(10);
+    expect(getStrategyRequest(voltage, { ...context, nodeVoltage_V: 210 })).toBe(-10);
+    expect(getStrategyRequest(voltage, context)).toBe(0);
+  });
+
+  it('état de charge borné par SoC min / max, rendement réparti charge / décharge', () => {
+    const b = battery({ efficiency_percent: 81 });
+
+    // 20 kWh, SoC 90% → 95% : 1 kWh stockable, soit 1 / 0,9 kWh absorbés
+    const charge = applySoCLimits(b, 10, 90, 1);
+    expect(charge.power_kW).toBeCloseTo(1 / 0.9, 6);
+    expect(charge.socEnd_percent).toBeCloseTo(95, 6);
+
+    // 5 kW pendant 1 h : 5 / 0,9 kWh prélevés sur le stock
+    const discharge = applySoCLimits(b, -5, 50, 1);
+    expect(discharge.power_kW).toBe(-5);
+    expect(discharge.socEnd_percent).toBeCloseTo(50 - 5 / 0.9 / 20 * 100, 6);
+
+    expect(applySoCLimits(b, -5, 10, 1).power_kW).toBeCloseTo(0, 9);
+  });
+
+  it('charge en surtension : tension au nœud et consigne rapportées dans la simulation', () => {
+    const project = buildProject(30);
+    const result = new SimulationCalculator(1, 1, 1).calculateWithSimulation(
+      project, 'PRODUCTION', withBatteries([battery({ strategy: 'voltage_triggered', power_kW: 20, capacity_kWh: 50 })])
+    );
+    const summary = result.batteries!;
+    const b1 = summary.batteries[0];
+
+    expect(b1.power_kW).toBe(20);
+    expect(b1.voltageBefore_V).toBeGreaterThan(245);
+    expect(b1.voltageAfter_V).toBeLessThan(b1.voltageBefore_V - 5);
+    expect(summary.transformerLoading_percent).toBeLessThan(summary.baselineTransformerLoading_percent);
+    // Projet d'origine inchangé
+    expect(project.nodes[2].clients).toHaveLength(0);
+  });
+
+  it('24h en autoconsommation : SoC suivi d\'heure en heure et borné', () => {
+    const b = battery({ capacity_kWh: 30, initialSoC_percent: 20 });
+    const calculator = new DailyProfileCalculator(
+      buildProject(12),
+      { ...defaultDailySimulationOptions, season: 'summer', selectedNodeId: 'n2' },
+      undefined,
+      withBatteries([b]),
+      true
+    );
+    const daily = calculator.calculateDailyBatteries();
+
+    expect(daily.hours).toHaveLength(24);
+    for (let h = 1; h < 24; h++) {
+      expect(daily.hours[h].batteries[0].socStart_percent).toBeCloseTo(daily.hours[h - 1].batteries[0].socEnd_percent, 9);
+    }
+    const socs = daily.hours.map(h => h.batteries[0].socEnd_percent);
+    expect(Math.max(...socs)).toBeGreaterThan(b.initialSoC_percent);
+    expect(Math.max(...socs)).toBeLessThanOrEqual(b.maxSoC_percent + 1e-9);
+    expect(daily.chargedEnergy_kWh).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { runBrokenNeutralStudy, getBrokenNeutralSeverity, BROKEN_NEUTRAL_OVERVOLTAGE_V } from '@/utils/brokenNeutral';
+import type { Node, Cable, CableType, ClientImporte, Project, BrokenNeutralOptions, SimulationEquipment } from '@/types/network';
+
+// Charge de 25 kVA répartie 60/20/20 en bout de réseau (n2), 2 × 200 m de 95 mm² Alu
+const buildProject = (updates: Partial<Project> = {}): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'monophase_reparti',
+  desequilibrePourcent: 60,
+  manualPhaseDistribution: {
+    charges: { A: 60, B: 20, C: 20 },
+    productions: { A: 33.33, B: 33.33, C: 33.34 },
+    constraints: { min: 10, max: 80, total: 100 }
+  },
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    {
+      id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V',
+      clients: [{ id: 'load', label: 'Charge', S_kVA: 25 }], productions: []
+    }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'SOUTERRAIN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'SOUTERRAIN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '95', R12_ohm_per_km: 0.363, X12_ohm_per_km: 0.107, R0_ohm_per_km: 1.089, X0_ohm_per_km: 0.321, matiere: 'ALUMINIUM', posesPermises: ['SOUTERRAIN'], maxCurrent_A: 210 }
+  ] as CableType[],
+  ...updates
+} as Project);
+
+// Deux clients monophasés de faible puissance sur n2 : phase chargée (A) et phase peu chargée (B)
+const withClients = (project: Project): Project => {
+  const client = (id: string, assignedPhase: 'A' | 'B'): ClientImporte => ({
+    id, identifiantCircuit: id, nomCircuit: id, lat: 0.0036, lng: 0,
+    puissanceContractuelle_kVA: 0.1, puissancePV_kVA: 0, couplage: 'MONO', connectionType: 'MONO', assignedPhase
+  });
+  return {
+    ...project,
+    clientsImportes: [client('onA', 'A'), client('onB', 'B')],
+    clientLinks: [{ id: 'l1', clientId: 'onA', nodeId: 'n2' }, { id: 'l2', clientId: 'onB', nodeId: 'n2' }]
+  };
+};
+
+const options = (updates: Partial<BrokenNeutralOptions> = {}): BrokenNeutralOptions => ({
+  cableId: 'c1',
+  thermalWindow: '3h',
+  ...updates
+});
+
+describe('Rupture de neutre', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('neutre flottant : déplacement vers la phase chargée, surtension des phases peu chargées', () => {
+    const result = runBrokenNeutralStudy(withClients(buildProject()), options());
+
+    expect(result.downstreamNodeIds).toEqual(['n1', 'n2']);
+    expect(result.islandCurrents_A.A).toBeGreaterThan(2 * result.islandCurrents_A.B);
+    // Millman, charges résistives : V_N ≈ 230 × (I_A − I_B) / (I_A + 2 I_B)
+    const { A, B } = result.islandCurrents_A;
+    expect(result.neutralShift_V).toBeGreaterThan(0.9 * 230 * (A - B) / (A + 2 * B));
+
+    const n2 = result.nodes.find(n => n.nodeId === 'n2')!;
+    expect(n2.faultVoltages_V.A).toBeLessThan(n2.healthyVoltages_V.A - 50);
+    expect(n2.faultVoltages_V.B).toBeGreaterThan(BROKEN_NEUTRAL_OVERVOLTAGE_V);
+    expect(n2.severity).toBe(getBrokenNeutralSeverity(n2.maxVoltage_V));
+
+    expect(result.clients.map(c => c.clientId)).toEqual(['onB', 'onA']);
+    expect(result.clients[0].voltage_V).toBe(n2.faultVoltages_V.B);
+    expect(result.clients[0].severity).not.toBe('normal');
+    expect(result.clients[1].severity).toBe('normal');
+  });
+
+  it('prise de terre du neutre aval et coupure plus en aval', () => {
+    const project = buildProject();
+    const floating = runBrokenNeutralStudy(project, options());
+    const earthed = runBrokenNeutralStudy(project, options({ neutralEarthResistance_Ohm: 2 }));
+
+    expect(earthed.neutralShift_V).toBeLessThan(floating.neutralShift_V * 0.8);
+    expect(runBrokenNeutralStudy(project, options({ cableId: 'c2' })).downstreamNodeIds).toEqual(['n2']);
+    expect(getBrokenNeutralSeverity(310)).toBe('dangerous');
+    expect(getBrokenNeutralSeverity(260)).toBe('overvoltage');
+  });
+
+  it('EQUI8 : neutre reformé, d\'autant mieux que le nœud est proche de la coupure', () => {
+    const result = runBrokenNeutralStudy(buildProject(), options());
+    const n1 = result.mitigations.find(m => m.nodeId === 'n1')!;
+    const n2 = result.mitigations.find(m => m.nodeId === 'n2')!;
+
+    expect(result.mitigations[0].nodeId).toBe('n1');
+    expect(n1.neutralShift_V).toBeLessThan(result.neutralShift_V / 5);
+    expect(n1.maxVoltage_V).toBeLessThanOrEqual(BROKEN_NEUTRAL_OVERVOLTAGE_V);
+    expect(n1.thermalLimit_A).toBe(60);
+    expect(n1.isLimited).toBe(false);
+    expect(n1.mitigates).toBe(true);
+    expect(n2.maxVoltage_V).toBeGreaterThan(n1.maxVoltage_V);
+    expect(n1.existing).toBe(false);
+  });
+
+  it('EQUI8 déjà installé dans l\'îlot : pris en compte dans l\'état de défaut', () => {
+    const equipment: SimulationEquipment = {
+      srg2Devices: [],
+      neutralCompensators: [{ id: 'eq', nodeId: 'n1', maxPower_kVA: 30, tolerance_A: 2, enabled: true, thermalWindow: '3h', Zph_Ohm: 0.5, Zn_Ohm: 0.5 }],
+      cableUpgrades: []
+    };
+    const bare = runBrokenNeutralStudy(buildProject(), options());
+    const result = runBrokenNeutralStudy(buildProject(), options(), { simulationEquipment: equipment });
+    const installed = result.mitigations.find(m => m.nodeId === 'n1')!;
+
+    expect(result.withSimulation).toBe(true);
+    expect(result.neutralShift_V).toBeLessThan(bare.neutralShift_V / 5);
+    expect(Math.max(...result.nodes.map(n => n.maxVoltage_V))).toBeLessThanOrEqual(BROKEN_NEUTRAL_OVERVOLTAGE_V);
+    expect(installed.existing).toBe(true);
+    expect(installed.neutralShift_V).toBeCloseTo(result.neutralShift_V, 9);
+    expect(installed.equi8Current_A).toBeGreaterThan(0);
+  });
+
+  it('refus hors réseau 400V et si le neutre reste bouclé', () => {
+    expect(() => runBrokenNeutralStudy(buildProject({ voltageSystem: 'TRIPHASÉ_230V' }), options())).toThrow();
+
+    const project = buildProject();
+    const meshed = {
+      ...project,
+      cables: [...project.cables, { ...project.cables[0], id: 'c3', name: 'c3', nodeBId: 'n2' }]
+    };
+    expect(() => runBrokenNeutralStudy(meshed, options())).toThrow(/bouclage/);
+  });
+});
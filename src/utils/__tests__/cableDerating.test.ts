@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCableDeratingFactors,
+  getEffectiveAmpacity,
+  createDefaultCableInstallation
+} from '@/utils/cableDerating';
+import { findHostingConstraintViolation } from '@/utils/hostingCapacity';
+import type { Cable, CableType, CalculationResult, Project } from '@/types/network';
+
+const cableTypes = [
+  { id: 'u150', label: '150 Alu', R12_ohm_per_km: 0.206, X12_ohm_per_km: 0.08, R0_ohm_per_km: 0.8, X0_ohm_per_km: 0.3, matiere: 'ALUMINIUM', posesPermises: ['SOUTERRAIN'], maxCurrent_A: 280 },
+  { id: 'baxb70', label: 'BAXB 70', R12_ohm_per_km: 0.443, X12_ohm_per_km: 0.1, R0_ohm_per_km: 1.8, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'], maxCurrent_A: 200 }
+] as CableType[];
+
+const cable = (updates: Partial<Cable>): Cable => ({
+  id: 'c1', name: 'c1', typeId: 'u150', pose: 'SOUTERRAIN', nodeAId: 'src', nodeBId: 'n1',
+  coordinates: [], length_m: 100, ...updates
+});
+
+describe('Déclassement de l\'ampacité selon la pose', () => {
+  it('pose de référence : aucun déclassement', () => {
+    expect(getEffectiveAmpacity(cable({}), cableTypes)).toBe(280);
+    expect(getCableDeratingFactors('SOUTERRAIN', createDefaultCableInstallation('SOUTERRAIN')).total).toBe(1);
+    expect(getCableDeratingFactors('AÉRIEN', createDefaultCableInstallation('AÉRIEN')).total).toBe(1);
+    expect(getEffectiveAmpacity(cable({ typeId: 'inconnu' }), cableTypes)).toBeUndefined();
+  });
+
+  it('tranchée partagée : facteurs de groupement, sol et fourreau cumulés', () => {
+    const trench = { groupedCables: 3, burialDepth_m: 0.8, soilThermalResistivity_KmW: 1.5, inDuct: false };
+    const direct = getCableDeratingFactors('SOUTERRAIN', trench);
+    expect(direct.grouping).toBe(0.65);
+    expect(direct.soil).toBe(0.85);
+    expect(direct.total).toBeCloseTo(0.65 * 0.85, 9);
+
+    const duct = getCableDeratingFactors('SOUTERRAIN', { ...trench, inDuct: true });
+    expect(duct.grouping).toBe(0.75);
+    expect(duct.laying).toBe(0.85);
+    expect(duct.total).toBeCloseTo(0.75 * 0.91 * 0.85, 9);
+
+    // Profondeur interpolée entre 0,8 m (1) et 1 m (0,98), groupement plafonné au-delà de la table
+    const deep = getCableDeratingFactors('SOUTERRAIN', { groupedCables: 12, burialDepth_m: 0.9 });
+    expect(deep.depth).toBeCloseTo(0.99, 9);
+    expect(deep.grouping).toBe(0.5);
+  });
+
+  it('aérien : groupement et déclassement uniquement sur façade', () => {
+    expect(getCableDeratingFactors('AÉRIEN', { groupedCables: 4, onFacade: false }).total).toBe(1);
+    expect(getCableDeratingFactors('AÉRIEN', { groupedCables: 4, onFacade: true }).total).toBeCloseTo(0.75 * 0.9, 9);
+    expect(getEffectiveAmpacity(
+      cable({ typeId: 'baxb70', pose: 'AÉRIEN', installation: { groupedCables: 2, onFacade: true } }),
+      cableTypes
+    )).toBeCloseTo(200 * 0.85 * 0.9, 9);
+  });
+
+  it('contrainte de capacité d\'accueil : surcharge détectée sur l\'ampacité déclassée', () => {
+    const loaded = { current_A: 200, currentsPerPhase_A: { A: 200, B: 190, C: 195 } };
+    const project = { nodes: [], cableTypes, transformerConfig: { nominalPower_kVA: 1000 } } as unknown as Project;
+    const resultFor = (installation?: Cable['installation']) => ({
+      cables: [cable({ ...loaded, installation })],
+      virtualBusbar: undefined
+    }) as unknown as CalculationResult;
+
+    expect(findHostingConstraintViolation(project, resultFor())).toBeNull();
+    expect(findHostingConstraintViolation(project, resultFor({ groupedCables: 3 })))
+      .toEqual({ constraint: 'cable', elementId: 'c1' });
+  });
+});
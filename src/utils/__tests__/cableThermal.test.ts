@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import {
+  advanceCableTemperature,
+  getThermalTimeConstant,
+  getRatedConductorTemperature
+} from '@/utils/thermalModel';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { DailyProfileCalculator } from '@/utils/dailyProfileCalculator';
+import { getNodeDeviationsPercent } from '@/utils/voltageIndicators';
+import { defaultDailySimulationOptions } from '@/types/dailyProfile';
+import type { Node, Cable, CableType, Project, CablePose, CalculationResult } from '@/types/network';
+
+// Charge résidentielle en bout de réseau (n2), 2 × 200 m de 35 mm² d'ampacité 100 A (20 A sur 24h)
+const buildProject = (P_kW: number, pose: CablePose = 'AÉRIEN', cableUpdates: Partial<Cable> = {}): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    {
+      id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V',
+      clients: [{ id: 'load', label: 'Charge', S_kVA: P_kW }], productions: []
+    }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose, nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200, ...cableUpdates },
+    { id: 'c2', name: 'c2', typeId: 't1', pose, nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200, ...cableUpdates }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN', 'SOUTERRAIN'], maxCurrent_A: 100 }
+  ] as CableType[]
+} as Project);
+
+const calculate = (project: Project): CalculationResult => new ElectricalCalculator(1, 1, 1).calculateScenario(
+  project.nodes, project.cables, project.cableTypes, 'PRÉLÈVEMENT',
+  100, 100, project.transformerConfig, project.loadModel, project.desequilibrePourcent
+);
+
+// Ampacité réduite : la charge foisonnée du profil 24h approche ou dépasse Iz
+const withAmpacity = (project: Project, maxCurrent_A: number): Project => ({
+  ...project,
+  cableTypes: project.cableTypes.map(t => ({ ...t, maxCurrent_A }))
+});
+
+const dailyCableTemperatures = (project: Project) => new DailyProfileCalculator(
+  withAmpacity(project, 20),
+  { ...defaultDailySimulationOptions, season: 'summer', enableEV: false, selectedNodeId: 'n2' }
+).calculateDailyCableTemperatures();
+
+describe('Modèle thermique transitoire des câbles', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('premier ordre : 63 % de l\'écart en une constante de temps, régime établi ensuite', () => {
+    expect(advanceCableTemperature(20, 60, 30, 30)).toBeCloseTo(60 - 40 * Math.exp(-1), 9);
+    expect(advanceCableTemperature(20, 60, 600, 15)).toBeCloseTo(60, 6);
+    expect(advanceCableTemperature(60, 20, 60, 0)).toBe(20);
+    expect(getThermalTimeConstant({ pose: 'SOUTERRAIN' })).toBe(120);
+    expect(getThermalTimeConstant({ pose: 'AÉRIEN', thermalTimeConstant_min: 40 })).toBe(40);
+  });
+
+  it('température imposée : résistance corrigée, chute de tension accrue', () => {
+    const cold = calculate(buildProject(40, 'AÉRIEN', { conductorTemperature_C: 20 }));
+    const hot = calculate(buildProject(40, 'AÉRIEN', { conductorTemperature_C: 90 }));
+    const deviation = (result: CalculationResult) => getNodeDeviationsPercent(result, 'n2')!.A;
+
+    expect(deviation(hot)).toBeLessThan(deviation(cold) - 1);
+  });
+
+  it('profil 24h : température horaire et heures au-delà de l\'admissible sous surcharge', () => {
+    const daily = dailyCableTemperatures(buildProject(120));
+    const c1 = daily.cables.find(c => c.cableId === 'c1')!;
+
+    expect(c1.hourlyTemperatures_C).toHaveLength(24);
+    expect(c1.ratedTemperature_C).toBe(getRatedConductorTemperature('AÉRIEN'));
+    expect(c1.peakTemperature_C).toBe(Math.max(...c1.hourlyTemperatures_C));
+    expect(c1.hourlyTemperatures_C[c1.peakHour]).toBe(c1.peakTemperature_C);
+    expect(c1.hoursAboveRated).toBeGreaterThan(0);
+    expect(c1.hoursAboveRated).toBe(c1.hourlyTemperatures_C.filter(t => t > c1.ratedTemperature_C).length);
+  });
+
+  it('souterrain : l\'inertie thermique écrête la pointe par rapport au régime établi', () => {
+    const aerial = dailyCableTemperatures(buildProject(120)).cables.find(c => c.cableId === 'c1')!;
+    const buried = dailyCableTemperatures(buildProject(120, 'SOUTERRAIN')).cables.find(c => c.cableId === 'c1')!;
+
+    const aerialGap = aerial.steadyStatePeakTemperature_C - aerial.peakTemperature_C;
+    const buriedGap = buried.steadyStatePeakTemperature_C - buried.peakTemperature_C;
+
+    // τ = 15 min : pratiquement en régime établi en fin d'heure (e⁻⁴ ≈ 2 % de l'écart)
+    expect(aerialGap).toBeLessThan(2);
+    expect(buried.timeConstant_min).toBe(120);
+    expect(buriedGap).toBeGreaterThan(3 * aerialGap);
+  });
+
+  it('régime périodique : la journée démarre à la température de fin de journée', () => {
+    const hourly = (thermalTimeConstant_min: number) => dailyCableTemperatures(
+      buildProject(120, 'SOUTERRAIN', { thermalTimeConstant_min })
+    ).cables.find(c => c.cableId === 'c1')!.hourlyTemperatures_C;
+    // τ = 1 min : température de régime établi de chaque heure
+    const steady = hourly(1);
+    const buried = hourly(120);
+
+    expect(buried[23] - steady[0]).toBeGreaterThan(5);
+    expect(buried[0]).toBeCloseTo(advanceCableTemperature(buried[23], steady[0], 60, 120), 0);
+  });
+
+  it('option du profil 24h : résistances à la température des conducteurs', () => {
+    const project = withAmpacity(buildProject(120), 20);
+    const voltages = (cableThermalModel: boolean) => new DailyProfileCalculator(
+      project,
+      { ...defaultDailySimulationOptions, season: 'summer', enableEV: false, selectedNodeId: 'n2', cableThermalModel }
+    ).calculateDailyVoltages();
+    const cold = voltages(false);
+    const hot = voltages(true);
+    const peak = cold.reduce((worst, h) => h.voltageMin_V < worst.voltageMin_V ? h : worst, cold[0]).hour;
+
+    expect(hot[peak].voltageMin_V).toBeLessThan(cold[peak].voltageMin_V - 1);
+
+    // Le calcul thermique du panneau ne laisse pas l'option active sur le calculateur
+    const calculator = new DailyProfileCalculator(
+      project,
+      { ...defaultDailySimulationOptions, season: 'summer', enableEV: false, selectedNodeId: 'n2' }
+    );
+    calculator.calculateDailyCableTemperatures();
+    expect(calculator.calculateDailyVoltages()[peak].voltageMin_V).toBeCloseTo(cold[peak].voltageMin_V, 6);
+  });
+});
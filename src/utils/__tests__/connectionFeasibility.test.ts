@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { runConnectionStudy, findNearestNode } from '@/utils/connectionFeasibility';
+import type { Node, Cable, CableType, Project, ConnectionStudyRequest } from '@/types/network';
+
+const buildProject = (maxCurrent_A?: number): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    { id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'], maxCurrent_A }
+  ] as CableType[],
+  clientsImportes: [],
+  clientLinks: []
+} as Project);
+
+const request = (overrides: Partial<ConnectionStudyRequest> = {}): ConnectionStudyRequest => ({
+  nomCircuit: 'Prospect',
+  lat: 0.0037,
+  lng: 0,
+  nodeId: 'n2',
+  puissanceContractuelle_kVA: 12,
+  puissancePV_kVA: 0,
+  connectionType: 'TRI',
+  clientType: 'résidentiel',
+  branchementCableId: 'baxb-4x35-alu',
+  ...overrides
+});
+
+describe('Étude de faisabilité de raccordement', () => {
+  beforeAll(() => { vi.spyOn(console, 'log').mockImplementation(() => {}); });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('petit raccordement accepté sans modifier le projet', () => {
+    const project = buildProject();
+    expect(findNearestNode(project, 0.0037, 0)).toBe('n2');
+
+    const result = runConnectionStudy(project, request());
+
+    expect(result.verdict).toBe('accepted');
+    expect(result.constraints).toHaveLength(0);
+    expect(result.branchementLength_m).toBeGreaterThan(10);
+    expect(result.branchementLength_m).toBeLessThan(12);
+    expect(result.clientVoltageMin_V).toBeLessThan(230);
+    expect(project.clientsImportes).toHaveLength(0);
+    expect(project.clientLinks).toHaveLength(0);
+
+    // Le raccordement fait baisser la tension en prélèvement
+    const n2 = result.nodes.find(n => n.nodeId === 'n2' && n.scenario === 'PRÉLÈVEMENT')!;
+    expect(n2.after_percent).toBeLessThan(n2.before_percent);
+  });
+
+  it('surcharge de tronçon : accepté avec travaux', () => {
+    const result = runConnectionStudy(buildProject(30), request({
+      nodeId: 'n1',
+      lat: 0.0019,
+      puissanceContractuelle_kVA: 24
+    }));
+
+    expect(result.verdict).toBe('accepted_with_works');
+    expect(result.constraints.map(c => c.kind)).toEqual(['cable_current']);
+    expect(result.constraints[0].elementId).toBe('c1');
+    expect(result.constraints[0].remedy).toContain('c1');
+  });
+
+  it('chute de tension réseau hors ±10% : renforcement des tronçons amont', () => {
+    const result = runConnectionStudy(buildProject(), request({ puissanceContractuelle_kVA: 36 }));
+
+    expect(result.verdict).toBe('accepted_with_works');
+    const nodeConstraint = result.constraints.find(c => c.kind === 'node_voltage' && c.elementId === 'n2');
+    expect(nodeConstraint?.after).toBeLessThan(-10);
+    expect(nodeConstraint?.remedy).toBe('Renforcement des tronçons c1, c2 jusqu\'à N2');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { evaluateEN50160, evaluateEN50160Series, buildNetworkVoltageSeries, percentile } from '@/utils/en50160Evaluator';
+import { DailyProfileCalculator } from '@/utils/dailyProfileCalculator';
+import { getNodeDeviationsPercent } from '@/utils/voltageIndicators';
+import { defaultDailySimulationOptions, VoltageTimeSeries } from '@/types/dailyProfile';
+import type { Node, Cable, CableType, Project, ClientImporte } from '@/types/network';
+
+// Série 10 min sur une semaine : n valeurs à `high` V, le reste à 230 V
+const weekSeries = (highCount: number, high: number): VoltageTimeSeries => ({
+  id: 'n', label: 'N', kind: 'node', stepMinutes: 10,
+  samples_V: Array.from({ length: 1008 }, (_, i) => i < highCount ? [high, 230, 230] : [230, 230, 230])
+});
+
+const cableTypes: CableType[] = [
+  { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+];
+
+const buildProject = (productionKVA = 80): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    {
+      id: 'n1', name: 'N1', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V',
+      clients: [{ id: 'c', label: 'c', S_kVA: 0 }],
+      productions: [{ id: 'pv', label: 'pv', S_kVA: productionKVA }]
+    }
+  ] as Node[],
+  cables: [{
+    id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1',
+    coordinates: [{ lat: 0, lng: 0 }, { lat: 0.004, lng: 0 }],
+    length_m: 450
+  }] as Cable[],
+  cableTypes,
+  clientsImportes: [
+    { id: 'cl1', nomCircuit: 'CL1', couplage: 'MONO', assignedPhase: 'B', puissanceContractuelle_kVA: 0, puissancePV_kVA: 0 }
+  ] as ClientImporte[],
+  clientLinks: [{ id: 'l1', clientId: 'cl1', nodeId: 'n1' }]
+} as Project);
+
+describe('Évaluation statistique EN50160', () => {
+  beforeAll(() => { vi.spyOn(console, 'log').mockImplementation(() => {}); });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('centile interpolé', () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([0, 10], 95)).toBeCloseTo(9.5, 9);
+  });
+
+  it('95% dans ±10% : 5% de dépassements tolérés, au-delà non conforme', () => {
+    // 50 valeurs sur 1008 à 255 V (4.96%) : conforme sur la bande 95% mais hors bande 100% (> 253 V)
+    const atLimit = evaluateEN50160Series(weekSeries(50, 255))!;
+    expect(atLimit.worstWeek.percentWithin10).toBeGreaterThanOrEqual(95);
+    expect(atLimit.worstWeek.within100Band).toBe(false);
+    expect(atLimit.compliant).toBe(false);
+
+    // Creux à 200 V : hors ±10% mais dans -15%
+    const dips = evaluateEN50160Series(weekSeries(50, 200))!;
+    expect(dips.worstWeek.within100Band).toBe(true);
+    expect(dips.compliant).toBe(true);
+    expect(dips.worstWeek.min_V).toBe(200);
+
+    const tooMany = evaluateEN50160Series(weekSeries(60, 200))!;
+    expect(tooMany.worstWeek.percentWithin10).toBeLessThan(95);
+    expect(tooMany.compliant).toBe(false);
+  });
+
+  it('découpage hebdomadaire et agrégation 10 min', () => {
+    // Deux semaines au pas de 5 min, seconde semaine en surtension permanente
+    const samples_V = Array.from({ length: 2 * 2016 }, (_, i) => i < 2016 ? [230] : [260]);
+    const result = evaluateEN50160Series({ id: 'c', label: 'C', kind: 'client', stepMinutes: 5, samples_V })!;
+
+    expect(result.weeks).toHaveLength(2);
+    expect(result.weeks[0].sampleCount).toBe(1008);
+    expect(result.weeks[0].compliant).toBe(true);
+    expect(result.worstWeek.week).toBe(2);
+    expect(result.compliant).toBe(false);
+  });
+
+  it('profil journalier : séries de tous les nœuds et clients, client MONO sur sa phase', () => {
+    const project = buildProject();
+    const calculator = new DailyProfileCalculator(project, { ...defaultDailySimulationOptions, season: 'summer', selectedNodeId: 'n1' });
+    calculator.calculateDailyVoltages();
+    const networkResults = calculator.getHourlyNetworkResults();
+    const series = buildNetworkVoltageSeries(project, networkResults);
+    const deviations = getNodeDeviationsPercent(networkResults[12]!, 'n1')!;
+
+    const node = series.find(s => s.id === 'n1')!;
+    const client = series.find(s => s.id === 'cl1')!;
+    expect(series.some(s => s.id === 'src')).toBe(false);
+    expect(node.samples_V).toHaveLength(24);
+    expect(node.samples_V[12][0]).toBeCloseTo(230 * (1 + deviations.A / 100), 6);
+    expect(client.samples_V[12]).toEqual([node.samples_V[12][1]]);
+
+    const evaluation = evaluateEN50160(series);
+    expect(evaluation.representativeWeek).toBe(true);
+    expect(evaluation.duration_h).toBe(24);
+    expect(evaluation.nodes).toHaveLength(1);
+    expect(evaluation.clients).toHaveLength(1);
+    // Surtension PV en milieu de journée
+    expect(evaluation.nodes[0].worstWeek.max_V).toBeGreaterThan(253);
+    expect(evaluation.compliant).toBe(false);
+  });
+
+  it('polyphasé équilibré : tensions TÉTRA ramenées à 230 V, réseau peu chargé conforme', () => {
+    const project = buildProject(0);
+    const calculator = new DailyProfileCalculator(project, { ...defaultDailySimulationOptions, season: 'summer', selectedNodeId: 'n1' });
+    calculator.calculateDailyVoltages();
+    const series = buildNetworkVoltageSeries(project, calculator.getHourlyNetworkResults());
+
+    const node = series.find(s => s.id === 'n1')!;
+    for (const sample of node.samples_V) {
+      for (const V of sample) expect(Math.abs(V - 230)).toBeLessThan(23);
+    }
+    expect(evaluateEN50160(series).compliant).toBe(true);
+  });
+});
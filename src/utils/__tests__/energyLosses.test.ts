@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import {
+  compareEnergyLosses,
+  createEnergyLossesBreakdown,
+  getTotalEnergyLosses,
+  getStepLosses,
+  DEFAULT_LOSS_PRICE_EUR_PER_KWH
+} from '@/utils/energyLosses';
+import { DailyProfileCalculator } from '@/utils/dailyProfileCalculator';
+import { defaultDailySimulationOptions } from '@/types/dailyProfile';
+import type { Node, Cable, CableType, Project, SimulationEquipment, CalculationResult, SubstationResult, VirtualBusbar } from '@/types/network';
+
+// Charge de 40 kVA en bout de réseau (n2), 2 × 200 m de 35 mm², transformateur à 300 W de pertes fer
+const buildProject = (): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1, noLoadLosses_W: 300 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    {
+      id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V',
+      clients: [{ id: 'load', label: 'Charge', S_kVA: 40 }], productions: []
+    }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] },
+    { id: 't2', label: '150', R12_ohm_per_km: 0.206, X12_ohm_per_km: 0.08, R0_ohm_per_km: 0.8, X0_ohm_per_km: 0.3, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+  ] as CableType[]
+} as Project);
+
+// Remplacement du tronçon de tête c1 en 150 mm²
+const replacement: SimulationEquipment = {
+  srg2Devices: [],
+  neutralCompensators: [],
+  cableUpgrades: [],
+  cableReplacement: { id: 'r', enabled: true, targetCableTypeId: 't2', sourceCableTypeIds: ['t1'], affectedCableIds: ['c1'] }
+};
+
+const dailyLosses = (project: Project, equipment?: SimulationEquipment) => new DailyProfileCalculator(
+  project,
+  { ...defaultDailySimulationOptions, enableEV: false, selectedNodeId: 'n2' },
+  undefined,
+  equipment,
+  !!equipment
+);
+
+describe('Pertes d\'énergie et coût', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('journée : pertes horaires des câbles intégrées, pertes fer sur 24h', () => {
+    const calculator = dailyLosses(buildProject());
+    const breakdown = calculator.calculateDailyEnergyLosses();
+    const hourly = calculator.getHourlyNetworkResults();
+
+    expect(breakdown.hours).toBe(24);
+    expect(breakdown.transformerIron_kWh).toBeCloseTo(0.3 * 24, 9);
+    expect(breakdown.transformerCopper_kWh).toBeGreaterThan(0);
+    const c1 = hourly.reduce((sum, result) => sum + (result?.cables.find(c => c.id === 'c1')?.losses_kW ?? 0), 0);
+    expect(breakdown.cables.c1).toBeCloseTo(c1, 9);
+    expect(breakdown.cables.c1).toBeGreaterThan(breakdown.cables.c2 * 0.9);
+  });
+
+  it('comparaison : économie d\'un remplacement de câble valorisée au prix du projet', () => {
+    const project = { ...buildProject(), lossPrice_EUR_per_kWh: 0.1 };
+    const baseline = dailyLosses(project).calculateDailyEnergyLosses();
+    const simulated = dailyLosses(project, replacement).calculateDailyEnergyLosses();
+    const comparison = compareEnergyLosses(project, baseline, simulated);
+
+    const c1 = comparison.cables.find(c => c.id === 'c1')!;
+    expect(c1.simulated_kWh).toBeLessThan(c1.baseline_kWh * 0.4);
+    expect(comparison.savings_kWh).toBeGreaterThan(0);
+    expect(comparison.savings_kWh).toBeCloseTo(comparison.baselineTotal_kWh - comparison.simulatedTotal_kWh, 9);
+    expect(comparison.savings_EUR).toBeCloseTo(comparison.savings_kWh * 0.1, 9);
+    expect(comparison.transformerIron.simulated_kWh).toBe(comparison.transformerIron.baseline_kWh);
+
+    // Un seul départ (c1) regroupant les deux tronçons
+    expect(comparison.feeders).toHaveLength(1);
+    expect(comparison.feeders[0].baseline_kWh).toBeCloseTo(baseline.cables.c1 + baseline.cables.c2, 9);
+  });
+
+  it('sans simulation : référence des deux côtés, prix par défaut', () => {
+    const breakdown = { ...createEnergyLossesBreakdown(), hours: 1, cables: { c1: 2, c2: 1 }, transformerIron_kWh: 0.5 };
+    const comparison = compareEnergyLosses(buildProject(), breakdown);
+
+    expect(getTotalEnergyLosses(breakdown)).toBe(3.5);
+    expect(comparison.savings_kWh).toBe(0);
+    expect(comparison.price_EUR_per_kWh).toBe(DEFAULT_LOSS_PRICE_EUR_PER_KWH);
+    expect(comparison.cables.map(c => c.id)).toEqual(['c1', 'c2']);
+  });
+
+  it('multi-postes : pertes cuivre et fer sommées sur les transformateurs de chaque poste', () => {
+    const base = buildProject();
+    const project: Project = {
+      ...base,
+      nodes: [
+        ...base.nodes,
+        {
+          id: 'src2', name: 'Source 2', lat: 0, lng: 0.01, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true,
+          transformerConfig: { ...base.transformerConfig, noLoadLosses_W: 500 }
+        }
+      ] as Node[]
+    };
+    const busbar = (losses_kW: number): VirtualBusbar => ({ voltage_V: 400, current_A: 0, netSkVA: 0, deltaU_V: 0, losses_kW, circuits: [] });
+    const substation = (sourceNodeId: string, losses_kW: number): SubstationResult => ({
+      sourceNodeId, sourceName: sourceNodeId, nodeIds: [], cableIds: [], totalLoads_kVA: 0, totalProductions_kVA: 0,
+      globalLosses_kW: 0, maxVoltageDropPercent: 0, compliance: 'normal', virtualBusbar: busbar(losses_kW)
+    });
+    const result = {
+      scenario: 'PRÉLÈVEMENT', cables: project.cables, totalLoads_kVA: 0, totalProductions_kVA: 0,
+      globalLosses_kW: 0, maxVoltageDropPercent: 0, compliance: 'normal',
+      virtualBusbar: busbar(1),
+      substations: [substation('src', 1), substation('src2', 2)]
+    } as CalculationResult;
+
+    const losses = getStepLosses(result, project);
+    expect(losses.transformerCopper_kW).toBeCloseTo(3, 9);
+    expect(losses.transformerIron_kW).toBeCloseTo(0.8, 9);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import {
+  createDefaultEVFleetSettings,
+  buildEVSessions,
+  isChargingAllowed,
+  getVoltageLimitFactor
+} from '@/utils/evCharging';
+import { getFeeders } from '@/utils/networkConnectivity';
+import { DailyProfileCalculator } from '@/utils/dailyProfileCalculator';
+import { defaultDailySimulationOptions } from '@/types/dailyProfile';
+import type { Node, Cable, CableType, Project, ClientImporte, EVFleetSettings, LoadModel } from '@/types/network';
+
+const phases = ['A', 'B', 'C'] as const;
+
+// Six clients équipés d'une borne 7,4 kW monophasée : trois à mi-parcours (n1), trois en bout (n2)
+const buildProject = (fleet: Partial<EVFleetSettings> = {}, loadModel: LoadModel = 'polyphase_equilibre'): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel,
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    { id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'Départ 1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+  ] as CableType[],
+  clientsImportes: Array.from({ length: 6 }, (_, i) => ({
+    id: `ev${i}`, nomCircuit: `EV${i}`, couplage: 'MONO', connectionType: 'MONO', assignedPhase: phases[i % 3],
+    lat: 0, lng: 0, puissanceContractuelle_kVA: 1, puissancePV_kVA: 0,
+    evCharger: { power_kW: 7.4, connection: 'MONO' }
+  })) as ClientImporte[],
+  clientLinks: Array.from({ length: 6 }, (_, i) => ({ id: `l${i}`, clientId: `ev${i}`, nodeId: i < 3 ? 'n1' : 'n2' })),
+  evFleet: { ...createDefaultEVFleetSettings(), ...fleet }
+} as Project);
+
+const calculateDaily = (project: Project) => new DailyProfileCalculator(
+  project,
+  { ...defaultDailySimulationOptions, season: 'winter', selectedNodeId: 'n2' }
+).calculateDailyEV();
+
+describe('Flotte de véhicules électriques', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('sessions réparties sur les quantiles des arrivées / départs, report de nuit', () => {
+    const settings = createDefaultEVFleetSettings();
+    const sessions = buildEVSessions(buildProject(), settings);
+
+    expect(sessions).toHaveLength(6);
+    expect(sessions.map(s => s.arrival_h)).toEqual([16, 17, 18, 19, 20, 21]);
+    expect(sessions.every(s => s.departure_h >= 6 && s.departure_h <= 9)).toBe(true);
+    expect(sessions.every(s => s.energy_kWh === 10 && s.phase !== undefined)).toBe(true);
+    expect(buildEVSessions(buildProject(), settings)).toEqual(sessions);
+
+    // Arrivée 18h, départ 8h : heures creuses à partir de 22h
+    const session = { ...sessions[1], departure_h: 8 };
+    const delayed = { ...settings, strategy: 'delayed_night' as const };
+    expect(isChargingAllowed(session, 19, settings)).toBe(true);
+    expect(isChargingAllowed(session, 19, delayed)).toBe(false);
+    expect(isChargingAllowed(session, 23, delayed)).toBe(true);
+    expect(isChargingAllowed(session, 3, delayed)).toBe(true);
+    expect(isChargingAllowed(session, 9, settings)).toBe(false);
+
+    expect(getVoltageLimitFactor(220, settings)).toBe(1);
+    expect(getVoltageLimitFactor(210, settings)).toBeCloseTo(0.5, 9);
+    expect(getVoltageLimitFactor(200, settings)).toBe(0);
+  });
+
+  it('recharge non pilotée en soirée, reportée la nuit en heures creuses', () => {
+    const uncontrolled = calculateDaily(buildProject());
+    const delayed = calculateDaily(buildProject({ strategy: 'delayed_night' }));
+
+    expect(uncontrolled.hours).toHaveLength(24);
+    expect(uncontrolled.peakHour).toBeGreaterThanOrEqual(16);
+    expect(uncontrolled.peakHour).toBeLessThanOrEqual(21);
+    expect(delayed.peakHour === 22 || delayed.peakHour === 23).toBe(true);
+    for (const daily of [uncontrolled, delayed]) {
+      expect(daily.totalEnergy_kWh).toBeCloseTo(60, 6);
+      expect(daily.unservedEnergy_kWh).toBeCloseTo(0, 6);
+    }
+    // Effet rebond : toutes les bornes démarrent ensemble au début des heures creuses
+    expect(delayed.hours[19].totalPower_kW).toBe(0);
+    expect(delayed.hours[22].totalPower_kW).toBeGreaterThan(uncontrolled.hours[uncontrolled.peakHour].totalPower_kW);
+    expect(delayed.hours[22].minVoltage_V).toBeLessThan(Math.min(...uncontrolled.hours.map(h => h.minVoltage_V)));
+  });
+
+  it('limitation en tension : puissance réduite sous le seuil, énergie reportée', () => {
+    const uncontrolled = calculateDaily(buildProject());
+    const limited = calculateDaily(buildProject({ strategy: 'voltage_limited', voltageLimit_V: 228 }));
+    const peak = uncontrolled.peakHour;
+
+    expect(limited.hours.reduce((sum, h) => sum + h.curtailed_kWh, 0)).toBeGreaterThan(0);
+    expect(limited.hours[peak].totalPower_kW).toBeLessThan(uncontrolled.hours[peak].totalPower_kW);
+    expect(limited.hours[peak].minVoltage_V).toBeGreaterThan(uncontrolled.hours[peak].minVoltage_V);
+    expect(limited.totalEnergy_kWh).toBeLessThan(uncontrolled.totalEnergy_kWh);
+  });
+
+  it('accueil de bornes supplémentaires par départ à l\'heure la plus contrainte', () => {
+    const project = buildProject();
+    const daily = calculateDaily(project);
+
+    expect(getFeeders(project.nodes, project.cables)).toEqual([{ cableId: 'c1', name: 'Départ 1', nodeIds: ['n1', 'n2'], cableIds: ['c1', 'c2'] }]);
+    const opened = project.cables.map(c => c.id === 'c2' ? { ...c, switchState: 'open' as const } : c);
+    expect(getFeeders(project.nodes, opened)).toEqual([{ cableId: 'c1', name: 'Départ 1', nodeIds: ['n1'], cableIds: ['c1'] }]);
+    expect(daily.feeders).toHaveLength(1);
+    expect(daily.feeders[0]).toMatchObject({ feederCableId: 'c1', existingChargers: 6, limitingConstraint: 'undervoltage' });
+    expect(daily.feeders[0].additionalChargers).toBeGreaterThan(0);
+  });
+
+  it('bornes monophasées en calcul déséquilibré : courant de neutre, départ déjà en sous-tension', () => {
+    const daily = calculateDaily(buildProject({}, 'mixte_mono_poly'));
+
+    expect(daily.hours[2].maxNeutralCurrent_A).toBeCloseTo(0, 6);
+    expect(Math.max(...daily.hours.map(h => h.maxNeutralCurrent_A))).toBeGreaterThan(10);
+    expect(Math.min(...daily.hours.map(h => h.minVoltage_V))).toBeLessThan(207);
+    expect(daily.feeders[0]).toMatchObject({ additionalChargers: 0, limitingConstraint: 'undervoltage' });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import {
+  createDefaultHeatPump,
+  buildTemperatureProfile,
+  getCOP,
+  getHeatPumpElectricalPower,
+  COLD_SNAP_TEMPERATURES,
+  DEFAULT_COP_CURVE
+} from '@/utils/heatPump';
+import { DailyProfileCalculator } from '@/utils/dailyProfileCalculator';
+import { defaultDailySimulationOptions, DailySimulationOptions } from '@/types/dailyProfile';
+import type { Node, Cable, CableType, Project, ClientImporte } from '@/types/network';
+
+// Six maisons chauffées par PAC de 8 kW en bout de réseau (n2)
+const buildProject = (withHeatPumps: boolean): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    { id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+  ] as CableType[],
+  clientsImportes: Array.from({ length: 6 }, (_, i) => ({
+    id: `hp${i}`, nomCircuit: `HP${i}`, couplage: 'TRI', connectionType: 'TRI',
+    lat: 0, lng: 0, puissanceContractuelle_kVA: 3, puissancePV_kVA: 0,
+    heatPump: withHeatPumps ? createDefaultHeatPump(8) : undefined
+  })) as ClientImporte[],
+  clientLinks: Array.from({ length: 6 }, (_, i) => ({ id: `l${i}`, clientId: `hp${i}`, nodeId: 'n2' }))
+} as Project);
+
+const calculateDaily = (project: Project, options: Partial<DailySimulationOptions>) => new DailyProfileCalculator(
+  project,
+  { ...defaultDailySimulationOptions, enableEV: false, selectedNodeId: 'n2', ...options }
+).calculateDailyVoltages();
+
+describe('Pompes à chaleur', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('COP interpolé sur la courbe, borné aux points extrêmes', () => {
+    expect(getCOP(DEFAULT_COP_CURVE, -7)).toBe(2.3);
+    expect(getCOP(DEFAULT_COP_CURVE, 4.5)).toBeCloseTo(3.3, 9);
+    expect(getCOP(DEFAULT_COP_CURVE, -25)).toBe(1.8);
+    expect(getCOP(DEFAULT_COP_CURVE, 30)).toBe(4.5);
+  });
+
+  it('puissance électrique : besoin linéaire, appoint résistif sous la température de base', () => {
+    const heatPump = createDefaultHeatPump(8);
+
+    expect(getHeatPumpElectricalPower(heatPump, 15)).toBe(0);
+    // 4°C : moitié du besoin de base (11 / 22), COP 3,24
+    expect(getHeatPumpElectricalPower(heatPump, 4)).toBeCloseTo(4 / getCOP(DEFAULT_COP_CURVE, 4), 9);
+    expect(getHeatPumpElectricalPower(heatPump, -7)).toBeCloseTo(8 / 2.3, 9);
+    // -12°C : besoin de 8 × 27 / 22 kW, appoint plafonné à 3 kW
+    const cop = getCOP(DEFAULT_COP_CURVE, -12);
+    expect(getHeatPumpElectricalPower(heatPump, -12)).toBeCloseTo(8 / cop + Math.min(8 * 27 / 22 - 8, 3), 9);
+  });
+
+  it('profil de température : minimum à 6h, maximum à 15h', () => {
+    const profile = buildTemperatureProfile(-4, 6);
+
+    expect(profile['6']).toBeCloseTo(-4, 9);
+    expect(profile['15']).toBeCloseTo(6, 9);
+    expect(Object.keys(profile)).toHaveLength(24);
+    expect(Math.min(...Object.values(profile))).toBeCloseTo(-4, 9);
+  });
+
+  it('vague de froid en hiver : charge PAC et chute de tension accrues, rien en été', () => {
+    const coldSnap = buildTemperatureProfile(COLD_SNAP_TEMPERATURES.min, COLD_SNAP_TEMPERATURES.max);
+    const withoutHeatPumps = calculateDaily(buildProject(false), { season: 'winter', temperatureProfile: coldSnap });
+    const mildWinter = calculateDaily(buildProject(true), { season: 'winter' });
+    const coldWinter = calculateDaily(buildProject(true), { season: 'winter', temperatureProfile: coldSnap });
+    const summer = calculateDaily(buildProject(true), { season: 'summer' });
+
+    expect(coldWinter[6].outdoorTemperature_C).toBeCloseTo(-12, 9);
+    expect(coldWinter[6].heatPumpPower_kW!).toBeGreaterThan(mildWinter[6].heatPumpPower_kW!);
+    expect(coldWinter[6].voltageMin_V).toBeLessThan(mildWinter[6].voltageMin_V);
+    expect(mildWinter[6].voltageMin_V).toBeLessThan(withoutHeatPumps[6].voltageMin_V);
+    expect(withoutHeatPumps[6].heatPumpPower_kW).toBeUndefined();
+    expect(Math.max(...summer.map(h => h.heatPumpPower_kW!))).toBe(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { HostingCapacityCalculator, defaultHostingCapacityOptions } from '@/utils/hostingCapacity';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { getNodeDeviationsPercent } from '@/utils/voltageIndicators';
+import type { Node, Cable, CableType, Project, ClientImporte } from '@/types/network';
+
+const buildProject = (maxCurrent_A?: number): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    { id: 'n2', name: 'N2', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'], maxCurrent_A }
+  ] as CableType[],
+  clientsImportes: [
+    { id: 'cl1', nomCircuit: 'CL1', couplage: 'MONO', assignedPhase: 'A', puissanceContractuelle_kVA: 0, puissancePV_kVA: 0 },
+    { id: 'cl2', nomCircuit: 'CL2', couplage: 'TRI', puissanceContractuelle_kVA: 0, puissancePV_kVA: 0 }
+  ] as ClientImporte[],
+  clientLinks: [
+    { id: 'l1', clientId: 'cl1', nodeId: 'n2' },
+    { id: 'l2', clientId: 'cl2', nodeId: 'n2' }
+  ]
+} as Project);
+
+const capacityOf = (project: Project, target: 'nodes' | 'clients', phase: 'A' | 'TRI', id: string) =>
+  new HostingCapacityCalculator(project, { ...defaultHostingCapacityOptions, target, phase }).calculate()
+    .entries.find(e => e.targetId === id)!;
+
+describe('Capacité d\'accueil PV', () => {
+  beforeAll(() => { vi.spyOn(console, 'log').mockImplementation(() => {}); });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('limitée par la surtension, décroissante vers l\'aval, juste sous 253 V', () => {
+    const project = buildProject();
+    const n1 = capacityOf(project, 'nodes', 'TRI', 'n1');
+    const n2 = capacityOf(project, 'nodes', 'TRI', 'n2');
+
+    expect(n2.limitingConstraint).toBe('voltage');
+    expect(n2.capacity_kVA).toBeGreaterThan(0);
+    expect(n2.capacity_kVA).toBeLessThan(n1.capacity_kVA);
+
+    // Vérification : à la capacité trouvée, la tension reste ≤ +10%
+    const withPV = { ...project, nodes: project.nodes.map(n => n.id === 'n2' ? { ...n, productions: [{ id: 'pv', label: 'pv', S_kVA: n2.capacity_kVA }] } : n) };
+    const result = new ElectricalCalculator(1, 1, 1).calculateScenarioWithHTConfig(withPV, 'PRODUCTION', 100, 100, undefined, withPV.clientsImportes, withPV.clientLinks);
+    const deviations = getNodeDeviationsPercent(result, 'n2')!;
+    expect(deviations.A).toBeLessThanOrEqual(10);
+    expect(deviations.A).toBeGreaterThan(9);
+  });
+
+  it('raccordement mono nettement plus contraint que le triphasé', () => {
+    const project = buildProject();
+    const tri = capacityOf(project, 'nodes', 'TRI', 'n2');
+    const mono = capacityOf(project, 'nodes', 'A', 'n2');
+
+    expect(mono.limitingConstraint).toBe('voltage');
+    expect(mono.capacity_kVA).toBeGreaterThan(0);
+    expect(mono.capacity_kVA).toBeLessThan(tri.capacity_kVA / 2);
+  });
+
+  it('ampacité des câbles et mode clients (couplage du client)', () => {
+    const limited = capacityOf(buildProject(30), 'nodes', 'TRI', 'n1');
+    expect(limited.limitingConstraint).toBe('cable');
+    // 30 A sous 400 V ≈ 20.8 kVA
+    expect(limited.capacity_kVA).toBeGreaterThan(18);
+    expect(limited.capacity_kVA).toBeLessThan(22);
+
+    const project = buildProject();
+    const monoClient = capacityOf(project, 'clients', 'TRI', 'cl1');
+    const triClient = capacityOf(project, 'clients', 'TRI', 'cl2');
+    expect(monoClient.phase).toBe('A');
+    expect(triClient.phase).toBe('TRI');
+    expect(monoClient.capacity_kVA).toBeLessThan(triClient.capacity_kVA);
+  });
+});
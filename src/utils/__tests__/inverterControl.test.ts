@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import {
+  createDefaultInverterControlSettings,
+  getQUFactor,
+  getPUFactor,
+  collectControlledInverters
+} from '@/utils/inverterControl';
+import { SimulationCalculator } from '@/utils/simulationCalculator';
+import type { Node, Cable, CableType, Project, SimulationEquipment } from '@/types/network';
+
+const buildProject = (production_kVA: number): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    { id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [{ id: 'pv', label: 'PV', S_kVA: production_kVA }] }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+  ] as CableType[],
+  inverterControlDefault: createDefaultInverterControlSettings()
+} as Project);
+
+const equipment: SimulationEquipment = {
+  srg2Devices: [],
+  neutralCompensators: [],
+  cableUpgrades: [],
+  inverterControlEnabled: true
+};
+
+describe('Régulation Q(U)/P(U) des onduleurs', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('courbes Q(U) et P(U) : bande morte, interpolation et saturation', () => {
+    const { qu, pu } = createDefaultInverterControlSettings();
+
+    expect(getQUFactor(qu, 230)).toBe(0);
+    expect(getQUFactor(qu, 244)).toBeCloseTo(0.5, 6);
+    expect(getQUFactor(qu, 260)).toBe(1);
+    expect(getQUFactor(qu, 220.5)).toBeCloseTo(-0.5, 6);
+    expect(getQUFactor(qu, 200)).toBe(-1);
+    expect(getQUFactor({ ...qu, enabled: false }, 260)).toBe(0);
+
+    expect(getPUFactor(pu, 245)).toBe(1);
+    expect(getPUFactor(pu, 250.5)).toBeCloseTo(0.5, 6);
+    expect(getPUFactor({ ...pu, Pmin_percent: 20 }, 260)).toBeCloseTo(0.2, 6);
+  });
+
+  it('réglage propre d\'une production prioritaire sur le défaut du projet', () => {
+    const project = buildProject(10);
+    expect(collectControlledInverters(project)).toHaveLength(1);
+
+    const disabled = createDefaultInverterControlSettings();
+    disabled.qu.enabled = false;
+    disabled.pu.enabled = false;
+    project.nodes[2].productions[0].inverterControl = disabled;
+    expect(collectControlledInverters(project)).toHaveLength(0);
+  });
+
+  it('absorption de Q et écrêtage de P réduisent la surtension en production', () => {
+    const project = buildProject(30);
+    const calculator = new SimulationCalculator(1, 1, 1);
+    const result = calculator.calculateWithSimulation(project, 'PRODUCTION', equipment);
+    const summary = result.inverterControl!;
+
+    expect(summary.converged).toBe(true);
+    expect(summary.inverters).toHaveLength(1);
+    const inverter = summary.inverters[0];
+    expect(inverter.reactiveAbsorbed_kVAr).toBeGreaterThan(0);
+    expect(inverter.reactiveAbsorbed_kVAr).toBeLessThanOrEqual(30 * 0.44 + 1e-9);
+    expect(summary.totalCurtailed_kW).toBeCloseTo(inverter.activeCurtailed_kW, 9);
+
+    // Surtension du bout de réseau supprimée sans SRG2
+    expect(summary.baselineMaxVoltage_V).toBeGreaterThan(253);
+    expect(summary.baselineOvervoltageNodes).toBe(1);
+    expect(summary.controlledMaxVoltage_V).toBeLessThan(253);
+    expect(summary.controlledOvervoltageNodes).toBe(0);
+    expect(inverter.voltage_V).toBeCloseTo(summary.controlledMaxVoltage_V, 0);
+    // Projet d'origine inchangé
+    expect(project.nodes[2].clients).toHaveLength(0);
+  });
+
+  it('aucune consigne en prélèvement (onduleur à l\'arrêt)', () => {
+    const calculator = new SimulationCalculator(1, 1, 1);
+    const result = calculator.calculateWithSimulation(buildProject(30), 'PRÉLÈVEMENT', equipment);
+    const inverter = result.inverterControl!.inverters[0];
+
+    expect(inverter.reactiveAbsorbed_kVAr).toBe(0);
+    expect(inverter.activeCurtailed_kW).toBe(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createDefaultLoadGrowthOptions, scaleProjectForYear, runLoadGrowthPlanning } from '@/utils/loadGrowthPlanning';
+import type { Node, Cable, CableType, Project, ClientImporte, LoadGrowthOptions } from '@/types/network';
+
+const buildProject = (maxCurrent_A?: number): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    { id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [{ id: 'ch', label: 'ch', S_kVA: 3 }], productions: [] }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'], maxCurrent_A }
+  ] as CableType[],
+  clientsImportes: [
+    { id: 'res', nomCircuit: 'RES', couplage: 'TRI', connectionType: 'TRI', clientType: 'résidentiel', puissanceContractuelle_kVA: 6, puissancePV_kVA: 3 },
+    { id: 'ind', nomCircuit: 'IND', couplage: 'TRI', connectionType: 'TRI', clientType: 'industriel', puissanceContractuelle_kVA: 6, puissancePV_kVA: 0 }
+  ] as ClientImporte[],
+  clientLinks: [
+    { id: 'l1', clientId: 'res', nodeId: 'n2' },
+    { id: 'l2', clientId: 'ind', nodeId: 'n2' }
+  ]
+} as Project);
+
+const options: LoadGrowthOptions = {
+  ...createDefaultLoadGrowthOptions(),
+  startYear: 2025,
+  horizonYears: 10,
+  residentialGrowth_percent: 10,
+  industrialGrowth_percent: 0,
+  pvGrowth_percent: 20,
+  evPenetrationStart_percent: 0,
+  evPenetrationGrowth_percent: 10,
+  evPower_kVA: 7
+};
+
+describe('Planification pluriannuelle de la croissance des charges', () => {
+  beforeAll(() => { vi.spyOn(console, 'log').mockImplementation(() => {}); });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('mise à l\'échelle des puissances par type et VE en espérance', () => {
+    const project = buildProject();
+    const scaled = scaleProjectForYear(project, options, 2);
+    const res = scaled.clientsImportes!.find(c => c.id === 'res')!;
+    const ind = scaled.clientsImportes!.find(c => c.id === 'ind')!;
+
+    // 6 × 1.1² + 7 kVA × 20%
+    expect(res.puissanceContractuelle_kVA).toBeCloseTo(6 * 1.21 + 1.4, 6);
+    expect(res.puissancePV_kVA).toBeCloseTo(3 * 1.44, 6);
+    expect(ind.puissanceContractuelle_kVA).toBe(6);
+    expect(scaled.nodes.find(n => n.id === 'n2')!.clients[0].S_kVA).toBeCloseTo(3 * 1.21, 6);
+    // Projet d'origine inchangé
+    expect(project.clientsImportes![0].puissanceContractuelle_kVA).toBe(6);
+  });
+
+  it('première année de dépassement : le bout de réseau avant l\'amont', () => {
+    const result = runLoadGrowthPlanning(buildProject(), options);
+
+    expect(result.years).toHaveLength(11);
+    expect(result.years[0].year).toBe(2025);
+    expect(result.years[0].violatingNodes).toBe(0);
+    // Chute de tension croissante au fil des années
+    expect(result.years[10].minDeviation_percent).toBeLessThan(result.years[0].minDeviation_percent);
+
+    const n2 = result.violations.find(v => v.elementId === 'n2')!;
+    expect(n2.kind).toBe('node');
+    expect(n2.firstYear).toBeGreaterThan(2025);
+    expect(n2.value).toBeLessThan(-10);
+    const n1 = result.violations.find(v => v.elementId === 'n1');
+    if (n1) expect(n1.firstYear).toBeGreaterThanOrEqual(n2.firstYear);
+  });
+
+  it('surcharge câble reportée avec sa première année', () => {
+    const result = runLoadGrowthPlanning(buildProject(45), options);
+    const c1 = result.violations.find(v => v.elementId === 'c1')!;
+
+    expect(c1.kind).toBe('cable');
+    expect(c1.value).toBeGreaterThan(100);
+    const year = result.years.find(y => y.year === c1.firstYear)!;
+    expect(year.overloadedCables).toBeGreaterThan(0);
+    expect(result.years.find(y => y.year === c1.firstYear - 1)!.maxCableLoading_percent).toBeLessThanOrEqual(100);
+  });
+});
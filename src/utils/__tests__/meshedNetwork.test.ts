@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import type { Node, Cable, CableType, TransformerConfig, CalculationScenario } from '@/types/network';
+
+const mkCableType = (id: string, R12: number, X12: number, R0: number, X0: number): CableType => ({
+  id, label: id, R12_ohm_per_km: R12, X12_ohm_per_km: X12, R0_ohm_per_km: R0, X0_ohm_per_km: X0, matiere: 'CUIVRE', posesPermises: ['AÉRIEN','SOUTERRAIN']
+});
+
+const transformer: TransformerConfig = {
+  rating: '160kVA', nominalPower_kVA: 160, nominalVoltage_V: 400, shortCircuitVoltage_percent: 0, cosPhi: 1
+};
+
+const degLatForMeters = (m: number) => m / 111_000; // approx conversion
+
+/**
+ * Boucle symétrique : src → n1 → n2 et src → n2 (trois câbles de 100 m identiques).
+ * Charge en n2 : le chemin direct (Z) porte 2/3 du courant, le chemin via n1 (2Z) porte 1/3.
+ */
+const buildRing = (): { nodes: Node[]; cables: Cable[]; cableTypes: CableType[] } => {
+  const d = degLatForMeters(100);
+  const nodes: Node[] = [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: d, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    { id: 'n2', name: 'N2', lat: 0, lng: d, connectionType: 'TÉTRA_3P+N_230_400V', clients: [{ id: 'c1', label: 'Load', S_kVA: 30 }], productions: [] },
+  ];
+  const cables: Cable[] = [
+    { id: 'cab1', name: 'C1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: d, lng: 0 }] },
+    { id: 'cab2', name: 'C2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n2', coordinates: [{ lat: 0, lng: 0 }, { lat: 0, lng: d }] },
+    { id: 'cab3', name: 'C3', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: d, lng: 0 }, { lat: d + d, lng: 0 }] },
+  ];
+  return { nodes, cables, cableTypes: [mkCableType('t1', 0.5, 0.1, 0.5, 0.1)] };
+};
+
+describe('Réseau maillé - méthode de compensation', () => {
+  it('détecte la boucle et répartit le courant selon les impédances (équilibré)', () => {
+    const calc = new ElectricalCalculator(1.0);
+    const { nodes, cables, cableTypes } = buildRing();
+
+    const result = calc.calculateScenario(nodes, cables, cableTypes, 'PRÉLÈVEMENT' as CalculationScenario, 100, 100, transformer, 'polyphase_equilibre', 0, undefined);
+
+    expect(result.solverMode).toBe('meshed');
+    expect(result.meshLoops).toHaveLength(1);
+    expect(result.meshLoops![0].cableIds).toHaveLength(3);
+
+    const I = (id: string) => result.cables.find(c => c.id === id)!.current_A!;
+    // Kirchhoff : les deux chemins alimentent la charge
+    expect(I('cab1')).toBeCloseTo(I('cab3'), 3);
+    expect(I('cab2') / I('cab1')).toBeCloseTo(2, 1);
+    expect(I('cab1') + I('cab2')).toBeGreaterThan(40);
+  });
+
+  it('calcule les courants de boucle par phase en mode déséquilibré', () => {
+    const calc = new ElectricalCalculator(1.0);
+    const { nodes, cables, cableTypes } = buildRing();
+
+    const result = calc.calculateScenario(nodes, cables, cableTypes, 'PRÉLÈVEMENT' as CalculationScenario, 100, 100, transformer, 'monophase_reparti', 0, undefined);
+
+    expect(result.solverMode).toBe('meshed');
+    const loopCable = result.cables.find(c => c.id === 'cab3')!;
+    const directCable = result.cables.find(c => c.id === 'cab2')!;
+    expect(loopCable.currentsPerPhase_A?.A).toBeGreaterThan(0);
+    expect(directCable.currentsPerPhase_A!.A / loopCable.currentsPerPhase_A!.A).toBeCloseTo(2, 1);
+  });
+
+  it('reste en mode radial sans boucle', () => {
+    const calc = new ElectricalCalculator(1.0);
+    const { nodes, cables, cableTypes } = buildRing();
+
+    const result = calc.calculateScenario(nodes, cables.slice(0, 2), cableTypes, 'PRÉLÈVEMENT' as CalculationScenario, 100, 100, transformer, 'polyphase_equilibre', 0, undefined);
+
+    expect(result.solverMode).toBe('radial');
+    expect(result.meshLoops).toHaveLength(0);
+  });
+});
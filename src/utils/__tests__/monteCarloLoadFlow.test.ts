@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createDefaultMonteCarloOptions, runMonteCarloLoadFlow, monteCarloResultToCSV, createRandom, sampleDistribution } from '@/utils/monteCarloLoadFlow';
+import type { Node, Cable, CableType, Project, MonteCarloOptions } from '@/types/network';
+
+const cableTypes: CableType[] = [
+  { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+];
+
+const buildProject = (chargeKVA: number, productionKVA: number): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    {
+      id: 'n1', name: 'N1', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V',
+      clients: [{ id: 'c', label: 'c', S_kVA: chargeKVA }],
+      productions: [{ id: 'pv', label: 'pv', S_kVA: productionKVA }]
+    }
+  ] as Node[],
+  cables: [{
+    id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1',
+    coordinates: [{ lat: 0, lng: 0 }, { lat: 0.004, lng: 0 }],
+    length_m: 450
+  }] as Cable[],
+  cableTypes
+} as Project);
+
+describe('Répartition de charge probabiliste (Monte Carlo)', () => {
+  beforeAll(() => { vi.spyOn(console, 'log').mockImplementation(() => {}); });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('tirages bornés à [0, 100] % de moyenne et d\'écart-type configurés', () => {
+    const random = createRandom(7);
+    const stats = (mean_percent: number, stdDev_percent: number) => {
+      const samples = Array.from({ length: 20000 }, () => sampleDistribution(random, { mean_percent, stdDev_percent }));
+      const mean = samples.reduce((sum, x) => sum + x, 0) / samples.length;
+      const std = Math.sqrt(samples.reduce((sum, x) => sum + (x - mean) ** 2, 0) / samples.length);
+      return { mean, std, min: Math.min(...samples), max: Math.max(...samples) };
+    };
+
+    // Moyenne proche de la borne : une gaussienne écrêtée à 100 % sous-estimerait la moyenne
+    const high = stats(90, 15);
+    expect(high.mean).toBeCloseTo(90, 0);
+    expect(high.std).toBeCloseTo(15, 0);
+    expect(high.max).toBeLessThanOrEqual(100);
+
+    const low = stats(10, 25);
+    expect(low.mean).toBeCloseTo(10, 0);
+    expect(low.min).toBeGreaterThanOrEqual(0);
+    expect(sampleDistribution(random, { mean_percent: 100, stdDev_percent: 20 })).toBe(100);
+    expect(sampleDistribution(random, { mean_percent: 40, stdDev_percent: 0 })).toBe(40);
+  });
+
+  it('tirages reproductibles et centiles ordonnés', () => {
+    const project = buildProject(40, 0);
+    // Foisonnement moyen sous 100 % : dispersion possible des deux côtés de la moyenne
+    const options: MonteCarloOptions = {
+      ...createDefaultMonteCarloOptions(project),
+      iterations: 60,
+      scenario: 'PRÉLÈVEMENT',
+      residentialLoad: { mean_percent: 70, stdDev_percent: 15 }
+    };
+
+    const first = runMonteCarloLoadFlow(project, options);
+    const second = runMonteCarloLoadFlow(project, options);
+    const node = first.nodes.find(n => n.nodeId === 'n1')!;
+
+    expect(first.iterations).toBe(60);
+    expect(first.nodes.some(n => n.nodeId === 'src')).toBe(false);
+    expect(second.nodes).toEqual(first.nodes);
+    expect(node.p5_percent).toBeLessThanOrEqual(node.p50_percent);
+    expect(node.p50_percent).toBeLessThanOrEqual(node.p95_percent);
+    // Prélèvement seul : chute de tension, dispersion non nulle
+    expect(node.p95_percent).toBeLessThan(0);
+    expect(node.p95_percent - node.p5_percent).toBeGreaterThan(0.1);
+    expect(node.overVoltageProbability).toBe(0);
+  });
+
+  it('probabilité de surtension croissante avec l\'ensoleillement', () => {
+    const project = buildProject(0, 80);
+    const base = createDefaultMonteCarloOptions(project);
+    const run = (mean_percent: number) => runMonteCarloLoadFlow(project, {
+      ...base, iterations: 80, scenario: 'PRODUCTION', pvOutput: { mean_percent, stdDev_percent: 30 }
+    }).nodes.find(n => n.nodeId === 'n1')!;
+
+    const cloudy = run(20);
+    const sunny = run(80);
+
+    expect(sunny.overVoltageProbability).toBeGreaterThan(cloudy.overVoltageProbability);
+    expect(sunny.violationProbability).toBeGreaterThan(0);
+    expect(sunny.violationProbability).toBeLessThanOrEqual(1);
+  });
+
+  it('export CSV : une ligne par nœud', () => {
+    const project = buildProject(40, 0);
+    const result = runMonteCarloLoadFlow(project, { ...createDefaultMonteCarloOptions(project), iterations: 10 });
+    const lines = monteCarloResultToCSV(result).split('\n');
+
+    expect(lines).toHaveLength(2 + result.nodes.length);
+    expect(lines[2].startsWith('N1;')).toBe(true);
+  });
+});
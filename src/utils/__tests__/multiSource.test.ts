@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { partitionNetworkBySource, getFeedingSource } from '@/utils/multiSource';
+import { getPathFromSource } from '@/utils/networkConnectivity';
+import type { Node, Cable, CableType, TransformerConfig, CalculationScenario } from '@/types/network';
+
+const cableTypes: CableType[] = [{
+  id: 't1', label: 't1', R12_ohm_per_km: 0.3, X12_ohm_per_km: 0.1, R0_ohm_per_km: 0.3, X0_ohm_per_km: 0.1, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN', 'SOUTERRAIN']
+}];
+
+const mkTransformer = (S_kVA: number, Ucc: number): TransformerConfig => ({
+  rating: S_kVA === 400 ? '400kVA' : '160kVA', nominalPower_kVA: S_kVA, nominalVoltage_V: 400, shortCircuitVoltage_percent: Ucc, cosPhi: 1
+});
+
+const degLatForMeters = (m: number) => m / 111_000; // approx conversion
+
+const mkCable = (id: string, a: string, b: string, lat0: number, lat1: number): Cable => ({
+  id, name: id, typeId: 't1', pose: 'AÉRIEN', nodeAId: a, nodeBId: b,
+  coordinates: [{ lat: lat0, lng: 0 }, { lat: lat1, lng: 0 }]
+});
+
+/** Deux postes indépendants, chacun alimentant un nœud chargé à 150 m */
+const buildTwoSubstations = (): { nodes: Node[]; cables: Cable[] } => {
+  const d = degLatForMeters(150);
+  const nodes: Node[] = [
+    { id: 'src1', name: 'Poste 1', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: d, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [{ id: 'c1', label: 'L1', S_kVA: 30 }], productions: [] },
+    { id: 'src2', name: 'Poste 2', lat: 1, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true, transformerConfig: mkTransformer(400, 4.5) },
+    { id: 'n2', name: 'N2', lat: 1 + d, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [{ id: 'c2', label: 'L2', S_kVA: 60 }], productions: [] },
+  ];
+  const cables: Cable[] = [
+    mkCable('cab1', 'src1', 'n1', 0, d),
+    mkCable('cab2', 'src2', 'n2', 1, 1 + d),
+  ];
+  return { nodes, cables };
+};
+
+describe('Réseau multi-postes', () => {
+  it('calcule chaque poste avec son transformateur et fusionne les résultats', () => {
+    const calc = new ElectricalCalculator(1.0);
+    const { nodes, cables } = buildTwoSubstations();
+
+    const result = calc.calculateScenario(nodes, cables, cableTypes, 'PRÉLÈVEMENT' as CalculationScenario, 100, 100, mkTransformer(160, 4), 'polyphase_equilibre', 0, undefined);
+
+    expect(result.cables).toHaveLength(2);
+    expect(result.totalLoads_kVA).toBeCloseTo(90, 1);
+    expect(result.substations).toHaveLength(2);
+
+    const [sub1, sub2] = result.substations!;
+    expect(sub1.sourceNodeId).toBe('src1');
+    expect(sub1.transformerConfig?.nominalPower_kVA).toBe(160);
+    expect(sub2.transformerConfig?.nominalPower_kVA).toBe(400);
+    expect(sub2.nodeIds).toEqual(expect.arrayContaining(['src2', 'n2']));
+    expect(sub1.virtualBusbar?.netSkVA).toBeCloseTo(30, 1);
+    expect(sub2.virtualBusbar?.netSkVA).toBeCloseTo(60, 1);
+    expect(result.virtualBusbar).toBe(sub1.virtualBusbar);
+
+    // Chaque zone est alimentée par son propre poste
+    const I = (id: string) => result.cables.find(c => c.id === id)!.current_A!;
+    expect(I('cab2') / I('cab1')).toBeGreaterThan(1.8);
+  });
+
+  it('rattache chaque nœud au poste qui l\'alimente, point de coupure ouvert compris', () => {
+    const { nodes, cables } = buildTwoSubstations();
+    const withOpenTie = [...cables, { ...mkCable('tie', 'n1', 'n2', degLatForMeters(150), 1 + degLatForMeters(150)), switchState: 'open' as const }];
+
+    expect(getFeedingSource(nodes, withOpenTie, 'n1')?.id).toBe('src1');
+    expect(getFeedingSource(nodes, withOpenTie, 'n2')?.id).toBe('src2');
+    expect(getPathFromSource(nodes, withOpenTie, 'n2').map(c => c.id)).toEqual(['cab2']);
+    expect(getPathFromSource(nodes, withOpenTie, 'src2')).toEqual([]);
+  });
+
+  it('refuse deux postes reliés électriquement', () => {
+    const { nodes, cables } = buildTwoSubstations();
+    const coupled = [...cables, mkCable('tie', 'n1', 'n2', degLatForMeters(150), 1 + degLatForMeters(150))];
+
+    expect(() => partitionNetworkBySource(nodes, coupled)).toThrow(/reliés électriquement/);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { checkProtections } from '@/utils/protectionCoordination';
+import { calculateShortCircuitCurrents } from '@/utils/shortCircuitCalculator';
+import { getClearingTime } from '@/data/protectionDevices';
+import type { Node, Cable, CableType, Project, ProtectionDevice } from '@/types/network';
+
+const cableTypes: CableType[] = [
+  { id: 'big', label: '150', R12_ohm_per_km: 0.206, X12_ohm_per_km: 0.08, R0_ohm_per_km: 0.8, X0_ohm_per_km: 0.3, matiere: 'ALUMINIUM', posesPermises: ['SOUTERRAIN'], maxCurrent_A: 250 },
+  { id: 'small', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['SOUTERRAIN'], maxCurrent_A: 110 }
+];
+
+const mkNode = (id: string, isSource = false): Node => ({
+  id, name: id, lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource
+});
+
+const mkCable = (id: string, a: string, b: string, typeId: string, lengthM: number, protection?: ProtectionDevice): Cable => ({
+  id, name: id, typeId, pose: 'SOUTERRAIN', nodeAId: a, nodeBId: b,
+  coordinates: [{ lat: 0, lng: 0 }, { lat: lengthM / 111_000, lng: 0 }],
+  length_m: lengthM,
+  protection
+});
+
+const buildProject = (cables: Cable[]): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [mkNode('src', true), mkNode('n1'), mkNode('n2')],
+  cables, cableTypes
+} as Project);
+
+const run = (project: Project) => checkProtections(project, calculateShortCircuitCurrents(project));
+
+describe('Courbes temps-courant', () => {
+  it('fusible gG : 5 s au courant tabulé, pas de fusion sous 1,6 In', () => {
+    expect(getClearingTime('FUSIBLE_gG', 100, 580)).toBeCloseTo(5, 6);
+    expect(getClearingTime('FUSIBLE_gG', 100, 150)).toBe(Infinity);
+    expect(getClearingTime('FUSIBLE_gG', 100, 2000)).toBeLessThan(0.4);
+  });
+
+  it('disjoncteur : déclenchement instantané au-delà du seuil magnétique', () => {
+    expect(getClearingTime('DISJONCTEUR_C', 32, 320)).toBe(0.01);
+    expect(getClearingTime('DISJONCTEUR_C', 32, 200)).toBeGreaterThan(0.01);
+  });
+});
+
+describe('Vérification des protections', () => {
+  it('départ long protégé par un calibre trop élevé : défaut non éliminé', () => {
+    const project = buildProject([
+      mkCable('c1', 'src', 'n1', 'big', 300, { type: 'FUSIBLE_gG', rating_A: 250 }),
+      mkCable('c2', 'n1', 'n2', 'big', 500)
+    ]);
+    const result = run(project);
+    const check = result.checks.find(c => c.cableId === 'c1')!;
+
+    expect(check.isFeederHead).toBe(true);
+    expect(check.zoneCableIds).toEqual(['c1', 'c2']);
+    expect(check.endFaultNodeId).toBe('n2');
+    expect(check.faultCleared).toBe(false);
+    expect(check.compliance).toBe('critical');
+    expect(result.compliance).toBe('critical');
+  });
+
+  it('calibre adapté : défaut éliminé et câble protégé en surcharge', () => {
+    const project = buildProject([
+      mkCable('c1', 'src', 'n1', 'big', 100, { type: 'FUSIBLE_gG', rating_A: 200 }),
+      mkCable('c2', 'n1', 'n2', 'big', 100)
+    ]);
+    const check = run(project).checks.find(c => c.cableId === 'c1')!;
+
+    expect(check.faultCleared).toBe(true);
+    expect(check.ampacityProtected).toBe(true);
+    expect(check.compliance).toBe('normal');
+  });
+
+  it('réduction de section non protégée, puis protection de dérivation', () => {
+    const unprotected = run(buildProject([
+      mkCable('c1', 'src', 'n1', 'big', 100, { type: 'FUSIBLE_gG', rating_A: 200 }),
+      mkCable('c2', 'n1', 'n2', 'small', 100)
+    ]));
+    const head = unprotected.checks.find(c => c.cableId === 'c1')!;
+    expect(head.weakestCableId).toBe('c2');
+    expect(head.ampacityProtected).toBe(false);
+
+    const protectedBranch = run(buildProject([
+      mkCable('c1', 'src', 'n1', 'big', 100, { type: 'FUSIBLE_gG', rating_A: 200 }),
+      mkCable('c2', 'n1', 'n2', 'small', 100, { type: 'FUSIBLE_gG', rating_A: 80 })
+    ]));
+    expect(protectedBranch.checks.find(c => c.cableId === 'c1')!.zoneCableIds).toEqual(['c1']);
+    expect(protectedBranch.checks.find(c => c.cableId === 'c2')!.ampacityProtected).toBe(true);
+    expect(protectedBranch.compliance).toBe('normal');
+  });
+
+  it('départ sans protection signalé en avertissement', () => {
+    const result = run(buildProject([mkCable('c1', 'src', 'n1', 'big', 100)]));
+
+    expect(result.checks).toHaveLength(1);
+    expect(result.checks[0].device).toBeUndefined();
+    expect(result.compliance).toBe('warning');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createDefaultPVTrippingSettings, collectPVClients, getConnectionPointVoltage } from '@/utils/pvTripping';
+import { SimulationCalculator } from '@/utils/simulationCalculator';
+import { DailyProfileCalculator } from '@/utils/dailyProfileCalculator';
+import { defaultDailySimulationOptions } from '@/types/dailyProfile';
+import type { Node, Cable, CableType, Project, ClientImporte, SimulationEquipment } from '@/types/network';
+
+// PV (kVA) des clients : deux en bout de réseau (n2), un à mi-parcours (n1)
+const buildProject = (far_kVA: number, far2_kVA: number, mid_kVA: number): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    { id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+  ] as CableType[],
+  clientsImportes: [
+    { id: 'far', nomCircuit: 'FAR', couplage: 'TRI', connectionType: 'TRI', lat: 0.0036, lng: 0, puissanceContractuelle_kVA: 0, puissancePV_kVA: far_kVA },
+    { id: 'far2', nomCircuit: 'FAR2', couplage: 'TRI', connectionType: 'TRI', lat: 0.0036, lng: 0, puissanceContractuelle_kVA: 0, puissancePV_kVA: far2_kVA },
+    { id: 'mid', nomCircuit: 'MID', couplage: 'TRI', connectionType: 'TRI', lat: 0.0018, lng: 0, puissanceContractuelle_kVA: 0, puissancePV_kVA: mid_kVA }
+  ] as ClientImporte[],
+  clientLinks: [
+    { id: 'l1', clientId: 'far', nodeId: 'n2' },
+    { id: 'l2', clientId: 'far2', nodeId: 'n2' },
+    { id: 'l3', clientId: 'mid', nodeId: 'n1' }
+  ]
+} as Project);
+
+const equipment: SimulationEquipment = {
+  srg2Devices: [],
+  neutralCompensators: [],
+  cableUpgrades: [],
+  pvTripping: createDefaultPVTrippingSettings()
+};
+
+describe('Découplage en cascade des PV clients', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('découple d\'abord le client le plus contraint puis se stabilise sous le seuil', () => {
+    const project = buildProject(15, 15, 10);
+    const { result, summary } = new SimulationCalculator(1, 1, 1).calculateWithPVTripping(project, 'PRODUCTION', equipment);
+
+    expect(summary.stable).toBe(true);
+    expect(summary.events).toHaveLength(1);
+    expect(summary.events[0]).toMatchObject({ step: 1, nodeId: 'n2', action: 'trip' });
+    expect(summary.events[0].voltage_V).toBeGreaterThan(253);
+    expect(summary.lostPower_kW).toBeCloseTo(15, 6);
+
+    // Les onduleurs restés couplés voient moins de 253 V
+    for (const pvClient of collectPVClients(project)) {
+      if (summary.trippedClientIds.includes(pvClient.client.id)) continue;
+      expect(getConnectionPointVoltage(project, result, 'PRODUCTION', pvClient, true)!).toBeLessThan(253);
+    }
+    // Projet d'origine inchangé
+    expect(project.clientsImportes!.every(c => c.puissancePV_kVA > 0)).toBe(true);
+  });
+
+  it('hystérésis : un client découplé ne se reconnecte que sous le seuil bas', () => {
+    const project = buildProject(15, 15, 10);
+    const calculator = new SimulationCalculator(1, 1, 1);
+
+    // Entre 248 et 253 V : l'état découplé hérité est conservé
+    const kept = calculator.calculateWithPVTripping(project, 'PRODUCTION', equipment, ['far']);
+    expect(kept.summary.events).toHaveLength(0);
+    expect(kept.summary.trippedClientIds).toEqual(['far']);
+
+    // Seuil de reconnexion relevé : le client se reconnecte
+    const reconnected = calculator.calculateWithPVTripping(
+      project, 'PRODUCTION', { ...equipment, pvTripping: { ...equipment.pvTripping!, reconnectVoltage_V: 252 } }, ['far']
+    );
+    expect(reconnected.summary.events[0]).toMatchObject({ clientId: 'far', action: 'reconnect' });
+  });
+
+  it('pompage signalé instable, le client reste découplé', () => {
+    const { summary } = new SimulationCalculator(1, 1, 1).calculateWithPVTripping(buildProject(20, 10, 10), 'PRODUCTION', equipment);
+
+    expect(summary.stable).toBe(false);
+    expect(summary.events.map(e => e.action)).toEqual(['trip', 'reconnect']);
+    expect(summary.trippedClientIds).toEqual(['far']);
+  });
+
+  it('énergie perdue sur 24h en été ensoleillé, aucune la nuit', () => {
+    const calculator = new DailyProfileCalculator(
+      buildProject(15, 15, 10),
+      { ...defaultDailySimulationOptions, season: 'summer', selectedNodeId: 'n2' },
+      undefined,
+      equipment,
+      true
+    );
+    const daily = calculator.calculateDailyPVTripping();
+
+    expect(daily.hours).toHaveLength(24);
+    expect(daily.totalEnergyLost_kWh).toBeGreaterThan(0);
+    expect(daily.totalEnergyLost_kWh).toBeLessThan(daily.totalEnergyAvailable_kWh);
+    expect(daily.hours[2].trippedClients).toBe(0);
+    expect(daily.clients[0].firstTripHour).toBeGreaterThan(6);
+    expect(daily.clients.reduce((sum, c) => sum + c.energyLost_kWh, 0)).toBeCloseTo(daily.totalEnergyLost_kWh, 6);
+  });
+});
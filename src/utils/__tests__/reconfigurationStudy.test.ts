@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { runReconfigurationStudy } from '@/utils/reconfigurationStudy';
+import type { Node, Cable, CableType, Project, CalculationScenario } from '@/types/network';
+
+const cableTypes: CableType[] = [{
+  id: 't1', label: 't1', R12_ohm_per_km: 0.4, X12_ohm_per_km: 0.1, R0_ohm_per_km: 0.4, X0_ohm_per_km: 0.1, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN', 'SOUTERRAIN']
+}];
+
+const degLatForMeters = (m: number) => m / 111_000; // approx conversion
+
+const mkCable = (id: string, a: string, b: string, lengthM: number, extra: Partial<Cable> = {}): Cable => ({
+  id, name: id, typeId: 't1', pose: 'AÉRIEN', nodeAId: a, nodeBId: b,
+  coordinates: [{ lat: 0, lng: 0 }, { lat: degLatForMeters(lengthM), lng: 0 }],
+  ...extra
+});
+
+/**
+ * Deux départs bouclables vers n2 :
+ * - départ long : src → n1 (200 m) → n2 (200 m), organe fermé sur n1-n2
+ * - départ court : src → n3 (50 m) → n2 (50 m), point de coupure ouvert sur n3-n2
+ */
+const buildProject = (): Project => {
+  const nodes: Node[] = [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    { id: 'n2', name: 'N2', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [{ id: 'c1', label: 'L', S_kVA: 40 }], productions: [] },
+    { id: 'n3', name: 'N3', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+  ];
+  const cables: Cable[] = [
+    mkCable('cab1', 'src', 'n1', 200),
+    mkCable('cab2', 'n1', 'n2', 200, { switchState: 'closed', switchLocation: 'B' }),
+    mkCable('cab3', 'src', 'n3', 50),
+    mkCable('cab4', 'n3', 'n2', 50, { switchState: 'open', switchLocation: 'A' }),
+  ];
+  return {
+    id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1,
+    foisonnementCharges: 100, foisonnementProductions: 100,
+    defaultChargeKVA: 5, defaultProductionKVA: 5,
+    transformerConfig: { rating: '160kVA', nominalPower_kVA: 160, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+    loadModel: 'polyphase_equilibre',
+    desequilibrePourcent: 0,
+    nodes, cables, cableTypes
+  } as Project;
+};
+
+describe('Points de coupure et reconfiguration', () => {
+  it('ignore les câbles ouverts dans le calcul', () => {
+    const project = buildProject();
+    const calc = new ElectricalCalculator(1.0);
+    const result = calc.calculateScenario(project.nodes, project.cables, cableTypes, 'PRÉLÈVEMENT' as CalculationScenario, 100, 100, project.transformerConfig, 'polyphase_equilibre', 0, undefined);
+
+    expect(result.solverMode).toBe('radial');
+    expect(result.cables).toHaveLength(4);
+    expect(result.cables.find(c => c.id === 'cab4')!.current_A).toBe(0);
+    expect(result.cables.find(c => c.id === 'cab2')!.current_A!).toBeGreaterThan(50);
+  });
+
+  it('trouve la position de coupure aux pertes minimales', () => {
+    const study = runReconfigurationStudy(buildProject(), 'PRÉLÈVEMENT');
+
+    expect(study.options).toHaveLength(2);
+    expect(study.bestByLosses!.openCableIds).toEqual(['cab2']);
+    expect(study.bestByVoltage!.openCableIds).toEqual(['cab2']);
+    expect(study.options.find(o => o.isCurrent)!.openCableIds).toEqual(['cab4']);
+    expect(study.options[0].globalLosses_kW).toBeLessThan(study.options[1].globalLosses_kW);
+  });
+
+  it('évalue la configuration actuelle même sans point ouvert', () => {
+    const project = buildProject();
+    const closedProject: Project = {
+      ...project,
+      cables: project.cables.map(c => c.id === 'cab4' ? { ...c, switchState: 'closed' } : c)
+    };
+    const study = runReconfigurationStudy(closedProject, 'PRÉLÈVEMENT');
+    const current = study.options.find(o => o.isCurrent)!;
+
+    expect(current.openCableIds).toEqual([]);
+    expect(study.options.filter(o => !o.isCurrent).map(o => o.openCableIds).sort()).toEqual([['cab2'], ['cab4']]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { getEffectiveNeutralAmpacity, getCableNeutralCurrent, isNeutralOverloaded } from '@/utils/cableDerating';
+import { findOptimalEqui8Node } from '@/utils/optimalEqui8Finder';
+import { getNodeDeviationsPercent } from '@/utils/voltageIndicators';
+import type { Node, Cable, CableType, Project, CalculationResult } from '@/types/network';
+
+// 95 mm² Alu : neutre sans paramètres explicites (R0/X0), neutre de 50 mm² et neutre de même section
+// (R0/X0 = 3 × RN/XN, même base que le câble symétrique)
+const cableTypes: CableType[] = [
+  { id: 'sym', label: '4G 95', R12_ohm_per_km: 0.363, X12_ohm_per_km: 0.107, R0_ohm_per_km: 1.089, X0_ohm_per_km: 0.321, matiere: 'ALUMINIUM', posesPermises: ['SOUTERRAIN'], maxCurrent_A: 210 },
+  {
+    id: 'red', label: '3×95+50', R12_ohm_per_km: 0.363, X12_ohm_per_km: 0.107, R0_ohm_per_km: 2.181, X0_ohm_per_km: 0.33, matiere: 'ALUMINIUM', posesPermises: ['SOUTERRAIN'], maxCurrent_A: 210,
+    neutralSection_mm2: 50, RN_ohm_per_km: 0.727, XN_ohm_per_km: 0.11, neutralMaxCurrent_A: 20
+  },
+  {
+    id: 'full', label: '3×95+95', R12_ohm_per_km: 0.363, X12_ohm_per_km: 0.107, R0_ohm_per_km: 1.089, X0_ohm_per_km: 0.321, matiere: 'ALUMINIUM', posesPermises: ['SOUTERRAIN'], maxCurrent_A: 210,
+    neutralSection_mm2: 95, RN_ohm_per_km: 0.363, XN_ohm_per_km: 0.107
+  }
+];
+
+// Charge déséquilibrée en bout de réseau (n2), 2 × 200 m
+const buildProject = (typeId: string): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1, cosPhiCharges: 1, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'monophase_reparti',
+  desequilibrePourcent: 60,
+  manualPhaseDistribution: {
+    charges: { A: 60, B: 20, C: 20 },
+    productions: { A: 33.33, B: 33.33, C: 33.34 },
+    constraints: { min: 10, max: 80, total: 100 }
+  },
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    {
+      id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V',
+      clients: [{ id: 'load', label: 'Charge', S_kVA: 45 }], productions: []
+    }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId, pose: 'SOUTERRAIN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId, pose: 'SOUTERRAIN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes
+} as Project);
+
+const calculate = (project: Project): CalculationResult => new ElectricalCalculator(1, 1, 1).calculateScenario(
+  project.nodes, project.cables, project.cableTypes, 'PRÉLÈVEMENT',
+  100, 100, project.transformerConfig, project.loadModel, project.desequilibrePourcent, project.manualPhaseDistribution
+);
+
+const minDeviation = (result: CalculationResult) => {
+  const deviations = getNodeDeviationsPercent(result, 'n2')!;
+  return Math.min(deviations.A, deviations.B, deviations.C);
+};
+
+describe('Neutre de section réduite', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('solveur 4 fils : impédance propre du neutre, chute accrue pour un neutre réduit', () => {
+    const reduced = calculate(buildProject('red'));
+    const full = calculate(buildProject('full'));
+    const c1 = reduced.cables.find(c => c.id === 'c1')!;
+
+    expect(c1.currentNeutral_A).toBeGreaterThan(5);
+    expect(c1.currentNeutral_A).toBe(c1.currentsPerPhase_A?.N);
+    expect(minDeviation(reduced)).toBeLessThan(minDeviation(full) - 0.2);
+
+    // Neutre explicite de même section : identique au câble symétrique décrit par R0/X0
+    const symmetric = calculate(buildProject('sym'));
+    expect(minDeviation(symmetric)).toBeCloseTo(minDeviation(full), 6);
+  });
+
+  it('ampacité du neutre : propre au neutre réduit, sinon celle des phases, déclassée', () => {
+    const cable = (typeId: string, updates: Partial<Cable> = {}): Cable => ({ ...buildProject(typeId).cables[0], ...updates });
+
+    expect(getEffectiveNeutralAmpacity(cable('red'), cableTypes)).toBe(20);
+    expect(getEffectiveNeutralAmpacity(cable('sym'), cableTypes)).toBe(210);
+    expect(getEffectiveNeutralAmpacity(cable('red', { installation: { groupedCables: 2 } }), cableTypes)).toBeCloseTo(20 * 0.75, 9);
+    expect(getCableNeutralCurrent(cable('red', { currentsPerPhase_A: { A: 30, B: 5, C: 5, N: 25 } }))).toBe(25);
+    expect(isNeutralOverloaded(cable('red', { currentNeutral_A: 25 }), cableTypes)).toBe(true);
+    expect(isNeutralOverloaded(cable('sym', { currentNeutral_A: 25 }), cableTypes)).toBe(false);
+  });
+
+  it('EQUI8 : candidat soulageant un neutre en surcharge privilégié', () => {
+    // Deux départs : src-a-b (neutre symétrique, I_N 40 A) et src-c-d (neutre réduit, I_N 25 A > 20 A)
+    const line = (id: string, typeId: string, nodeAId: string, nodeBId: string, length_m: number, N: number) => ({
+      id, name: id, typeId, pose: 'SOUTERRAIN', nodeAId, nodeBId, coordinates: [], length_m,
+      currentsPerPhase_A: { A: N + 10, B: 10, C: 10, N }
+    }) as Cable;
+    const cables = [
+      line('sa', 'sym', 'src', 'a', 100, 40),
+      line('ab', 'sym', 'a', 'b', 100, 40),
+      line('sc', 'red', 'src', 'c', 100, 25),
+      line('cd', 'red', 'c', 'd', 200, 25)
+    ];
+    const project = {
+      ...buildProject('sym'),
+      nodes: ['src', 'a', 'b', 'c', 'd'].map(id => ({ id, name: id.toUpperCase(), lat: 0, lng: 0, isSource: id === 'src', clients: [], productions: [] })) as unknown as Node[],
+      cables: cables.map(({ currentsPerPhase_A, ...cable }) => cable as Cable)
+    } as Project;
+    const result = { cables } as unknown as CalculationResult;
+
+    const analysis = findOptimalEqui8Node(project, result);
+
+    expect(analysis.overloadedNeutralCableIds).toEqual(['sc', 'cd']);
+    expect(analysis.optimalNode?.nodeId).toBe('c');
+    expect(analysis.optimalNode?.relievedNeutralOverloads).toBe(1);
+    // Le score seul aurait désigné A (40 A à faible impédance amont)
+    const a = analysis.candidates.find(c => c.nodeId === 'a')!;
+    expect(a.score).toBeGreaterThan(analysis.optimalNode!.score);
+    // Impédance amont du neutre : 3 × RN du neutre réduit (base R0)
+    expect(analysis.optimalNode!.upstreamImpedance_Zn_Ohm).toBeCloseTo(3 * 0.727 * 0.1, 9);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { calculateShortCircuitCurrents, getTransformerImpedance } from '@/utils/shortCircuitCalculator';
+import { correctResistance } from '@/utils/thermalModel';
+import type { Node, Cable, CableType, Project, VoltageSystem } from '@/types/network';
+
+const cableTypes: CableType[] = [{
+  id: 't1', label: 't1', R12_ohm_per_km: 0.4, X12_ohm_per_km: 0.1, R0_ohm_per_km: 1.2, X0_ohm_per_km: 0.3,
+  matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN', 'SOUTERRAIN'], maxCurrent_A: 200
+}];
+
+const mkNode = (id: string, isSource = false): Node => ({
+  id, name: id, lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource
+});
+
+const mkCable = (id: string, a: string, b: string, lengthM: number): Cable => ({
+  id, name: id, typeId: 't1', pose: 'SOUTERRAIN', nodeAId: a, nodeBId: b,
+  coordinates: [{ lat: 0, lng: 0 }, { lat: lengthM / 111_000, lng: 0 }],
+  length_m: lengthM
+});
+
+const buildProject = (cables: Cable[], nodes: Node[], voltageSystem: VoltageSystem = 'TÉTRAPHASÉ_400V'): Project => ({
+  id: 'p', name: 'Test', voltageSystem, cosPhi: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '160kVA', nominalPower_kVA: 160, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel: 'polyphase_equilibre',
+  desequilibrePourcent: 0,
+  nodes, cables, cableTypes
+} as Project);
+
+describe('Courants de court-circuit', () => {
+  it('au poste : courant limité par le seul transformateur', () => {
+    const project = buildProject([mkCable('c1', 'src', 'n1', 100)], [mkNode('src', true), mkNode('n1')]);
+    const result = calculateShortCircuitCurrents(project);
+    const src = result.nodes.find(n => n.nodeId === 'src')!;
+
+    // Zcc = 4% × 400² / 160 kVA = 0.04 Ω
+    expect(src.Z1_max_ohm).toBeCloseTo(0.04, 6);
+    expect(src.Ik3_max_kA).toBeCloseTo(1.05 * 400 / (Math.sqrt(3) * 0.04) / 1000, 4);
+    // Transformateur seul : Z0 = Z1 → Ik1 = Ik3
+    expect(src.Ik1_max_kA).toBeCloseTo(src.Ik3_max_kA, 4);
+  });
+
+  it('en bout de câble : impédances amont cumulées et conducteurs chauds pour Ik min', () => {
+    const project = buildProject([mkCable('c1', 'src', 'n1', 100)], [mkNode('src', true), mkNode('n1')]);
+    const result = calculateShortCircuitCurrents(project);
+    const n1 = result.nodes.find(n => n.nodeId === 'n1')!;
+    const Ztr = getTransformerImpedance(project.transformerConfig, 400);
+
+    // Conditions max : résistance à 12°C (souterrain hiver)
+    const R1max = Ztr.re + correctResistance(0.4, 12, 'ALUMINIUM') * 0.1;
+    const X1 = Ztr.im + 0.01;
+    const Z1max = Math.hypot(R1max, X1);
+    expect(n1.Z1_max_ohm).toBeCloseTo(Z1max, 6);
+    expect(n1.Ik3_max_kA).toBeCloseTo(1.05 * 400 / (Math.sqrt(3) * Z1max) / 1000, 4);
+    expect(n1.Ik2_max_kA).toBeCloseTo(1.05 * 400 / (2 * Z1max) / 1000, 4);
+
+    // Conditions min : 20°C + 35°C d'échauffement à pleine charge
+    const R1min = Ztr.re + correctResistance(0.4, 55, 'ALUMINIUM') * 0.1;
+    const R0min = Ztr.re + correctResistance(1.2, 55, 'ALUMINIUM') * 0.1;
+    const X0 = Ztr.im + 0.03;
+    const loop = Math.hypot(2 * R1min + R0min, 2 * X1 + X0);
+    expect(n1.Ik1_min_kA!).toBeCloseTo(Math.sqrt(3) * 0.95 * 400 / loop / 1000, 4);
+    expect(n1.Ik1_min_kA!).toBeLessThan(n1.Ik1_max_kA!);
+    expect(n1.sourceNodeId).toBe('src');
+  });
+
+  it('réseau maillé : deux câbles en parallèle divisent l\'impédance de ligne', () => {
+    const nodes = [mkNode('src', true), mkNode('n1')];
+    const single = calculateShortCircuitCurrents(buildProject([mkCable('c1', 'src', 'n1', 200)], nodes));
+    const parallel = calculateShortCircuitCurrents(buildProject([mkCable('c1', 'src', 'n1', 200), mkCable('c2', 'src', 'n1', 200)], nodes));
+    const equivalent = calculateShortCircuitCurrents(buildProject([mkCable('c1', 'src', 'n1', 100)], nodes));
+
+    const zSingle = single.nodes.find(n => n.nodeId === 'n1')!.Z1_max_ohm;
+    const zParallel = parallel.nodes.find(n => n.nodeId === 'n1')!.Z1_max_ohm;
+    expect(zParallel).toBeLessThan(zSingle);
+    expect(zParallel).toBeCloseTo(equivalent.nodes.find(n => n.nodeId === 'n1')!.Z1_max_ohm, 6);
+  });
+
+  it('réseau 230V triangle : pas de défaut phase-neutre', () => {
+    const nodes = [mkNode('src', true), mkNode('n1')].map(n => ({ ...n, connectionType: 'TRI_230V_3F' as const }));
+    const result = calculateShortCircuitCurrents(buildProject([mkCable('c1', 'src', 'n1', 100)], nodes, 'TRIPHASÉ_230V'));
+
+    expect(result.voltage_V).toBe(230);
+    expect(result.nodes).toHaveLength(2);
+    expect(result.nodes[1].Ik1_max_kA).toBeUndefined();
+    expect(result.nodes[1].Ik3_max_kA).toBeGreaterThan(0);
+  });
+});
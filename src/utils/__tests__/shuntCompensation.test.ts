@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createDefaultShuntBank, applyShuntBanks, getNextShuntSteps } from '@/utils/shuntCompensation';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { SimulationCalculator } from '@/utils/simulationCalculator';
+import { getNodeDeviationsPercent } from '@/utils/voltageIndicators';
+import type { Node, Cable, CableType, Project, ShuntBank, LoadModel, CalculationResult } from '@/types/network';
+
+// Charge inductive de 30 kW / 15 kVAr en bout de réseau (n2), 2 × 200 m de 35 mm²
+const buildProject = (loadModel: LoadModel = 'polyphase_equilibre'): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 0.9, cosPhiCharges: 0.9, cosPhiProductions: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig: { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 },
+  loadModel,
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0.0018, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [] },
+    {
+      id: 'n2', name: 'N2', lat: 0.0036, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V',
+      clients: [{ id: 'load', label: 'Charge', S_kVA: 0, P_kW: 30, Q_kVAr: 15 }], productions: []
+    }
+  ] as Node[],
+  cables: [
+    { id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1', coordinates: [{ lat: 0, lng: 0 }, { lat: 0.0018, lng: 0 }], length_m: 200 },
+    { id: 'c2', name: 'c2', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'n1', nodeBId: 'n2', coordinates: [{ lat: 0.0018, lng: 0 }, { lat: 0.0036, lng: 0 }], length_m: 200 }
+  ] as Cable[],
+  cableTypes: [
+    { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+  ] as CableType[]
+} as Project);
+
+const bank = (updates: Partial<ShuntBank> = {}): ShuntBank => ({
+  ...createDefaultShuntBank('b1', 'n2', 'Gradin 1'),
+  ratedPerPhase_kVAr: { A: 5, B: 5, C: 5 },
+  ...updates
+});
+
+const calculate = (project: Project): CalculationResult => new ElectricalCalculator(0.9, 0.9, 1).calculateScenario(
+  project.nodes, project.cables, project.cableTypes, 'PRÉLÈVEMENT',
+  100, 100, project.transformerConfig, project.loadModel, project.desequilibrePourcent
+);
+
+const voltageAt = (result: CalculationResult, nodeId: string) =>
+  230 * (1 + getNodeDeviationsPercent(result, nodeId)!.A / 100);
+
+const allStepsOn = (banks: ShuntBank[]) => new Map(banks.map(b => [b.id, b.steps]));
+
+describe('Compensation réactive shunt', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterAll(() => { vi.restoreAllMocks(); });
+
+  it('condensateur : relève la tension et réduit le transit réactif amont', () => {
+    const project = buildProject();
+    const banks = [bank({ ratedPerPhase_kVAr: { A: 5, B: 5, C: 5 } })];
+    const baseline = calculate(project);
+    const compensated = calculate(applyShuntBanks(project, banks, allStepsOn(banks)));
+
+    expect(voltageAt(compensated, 'n2')).toBeGreaterThan(voltageAt(baseline, 'n2'));
+    const qBefore = baseline.cablePowerFlows!.find(f => f.cableId === 'c1')!.Q_kVAr;
+    const qAfter = compensated.cablePowerFlows!.find(f => f.cableId === 'c1')!.Q_kVAr;
+    expect(qBefore).toBeGreaterThan(0);
+    // Impédance constante : 15 kVAr assignés réduits comme (U / 230)², aux pertes réactives des câbles près
+    const expected = 15 * Math.pow(voltageAt(compensated, 'n2') / 230, 2);
+    expect(expected).toBeLessThan(12);
+    expect(Math.abs(qBefore - qAfter - expected)).toBeLessThan(0.5);
+  });
+
+  it('réactance : abaisse la tension et augmente le transit réactif', () => {
+    const project = buildProject();
+    const banks = [bank({ type: 'reactor' })];
+    const baseline = calculate(project);
+    const compensated = calculate(applyShuntBanks(project, banks, allStepsOn(banks)));
+
+    expect(voltageAt(compensated, 'n2')).toBeLessThan(voltageAt(baseline, 'n2'));
+    expect(compensated.cablePowerFlows!.find(f => f.cableId === 'c1')!.Q_kVAr)
+      .toBeGreaterThan(baseline.cablePowerFlows!.find(f => f.cableId === 'c1')!.Q_kVAr);
+  });
+
+  it('transits réactifs également publiés en mode déséquilibré', () => {
+    const project = buildProject('monophase_reparti');
+    const banks = [bank()];
+    const baseline = calculate(project);
+    const compensated = calculate(applyShuntBanks(project, banks, allStepsOn(banks)));
+
+    const c1 = baseline.cablePowerFlows!.find(f => f.cableId === 'c1')!;
+    expect(c1.P_kW).toBeGreaterThan(30);
+    expect(c1.Q_kVAr).toBeGreaterThan(0);
+    expect(compensated.cablePowerFlows!.find(f => f.cableId === 'c1')!.Q_kVAr).toBeLessThan(c1.Q_kVAr - 10);
+  });
+
+  it('commande en tension : un gradin par itération, bande morte entre les seuils', () => {
+    const controlled = bank({ switching: 'voltage_controlled', steps: 3, voltageLow_V: 220, voltageHigh_V: 240 });
+
+    expect(getNextShuntSteps(controlled, 215, 1)).toBe(2);
+    expect(getNextShuntSteps(controlled, 230, 1)).toBe(1);
+    expect(getNextShuntSteps(controlled, 245, 1)).toBe(0);
+    expect(getNextShuntSteps(controlled, 215, 3)).toBe(3);
+    expect(getNextShuntSteps({ ...controlled, type: 'reactor' }, 245, 1)).toBe(2);
+    expect(getNextShuntSteps({ ...controlled, switching: 'fixed' }, 245, 0)).toBe(3);
+  });
+
+  it('simulation : gradins enclenchés jusqu\'à remonter au-dessus du seuil bas', () => {
+    const project = buildProject();
+    const baselineVoltage = voltageAt(calculate(project), 'n2');
+    const controlled = bank({
+      switching: 'voltage_controlled',
+      steps: 4,
+      ratedPerPhase_kVAr: { A: 20, B: 20, C: 20 },
+      voltageLow_V: baselineVoltage + 1,
+      voltageHigh_V: 240
+    });
+    const { result, stepsOn } = new SimulationCalculator(0.9, 0.9, 1)
+      .calculateShuntBankSwitching(project, 'PRÉLÈVEMENT', [controlled]);
+
+    expect(stepsOn.get('b1')).toBeGreaterThan(0);
+    expect(stepsOn.get('b1')).toBeLessThan(4);
+    expect(voltageAt(result, 'n2')).toBeGreaterThan(controlled.voltageLow_V);
+  });
+});
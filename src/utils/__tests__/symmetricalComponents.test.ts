@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { computeSequenceComponents, calculateNodeSequenceVoltages, getUnbalanceCompliance } from '@/utils/symmetricalComponents';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { fromPolar, abs } from '@/utils/complex';
+import type { Node, Cable, CableType, CalculationScenario, TransformerConfig } from '@/types/network';
+
+const deg = (d: number) => (d * Math.PI) / 180;
+
+const phasor = (phase: 'A' | 'B' | 'C', mag: number, angleDeg: number) => {
+  const v = fromPolar(mag, deg(angleDeg));
+  return { nodeId: 'n', phase, V_real: v.re, V_imag: v.im, V_phase_V: mag, V_angle_deg: angleDeg };
+};
+
+describe('Composantes symétriques', () => {
+  it('système équilibré direct : V1 seul', () => {
+    const { V0, V1, V2 } = computeSequenceComponents(
+      fromPolar(230, 0), fromPolar(230, deg(-120)), fromPolar(230, deg(120))
+    );
+    expect(abs(V1)).toBeCloseTo(230, 9);
+    expect(abs(V2)).toBeCloseTo(0, 9);
+    expect(abs(V0)).toBeCloseTo(0, 9);
+  });
+
+  it('chute de 10% sur une phase : u2 ≈ 3,4%', () => {
+    const [node] = calculateNodeSequenceVoltages([phasor('A', 207, 0), phasor('B', 230, -120), phasor('C', 230, 120)]);
+
+    // V1 = (207 + 2×230) / 3, V2 = V0 = (207 - 230) / 3
+    expect(node.V1_V).toBeCloseTo(222.333, 2);
+    expect(node.V2_V).toBeCloseTo(7.667, 2);
+    expect(node.unbalanceFactor_percent).toBeCloseTo(7.667 / 222.333 * 100, 2);
+    expect(node.compliant).toBe(false);
+  });
+
+  it('conformité : vigilance entre 1,5% et 2%, critique au-delà', () => {
+    const sequence = (unbalanceFactor_percent: number) => ({
+      nodeId: 'n', V0_V: 0, V1_V: 230, V2_V: 0, unbalanceFactor_percent, zeroSequenceFactor_percent: 0,
+      compliant: unbalanceFactor_percent <= 2
+    });
+    expect(getUnbalanceCompliance([sequence(0.5), sequence(1.2)])).toBe('normal');
+    expect(getUnbalanceCompliance([sequence(0.5), sequence(1.8)])).toBe('warning');
+    expect(getUnbalanceCompliance([sequence(1.8), sequence(2.4)])).toBe('critical');
+  });
+
+  it('calcul déséquilibré : tensions de séquence fournies par le solveur', () => {
+    const nodes: Node[] = [
+      { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+      { id: 'n1', name: 'N1', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [{ id: 'c', label: 'c', S_kVA: 15 }], productions: [] }
+    ];
+    const cables: Cable[] = [{
+      id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1',
+      coordinates: [{ lat: 0, lng: 0 }, { lat: 0.002, lng: 0 }]
+    }];
+    const cableTypes: CableType[] = [{
+      id: 't1', label: 't1', R12_ohm_per_km: 0.4, X12_ohm_per_km: 0.1, R0_ohm_per_km: 1.2, X0_ohm_per_km: 0.3, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN']
+    }];
+    const transformer: TransformerConfig = { rating: '160kVA', nominalPower_kVA: 160, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 0.95 };
+    const calc = new ElectricalCalculator(1.0);
+
+    const result = calc.calculateScenario(
+      nodes, cables, cableTypes, 'PRÉLÈVEMENT' as CalculationScenario, 100, 100, transformer, 'monophase_reparti', 0,
+      { charges: { A: 100, B: 0, C: 0 }, productions: { A: 33.33, B: 33.33, C: 33.34 } }
+    );
+
+    const n1 = result.nodeSequenceVoltages?.find(s => s.nodeId === 'n1');
+    expect(n1).toBeTruthy();
+    expect(n1!.unbalanceFactor_percent).toBeGreaterThan(0.1);
+    expect(result.unbalanceCompliance).toBe(getUnbalanceCompliance(result.nodeSequenceVoltages!));
+  });
+});
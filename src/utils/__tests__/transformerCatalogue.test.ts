@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { applyTransformerType, getTransformerZeroSequenceImpedance, migrateTransformerTypeId } from '@/utils/transformerCatalogue';
+import { getTransformerImpedance, calculateShortCircuitCurrents } from '@/utils/shortCircuitCalculator';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { defaultTransformerTypes } from '@/data/defaultTransformerTypes';
+import { abs } from '@/utils/complex';
+import type { Node, Cable, CableType, Project, TransformerConfig } from '@/types/network';
+
+const baseConfig: TransformerConfig = { rating: '160kVA', nominalPower_kVA: 160, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 0.95, tapPosition_percent: 2.5 };
+
+const dyn = defaultTransformerTypes.find(t => t.id === 'cab-160')!;
+const yzn = defaultTransformerTypes.find(t => t.id === 'h61-160')!;
+
+const cableTypes: CableType[] = [
+  { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+];
+
+const buildProject = (transformerConfig: TransformerConfig): Project => ({
+  id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1,
+  foisonnementCharges: 100, foisonnementProductions: 100,
+  defaultChargeKVA: 5, defaultProductionKVA: 5,
+  transformerConfig,
+  loadModel: 'monophase_reparti',
+  desequilibrePourcent: 0,
+  nodes: [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    { id: 'n1', name: 'N1', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [{ id: 'c', label: 'c', S_kVA: 30 }], productions: [] }
+  ] as Node[],
+  cables: [{
+    id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1',
+    coordinates: [{ lat: 0, lng: 0 }, { lat: 0.001, lng: 0 }],
+    length_m: 100
+  }] as Cable[],
+  cableTypes
+} as Project);
+
+// Charge entièrement sur la phase A : courant homopolaire maximal
+const runUnbalanced = (transformerConfig: TransformerConfig) => {
+  const project = buildProject(transformerConfig);
+  return new ElectricalCalculator(1).calculateScenario(
+    project.nodes, project.cables, project.cableTypes, 'PRÉLÈVEMENT', 100, 100, transformerConfig, 'monophase_reparti', 0,
+    { charges: { A: 100, B: 0, C: 0 }, productions: { A: 33.33, B: 33.33, C: 33.34 } }
+  );
+};
+
+describe('Catalogue transformateurs', () => {
+  it('recopie une entrée du catalogue en conservant tension et prise', () => {
+    const config = applyTransformerType(baseConfig, defaultTransformerTypes.find(t => t.id === 'cab-1000')!);
+
+    expect(config.typeId).toBe('cab-1000');
+    expect(config.rating).toBe('1000kVA');
+    expect(config.nominalPower_kVA).toBe(1000);
+    expect(config.shortCircuitVoltage_percent).toBe(6);
+    expect(config.nominalVoltage_V).toBe(400);
+    expect(config.tapPosition_percent).toBe(2.5);
+  });
+
+  it('Z0 = Z1 sans donnée catalogue, Z0 << Z1 pour un Yzn11', () => {
+    const Z1 = getTransformerImpedance(baseConfig, 400);
+    expect(getTransformerZeroSequenceImpedance(baseConfig, 400, Z1)).toEqual(Z1);
+
+    const yznConfig = applyTransformerType(baseConfig, yzn);
+    const Z1y = getTransformerImpedance(yznConfig, 400);
+    const Z0y = getTransformerZeroSequenceImpedance(yznConfig, 400, Z1y);
+    expect(abs(Z0y) / abs(Z1y)).toBeCloseTo(0.1, 6);
+  });
+
+  it('déséquilibre 400V : le Yzn11 limite le déplacement du neutre par rapport au Dyn11', () => {
+    const resultDyn = runUnbalanced(applyTransformerType(baseConfig, dyn));
+    const resultYzn = runUnbalanced(applyTransformerType(baseConfig, yzn));
+    const phaseA = (r: ReturnType<typeof runUnbalanced>) =>
+      r.nodeMetricsPerPhase!.find(m => m.nodeId === 'n1')!.voltagesPerPhase.A;
+
+    // Même Z1 : seule l'impédance homopolaire diffère
+    expect(phaseA(resultYzn)).toBeGreaterThan(phaseA(resultDyn));
+    expect(resultYzn.virtualBusbar?.neutralShift_V).toBeGreaterThan(resultDyn.virtualBusbar?.neutralShift_V ?? 0);
+  });
+
+  it('court-circuit phase-neutre plus élevé avec un Yzn11', () => {
+    const ik1 = (config: TransformerConfig) =>
+      calculateShortCircuitCurrents(buildProject(config)).nodes.find(n => n.nodeId === 'src')!.Ik1_max_kA!;
+
+    expect(ik1(applyTransformerType(baseConfig, yzn))).toBeGreaterThan(ik1(applyTransformerType(baseConfig, dyn)));
+  });
+
+  it('ancien projet : typeId déduit de la puissance et de l\'Ucc, configuration inchangée', () => {
+    const migrated = migrateTransformerTypeId(baseConfig, defaultTransformerTypes);
+    expect(migrated).toEqual({ ...baseConfig, typeId: 'cab-160' });
+
+    const selected = applyTransformerType(baseConfig, yzn);
+    expect(migrateTransformerTypeId(selected, defaultTransformerTypes)).toBe(selected);
+    expect(migrateTransformerTypeId({ ...baseConfig, nominalPower_kVA: 125 }, defaultTransformerTypes).typeId).toBeUndefined();
+  });
+});
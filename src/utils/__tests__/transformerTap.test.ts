@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { findBestTapPosition, getTapFactor } from '@/utils/transformerTap';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import type { Node, Cable, CableType, Project, TransformerConfig, TransformerTapPosition } from '@/types/network';
+
+const cableTypes: CableType[] = [
+  { id: 't1', label: '35', R12_ohm_per_km: 0.868, X12_ohm_per_km: 0.1, R0_ohm_per_km: 3.5, X0_ohm_per_km: 0.4, matiere: 'ALUMINIUM', posesPermises: ['AÉRIEN'] }
+];
+
+const transformer: TransformerConfig = { rating: '250kVA', nominalPower_kVA: 250, nominalVoltage_V: 400, shortCircuitVoltage_percent: 4, cosPhi: 1 };
+
+const buildProject = (chargeKVA: number, productionKVA: number, tap?: TransformerTapPosition): Project => {
+  const nodes: Node[] = [
+    { id: 'src', name: 'Source', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V', clients: [], productions: [], isSource: true },
+    {
+      id: 'n1', name: 'N1', lat: 0, lng: 0, connectionType: 'TÉTRA_3P+N_230_400V',
+      clients: [{ id: 'c', label: 'c', S_kVA: chargeKVA }],
+      productions: [{ id: 'p', label: 'p', S_kVA: productionKVA }]
+    }
+  ];
+  const cables: Cable[] = [{
+    id: 'c1', name: 'c1', typeId: 't1', pose: 'AÉRIEN', nodeAId: 'src', nodeBId: 'n1',
+    coordinates: [{ lat: 0, lng: 0 }, { lat: 0.003, lng: 0 }],
+    length_m: 300
+  }];
+  return {
+    id: 'p', name: 'Test', voltageSystem: 'TÉTRAPHASÉ_400V', cosPhi: 1,
+    foisonnementCharges: 100, foisonnementProductions: 100,
+    defaultChargeKVA: 5, defaultProductionKVA: 5,
+    transformerConfig: { ...transformer, tapPosition_percent: tap },
+    loadModel: 'polyphase_equilibre',
+    desequilibrePourcent: 0,
+    nodes, cables, cableTypes
+  } as Project;
+};
+
+describe('Prise hors tension du transformateur', () => {
+  it('décale la tension source BT', () => {
+    const calc = new ElectricalCalculator(1);
+    expect(getTapFactor({ ...transformer, tapPosition_percent: 2.5 })).toBeCloseTo(1.025, 9);
+    expect(calc.calculateSourceVoltage({ ...transformer, tapPosition_percent: -5 }, 20000, 20000, 400)).toBeCloseTo(380, 6);
+    expect(calc.calculateSourceVoltage(transformer, 20000, 20000, 400)).toBeCloseTo(400, 6);
+  });
+
+  it('relève la tension des nœuds d\'environ la valeur de la prise', () => {
+    const calc = new ElectricalCalculator(1);
+    const voltageAt = (tap: TransformerTapPosition) => {
+      const project = buildProject(5, 0, tap);
+      const result = calc.calculateScenario(
+        project.nodes, project.cables, project.cableTypes, 'PRÉLÈVEMENT', 100, 100, project.transformerConfig, 'polyphase_equilibre', 0
+      );
+      return result.nodeMetrics!.find(n => n.nodeId === 'n1')!.V_phase_V;
+    };
+
+    expect(voltageAt(5) / voltageAt(0)).toBeCloseTo(1.05, 2);
+  });
+
+  it('réseau très chargé sans production : prise haute recommandée', () => {
+    const study = findBestTapPosition(buildProject(60, 0));
+
+    expect(study.options).toHaveLength(5);
+    expect(study.bestTap).toBeGreaterThan(0);
+    expect(study.currentTap).toBe(0);
+    expect(study.improvementPercent).toBeGreaterThan(0);
+  });
+
+  it('forte injection sans consommation : prise basse recommandée', () => {
+    const study = findBestTapPosition(buildProject(0, 60));
+
+    expect(study.bestTap).toBeLessThan(0);
+  });
+});
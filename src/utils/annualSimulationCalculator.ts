@@ -0,0 +1,393 @@
+import {
+  DailyProfileConfig,
+  AnnualSimulationOptions,
+  AnnualSimulationResult,
+  AnnualNodeResult,
+  AnnualMonthResult,
+  VoltageDurationPoint,
+  HourlyProfile,
+  SRG2HourlyActivation,
+  Season
+} from '@/types/dailyProfile';
+import { Project, SimulationEquipment, CalculationResult } from '@/types/network';
+import { SRG2SwitchState } from '@/types/srg2';
+import { DailyProfileCalculator } from './dailyProfileCalculator';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+import { withTrippedPV } from './pvTripping';
+import { createEnergyLossesBreakdown, getStepLosses, accumulateStepLosses, StepLosses } from './energyLosses';
+import { monthlyProfileFactors, dayTypeFactors, DayType } from '@/data/annualProfiles';
+import defaultProfiles from '@/data/hourlyProfiles.json';
+
+// Tension de référence phase-neutre et limites EN50160 (±10%)
+const NOMINAL_VOLTAGE = 230;
+const HIGH_LIMIT_V = NOMINAL_VOLTAGE * 1.10;
+const LOW_LIMIT_V = NOMINAL_VOLTAGE * 0.90;
+
+// Nombre de points des monotones de tension (0% à 100% par pas de 1%)
+const DURATION_CURVE_POINTS = 101;
+
+const DAYS_PER_YEAR = 365;
+
+type SRG2TapPositions = Map<string, { A: SRG2SwitchState; B: SRG2SwitchState; C: SRG2SwitchState }>;
+
+interface StepSummary {
+  maxVoltages: Float64Array;   // Tension max des 3 phases par nœud (V)
+  minVoltages: Float64Array;   // Tension min des 3 phases par nœud (V)
+  cableLosses_kW: number;
+  losses: StepLosses;
+  srg2States?: SRG2HourlyActivation[];
+  curtailedNodes: number[];    // Index des nœuds dont la production PV est découplée
+}
+
+/**
+ * Simulation annuelle (8760 h ou 35040 pas de 15 min)
+ *
+ * Les profils journaliers (saison/météo) sont modulés par mois et par type de
+ * jour (semaine, samedi, dimanche). Chaque pas est calculé via
+ * DailyProfileCalculator.calculateNetworkStep : la simulation active
+ * (SRG2, EQUI8, remplacement de câbles) est donc incluse.
+ *
+ * 🔑 MÉMOIRE MÉCANIQUE SRG2: la position de prise est conservée d'un pas à
+ * l'autre sur toute l'année, comme dans le calcul journalier.
+ *
+ * ⚡ Les pas aux foisonnements identiques (même état SRG2) ne sont calculés
+ * qu'une fois : le nombre de calculs de réseau reste de l'ordre de quelques
+ * milliers en pas horaire.
+ *
+ * ☀️ Écrêtement PV: découplage en cascade comme les onduleurs, la production du
+ * nœud le plus haut au-delà de 253V est retirée puis le réseau recalculé jusqu'à
+ * ce qu'aucun nœud producteur ne dépasse 253V. Les tensions et pertes du pas
+ * restent celles du réseau avant découplage (contraintes vues par le réseau).
+ */
+export class AnnualSimulationCalculator {
+  private project: Project;
+  private options: AnnualSimulationOptions;
+  private profiles: DailyProfileConfig;
+  private stepCalculator: DailyProfileCalculator;
+  // Calculateurs des pas recalculés sans la production des nœuds découplés (par ensemble de nœuds)
+  private curtailedCalculators = new Map<string, DailyProfileCalculator>();
+  private simulationEquipment?: SimulationEquipment;
+  private isSimulationActive: boolean;
+  private hasSRG2: boolean;
+
+  constructor(
+    project: Project,
+    options: AnnualSimulationOptions,
+    customProfiles?: DailyProfileConfig,
+    simulationEquipment?: SimulationEquipment,
+    isSimulationActive: boolean = false
+  ) {
+    this.project = project;
+    this.options = options;
+    this.profiles = customProfiles || (defaultProfiles as DailyProfileConfig);
+    this.simulationEquipment = simulationEquipment;
+    this.isSimulationActive = isSimulationActive;
+    this.hasSRG2 = isSimulationActive && !!simulationEquipment?.srg2Devices?.some(s => s.enabled);
+    this.stepCalculator = this.createStepCalculator(project);
+  }
+
+  private createStepCalculator(project: Project): DailyProfileCalculator {
+    return new DailyProfileCalculator(
+      project,
+      {
+        season: 'winter',
+        weather: 'sunny',
+        enableEV: this.options.enableEV,
+        evBonusEvening: this.options.evBonusEvening,
+        evBonusNight: this.options.evBonusNight,
+        selectedNodeId: ''
+      },
+      this.profiles,
+      this.simulationEquipment,
+      this.isSimulationActive
+    );
+  }
+
+  calculateAnnual(): AnnualSimulationResult {
+    const { year, stepMinutes } = this.options;
+    const stepsPerHour = 60 / stepMinutes;
+    const dt_h = stepMinutes / 60;
+    const stepCount = DAYS_PER_YEAR * 24 * stepsPerHour;
+
+    const nodes = this.project.nodes.filter(n => !n.isSource);
+    const pvInstalled_kW = nodes.map(n => this.getInstalledPV(n.id) * (this.project.cosPhiProductions ?? 1));
+    const maxSeries = nodes.map(() => new Float32Array(stepCount));
+    const minSeries = nodes.map(() => new Float32Array(stepCount));
+    const nodeCurtailed = new Array(nodes.length).fill(0);
+    const totalPVInstalled_kW = pvInstalled_kW.reduce((sum, p) => sum + p, 0);
+
+    const months: AnnualMonthResult[] = monthlyProfileFactors.map(m => ({
+      month: m.month, label: m.label, losses_kWh: 0, pvCurtailed_kWh: 0, hoursOutOfLimits: 0
+    }));
+
+    let cableLosses_kWh = 0;
+    const energyLosses = createEnergyLossesBreakdown();
+    let hoursOutOfLimits = 0;
+    let pvProducible_kWh = 0;
+    let pvCurtailed_kWh = 0;
+
+    // 🔑 Mémoire mécanique SRG2 (position initiale : état courant ou bypass)
+    const tapPositions: SRG2TapPositions = new Map();
+    if (this.hasSRG2) {
+      for (const srg2 of this.simulationEquipment!.srg2Devices!.filter(s => s.enabled)) {
+        tapPositions.set(srg2.id, srg2.etatCommutateur || { A: 'BYP', B: 'BYP', C: 'BYP' });
+      }
+    }
+    const cache = new Map<string, StepSummary>();
+    let step = 0;
+
+    for (let day = 0; day < DAYS_PER_YEAR; day++) {
+      const date = new Date(year, 0, 1 + day);
+      const monthFactors = monthlyProfileFactors[date.getMonth()];
+      const dayFactors = dayTypeFactors[this.getDayType(date)];
+      const seasonProfile = this.profiles.profiles[monthFactors.season];
+      const weatherFactor = this.profiles.weatherFactors[this.isSunnyDay(date, monthFactors.sunnyDaysRatio) ? 'sunny' : 'gray'];
+      const month = months[date.getMonth()];
+
+      for (let hour = 0; hour < 24; hour++) {
+        const evBonus = this.stepCalculator.getEVBonus(hour);
+
+        for (let q = 0; q < stepsPerHour; q++) {
+          const fraction = q / stepsPerHour;
+          const foisonnements = {
+            residential: Math.min(100, this.interpolate(seasonProfile.residential, hour, fraction) * monthFactors.loadFactor * dayFactors.residential + evBonus),
+            industrial: Math.min(100, this.interpolate(seasonProfile.industrial_pme, hour, fraction) * monthFactors.loadFactor * dayFactors.industrial),
+            productions: Math.min(100, this.interpolate(seasonProfile.pv, hour, fraction) * monthFactors.pvFactor * weatherFactor)
+          };
+
+          const key = [
+            foisonnements.residential.toFixed(2),
+            foisonnements.industrial.toFixed(2),
+            foisonnements.productions.toFixed(2),
+            monthFactors.season,
+            this.hasSRG2 ? JSON.stringify([...tapPositions.entries()]) : ''
+          ].join('|');
+
+          let summary = cache.get(key);
+          if (!summary) {
+            summary = this.solveStep(nodes.map(n => n.id), pvInstalled_kW, foisonnements, monthFactors.season, tapPositions);
+            cache.set(key, summary);
+          }
+
+          // Mise à jour de la mémoire SRG2 pour le pas suivant
+          for (const state of summary.srg2States || []) {
+            tapPositions.set(state.srg2Id, state.switchStates);
+          }
+
+          let outOfLimits = false;
+          const pvFactor = foisonnements.productions / 100;
+          for (let i = 0; i < nodes.length; i++) {
+            const vMax = summary.maxVoltages[i];
+            const vMin = summary.minVoltages[i];
+            maxSeries[i][step] = vMax;
+            minSeries[i][step] = vMin;
+            if (vMax > HIGH_LIMIT_V || vMin < LOW_LIMIT_V) outOfLimits = true;
+          }
+          for (const i of summary.curtailedNodes) {
+            const curtailed = pvInstalled_kW[i] * pvFactor * dt_h;
+            nodeCurtailed[i] += curtailed;
+            pvCurtailed_kWh += curtailed;
+            month.pvCurtailed_kWh += curtailed;
+          }
+
+          const stepLosses_kWh = summary.cableLosses_kW * dt_h;
+          cableLosses_kWh += stepLosses_kWh;
+          month.losses_kWh += stepLosses_kWh;
+          accumulateStepLosses(energyLosses, summary.losses, dt_h);
+          pvProducible_kWh += totalPVInstalled_kW * pvFactor * dt_h;
+          if (outOfLimits) {
+            hoursOutOfLimits += dt_h;
+            month.hoursOutOfLimits += dt_h;
+          }
+          step++;
+        }
+      }
+    }
+
+    // Pertes fer : transformateur sous tension toute l'année (intégrées pas à pas)
+    const transformerLosses_kWh = energyLosses.transformerCopper_kWh + energyLosses.transformerIron_kWh;
+
+    const nodeResults: AnnualNodeResult[] = nodes.map((node, i) => {
+      const maxValues = maxSeries[i];
+      const minValues = minSeries[i];
+      let hoursOver = 0;
+      let hoursUnder = 0;
+      for (let s = 0; s < stepCount; s++) {
+        if (maxValues[s] > HIGH_LIMIT_V) hoursOver += dt_h;
+        if (minValues[s] < LOW_LIMIT_V) hoursUnder += dt_h;
+      }
+      const durationCurve = this.buildDurationCurve(maxValues, minValues);
+      return {
+        nodeId: node.id,
+        nodeName: node.name,
+        minVoltage_V: durationCurve[0].voltageMin_V,
+        maxVoltage_V: durationCurve[0].voltageMax_V,
+        hoursOverVoltage: hoursOver,
+        hoursUnderVoltage: hoursUnder,
+        durationCurve,
+        pvCurtailed_kWh: nodeCurtailed[i]
+      };
+    });
+
+    console.log(`📅 Simulation annuelle ${year}: ${stepCount} pas, ${cache.size} calculs réseau, ${hoursOutOfLimits.toFixed(0)}h hors limites`);
+
+    return {
+      year,
+      stepMinutes,
+      stepCount,
+      solvedSteps: cache.size,
+      nodes: nodeResults,
+      months,
+      cableLosses_kWh,
+      transformerLosses_kWh,
+      hoursOutOfLimits,
+      pvProducible_kWh,
+      pvCurtailed_kWh,
+      energyLosses
+    };
+  }
+
+  /**
+   * Calcule un pas de temps et extrait les tensions min/max des nœuds
+   */
+  private solveStep(
+    nodeIds: string[],
+    pvInstalled_kW: number[],
+    foisonnements: { residential: number; industrial: number; productions: number },
+    season: Season,
+    tapPositions: SRG2TapPositions
+  ): StepSummary {
+    const { result, srg2States } = this.stepCalculator.calculateNetworkStep(foisonnements, season, tapPositions);
+    const { maxVoltages, minVoltages } = this.getNodeVoltages(nodeIds, result);
+
+    return {
+      maxVoltages,
+      minVoltages,
+      cableLosses_kW: result.globalLosses_kW || 0,
+      losses: getStepLosses(result, this.project),
+      srg2States,
+      curtailedNodes: this.findCurtailedNodes(nodeIds, pvInstalled_kW, maxVoltages, foisonnements, season, tapPositions)
+    };
+  }
+
+  /**
+   * Tensions min/max des 3 phases par nœud (nominale si le nœud n'est pas calculé)
+   */
+  private getNodeVoltages(nodeIds: string[], result: CalculationResult): { maxVoltages: Float64Array; minVoltages: Float64Array } {
+    const maxVoltages = new Float64Array(nodeIds.length).fill(NOMINAL_VOLTAGE);
+    const minVoltages = new Float64Array(nodeIds.length).fill(NOMINAL_VOLTAGE);
+    nodeIds.forEach((nodeId, i) => {
+      const deviations = getNodeDeviationsPercent(result, nodeId);
+      if (!deviations) return;
+      const values = [deviations.A, deviations.B, deviations.C];
+      maxVoltages[i] = NOMINAL_VOLTAGE * (1 + Math.max(...values) / 100);
+      minVoltages[i] = NOMINAL_VOLTAGE * (1 + Math.min(...values) / 100);
+    });
+    return { maxVoltages, minVoltages };
+  }
+
+  /**
+   * Découplage PV en cascade : production du nœud producteur le plus haut au-delà de 253V
+   * retirée, réseau recalculé, jusqu'à ce qu'aucun nœud producteur couplé ne dépasse 253V
+   */
+  private findCurtailedNodes(
+    nodeIds: string[],
+    pvInstalled_kW: number[],
+    maxVoltages: Float64Array,
+    foisonnements: { residential: number; industrial: number; productions: number },
+    season: Season,
+    tapPositions: SRG2TapPositions
+  ): number[] {
+    const curtailed: number[] = [];
+    let voltages = maxVoltages;
+    for (;;) {
+      let worst = -1;
+      for (let i = 0; i < nodeIds.length; i++) {
+        if (pvInstalled_kW[i] <= 0 || curtailed.includes(i) || voltages[i] <= HIGH_LIMIT_V) continue;
+        if (worst < 0 || voltages[i] > voltages[worst]) worst = i;
+      }
+      if (worst < 0) return curtailed;
+      curtailed.push(worst);
+      if (curtailed.length === pvInstalled_kW.filter(p => p > 0).length) return curtailed;
+
+      const { result } = this.getCurtailedCalculator(curtailed.map(i => nodeIds[i]))
+        .calculateNetworkStep(foisonnements, season, new Map(tapPositions));
+      voltages = this.getNodeVoltages(nodeIds, result).maxVoltages;
+    }
+  }
+
+  /**
+   * Calculateur du projet sans la production PV (productions et clients liés) des nœuds donnés
+   */
+  private getCurtailedCalculator(curtailedNodeIds: string[]): DailyProfileCalculator {
+    const key = [...curtailedNodeIds].sort().join('|');
+    let calculator = this.curtailedCalculators.get(key);
+    if (!calculator) {
+      const nodeIds = new Set(curtailedNodeIds);
+      const clientIds = new Set(
+        (this.project.clientLinks ?? []).filter(l => nodeIds.has(l.nodeId)).map(l => l.clientId)
+      );
+      const project = withTrippedPV(this.project, clientIds);
+      calculator = this.createStepCalculator({
+        ...project,
+        nodes: project.nodes.map(n => nodeIds.has(n.id) ? { ...n, productions: [] } : n)
+      });
+      this.curtailedCalculators.set(key, calculator);
+    }
+    return calculator;
+  }
+
+  /**
+   * Monotones de tension : max triée décroissante, min triée croissante
+   */
+  private buildDurationCurve(maxValues: Float32Array, minValues: Float32Array): VoltageDurationPoint[] {
+    const sortedMax = Float32Array.from(maxValues).sort().reverse();
+    const sortedMin = Float32Array.from(minValues).sort();
+    const n = sortedMax.length;
+    const points: VoltageDurationPoint[] = [];
+    for (let i = 0; i < DURATION_CURVE_POINTS; i++) {
+      const percentTime = (i / (DURATION_CURVE_POINTS - 1)) * 100;
+      const index = Math.min(n - 1, Math.floor((percentTime / 100) * (n - 1)));
+      points.push({ percentTime, voltageMax_V: sortedMax[index], voltageMin_V: sortedMin[index] });
+    }
+    return points;
+  }
+
+  /**
+   * Valeur de profil interpolée linéairement entre deux heures (pas de 15 min)
+   */
+  private interpolate(profile: HourlyProfile, hour: number, fraction: number): number {
+    const current = profile[hour.toString()] || 0;
+    if (fraction === 0) return current;
+    const next = profile[((hour + 1) % 24).toString()] || 0;
+    return current + (next - current) * fraction;
+  }
+
+  private getDayType(date: Date): DayType {
+    const weekday = date.getDay();
+    if (weekday === 6) return 'saturday';
+    if (weekday === 0) return 'sunday';
+    return 'weekday';
+  }
+
+  /**
+   * Répartition régulière des jours ensoleillés dans le mois
+   */
+  private isSunnyDay(date: Date, sunnyDaysRatio: number): boolean {
+    const dayIndex = date.getDate() - 1;
+    return Math.floor((dayIndex + 1) * sunnyDaysRatio) > Math.floor(dayIndex * sunnyDaysRatio);
+  }
+
+  /**
+   * Puissance PV installée sur un nœud (productions + clients liés), kVA
+   */
+  private getInstalledPV(nodeId: string): number {
+    const node = this.project.nodes.find(n => n.id === nodeId);
+    let total = (node?.productions || []).reduce((sum, p) => sum + (p.S_kVA || 0), 0);
+    const clients = this.project.clientsImportes || [];
+    for (const link of (this.project.clientLinks || []).filter(l => l.nodeId === nodeId)) {
+      total += clients.find(c => c.id === link.clientId)?.puissancePV_kVA || 0;
+    }
+    return total;
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  Project,
+  CalculationResult,
+  CalculationScenario,
+  BatteryStorage,
+  BatteryDispatchResult,
+  BatterySimulationSummary
+} from '@/types/network';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+import { getLinkedClientsForNode } from './clientsUtils';
+import { getMaxTransformerLoading } from './transformerCatalogue';
+
+const NOMINAL_VOLTAGE_V = 230;
+
+// Préfixe des charges virtuelles portant la puissance des batteries dans le projet de calcul
+const BATTERY_ITEM_PREFIX = 'battery-';
+
+/**
+ * Batterie par défaut : 10 kW / 20 kWh en autoconsommation, écrêtage visé à 80% du transformateur
+ */
+export const createDefaultBattery = (id: string, nodeId: string, name: string, transformerPower_kVA: number): BatteryStorage => ({
+  id,
+  nodeId,
+  name,
+  enabled: true,
+  power_kW: 10,
+  capacity_kWh: 20,
+  initialSoC_percent: 50,
+  minSoC_percent: 10,
+  maxSoC_percent: 95,
+  efficiency_percent: 90,
+  strategy: 'pv_self_consumption',
+  peakShavingThreshold_kVA: Math.round(transformerPower_kVA * 0.8),
+  voltageHigh_V: 245,
+  voltageLow_V: 215
+});
+
+/**
+ * Tension phase-neutre au nœud de la batterie : sa phase si monophasée, phase la plus haute sinon
+ */
+export const getBatteryNodeVoltage = (result: CalculationResult, battery: BatteryStorage): number | null => {
+  const deviations = getNodeDeviationsPercent(result, battery.nodeId);
+  if (!deviations) return null;
+  const deviation = battery.phase ? deviations[battery.phase] : Math.max(deviations.A, deviations.B, deviations.C);
+  return NOMINAL_VOLTAGE_V * (1 + deviation / 100);
+};
+
+/**
+ * Surplus actif du nœud (productions - charges foisonnées, kW) : clients liés et saisies manuelles
+ */
+export const getNodeSurplusPower = (project: Project, scenario: CalculationScenario, nodeId: string): number => {
+  const node = project.nodes.find(n => n.id === nodeId);
+  if (!node) return 0;
+  const linkedClients = getLinkedClientsForNode(nodeId, project.clientsImportes ?? [], project.clientLinks ?? []);
+  const residentiel = project.foisonnementChargesResidentiel ?? project.foisonnementCharges;
+  const industriel = project.foisonnementChargesIndustriel ?? project.foisonnementCharges;
+
+  const charges_kVA = scenario === 'PRODUCTION' ? 0 :
+    linkedClients.reduce((sum, c) => sum + c.puissanceContractuelle_kVA * (c.clientType === 'industriel' ? industriel : residentiel) / 100, 0) +
+    node.clients.reduce((sum, c) => sum + c.S_kVA * residentiel / 100, 0);
+  const productions_kVA = scenario === 'PRÉLÈVEMENT' ? 0 :
+    (linkedClients.reduce((sum, c) => sum + c.puissancePV_kVA, 0) + node.productions.reduce((sum, p) => sum + p.S_kVA, 0)) *
+    project.foisonnementProductions / 100;
+
+  return productions_kVA * (project.cosPhiProductions ?? 1) - charges_kVA * (project.cosPhiCharges ?? 0.95);
+};
+
+export interface BatteryContext {
+  nodeVoltage_V: number;
+  nodeSurplus_kW: number;
+  transformerPower_kVA: number;  // > 0 prélèvement sur le réseau amont
+}
+
+/**
+ * Puissance demandée par la stratégie (> 0 charge), bornée à la puissance de la batterie
+ */
+export const getStrategyRequest = (battery: BatteryStorage, context: BatteryContext): number => {
+  const clamp = (value: number) => Math.max(-battery.power_kW, Math.min(battery.power_kW, value));
+  switch (battery.strategy) {
+    case 'peak_shaving':
+      return clamp(battery.peakShavingThreshold_kVA - context.transformerPower_kVA);
+    case 'pv_self_consumption':
+      return clamp(context.nodeSurplus_kW);
+    case 'voltage_triggered':
+      if (context.nodeVoltage_V > battery.voltageHigh_V) return battery.power_kW;
+      if (context.nodeVoltage_V < battery.voltageLow_V) return -battery.power_kW;
+      return 0;
+  }
+};
+
+/**
+ * Limitation par l'état de charge sur la durée du pas ; le rendement aller-retour est réparti
+ * à parts égales entre la charge et la décharge.
+ */
+export const applySoCLimits = (
+  battery: BatteryStorage,
+  request_kW: number,
+  soc_percent: number,
+  duration_h: number
+): { power_kW: number; socEnd_percent: number } => {
+  if (battery.capacity_kWh <= 0 || duration_h <= 0 || request_kW === 0) {
+    return { power_kW: 0, socEnd_percent: soc_percent };
+  }
+  const eta = Math.sqrt(battery.efficiency_percent / 100);
+  if (request_kW > 0) {
+    const room_kWh = Math.max(0, battery.capacity_kWh * (battery.maxSoC_percent - soc_percent) / 100);
+    const power_kW = Math.min(request_kW, room_kWh / (eta * duration_h));
+    return { power_kW, socEnd_percent: soc_percent + power_kW * duration_h * eta / battery.capacity_kWh * 100 };
+  }
+  const available_kWh = Math.max(0, battery.capacity_kWh * (soc_percent - battery.minSoC_percent) / 100);
+  const power_kW = -Math.min(-request_kW, available_kWh * eta / duration_h);
+  return { power_kW, socEnd_percent: soc_percent + power_kW * duration_h / eta / battery.capacity_kWh * 100 };
+};
+
+/**
+ * Consignes des batteries sur un pas de calcul, décidées sur le réseau sans batterie.
+ * Les batteries sont pilotées l'une après l'autre : la puissance déjà engagée est retirée
+ * du besoin transformateur et du surplus du nœud vus par les suivantes.
+ * @param socs - État de charge de début de pas (initialSoC_percent à défaut)
+ */
+export const dispatchBatteries = (
+  project: Project,
+  scenario: CalculationScenario,
+  result: CalculationResult,
+  batteries: BatteryStorage[],
+  socs: Map<string, number>,
+  duration_h: number = 1
+): BatteryDispatchResult[] => {
+  let transformerPower_kVA = result.virtualBusbar?.netSkVA ?? (result.totalLoads_kVA - result.totalProductions_kVA);
+  const nodeSurplus = new Map<string, number>();
+
+  return batteries.map(battery => {
+    const socStart_percent = socs.get(battery.id) ?? battery.initialSoC_percent;
+    const voltageBefore_V = getBatteryNodeVoltage(result, battery) ?? NOMINAL_VOLTAGE_V;
+    if (!nodeSurplus.has(battery.nodeId)) {
+      nodeSurplus.set(battery.nodeId, getNodeSurplusPower(project, scenario, battery.nodeId));
+    }
+
+    const request_kW = getStrategyRequest(battery, {
+      nodeVoltage_V: voltageBefore_V,
+      nodeSurplus_kW: nodeSurplus.get(battery.nodeId)!,
+      transformerPower_kVA
+    });
+    const { power_kW, socEnd_percent } = applySoCLimits(battery, request_kW, socStart_percent, duration_h);
+    transformerPower_kVA += power_kW;
+    nodeSurplus.set(battery.nodeId, nodeSurplus.get(battery.nodeId)! - power_kW);
+
+    return {
+      batteryId: battery.id,
+      name: battery.name,
+      nodeId: battery.nodeId,
+      power_kW,
+      socStart_percent,
+      socEnd_percent,
+      voltageBefore_V,
+      voltageAfter_V: voltageBefore_V
+    };
+  });
+};
+
+/**
+ * Copie du projet où chaque batterie devient une charge virtuelle P de son nœud
+ * (négative en décharge) : le solveur l'intègre sans modification.
+ */
+export const applyBatteryDispatch = (
+  project: Project,
+  batteries: BatteryStorage[],
+  dispatch: BatteryDispatchResult[]
+): Project => {
+  const nodes = project.nodes.map(node => {
+    const items = batteries
+      .filter(b => b.nodeId === node.id)
+      .map(battery => ({
+        id: `${BATTERY_ITEM_PREFIX}${battery.id}`,
+        label: `Batterie ${battery.name}`,
+        S_kVA: 0,
+        P_kW: dispatch.find(d => d.batteryId === battery.id)?.power_kW ?? 0,
+        Q_kVAr: 0,
+        phase: battery.phase
+      }));
+    return items.length > 0 ? { ...node, clients: [...node.clients, ...items] } : node;
+  });
+  return { ...project, nodes };
+};
+
+/**
+ * Effet des batteries : tension au nœud après calcul et charge du transformateur avec / sans batteries
+ */
+export const summarizeBatteries = (
+  project: Project,
+  batteries: BatteryStorage[],
+  dispatch: BatteryDispatchResult[],
+  baselineResult: CalculationResult,
+  result: CalculationResult
+): BatterySimulationSummary => ({
+  batteries: dispatch.map(d => {
+    const battery = batteries.find(b => b.id === d.batteryId);
+    return { ...d, voltageAfter_V: (battery && getBatteryNodeVoltage(result, battery)) ?? d.voltageBefore_V };
+  }),
+  baselineTransformerLoading_percent: getMaxTransformerLoading(project, baselineResult) * 100,
+  transformerLoading_percent: getMaxTransformerLoading(project, result) * 100
+});
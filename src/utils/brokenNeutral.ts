@@ -0,0 +1,309 @@
+/**
+ * ============================================================================
+ * RUPTURE DE NEUTRE (réseau 400V)
+ * ============================================================================
+ *
+ * Le neutre est coupé sur un câble : en aval, l'îlot garde ses trois phases
+ * mais son point neutre n'est plus tenu par le poste. Il se déplace vers la
+ * phase la moins chargée et les clients de cette phase voient une surtension.
+ *
+ * 🧮 MODÈLE (théorème de Millman au point neutre de l'îlot):
+ *   V_N = (Σ Y_k × E_k + Σ Y_EQUI8 × V_centre) / (Σ Y_k + Y_terre + Σ Y_EQUI8)
+ * - E_k : tensions phase-neutre du calcul sain (système direct 0°, -120°, +120°)
+ * - Y_k : charges de l'îlot en impédance constante, issues des courants de phase
+ *   du câble coupé en prélèvement (cos φ des charges)
+ * - Y_terre : prise de terre du neutre en aval (optionnelle, neutre flottant sinon)
+ * - Y_EQUI8 : EQUI8 de l'îlot, reformant le neutre au centre des tensions de son
+ *   nœud au travers de son impédance et du neutre depuis la tête de l'îlot
+ * Les EQUI8 déjà installés (simulation active) font partie de l'état de défaut ;
+ * chaque nœud de l'îlot est ensuite testé avec un EQUI8 supplémentaire.
+ * Le déplacement V_N est appliqué à tous les nœuds de l'îlot (chute dans le
+ * neutre aval négligée).
+ *
+ * ⚠️ SEUILS:
+ * - > 253 V : surtension (230 V +10%)
+ * - > 300 V : dangereuse pour les appareils raccordés
+ *
+ * ============================================================================
+ */
+
+import {
+  Project,
+  Cable,
+  CalculationResult,
+  SimulationEquipment,
+  BrokenNeutralOptions,
+  BrokenNeutralResult,
+  BrokenNeutralSeverity,
+  BrokenNeutralNodeResult,
+  BrokenNeutralClientResult,
+  BrokenNeutralMitigation
+} from '@/types/network';
+import { Complex, C, add, sub, mul, div, abs, fromPolar, scale } from '@/utils/complex';
+import { ElectricalCalculator } from './electricalCalculations';
+import { SimulationCalculator } from './simulationCalculator';
+import { EQUI8_THERMAL_LIMITS } from './equi8CME';
+import { isCableClosed } from './networkConnectivity';
+import { getNeutralBranchImpedance } from './cableDerating';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+
+const NOMINAL_VOLTAGE_V = 230;
+export const BROKEN_NEUTRAL_OVERVOLTAGE_V = 253;
+export const BROKEN_NEUTRAL_DANGER_V = 300;
+// Impédance de l'EQUI8 vue du neutre (hypothèse d'étude, Ω)
+export const EQUI8_NEUTRAL_IMPEDANCE_OHM = 0.1;
+
+const PHASES = ['A', 'B', 'C'] as const;
+type Phase = typeof PHASES[number];
+type PhaseVoltages = Record<Phase, Complex>;
+
+const PHASE_ANGLES_RAD: Record<Phase, number> = { A: 0, B: -2 * Math.PI / 3, C: 2 * Math.PI / 3 };
+
+export interface BrokenNeutralContext {
+  simulationEquipment?: SimulationEquipment;
+}
+
+interface Island {
+  headNodeId: string;
+  nodeIds: string[];
+  neutralImpedance: Map<string, Complex>;  // Impédance du neutre depuis la tête de l'îlot (Ω)
+}
+
+export const getBrokenNeutralSeverity = (voltage_V: number): BrokenNeutralSeverity =>
+  voltage_V > BROKEN_NEUTRAL_DANGER_V ? 'dangerous'
+    : voltage_V > BROKEN_NEUTRAL_OVERVOLTAGE_V ? 'overvoltage'
+    : 'normal';
+
+const calculateHealthy = (project: Project, context: BrokenNeutralContext): CalculationResult => {
+  if (context.simulationEquipment) {
+    const simCalculator = new SimulationCalculator(project.cosPhi, project.cosPhiCharges, project.cosPhiProductions);
+    return simCalculator.calculateWithSimulation(project, 'PRÉLÈVEMENT', context.simulationEquipment);
+  }
+  const calculator = new ElectricalCalculator(project.cosPhi, project.cosPhiCharges, project.cosPhiProductions);
+  return calculator.calculateScenarioWithHTConfig(
+    project,
+    'PRÉLÈVEMENT',
+    project.foisonnementCharges,
+    project.foisonnementProductions,
+    project.manualPhaseDistribution,
+    project.clientsImportes,
+    project.clientLinks
+  );
+};
+
+/**
+ * Impédance du conducteur neutre d'un câble, sur la même base que le calcul de répartition
+ */
+const getCableNeutralImpedance = (project: Project, cable: Cable): Complex => {
+  const cableType = project.cableTypes.find(t => t.id === cable.typeId);
+  if (!cableType) return C(0, 0);
+  const length_km = (cable.length_m ?? 0) / 1000;
+  const { R_ohm_per_km, X_ohm_per_km } = getNeutralBranchImpedance(cableType);
+  return C(R_ohm_per_km * length_km, X_ohm_per_km * length_km);
+};
+
+/**
+ * Nœuds situés en aval du câble coupé : non alimentés par les postes sans ce câble
+ */
+const findIsland = (project: Project, brokenCable: Cable): Island => {
+  const closedCables = project.cables.filter(c => c.id !== brokenCable.id && isCableClosed(c));
+  const neighbours = (nodeId: string) => closedCables.flatMap(cable =>
+    cable.nodeAId === nodeId ? [{ cable, nodeId: cable.nodeBId }]
+      : cable.nodeBId === nodeId ? [{ cable, nodeId: cable.nodeAId }] : []
+  );
+
+  const fed = new Set(project.nodes.filter(n => n.isSource).map(n => n.id));
+  const queue = [...fed];
+  while (queue.length > 0) {
+    for (const next of neighbours(queue.shift()!)) {
+      if (fed.has(next.nodeId)) continue;
+      fed.add(next.nodeId);
+      queue.push(next.nodeId);
+    }
+  }
+
+  const aFed = fed.has(brokenCable.nodeAId);
+  const bFed = fed.has(brokenCable.nodeBId);
+  if (aFed && bFed) throw new Error(`Le neutre reste continu par un bouclage en aval du câble ${brokenCable.name || brokenCable.id}`);
+  if (!aFed && !bFed) throw new Error(`Câble non alimenté: ${brokenCable.name || brokenCable.id}`);
+
+  const headNodeId = aFed ? brokenCable.nodeBId : brokenCable.nodeAId;
+  const nodeIds = [headNodeId];
+  const neutralImpedance = new Map<string, Complex>([[headNodeId, C(0, 0)]]);
+  for (let i = 0; i < nodeIds.length; i++) {
+    const nodeId = nodeIds[i];
+    for (const next of neighbours(nodeId)) {
+      if (neutralImpedance.has(next.nodeId)) continue;
+      neutralImpedance.set(next.nodeId, add(neutralImpedance.get(nodeId)!, getCableNeutralImpedance(project, next.cable)));
+      nodeIds.push(next.nodeId);
+    }
+  }
+
+  return { headNodeId, nodeIds, neutralImpedance };
+};
+
+/**
+ * Tensions phase-neutre saines d'un nœud en système direct (module du calcul, angles nominaux)
+ */
+const getHealthyPhasors = (result: CalculationResult, nodeId: string): PhaseVoltages => {
+  const deviations = getNodeDeviationsPercent(result, nodeId) ?? { A: 0, B: 0, C: 0 };
+  return {
+    A: fromPolar(NOMINAL_VOLTAGE_V * (1 + deviations.A / 100), PHASE_ANGLES_RAD.A),
+    B: fromPolar(NOMINAL_VOLTAGE_V * (1 + deviations.B / 100), PHASE_ANGLES_RAD.B),
+    C: fromPolar(NOMINAL_VOLTAGE_V * (1 + deviations.C / 100), PHASE_ANGLES_RAD.C)
+  };
+};
+
+const getCentre = (voltages: PhaseVoltages): Complex => scale(add(add(voltages.A, voltages.B), voltages.C), 1 / 3);
+
+const getMagnitudes = (voltages: PhaseVoltages, neutral: Complex = C(0, 0)) => ({
+  A: abs(sub(voltages.A, neutral)),
+  B: abs(sub(voltages.B, neutral)),
+  C: abs(sub(voltages.C, neutral))
+});
+
+/**
+ * Étude de rupture de neutre : tensions phase-neutre de l'îlot aval, clients en
+ * surtension et positions d'EQUI8 ramenant les tensions sous 253 V.
+ */
+export const runBrokenNeutralStudy = (
+  project: Project,
+  options: BrokenNeutralOptions,
+  context: BrokenNeutralContext = {}
+): BrokenNeutralResult => {
+  if (project.voltageSystem !== 'TÉTRAPHASÉ_400V') {
+    throw new Error('La rupture de neutre ne concerne que les réseaux 400V avec neutre');
+  }
+  const brokenCable = project.cables.find(c => c.id === options.cableId);
+  if (!brokenCable) throw new Error(`Câble introuvable: ${options.cableId}`);
+  if (!isCableClosed(brokenCable)) throw new Error(`Câble ouvert: ${brokenCable.name || brokenCable.id}`);
+
+  const island = findIsland(project, brokenCable);
+  const healthy = calculateHealthy(project, context);
+  const phasors = new Map(island.nodeIds.map(id => [id, getHealthyPhasors(healthy, id)]));
+  const headVoltages = phasors.get(island.headNodeId)!;
+
+  // Charges de l'îlot en impédance constante (courants de phase du câble avant coupure)
+  const cableResult = healthy.cables.find(c => c.id === brokenCable.id);
+  const I_balanced = cableResult?.current_A ?? 0;
+  const islandCurrents_A = {
+    A: cableResult?.currentsPerPhase_A?.A ?? I_balanced,
+    B: cableResult?.currentsPerPhase_A?.B ?? I_balanced,
+    C: cableResult?.currentsPerPhase_A?.C ?? I_balanced
+  };
+  const phi = Math.acos(Math.min(1, Math.max(0, project.cosPhiCharges ?? 0.95)));
+  const loadAdmittances = PHASES.map(phase => {
+    const E = abs(headVoltages[phase]);
+    return { phase, Y: E > 0 ? fromPolar(islandCurrents_A[phase] / E, -phi) : C(0, 0) };
+  });
+
+  // EQUI8 au nœud : neutre reformé au centre des tensions du nœud, au travers de son
+  // impédance et du neutre depuis la tête de l'îlot
+  const getEqui8Admittance = (nodeId: string): { Y: Complex; centre: Complex } => ({
+    Y: div(C(1, 0), add(C(EQUI8_NEUTRAL_IMPEDANCE_OHM, 0), island.neutralImpedance.get(nodeId) ?? C(0, 0))),
+    centre: getCentre(phasors.get(nodeId)!)
+  });
+
+  let baseNumerator = C(0, 0);
+  let baseDenominator = C(0, 0);
+  for (const { phase, Y } of loadAdmittances) {
+    baseNumerator = add(baseNumerator, mul(Y, headVoltages[phase]));
+    baseDenominator = add(baseDenominator, Y);
+  }
+  if (options.neutralEarthResistance_Ohm !== undefined && options.neutralEarthResistance_Ohm > 0) {
+    baseDenominator = add(baseDenominator, C(1 / options.neutralEarthResistance_Ohm, 0));
+  }
+
+  // EQUI8 déjà installés dans l'îlot (simulation active) : inclus dans l'état de défaut
+  const islandNodeIds = new Set(island.nodeIds);
+  const compensators = (context.simulationEquipment?.neutralCompensators ?? [])
+    .filter(c => c.enabled && islandNodeIds.has(c.nodeId));
+  for (const compensator of compensators) {
+    const { Y, centre } = getEqui8Admittance(compensator.nodeId);
+    baseNumerator = add(baseNumerator, mul(Y, centre));
+    baseDenominator = add(baseDenominator, Y);
+  }
+
+  const solveBase = (): Complex => abs(baseDenominator) > 0 ? div(baseNumerator, baseDenominator) : C(0, 0);
+
+  // Point neutre de l'îlot avec un EQUI8 au nœud donné (ajouté, ou déjà installé)
+  const solveWithEqui8 = (nodeId: string, installed: boolean): { neutral: Complex; equi8Current_A: number } => {
+    const { Y, centre } = getEqui8Admittance(nodeId);
+    const neutral = installed
+      ? solveBase()
+      : div(add(baseNumerator, mul(Y, centre)), add(baseDenominator, Y));
+    return { neutral, equi8Current_A: abs(mul(Y, sub(neutral, centre))) };
+  };
+
+  const maxIslandVoltage = (neutral: Complex): number => Math.max(...island.nodeIds.map(id => {
+    const v = getMagnitudes(phasors.get(id)!, neutral);
+    return Math.max(v.A, v.B, v.C);
+  }));
+
+  const neutral = solveBase();
+  const nodeById = new Map(project.nodes.map(n => [n.id, n]));
+
+  const nodes: BrokenNeutralNodeResult[] = island.nodeIds.map(nodeId => {
+    const faultVoltages_V = getMagnitudes(phasors.get(nodeId)!, neutral);
+    const maxVoltage_V = Math.max(faultVoltages_V.A, faultVoltages_V.B, faultVoltages_V.C);
+    return {
+      nodeId,
+      nodeName: nodeById.get(nodeId)?.name || nodeId,
+      healthyVoltages_V: getMagnitudes(phasors.get(nodeId)!),
+      faultVoltages_V,
+      maxVoltage_V,
+      severity: getBrokenNeutralSeverity(maxVoltage_V)
+    };
+  });
+
+  const faultByNode = new Map(nodes.map(n => [n.nodeId, n.faultVoltages_V]));
+  const clients: BrokenNeutralClientResult[] = (project.clientLinks ?? []).flatMap(link => {
+    if (!islandNodeIds.has(link.nodeId)) return [];
+    const client = project.clientsImportes?.find(c => c.id === link.clientId);
+    if (!client) return [];
+    const voltages = faultByNode.get(link.nodeId)!;
+    const phase = (client.connectionType ?? 'MONO') === 'MONO' ? client.assignedPhase || 'A' : undefined;
+    const voltage_V = phase ? voltages[phase] : Math.max(voltages.A, voltages.B, voltages.C);
+    return [{
+      clientId: client.id,
+      clientName: client.nomCircuit || client.id,
+      nodeId: link.nodeId,
+      phase,
+      voltage_V,
+      severity: getBrokenNeutralSeverity(voltage_V)
+    }];
+  }).sort((a, b) => b.voltage_V - a.voltage_V);
+
+  const mitigations: BrokenNeutralMitigation[] = island.nodeIds.map(nodeId => {
+    const existing = compensators.find(c => c.nodeId === nodeId);
+    const { neutral: mitigatedNeutral, equi8Current_A } = solveWithEqui8(nodeId, !!existing);
+    const maxVoltage_V = maxIslandVoltage(mitigatedNeutral);
+    const thermalLimit_A = EQUI8_THERMAL_LIMITS[existing ? existing.thermalWindow || 'permanent' : options.thermalWindow];
+    const isLimited = equi8Current_A > thermalLimit_A;
+    return {
+      nodeId,
+      nodeName: nodeById.get(nodeId)?.name || nodeId,
+      existing: !!existing,
+      neutralShift_V: abs(mitigatedNeutral),
+      maxVoltage_V,
+      equi8Current_A,
+      thermalLimit_A,
+      isLimited,
+      mitigates: maxVoltage_V <= BROKEN_NEUTRAL_OVERVOLTAGE_V && !isLimited
+    };
+  }).sort((a, b) => a.maxVoltage_V - b.maxVoltage_V);
+
+  console.log(`⚡ Rupture de neutre ${brokenCable.name || brokenCable.id}: déplacement ${abs(neutral).toFixed(1)} V, ${island.nodeIds.length} nœud(s) en aval`);
+
+  return {
+    options,
+    cableName: brokenCable.name || brokenCable.id,
+    downstreamNodeIds: island.nodeIds,
+    islandCurrents_A,
+    neutralShift_V: abs(neutral),
+    nodes,
+    clients,
+    mitigations,
+    withSimulation: !!context.simulationEquipment
+  };
+};
@@ -0,0 +1,163 @@
+/**
+ * Déclassement de l'ampacité des câbles selon les conditions de pose
+ *
+ * L'ampacité du type de câble (maxCurrent_A) est donnée pour une pose de référence :
+ * - Souterrain : câble seul, enterré directement à 0,8 m, sol à 1 K·m/W
+ * - Aérien : torsadé seul à l'air libre
+ *
+ * Iz effectif = Iz × k_groupement × k_profondeur × k_sol × k_pose
+ *
+ * Ordres de grandeur issus des tables de l'IEC 60364-5-52 (groupement) et de
+ * l'IEC 60502-2 (profondeur, résistivité thermique), ramenés à la pose de référence.
+ */
+
+import { Cable, CableInstallation, CablePose, CableType } from '@/types/network';
+
+// Facteurs de groupement pour 1, 2, 3... câbles jointifs (au-delà : dernier facteur)
+const GROUPING_FACTORS = {
+  direct: [1, 0.75, 0.65, 0.6, 0.55, 0.5],
+  duct: [1, 0.85, 0.75, 0.7, 0.65, 0.6],
+  facade: [1, 0.85, 0.79, 0.75, 0.73, 0.72, 0.72, 0.71, 0.7]
+};
+
+// Profondeur de pose (m) → facteur, référence 0,8 m
+const DEPTH_FACTORS: [number, number][] = [[0.5, 1.03], [0.8, 1], [1, 0.98], [1.25, 0.96], [1.5, 0.95]];
+
+// Résistivité thermique du sol (K·m/W) → facteur, référence 1 K·m/W ; sous fourreau,
+// l'air du fourreau atténue l'influence du sol
+const SOIL_FACTORS: Record<'direct' | 'duct', [number, number][]> = {
+  direct: [[0.7, 1.12], [1, 1], [1.5, 0.85], [2, 0.74], [2.5, 0.67], [3, 0.61]],
+  duct: [[0.7, 1.06], [1, 1], [1.5, 0.91], [2, 0.84], [2.5, 0.78], [3, 0.74]]
+};
+
+// Pose sous fourreau (lame d'air) et torsadé sur façade (ensoleillement, moins de convection)
+const DUCT_FACTOR = 0.85;
+const FACADE_FACTOR = 0.9;
+
+export const REFERENCE_BURIAL_DEPTH_M = 0.8;
+export const REFERENCE_SOIL_RESISTIVITY_KMW = 1;
+
+export interface CableDeratingFactors {
+  grouping: number;
+  depth: number;
+  soil: number;
+  laying: number;
+  total: number;
+}
+
+/**
+ * Interpolation linéaire sur une table triée, constante au-delà des bornes
+ */
+function interpolate(table: [number, number][], x: number): number {
+  if (x <= table[0][0]) return table[0][1];
+  const last = table[table.length - 1];
+  if (x >= last[0]) return last[1];
+  const upper = table.findIndex(([xi]) => xi >= x);
+  const [x0, y0] = table[upper - 1];
+  const [x1, y1] = table[upper];
+  return y0 + (y1 - y0) * (x - x0) / (x1 - x0);
+}
+
+/**
+ * Conditions de pose par défaut : pose de référence (aucun déclassement)
+ */
+export function createDefaultCableInstallation(pose: CablePose): CableInstallation {
+  return pose === 'SOUTERRAIN'
+    ? {
+      groupedCables: 1,
+      burialDepth_m: REFERENCE_BURIAL_DEPTH_M,
+      soilThermalResistivity_KmW: REFERENCE_SOIL_RESISTIVITY_KMW,
+      inDuct: false
+    }
+    : { groupedCables: 1, onFacade: false };
+}
+
+/**
+ * Facteurs de déclassement d'un tronçon ; tous à 1 sans conditions de pose renseignées.
+ * En aérien, le groupement n'est pris en compte que sur façade (torsadés espacés sur poteaux).
+ */
+export function getCableDeratingFactors(pose: CablePose, installation?: CableInstallation): CableDeratingFactors {
+  if (!installation) return { grouping: 1, depth: 1, soil: 1, laying: 1, total: 1 };
+
+  const groupedCables = Math.max(1, Math.round(installation.groupedCables || 1));
+  let grouping = 1;
+  let depth = 1;
+  let soil = 1;
+  let laying = 1;
+
+  if (pose === 'SOUTERRAIN') {
+    const method = installation.inDuct ? 'duct' : 'direct';
+    const table = GROUPING_FACTORS[method];
+    grouping = table[Math.min(groupedCables, table.length) - 1];
+    depth = interpolate(DEPTH_FACTORS, installation.burialDepth_m ?? REFERENCE_BURIAL_DEPTH_M);
+    soil = interpolate(SOIL_FACTORS[method], installation.soilThermalResistivity_KmW ?? REFERENCE_SOIL_RESISTIVITY_KMW);
+    laying = installation.inDuct ? DUCT_FACTOR : 1;
+  } else if (installation.onFacade) {
+    const table = GROUPING_FACTORS.facade;
+    grouping = table[Math.min(groupedCables, table.length) - 1];
+    laying = FACADE_FACTOR;
+  }
+
+  return { grouping, depth, soil, laying, total: grouping * depth * soil * laying };
+}
+
+/**
+ * Ampacité effective (A) du tronçon dans ses conditions de pose, undefined si le type
+ * de câble n'a pas d'ampacité renseignée
+ */
+export function getEffectiveAmpacity(cable: Cable, cableTypes: CableType[]): number | undefined {
+  const maxCurrent_A = cableTypes.find(t => t.id === cable.typeId)?.maxCurrent_A;
+  if (!maxCurrent_A) return undefined;
+  return maxCurrent_A * getCableDeratingFactors(cable.pose, cable.installation).total;
+}
+
+/**
+ * Courant le plus élevé du tronçon : courant agrégé ou phase la plus chargée
+ */
+export function getCableMaxCurrent(cable: Cable): number {
+  const perPhase = cable.currentsPerPhase_A;
+  return Math.max(cable.current_A ?? 0, perPhase?.A ?? 0, perPhase?.B ?? 0, perPhase?.C ?? 0);
+}
+
+/**
+ * Ampacité effective (A) du conducteur neutre : ampacité propre d'un neutre réduit,
+ * sinon celle des phases, déclassée dans les mêmes conditions de pose
+ */
+export function getEffectiveNeutralAmpacity(cable: Cable, cableTypes: CableType[]): number | undefined {
+  const cableType = cableTypes.find(t => t.id === cable.typeId);
+  const maxCurrent_A = cableType?.neutralMaxCurrent_A ?? cableType?.maxCurrent_A;
+  if (!maxCurrent_A) return undefined;
+  return maxCurrent_A * getCableDeratingFactors(cable.pose, cable.installation).total;
+}
+
+/**
+ * Courant du neutre du tronçon (A), nul en calcul équilibré
+ */
+export function getCableNeutralCurrent(cable: Cable): number {
+  return cable.currentNeutral_A ?? cable.currentsPerPhase_A?.N ?? 0;
+}
+
+/**
+ * Neutre en surcharge : courant du neutre au-delà de son ampacité effective
+ */
+export function isNeutralOverloaded(cable: Cable, cableTypes: CableType[]): boolean {
+  const neutralAmpacity_A = getEffectiveNeutralAmpacity(cable, cableTypes);
+  return !!neutralAmpacity_A && getCableNeutralCurrent(cable) > neutralAmpacity_A;
+}
+
+// Base R0/X0 des câbles symétriques : R0 ≈ 3 × R du conducteur neutre
+const NEUTRAL_BRANCH_FACTOR = 3;
+
+/**
+ * Impédance linéique de la branche neutre (Ω/km) sur la base R0/X0 du catalogue :
+ * 3 × RN/XN pour un neutre explicite, R0/X0 sinon
+ */
+export function getNeutralBranchImpedance(cableType: CableType): { R_ohm_per_km: number; X_ohm_per_km: number } {
+  if (cableType.RN_ohm_per_km === undefined) {
+    return { R_ohm_per_km: cableType.R0_ohm_per_km, X_ohm_per_km: cableType.X0_ohm_per_km };
+  }
+  return {
+    R_ohm_per_km: NEUTRAL_BRANCH_FACTOR * cableType.RN_ohm_per_km,
+    X_ohm_per_km: cableType.XN_ohm_per_km !== undefined ? NEUTRAL_BRANCH_FACTOR * cableType.XN_ohm_per_km : cableType.X0_ohm_per_km
+  };
+}
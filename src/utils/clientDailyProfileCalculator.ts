@@ -1,5 +1,5 @@
 import { HourlyVoltageResult, ClientHourlyVoltageResult, DailySimulationOptions, DailyProfileConfig } from '@/types/dailyProfile';
-import { ClientImporte, Project } from '@/types/network';
+import { ClientImporte, ClientConnectionType, Project } from '@/types/network';
 import { BranchementCableType } from '@/data/branchementCableTypes';
 import defaultProfiles from '@/data/hourlyProfiles.json';
 
@@ -13,6 +13,47 @@ const getVoltageStatus = (voltage: number, nominalVoltage: number): 'normal' | '
   return 'normal';
 };
 
+/**
+ * Chute de tension dans le câble de branchement (V) pour les puissances du client :
+ * positive en soutirage, négative quand la production l'emporte (élévation au point client)
+ */
+export function calculateBranchementVoltageDrop(
+  S_charge_VA: number,
+  S_prod_VA: number,
+  connectionType: ClientConnectionType,
+  cable: BranchementCableType,
+  length_m: number,
+  voltageSystem: 'TRIPHASÉ_230V' | 'TÉTRAPHASÉ_400V',
+  cosPhiCharges: number,
+  cosPhiProductions: number
+): number {
+  const L_km = length_m / 1000;
+  const R = cable.R_ohm_per_km;
+  const X = cable.X_ohm_per_km;
+  const sinPhiCharges = Math.sqrt(1 - cosPhiCharges ** 2);
+  const sinPhiProductions = Math.sqrt(1 - cosPhiProductions ** 2);
+
+  if (connectionType === 'MONO') {
+    // Monophasé : formule avec facteur 2
+    const U_ref = 230;
+    const I_charge = S_charge_VA / U_ref;
+    const I_prod = S_prod_VA / U_ref;
+    
+    const deltaU_charge = 2 * I_charge * (R * cosPhiCharges + X * sinPhiCharges) * L_km;
+    const deltaU_prod = 2 * I_prod * (R * cosPhiProductions + X * sinPhiProductions) * L_km;
+    return deltaU_charge - deltaU_prod;
+  }
+
+  // Triphasé/Tétraphasé : formule triphasée
+  const U_ligne = voltageSystem === 'TRIPHASÉ_230V' ? 230 : 400;
+  const I_charge = S_charge_VA / (Math.sqrt(3) * U_ligne);
+  const I_prod = S_prod_VA / (Math.sqrt(3) * U_ligne);
+  
+  const deltaU_charge = Math.sqrt(3) * I_charge * (R * cosPhiCharges + X * sinPhiCharges) * L_km;
+  const deltaU_prod = Math.sqrt(3) * I_prod * (R * cosPhiProductions + X * sinPhiProductions) * L_km;
+  return deltaU_charge - deltaU_prod;
+}
+
 /**
  * Calcule les tensions horaires au point de raccordement client
  * 
@@ -36,15 +77,9 @@ export function calculateClientDailyVoltages(
   const seasonProfile = profiles.profiles[options.season];
   const weatherFactor = profiles.weatherFactors[options.weather];
   
-  const L_km = length_m / 1000;
-  const R = cable.R_ohm_per_km;
-  const X = cable.X_ohm_per_km;
-  
   // cos φ du projet
   const cosPhiCharges = project?.cosPhiCharges || 0.95;
   const cosPhiProductions = project?.cosPhiProductions || 1.0;
-  const sinPhiCharges = Math.sqrt(1 - cosPhiCharges ** 2);
-  const sinPhiProductions = Math.sqrt(1 - cosPhiProductions ** 2);
   
   const is230V = voltageSystem === 'TRIPHASÉ_230V';
   const connectionType = client.connectionType || 'MONO';
@@ -120,27 +155,16 @@ export function calculateClientDailyVoltages(
     }
     
     // Calcul du ΔU dans le câble de branchement
-    let deltaU: number;
-    
-    if (connectionType === 'MONO') {
-      // Monophasé : formule avec facteur 2
-      const U_ref = 230;
-      const I_charge = S_charge / U_ref;
-      const I_prod = S_prod / U_ref;
-      
-      const deltaU_charge = 2 * I_charge * (R * cosPhiCharges + X * sinPhiCharges) * L_km;
-      const deltaU_prod = 2 * I_prod * (R * cosPhiProductions + X * sinPhiProductions) * L_km;
-      deltaU = deltaU_charge - deltaU_prod;
-    } else {
-      // Triphasé/Tétraphasé : formule triphasée
-      const U_ligne = is230V ? 230 : 400;
-      const I_charge = S_charge / (Math.sqrt(3) * U_ligne);
-      const I_prod = S_prod / (Math.sqrt(3) * U_ligne);
-      
-      const deltaU_charge = Math.sqrt(3) * I_charge * (R * cosPhiCharges + X * sinPhiCharges) * L_km;
-      const deltaU_prod = Math.sqrt(3) * I_prod * (R * cosPhiProductions + X * sinPhiProductions) * L_km;
-      deltaU = deltaU_charge - deltaU_prod;
-    }
+    const deltaU = calculateBranchementVoltageDrop(
+      S_charge,
+      S_prod,
+      connectionType,
+      cable,
+      length_m,
+      voltageSystem,
+      cosPhiCharges,
+      cosPhiProductions
+    );
     
     const V_client = V_node - deltaU;
     
@@ -0,0 +1,378 @@
+import {
+  Project,
+  CalculationResult,
+  CalculationScenario,
+  ClientImporte,
+  SimulationEquipment,
+  ConnectionStudyRequest,
+  ConnectionStudyResult,
+  ConnectionStudyConstraint,
+  ConnectionStudyConstraintKind,
+  ConnectionStudyNodeComparison,
+  ConnectionStudyCableComparison,
+  ConnectionStudyVerdict
+} from '@/types/network';
+import { DailyProfileConfig, DailySimulationOptions, HourlyVoltageResult, defaultDailySimulationOptions } from '@/types/dailyProfile';
+import { BranchementCableType, branchementCableTypes, calculateGeodeticDistance } from '@/data/branchementCableTypes';
+import { ElectricalCalculator } from './electricalCalculations';
+import { SimulationCalculator } from './simulationCalculator';
+import { DailyProfileCalculator } from './dailyProfileCalculator';
+import { calculateClientDailyVoltages } from './clientDailyProfileCalculator';
+import { autoAssignPhaseForMonoClient, calculateNodeAutoPhaseDistribution } from './phaseDistributionCalculator';
+import { getLinkedClientsForNode } from './clientsUtils';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+import { getMaxTransformerLoading } from './transformerCatalogue';
+import { getEffectiveAmpacity } from './cableDerating';
+import { getPathFromSource } from './networkConnectivity';
+
+// Plage contractuelle au point de livraison : 230 V ±10%
+const CLIENT_VOLTAGE_MIN_V = 207;
+const CLIENT_VOLTAGE_MAX_V = 253;
+const VOLTAGE_LIMIT_PERCENT = 10;
+// Identifiant du client fictif ajouté au projet d'étude
+const PROSPECTIVE_CLIENT_ID = 'connection-study-client';
+
+const STUDY_SCENARIOS: CalculationScenario[] = ['PRÉLÈVEMENT', 'PRODUCTION'];
+
+export const verdictLabels: Record<ConnectionStudyVerdict, string> = {
+  accepted: 'Accepté',
+  accepted_with_works: 'Accepté avec travaux',
+  refused: 'Refusé'
+};
+
+const constraintKindLabels: Record<ConnectionStudyConstraintKind, string> = {
+  node_voltage: 'Tension nœud',
+  cable_current: 'Courant tronçon',
+  transformer: 'Charge transformateur',
+  client_voltage: 'Tension point client',
+  branchement_current: 'Courant branchement'
+};
+
+/**
+ * Libellé d'une contrainte pour l'affichage et le rapport PDF
+ */
+export const describeConnectionConstraint = (constraint: ConnectionStudyConstraint): string => {
+  const unit = constraint.kind === 'node_voltage' || constraint.kind === 'transformer' ? '%'
+    : constraint.kind === 'client_voltage' ? ' V' : ' A';
+  const before = constraint.before !== undefined ? `${constraint.before.toFixed(1)} -> ` : '';
+  return `${constraintKindLabels[constraint.kind]} ${constraint.elementName} : ${before}${constraint.after.toFixed(1)}${unit} (limite ${constraint.limit}${unit})`;
+};
+
+export interface ConnectionStudyContext {
+  simulationEquipment?: SimulationEquipment;
+  dailyProfiles?: DailyProfileConfig;
+}
+
+/**
+ * Nœud le plus proche d'une position (distance géodésique)
+ */
+export const findNearestNode = (project: Project, lat: number, lng: number): string | null => {
+  let nearest: { id: string; distance: number } | null = null;
+  for (const node of project.nodes) {
+    const distance = calculateGeodeticDistance(node.lat, node.lng, lat, lng);
+    if (!nearest || distance < nearest.distance) nearest = { id: node.id, distance };
+  }
+  return nearest?.id ?? null;
+};
+
+/**
+ * Courant dans le câble de branchement à puissance contractuelle (charge ou PV, le plus élevé)
+ */
+export const getBranchementCurrent = (
+  request: Pick<ConnectionStudyRequest, 'puissanceContractuelle_kVA' | 'puissancePV_kVA' | 'connectionType'>,
+  voltageSystem: Project['voltageSystem']
+): number => {
+  const S_VA = Math.max(request.puissanceContractuelle_kVA, request.puissancePV_kVA) * 1000;
+  if (request.connectionType === 'MONO') return S_VA / 230;
+  const U_ligne = voltageSystem === 'TRIPHASÉ_230V' ? 230 : 400;
+  return S_VA / (Math.sqrt(3) * U_ligne);
+};
+
+/**
+ * Copie du projet avec le client envisagé lié au nœud de raccordement.
+ * Le projet réel n'est jamais modifié.
+ */
+export const buildProspectiveProject = (
+  project: Project,
+  request: ConnectionStudyRequest
+): { project: Project; client: ClientImporte } => {
+  const existing = request.existingClientId
+    ? project.clientsImportes?.find(c => c.id === request.existingClientId)
+    : undefined;
+
+  const client: ClientImporte = {
+    ...(existing ?? {
+      id: PROSPECTIVE_CLIENT_ID,
+      identifiantCircuit: 'ETUDE-RACCORDEMENT',
+      couplage: request.connectionType
+    }),
+    nomCircuit: request.nomCircuit,
+    lat: request.lat,
+    lng: request.lng,
+    puissanceContractuelle_kVA: request.puissanceContractuelle_kVA,
+    puissancePV_kVA: request.puissancePV_kVA,
+    clientType: request.clientType,
+    connectionType: request.connectionType
+  };
+
+  const otherClients = (project.clientsImportes ?? []).filter(c => c.id !== client.id);
+  const otherLinks = (project.clientLinks ?? []).filter(l => l.clientId !== client.id);
+
+  if (client.connectionType === 'MONO') {
+    if (!existing?.assignedPhase || existing.connectionType !== 'MONO') {
+      // Même équilibrage que lors d'une liaison manuelle : clients MONO liés déjà assignés
+      const assignedMono = otherClients.filter(c =>
+        c.connectionType === 'MONO' && c.assignedPhase !== undefined && otherLinks.some(l => l.clientId === c.id)
+      );
+      client.assignedPhase = autoAssignPhaseForMonoClient(client, assignedMono, project.voltageSystem);
+    }
+  } else {
+    client.assignedPhase = undefined;
+  }
+
+  const clientsImportes = [...otherClients, client];
+  const clientLinks = [...otherLinks, { id: `link-${client.id}-${request.nodeId}`, clientId: client.id, nodeId: request.nodeId }];
+
+  // Mode mixte : recalculer la répartition des nœuds concernés comme le store
+  const previousNodeId = project.clientLinks?.find(l => l.clientId === client.id)?.nodeId;
+  const nodes = project.loadModel !== 'mixte_mono_poly' ? project.nodes : project.nodes.map(node => {
+    if (node.id !== request.nodeId && node.id !== previousNodeId) return node;
+    return {
+      ...node,
+      autoPhaseDistribution: calculateNodeAutoPhaseDistribution(
+        node,
+        getLinkedClientsForNode(node.id, clientsImportes, clientLinks),
+        project.manualPhaseDistribution?.charges || { A: 33.33, B: 33.33, C: 33.34 },
+        project.manualPhaseDistribution?.productions || { A: 33.33, B: 33.33, C: 33.34 },
+        project.voltageSystem,
+        project.foisonnementChargesResidentiel ?? 15,
+        project.foisonnementChargesIndustriel ?? 70,
+        project.foisonnementProductions ?? 100,
+        project.treatSmallPolyProductionsAsMono || false
+      )
+    };
+  });
+
+  return { project: { ...project, nodes, clientsImportes, clientLinks }, client };
+};
+
+const calculateScenario = (project: Project, scenario: CalculationScenario, context: ConnectionStudyContext): CalculationResult => {
+  if (context.simulationEquipment) {
+    const simCalculator = new SimulationCalculator(project.cosPhi, project.cosPhiCharges, project.cosPhiProductions);
+    return simCalculator.calculateWithSimulation(project, scenario, context.simulationEquipment);
+  }
+  const calculator = new ElectricalCalculator(project.cosPhi, project.cosPhiCharges, project.cosPhiProductions);
+  return calculator.calculateScenarioWithHTConfig(
+    project,
+    scenario,
+    project.foisonnementCharges,
+    project.foisonnementProductions,
+    project.manualPhaseDistribution,
+    project.clientsImportes,
+    project.clientLinks
+  );
+};
+
+const worstDeviation = (result: CalculationResult, nodeId: string): number => {
+  const deviations = getNodeDeviationsPercent(result, nodeId);
+  if (!deviations) return 0;
+  return [deviations.A, deviations.B, deviations.C].reduce((worst, d) => Math.abs(d) > Math.abs(worst) ? d : worst, 0);
+};
+
+const cableCurrent = (result: CalculationResult, cableId: string): number => {
+  const cable = result.cables.find(c => c.id === cableId);
+  if (!cable) return 0;
+  const perPhase = cable.currentsPerPhase_A;
+  return Math.max(cable.current_A ?? 0, perPhase?.A ?? 0, perPhase?.B ?? 0, perPhase?.C ?? 0);
+};
+
+interface StudyDayVoltages {
+  options: DailySimulationOptions;
+  nodeVoltages: HourlyVoltageResult[];
+}
+
+/**
+ * Tensions horaires du nœud de raccordement pour les deux journées extrêmes :
+ * hiver gris sans production et été ensoleillé. Indépendantes du câble de
+ * branchement, calculées une seule fois par étude.
+ */
+const calculateStudyDays = (project: Project, nodeId: string, context: ConnectionStudyContext): StudyDayVoltages[] => {
+  const days: DailySimulationOptions[] = [
+    { ...defaultDailySimulationOptions, season: 'winter', weather: 'gray', zeroProduction: true, selectedNodeId: nodeId },
+    { ...defaultDailySimulationOptions, season: 'summer', weather: 'sunny', enableEV: false, selectedNodeId: nodeId }
+  ];
+
+  // Calcul équilibré : les nœuds TÉTRA sont restitués en tension composée, ramener en phase-neutre
+  const node = project.nodes.find(n => n.id === nodeId);
+  const isBalanced = (project.loadModel ?? 'polyphase_equilibre') === 'polyphase_equilibre';
+  const scale = isBalanced && node?.connectionType === 'TÉTRA_3P+N_230_400V' ? 1 / Math.sqrt(3) : 1;
+
+  return days.map(options => ({
+    options,
+    nodeVoltages: new DailyProfileCalculator(
+      project,
+      options,
+      context.dailyProfiles,
+      context.simulationEquipment,
+      !!context.simulationEquipment
+    ).calculateDailyVoltages().map(r => scale === 1 ? r : {
+      ...r,
+      voltageA_V: r.voltageA_V * scale,
+      voltageB_V: r.voltageB_V * scale,
+      voltageC_V: r.voltageC_V * scale,
+      voltageAvg_V: r.voltageAvg_V * scale,
+      voltageMin_V: r.voltageMin_V * scale,
+      voltageMax_V: r.voltageMax_V * scale
+    })
+  }));
+};
+
+/**
+ * Tensions extrêmes au point client : minimum de la journée d'hiver, maximum
+ * de la journée d'été, après chute dans le câble de branchement.
+ */
+const calculateClientVoltageRange = (
+  days: StudyDayVoltages[],
+  project: Project,
+  client: ClientImporte,
+  cable: BranchementCableType,
+  length_m: number,
+  context: ConnectionStudyContext
+): { min: number; max: number } => {
+  const [winter, summer] = days.map(({ options, nodeVoltages }) => calculateClientDailyVoltages(
+    nodeVoltages, client, cable, length_m, project.voltageSystem, options, context.dailyProfiles, project
+  ).map(r => r.voltageClient_V));
+
+  return { min: Math.min(...winter), max: Math.max(...summer) };
+};
+
+/**
+ * Travaux levant une contrainte de tension nœud : renforcement des tronçons
+ * entre le poste et le nœud (impédance amont)
+ */
+const getNodeVoltageRemedy = (project: Project, nodeId: string, nodeName: string): string | undefined => {
+  const path = getPathFromSource(project.nodes, project.cables, nodeId);
+  if (path.length === 0) return undefined;
+  return `Renforcement des tronçons ${path.map(c => c.name || c.id).reverse().join(', ')} jusqu'à ${nodeName}`;
+};
+
+/**
+ * Étude de faisabilité d'un raccordement : comparaison avant/après des tensions nœuds,
+ * des courants câbles et de la tension au point client, puis verdict.
+ * Seules les contraintes créées ou aggravées par le raccordement sont retenues.
+ */
+export const runConnectionStudy = (
+  project: Project,
+  request: ConnectionStudyRequest,
+  context: ConnectionStudyContext = {}
+): ConnectionStudyResult => {
+  const node = project.nodes.find(n => n.id === request.nodeId);
+  if (!node) throw new Error(`Nœud de raccordement introuvable: ${request.nodeId}`);
+  const cable = branchementCableTypes.find(c => c.id === request.branchementCableId);
+  if (!cable) throw new Error(`Câble de branchement introuvable: ${request.branchementCableId}`);
+
+  const { project: after, client } = buildProspectiveProject(project, request);
+  const constraints: ConnectionStudyConstraint[] = [];
+  const nodes: ConnectionStudyNodeComparison[] = [];
+  const cables: ConnectionStudyCableComparison[] = [];
+
+  for (const scenario of STUDY_SCENARIOS) {
+    const resultBefore = calculateScenario(project, scenario, context);
+    const resultAfter = calculateScenario(after, scenario, context);
+
+    for (const n of project.nodes.filter(n => !n.isSource)) {
+      const before_percent = worstDeviation(resultBefore, n.id);
+      const after_percent = worstDeviation(resultAfter, n.id);
+      nodes.push({ nodeId: n.id, nodeName: n.name || n.id, scenario, before_percent, after_percent });
+      if (Math.abs(after_percent) > VOLTAGE_LIMIT_PERCENT && Math.abs(after_percent) > Math.abs(before_percent) + 0.05) {
+        constraints.push({
+          kind: 'node_voltage', scenario, elementId: n.id, elementName: n.name || n.id,
+          before: before_percent, after: after_percent, limit: VOLTAGE_LIMIT_PERCENT,
+          remedy: getNodeVoltageRemedy(project, n.id, n.name || n.id)
+        });
+      }
+    }
+
+    for (const c of project.cables) {
+      const maxCurrent_A = getEffectiveAmpacity(c, project.cableTypes);
+      const before_A = cableCurrent(resultBefore, c.id);
+      const after_A = cableCurrent(resultAfter, c.id);
+      cables.push({ cableId: c.id, cableName: c.name || c.id, scenario, before_A, after_A, maxCurrent_A });
+      if (maxCurrent_A && after_A > maxCurrent_A && after_A > before_A + 0.1) {
+        constraints.push({
+          kind: 'cable_current', scenario, elementId: c.id, elementName: c.name || c.id,
+          before: before_A, after: after_A, limit: maxCurrent_A,
+          remedy: `Renforcement du tronçon ${c.name || c.id}`
+        });
+      }
+    }
+
+    const loadingBefore = getMaxTransformerLoading(project, resultBefore) * 100;
+    const loadingAfter = getMaxTransformerLoading(after, resultAfter) * 100;
+    if (loadingAfter > 100 && loadingAfter > loadingBefore + 0.1) {
+      constraints.push({
+        kind: 'transformer', scenario, elementId: project.nodes.find(n => n.isSource)?.id ?? '', elementName: 'Transformateur',
+        before: loadingBefore, after: loadingAfter, limit: 100,
+        remedy: 'Mutation du transformateur'
+      });
+    }
+  }
+
+  // Branchement : courant admissible et tension au point client
+  const branchementLength_m = calculateGeodeticDistance(node.lat, node.lng, request.lat, request.lng);
+  const branchementCurrent_A = getBranchementCurrent(request, project.voltageSystem);
+  const days = calculateStudyDays(after, node.id, context);
+  const range = calculateClientVoltageRange(days, after, client, cable, branchementLength_m, context);
+  const clientVoltageOk = (r: { min: number; max: number }) => r.min >= CLIENT_VOLTAGE_MIN_V && r.max <= CLIENT_VOLTAGE_MAX_V;
+
+  if (branchementCurrent_A > cable.maxCurrent_A || !clientVoltageOk(range)) {
+    // Plus petit câble du catalogue qui lève les contraintes de branchement
+    const candidates = [...branchementCableTypes]
+      .filter(c => c.maxCurrent_A >= branchementCurrent_A)
+      .sort((a, b) => a.section_mm2 - b.section_mm2 || b.R_ohm_per_km - a.R_ohm_per_km);
+    const replacement = candidates.find(c =>
+      clientVoltageOk(calculateClientVoltageRange(days, after, client, c, branchementLength_m, context))
+    );
+    const remedy = replacement ? `Branchement ${replacement.label}` : undefined;
+
+    if (branchementCurrent_A > cable.maxCurrent_A) {
+      constraints.push({
+        kind: 'branchement_current', elementId: cable.id, elementName: cable.label,
+        after: branchementCurrent_A, limit: cable.maxCurrent_A, remedy
+      });
+    }
+    if (range.min < CLIENT_VOLTAGE_MIN_V) {
+      constraints.push({
+        kind: 'client_voltage', scenario: 'PRÉLÈVEMENT', elementId: client.id, elementName: client.nomCircuit,
+        after: range.min, limit: CLIENT_VOLTAGE_MIN_V, remedy
+      });
+    }
+    if (range.max > CLIENT_VOLTAGE_MAX_V) {
+      constraints.push({
+        kind: 'client_voltage', scenario: 'PRODUCTION', elementId: client.id, elementName: client.nomCircuit,
+        after: range.max, limit: CLIENT_VOLTAGE_MAX_V, remedy
+      });
+    }
+  }
+
+  const verdict: ConnectionStudyVerdict = constraints.length === 0
+    ? 'accepted'
+    : constraints.some(c => !c.remedy) ? 'refused' : 'accepted_with_works';
+
+  console.log(`🔌 Étude de raccordement "${request.nomCircuit}" au nœud ${node.name}: ${verdictLabels[verdict]} (${constraints.length} contrainte(s))`);
+
+  return {
+    request,
+    nodeName: node.name || node.id,
+    assignedPhase: client.assignedPhase,
+    branchementLength_m,
+    branchementCurrent_A,
+    clientVoltageMin_V: range.min,
+    clientVoltageMax_V: range.max,
+    nodes,
+    cables,
+    constraints,
+    verdict,
+    withSimulation: !!context.simulationEquipment
+  };
+};
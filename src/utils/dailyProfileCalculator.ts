@@ -1,10 +1,51 @@
-import { DailyProfileConfig, DailySimulationOptions, HourlyVoltageResult, HourlyProfile, SRG2HourlyActivation } from '@/types/dailyProfile';
-import { Project, CalculationResult, SimulationEquipment, NeutralCompensator } from '@/types/network';
+import { DailyProfileConfig, DailySimulationOptions, HourlyVoltageResult, HourlyProfile, SRG2HourlyActivation, Season, PVTrippingDailyResult, PVTrippingClientResult, BatteryDailyResult, EVHourResult, EVDailyResult, CableThermalResult, CableThermalDailyResult, EnergyLossesBreakdown } from '@/types/dailyProfile';
+import { Project, CalculationResult, SimulationEquipment, NeutralCompensator, PVTrippingSummary, BatterySimulationSummary, BatteryDispatchResult } from '@/types/network';
 import { SRG2Config, SRG2SwitchState } from '@/types/srg2';
 import { ElectricalCalculator } from './electricalCalculations';
 import { SimulationCalculator } from './simulationCalculator';
+import { collectPVClients } from './pvTripping';
+import { dispatchBatteries, applyBatteryDispatch, summarizeBatteries } from './batteryStorage';
+import {
+  EVSession,
+  buildEVSessions,
+  createInitialEVState,
+  advanceEVSessions,
+  getEVChargingRequest,
+  getEVChargerVoltage,
+  getVoltageLimitFactor,
+  applyEVLoads,
+  getMinNetworkVoltage,
+  getMaxNeutralCurrent,
+  calculateFeederEVHosting
+} from './evCharging';
+import { applyHeatPumpLoads, collectHeatPumpClients, getDefaultTemperatureProfile } from './heatPump';
+import {
+  getAmbientTemperature,
+  calculateCableTemperature,
+  getRatedConductorTemperature,
+  getThermalTimeConstant,
+  advanceCableTemperature,
+  applyConductorTemperatures
+} from './thermalModel';
+import { getEffectiveAmpacity, getCableMaxCurrent } from './cableDerating';
+import { createEnergyLossesBreakdown, getStepLosses, accumulateStepLosses, getTotalEnergyLosses } from './energyLosses';
+import { getFeedingSource } from './multiSource';
+import { getFeeders } from './networkConnectivity';
 import defaultProfiles from '@/data/hourlyProfiles.json';
 
+// Régime thermique périodique : journées rejouées au plus, écart de température fin/début de journée (°C)
+const MAX_THERMAL_DAYS = 5;
+const THERMAL_PERIODIC_TOLERANCE_C = 0.1;
+
+interface NetworkStepResult {
+  result: CalculationResult;
+  srg2States?: SRG2HourlyActivation[];
+  pvTripping?: PVTrippingSummary;
+  batteries?: BatterySimulationSummary;
+  ev?: EVHourResult;
+  heatPumpPower_kW?: number;
+}
+
 /**
  * Service de calcul des tensions horaires sur 24h
  * Utilise le moteur de calcul électrique existant avec modulation temporelle
@@ -17,6 +58,19 @@ export class DailyProfileCalculator {
   private simulationEquipment?: SimulationEquipment;
   private isSimulationActive: boolean;
   private measuredProfile?: HourlyProfile;
+  // Résultats réseau complets de chaque heure (évaluation EN50160 sur tous les nœuds)
+  private hourlyNetworkResults: (CalculationResult | null)[] = [];
+  // PV clients découplés au pas précédent (protection conservée d'un pas à l'autre)
+  private trippedPVClientIds: string[] = [];
+  // État de charge des batteries en fin de pas précédent (%)
+  private batterySoC = new Map<string, number>();
+  // Sessions de recharge VE de la journée, énergie restante à délivrer par client (kWh)
+  private evSessions: EVSession[] = [];
+  private evRemaining = new Map<string, number>();
+  private evUnserved_kWh = 0;
+  // Température des conducteurs en fin de pas précédent (°C) et bilan thermique par câble
+  private cableTemperatures = new Map<string, number>();
+  private cableThermal = new Map<string, CableThermalResult>();
 
   constructor(
     project: Project, 
@@ -44,9 +98,42 @@ export class DailyProfileCalculator {
    * - EQUI8: Peut être recalculé librement à chaque heure (temps réel, réponse rapide)
    */
   calculateDailyVoltages(): HourlyVoltageResult[] {
+    if (!this.options.cableThermalModel) return this.simulateDay(new Map());
+
+    // Modèle thermique : journée rejouée avec en début de journée les températures de fin de la
+    // précédente, jusqu'au régime périodique (la première part du régime établi de la première heure)
+    let initialTemperatures = new Map<string, number>();
+    let results = this.simulateDay(initialTemperatures);
+    for (let day = 1; day < MAX_THERMAL_DAYS; day++) {
+      const endTemperatures = this.cableTemperatures;
+      const drift_C = Math.max(0, ...[...endTemperatures].map(([cableId, end_C]) =>
+        Math.abs(end_C - (initialTemperatures.get(cableId) ?? Infinity))));
+      if (drift_C < THERMAL_PERIODIC_TOLERANCE_C) {
+        console.log(`🌡️ Régime thermique périodique atteint en ${day} jour(s)`);
+        break;
+      }
+      initialTemperatures = new Map(endTemperatures);
+      results = this.simulateDay(initialTemperatures);
+    }
+    return results;
+  }
+
+  /**
+   * Simule une journée de 24 heures à partir des températures de conducteurs données
+   */
+  private simulateDay(initialTemperatures: Map<string, number>): HourlyVoltageResult[] {
     const results: HourlyVoltageResult[] = [];
     // Toujours 230V car on calcule en phase-neutre (seuils ±5% et ±10% basés sur 230V)
     const nominalVoltage = 230;
+    this.hourlyNetworkResults = [];
+    this.trippedPVClientIds = [];
+    this.batterySoC = new Map();
+    const evFleet = this.project.evFleet;
+    this.evSessions = evFleet?.enabled ? buildEVSessions(this.project, evFleet) : [];
+    this.evRemaining = evFleet?.enabled ? createInitialEVState(this.evSessions, evFleet) : new Map();
+    this.evUnserved_kWh = 0;
+    this.cableTemperatures = new Map(initialTemperatures);
+    this.cableThermal = new Map();
 
     // 🔑 Mémoire mécanique SRG2: conserver l'état des commutateurs entre les heures
     // Initialisation: tous en bypass au démarrage de la journée
@@ -182,20 +269,9 @@ export class DailyProfileCalculator {
     const nodePowers = this.getUpstreamAndNodePowers();
     
     // Foisonnement horaire par type de client (pas de pondération !)
-    // Majoration VE sur résidentiel uniquement (valeurs personnalisables) :
-    // - evBonusEvening de 18h à 21h (début de soirée)
-    // - evBonusNight de 22h à 5h (nuit profonde)
-    let evBonus = 0;
-    if (this.options.enableEV) {
-      const bonusEvening = this.options.evBonusEvening ?? 2.5;
-      const bonusNight = this.options.evBonusNight ?? 5;
-      
-      if (hour >= 18 && hour <= 21) {
-        evBonus = bonusEvening;
-      } else if (hour >= 22 || hour <= 5) {
-        evBonus = bonusNight;
-      }
-    }
+    // Majoration VE sur résidentiel uniquement (valeurs personnalisables),
+    // remplacée par les bornes explicites lorsque la flotte VE est activée
+    const evBonus = this.project.evFleet?.enabled ? 0 : this.getEVBonus(hour);
     const residentialFoisonnementHoraire = residentialProfile + evBonus;
     const industrialFoisonnementHoraire = industrialProfile;
 
@@ -204,16 +280,6 @@ export class DailyProfileCalculator {
       ? 0 
       : (seasonProfile.pv[hourStr] || 0) * weatherFactor;
 
-    // Créer un projet modifié avec les foisonnements horaires par type de client
-    const projectWithHourlyFoisonnement: Project = {
-      ...this.project,
-      foisonnementChargesResidentiel: residentialFoisonnementHoraire,
-      foisonnementChargesIndustriel: industrialFoisonnementHoraire,
-      foisonnementProductions: productionsFoisonnement,
-      // Propager la saison choisie dans le profil 24h pour la correction thermique
-      season: this.options.season
-    };
-
     // Foisonnement pondéré pour affichage uniquement (pas pour le calcul)
     const totalPower = nodePowers.residentialPower + nodePowers.industrialPower;
     const chargesFoisonnementDisplay = totalPower === 0 
@@ -221,60 +287,20 @@ export class DailyProfileCalculator {
       : (residentialFoisonnementHoraire * nodePowers.residentialPower + 
          industrialFoisonnementHoraire * nodePowers.industrialPower) / totalPower;
 
-    // Déterminer si on doit évaluer SRG2 heure par heure
-    const hasSRG2 = this.isSimulationActive && this.simulationEquipment && 
-      this.simulationEquipment.srg2Devices?.some(s => s.enabled);
-    
-    // Autres équipements de simulation (câbles, EQUI8)
-    const hasOtherEquipment = this.isSimulationActive && this.simulationEquipment && 
-      ((this.simulationEquipment.neutralCompensators?.some(c => c.enabled)) ||
-       (this.simulationEquipment.cableReplacement?.enabled));
-
     try {
-      let result: CalculationResult;
-      let srg2States: SRG2HourlyActivation[] | undefined;
-      
-      if (hasSRG2 && this.simulationEquipment?.srg2Devices) {
-        // === CALCUL SRG2 HEURE PAR HEURE AVEC MÉMOIRE MÉCANIQUE ===
-        const srg2Result = this.calculateWithHourlySRG2Evaluation(
-          projectWithHourlyFoisonnement,
-          this.simulationEquipment.srg2Devices.filter(s => s.enabled),
-          this.simulationEquipment.neutralCompensators?.filter(c => c.enabled),
-          this.simulationEquipment.cableReplacement,
-          currentSRG2TapPositions  // 🔑 Positions de prise actuelles (mémoire mécanique)
-        );
-        result = srg2Result.result;
-        srg2States = srg2Result.srg2States;
-      } else if (hasOtherEquipment && this.simulationEquipment) {
-        // Simulation sans SRG2 (câbles ou EQUI8 uniquement)
-        const simCalculator = new SimulationCalculator(
-          this.project.cosPhi,
-          this.project.cosPhiCharges,
-          this.project.cosPhiProductions
-        );
-        
-        result = simCalculator.calculateWithSimulation(
-          projectWithHourlyFoisonnement,
-          'MIXTE',
-          this.simulationEquipment
-        );
-      } else {
-        // Pas de simulation active
-        const calculator = new ElectricalCalculator(
-          this.project.cosPhi,
-          this.project.cosPhiCharges,
-          this.project.cosPhiProductions
-        );
-        
-        result = calculator.calculateScenarioWithHTConfig(
-          projectWithHourlyFoisonnement,
-          'MIXTE',
-          residentialFoisonnementHoraire,  // Fallback pour clients manuels
-          productionsFoisonnement,
-          this.project.manualPhaseDistribution,  // Déséquilibre conservé
-          this.project.clientsImportes,
-          this.project.clientLinks
-        );
+      const { result, srg2States, pvTripping, batteries, ev, heatPumpPower_kW } = this.calculateNetworkStep(
+        {
+          residential: residentialFoisonnementHoraire,
+          industrial: industrialFoisonnementHoraire,
+          productions: productionsFoisonnement
+        },
+        this.options.season,
+        currentSRG2TapPositions,
+        hour
+      );
+      this.hourlyNetworkResults[hour] = result;
+      if (this.options.cableThermalModel) {
+        this.advanceCableTemperatures(hour, result);
       }
       
       const hourlyResult = this.extractNodeVoltages(
@@ -295,10 +321,24 @@ export class DailyProfileCalculator {
       if (srg2States) {
         hourlyResult.srg2States = srg2States;
       }
+      if (pvTripping) {
+        hourlyResult.pvTripping = pvTripping;
+      }
+      if (batteries) {
+        hourlyResult.batteries = batteries;
+      }
+      if (ev) {
+        hourlyResult.ev = ev;
+      }
+      hourlyResult.outdoorTemperature_C = this.getOutdoorTemperature(hour);
+      if (heatPumpPower_kW !== undefined) {
+        hourlyResult.heatPumpPower_kW = heatPumpPower_kW;
+      }
       
       return hourlyResult;
     } catch (error) {
       console.warn(`Erreur calcul heure ${hour}:`, error);
+      this.hourlyNetworkResults[hour] = null;
       return this.createDefaultHourlyResult(
         hour, 
         nominalVoltage, 
@@ -314,6 +354,488 @@ export class DailyProfileCalculator {
     }
   }
 
+  /**
+   * Résultats réseau complets des 24 heures du dernier calculateDailyVoltages()
+   * (null pour une heure dont le calcul a échoué)
+   */
+  getHourlyNetworkResults(): (CalculationResult | null)[] {
+    return this.hourlyNetworkResults;
+  }
+
+  /**
+   * Pertes d'énergie de la journée (pas horaire) : par câble, cuivre et fer du transformateur.
+   * Une heure dont le calcul a échoué n'est pas intégrée.
+   */
+  calculateDailyEnergyLosses(): EnergyLossesBreakdown {
+    this.calculateDailyVoltages();
+    const breakdown = createEnergyLossesBreakdown();
+    for (const result of this.hourlyNetworkResults) {
+      if (result) accumulateStepLosses(breakdown, getStepLosses(result, this.project), 1);
+    }
+    console.log(`⚡ Pertes journée: ${getTotalEnergyLosses(breakdown).toFixed(2)} kWh sur ${breakdown.hours}h`);
+    return breakdown;
+  }
+
+  /**
+   * Découplage PV en cascade sur la journée (simulation active avec découplage activé) :
+   * clients découplés dans l'ordre des événements et énergie perdue (pas horaire)
+   */
+  calculateDailyPVTripping(): PVTrippingDailyResult {
+    const hourlyResults = this.calculateDailyVoltages();
+    const pvClients = collectPVClients(this.project);
+    const cosPhiProductions = this.project.cosPhiProductions ?? 1;
+    const clients = new Map<string, PVTrippingClientResult>();
+    let totalEnergyAvailable_kWh = 0;
+
+    const hours = hourlyResults.map(hourly => {
+      const summary = hourly.pvTripping;
+      const productionShare = hourly.productionsFoisonnement / 100 * cosPhiProductions;
+      totalEnergyAvailable_kWh += pvClients.reduce((sum, c) => sum + c.client.puissancePV_kVA * productionShare, 0);
+
+      for (const clientId of summary?.trippedClientIds ?? []) {
+        const pvClient = pvClients.find(c => c.client.id === clientId);
+        if (!pvClient) continue;
+        let entry = clients.get(clientId);
+        if (!entry) {
+          entry = {
+            clientId,
+            clientName: pvClient.client.nomCircuit || clientId,
+            nodeId: pvClient.nodeId,
+            firstTripHour: hourly.hour,
+            firstTripStep: summary?.events.find(e => e.clientId === clientId && e.action === 'trip')?.step ?? 0,
+            trippedHours: 0,
+            energyLost_kWh: 0
+          };
+          clients.set(clientId, entry);
+        }
+        entry.trippedHours++;
+        entry.energyLost_kWh += pvClient.client.puissancePV_kVA * productionShare;
+      }
+
+      return {
+        hour: hourly.hour,
+        trippedClients: summary?.trippedClientIds.length ?? 0,
+        lostPower_kW: summary?.lostPower_kW ?? 0,
+        stable: summary?.stable ?? true
+      };
+    });
+
+    const orderedClients = [...clients.values()].sort((a, b) =>
+      a.firstTripHour - b.firstTripHour || a.firstTripStep - b.firstTripStep
+    );
+    const totalEnergyLost_kWh = orderedClients.reduce((sum, c) => sum + c.energyLost_kWh, 0);
+    console.log(`⚡ Découplage PV 24h: ${orderedClients.length} client(s) découplé(s), ${totalEnergyLost_kWh.toFixed(1)} kWh perdus`);
+
+    return { hours, clients: orderedClients, totalEnergyLost_kWh, totalEnergyAvailable_kWh };
+  }
+
+  /**
+   * Batteries sur la journée (simulation active) : puissance et état de charge heure par heure,
+   * énergie échangée et pointe transformateur avec / sans batteries
+   */
+  calculateDailyBatteries(): BatteryDailyResult {
+    const hours = this.calculateDailyVoltages()
+      .filter(hourly => hourly.batteries)
+      .map(hourly => ({ hour: hourly.hour, ...hourly.batteries! }));
+    const sumEnergy = (sign: 1 | -1) => hours.reduce((sum, h) =>
+      sum + h.batteries.reduce((s, b) => s + Math.max(0, sign * b.power_kW), 0), 0);
+
+    const result: BatteryDailyResult = {
+      hours,
+      chargedEnergy_kWh: sumEnergy(1),
+      dischargedEnergy_kWh: sumEnergy(-1),
+      baselinePeakLoading_percent: Math.max(0, ...hours.map(h => h.baselineTransformerLoading_percent)),
+      peakLoading_percent: Math.max(0, ...hours.map(h => h.transformerLoading_percent))
+    };
+    console.log(`🔋 Batteries 24h: ${result.chargedEnergy_kWh.toFixed(1)} kWh chargés, ${result.dischargedEnergy_kWh.toFixed(1)} kWh restitués`);
+    return result;
+  }
+
+  /**
+   * Majoration VE du foisonnement résidentiel pour une heure donnée (%)
+   * - evBonusEvening de 18h à 21h (début de soirée)
+   * - evBonusNight de 22h à 5h (nuit profonde)
+   */
+  getEVBonus(hour: number): number {
+    if (!this.options.enableEV) return 0;
+    if (hour >= 18 && hour <= 21) return this.options.evBonusEvening ?? 2.5;
+    if (hour >= 22 || hour <= 5) return this.options.evBonusNight ?? 5;
+    return 0;
+  }
+
+  /**
+   * Recharge VE sur la journée (flotte de bornes explicites) : puissance appelée heure par heure,
+   * tension minimale et courant de neutre, énergie non délivrée avant le départ des véhicules.
+   * L'accueil de bornes supplémentaires par départ est évalué à l'heure de tension minimale,
+   * sur le réseau sans équipement de simulation.
+   */
+  calculateDailyEV(): EVDailyResult {
+    const hourlyResults = this.calculateDailyVoltages();
+    const hours = hourlyResults.filter(hourly => hourly.ev).map(hourly => hourly.ev!);
+    const totalEnergy_kWh = hours.reduce((sum, h) => sum + h.totalPower_kW, 0);
+    const peakHour = hours.reduce((peak, h) => h.totalPower_kW > peak.totalPower_kW ? h : peak, hours[0])?.hour ?? 0;
+
+    let feeders: EVDailyResult['feeders'] = [];
+    const worst = hours.reduce<EVHourResult | undefined>((w, h) => !w || h.minVoltage_V < w.minVoltage_V ? h : w, undefined);
+    if (worst) {
+      const hourly = hourlyResults[worst.hour];
+      const worstProject = applyEVLoads(
+        applyHeatPumpLoads(this.buildHourlyProject({
+          residential: hourly.chargesResidentialFoisonnement,
+          industrial: hourly.chargesIndustrialFoisonnement,
+          productions: hourly.productionsFoisonnement
+        }, this.options.season), this.getOutdoorTemperature(worst.hour)).project,
+        worst.chargers.flatMap(c => {
+          const session = this.evSessions.find(s => s.clientId === c.clientId);
+          return session ? [{ session, power_kW: c.power_kW }] : [];
+        })
+      );
+      feeders = getFeeders(this.project.nodes, this.project.cables).map(feeder => calculateFeederEVHosting(
+        worstProject,
+        feeder,
+        this.evSessions.filter(s => feeder.nodeIds.includes(s.nodeId)).length
+      ));
+    }
+
+    console.log(`🚗 Recharge VE 24h: ${this.evSessions.length} borne(s), ${totalEnergy_kWh.toFixed(1)} kWh délivrés, ${this.evUnserved_kWh.toFixed(1)} kWh non délivrés`);
+    return { hours, totalEnergy_kWh, unservedEnergy_kWh: this.evUnserved_kWh, peakHour, feeders };
+  }
+
+  /**
+   * Température des câbles sur la journée (modèle thermique transitoire activé pour ce calcul) :
+   * pic de température, heures au-delà de la température admissible, écart au régime établi instantané
+   */
+  calculateDailyCableTemperatures(): CableThermalDailyResult {
+    // Options du calculateur rétablies après le calcul : l'échauffement ne reste pas actif pour les suivants
+    const previousOptions = this.options;
+    this.options = { ...previousOptions, cableThermalModel: true };
+    try {
+      this.calculateDailyVoltages();
+    } finally {
+      this.options = previousOptions;
+    }
+    const cables = [...this.cableThermal.values()]
+      .map(cable => ({
+        ...cable,
+        // Heure non calculée : température de l'heure précédente conservée
+        hourlyTemperatures_C: Array.from({ length: 24 }, (_, h) =>
+          cable.hourlyTemperatures_C.slice(0, h + 1).reduce((last, t) => t ?? last, cable.hourlyTemperatures_C.find(t => t !== undefined)!))
+      }))
+      .sort((a, b) => b.peakTemperature_C - a.peakTemperature_C);
+
+    const hottest = cables[0];
+    console.log(`🌡️ Thermique câbles 24h: ${cables.filter(c => c.hoursAboveRated > 0).length} câble(s) au-delà de la température admissible` +
+      (hottest ? `, pic ${hottest.peakTemperature_C.toFixed(1)}°C (${hottest.cableName} à ${hottest.peakHour}h)` : ''));
+    return { cables };
+  }
+
+  /**
+   * Modèle thermique transitoire : température des conducteurs en fin d'heure à partir de l'état
+   * de début d'heure (qui a fixé les résistances du calcul) et du courant de l'heure.
+   * Aérien à la température extérieure de l'heure, souterrain à la température du sol de la saison.
+   */
+  private advanceCableTemperatures(hour: number, result: CalculationResult): void {
+    for (const cable of result.cables) {
+      const ambient_C = cable.pose === 'AÉRIEN'
+        ? this.getOutdoorTemperature(hour)
+        : getAmbientTemperature(this.options.season, cable.pose);
+      const ampacity_A = getEffectiveAmpacity(cable, this.project.cableTypes) ?? 0;
+      const steady_C = calculateCableTemperature(ambient_C, getCableMaxCurrent(cable), ampacity_A, cable.pose);
+      const timeConstant_min = getThermalTimeConstant(cable);
+      // Première heure de la première journée : conducteur supposé en régime établi
+      const start_C = this.cableTemperatures.get(cable.id) ?? steady_C;
+      const end_C = advanceCableTemperature(start_C, steady_C, 60, timeConstant_min);
+      this.cableTemperatures.set(cable.id, end_C);
+
+      let entry = this.cableThermal.get(cable.id);
+      if (!entry) {
+        entry = {
+          cableId: cable.id,
+          cableName: cable.name || cable.id,
+          timeConstant_min,
+          ratedTemperature_C: getRatedConductorTemperature(cable.pose),
+          hourlyTemperatures_C: [],
+          peakTemperature_C: end_C,
+          peakHour: hour,
+          steadyStatePeakTemperature_C: steady_C,
+          hoursAboveRated: 0
+        };
+        this.cableThermal.set(cable.id, entry);
+      }
+      entry.hourlyTemperatures_C[hour] = end_C;
+      if (end_C > entry.peakTemperature_C) {
+        entry.peakTemperature_C = end_C;
+        entry.peakHour = hour;
+      }
+      entry.steadyStatePeakTemperature_C = Math.max(entry.steadyStatePeakTemperature_C, steady_C);
+      if (end_C > entry.ratedTemperature_C) entry.hoursAboveRated++;
+    }
+  }
+
+  /**
+   * Température extérieure d'une heure (°C) : profil saisi, profil type de la saison et de la météo à défaut
+   */
+  getOutdoorTemperature(hour: number): number {
+    const profile = this.options.temperatureProfile ?? getDefaultTemperatureProfile(this.options.season, this.options.weather);
+    return profile[hour.toString()] ?? 0;
+  }
+
+  /**
+   * Calcule l'état du réseau pour un pas de temps (foisonnements donnés)
+   * Inclut la simulation active (SRG2 avec mémoire mécanique, EQUI8, remplacement de câbles,
+   * batteries avec suivi de l'état de charge). Réutilisé par la simulation annuelle.
+   * @param hour - Heure de la journée type : active les pompes à chaleur (température de l'heure)
+   * et la recharge des bornes VE de la flotte
+   */
+  calculateNetworkStep(
+    foisonnements: { residential: number; industrial: number; productions: number },
+    season: Season,
+    currentSRG2TapPositions: Map<string, { A: SRG2SwitchState; B: SRG2SwitchState; C: SRG2SwitchState }>,
+    hour?: number
+  ): NetworkStepResult {
+    let hourlyProject = this.buildHourlyProject(foisonnements, season);
+    // Modèle thermique transitoire : résistances du pas à la température des conducteurs en début d'heure
+    if (hour !== undefined && this.options.cableThermalModel && this.cableTemperatures.size > 0) {
+      hourlyProject = { ...hourlyProject, cables: applyConductorTemperatures(hourlyProject.cables, this.cableTemperatures) };
+    }
+    let heatPumpPower_kW: number | undefined;
+    // Pompes à chaleur : puissance fonction de la température extérieure de l'heure
+    if (hour !== undefined && collectHeatPumpClients(this.project).length > 0) {
+      const heatPumps = applyHeatPumpLoads(hourlyProject, this.getOutdoorTemperature(hour));
+      hourlyProject = heatPumps.project;
+      heatPumpPower_kW = heatPumps.power_kW;
+    }
+    if (hour === undefined || !this.project.evFleet?.enabled || this.evSessions.length === 0) {
+      return { ...this.calculateDispatchStep(hourlyProject, foisonnements, currentSRG2TapPositions), heatPumpPower_kW };
+    }
+
+    // Bornes VE : charges du pas intégrées au projet avant les batteries
+    const { project, chargers, curtailed_kWh } = this.dispatchEVFleet(hourlyProject, foisonnements, hour);
+    const step = this.calculateDispatchStep(project, foisonnements, currentSRG2TapPositions);
+    return {
+      ...step,
+      heatPumpPower_kW,
+      ev: {
+        hour,
+        chargers,
+        totalPower_kW: chargers.reduce((sum, c) => sum + c.power_kW, 0),
+        curtailed_kWh,
+        minVoltage_V: getMinNetworkVoltage(project, step.result),
+        maxNeutralCurrent_A: getMaxNeutralCurrent(step.result)
+      }
+    };
+  }
+
+  /**
+   * Projet du pas : foisonnements horaires par type de client
+   */
+  private buildHourlyProject(
+    foisonnements: { residential: number; industrial: number; productions: number },
+    season: Season
+  ): Project {
+    return {
+      ...this.project,
+      foisonnementChargesResidentiel: foisonnements.residential,
+      foisonnementChargesIndustriel: foisonnements.industrial,
+      foisonnementProductions: foisonnements.productions,
+      // Propager la saison choisie dans le profil 24h pour la correction thermique
+      season
+    };
+  }
+
+  /**
+   * Puissance des bornes VE sur le pas (énergie restante suivie d'une heure à l'autre).
+   * En limitation de tension, la consigne est réduite d'après la tension à chaque borne
+   * calculée avec la demande complète ; l'énergie non appelée est reportée.
+   */
+  private dispatchEVFleet(
+    hourlyProject: Project,
+    foisonnements: { residential: number; industrial: number; productions: number },
+    hour: number
+  ): { project: Project; chargers: EVHourResult['chargers']; curtailed_kWh: number } {
+    const fleet = this.project.evFleet!;
+    this.evUnserved_kWh += advanceEVSessions(this.evSessions, this.evRemaining, hour);
+    let requests = this.evSessions.map(session => ({
+      session,
+      power_kW: getEVChargingRequest(session, this.evRemaining.get(session.clientId) ?? 0, hour, fleet)
+    }));
+
+    let curtailed_kWh = 0;
+    if (fleet.strategy === 'voltage_limited' && requests.some(r => r.power_kW > 0)) {
+      const fullDemandResult = this.calculateNaturalStep(applyEVLoads(hourlyProject, requests), foisonnements);
+      requests = requests.map(request => {
+        const voltage_V = getEVChargerVoltage(fullDemandResult, request.session);
+        const power_kW = voltage_V === null ? request.power_kW : request.power_kW * getVoltageLimitFactor(voltage_V, fleet);
+        curtailed_kWh += request.power_kW - power_kW;
+        return { ...request, power_kW };
+      });
+    }
+
+    for (const { session, power_kW } of requests) {
+      if (this.evRemaining.has(session.clientId)) {
+        this.evRemaining.set(session.clientId, this.evRemaining.get(session.clientId)! - power_kW);
+      }
+    }
+    return {
+      project: applyEVLoads(hourlyProject, requests),
+      chargers: requests.filter(r => r.power_kW > 0).map(r => ({ clientId: r.session.clientId, power_kW: r.power_kW })),
+      curtailed_kWh
+    };
+  }
+
+  /**
+   * Calcul du réseau naturel du pas (sans équipement de simulation)
+   */
+  private calculateNaturalStep(
+    project: Project,
+    foisonnements: { residential: number; industrial: number; productions: number }
+  ): CalculationResult {
+    return new ElectricalCalculator(
+      this.project.cosPhi,
+      this.project.cosPhiCharges,
+      this.project.cosPhiProductions
+    ).calculateScenarioWithHTConfig(
+      project,
+      'MIXTE',
+      foisonnements.residential,
+      foisonnements.productions,
+      this.project.manualPhaseDistribution,
+      this.project.clientsImportes,
+      this.project.clientLinks
+    );
+  }
+
+  /**
+   * Équipements décidés avant le calcul du pas puis intégrés au projet : batteries (sur le réseau
+   * naturel) et gradins shunt (commutation sur le réseau avec batteries)
+   */
+  private calculateDispatchStep(
+    projectWithHourlyFoisonnement: Project,
+    foisonnements: { residential: number; industrial: number; productions: number },
+    currentSRG2TapPositions: Map<string, { A: SRG2SwitchState; B: SRG2SwitchState; C: SRG2SwitchState }>
+  ): NetworkStepResult {
+    let stepProject = projectWithHourlyFoisonnement;
+    let equipment = this.simulationEquipment;
+
+    // Batteries : consigne décidée sur le réseau naturel du pas, état de charge conservé d'un pas à l'autre
+    const batteries = this.isSimulationActive
+      ? (this.simulationEquipment?.batteries?.filter(b => b.enabled) ?? [])
+      : [];
+    let batteryDispatch: { naturalResult: CalculationResult; dispatch: BatteryDispatchResult[] } | undefined;
+    if (batteries.length > 0) {
+      const naturalResult = this.calculateNaturalStep(projectWithHourlyFoisonnement, foisonnements);
+      const dispatch = dispatchBatteries(projectWithHourlyFoisonnement, 'MIXTE', naturalResult, batteries, this.batterySoC);
+      dispatch.forEach(d => this.batterySoC.set(d.batteryId, d.socEnd_percent));
+      batteryDispatch = { naturalResult, dispatch };
+      stepProject = applyBatteryDispatch(stepProject, batteries, dispatch);
+      equipment = { ...equipment!, batteries: [] };
+    }
+
+    // Gradins shunt : commutation horaire sans mémoire, gradins en service intégrés au projet du pas
+    const shuntBanks = this.isSimulationActive
+      ? (this.simulationEquipment?.shuntBanks?.filter(b => b.enabled) ?? [])
+      : [];
+    if (shuntBanks.length > 0) {
+      stepProject = new SimulationCalculator(
+        this.project.cosPhi,
+        this.project.cosPhiCharges,
+        this.project.cosPhiProductions
+      ).calculateShuntBankSwitching(stepProject, 'MIXTE', shuntBanks).project;
+      equipment = { ...equipment!, shuntBanks: [] };
+    }
+
+    const step = this.calculateEquipmentStep(stepProject, foisonnements, currentSRG2TapPositions, equipment);
+    if (!batteryDispatch) return step;
+    return {
+      ...step,
+      batteries: summarizeBatteries(
+        projectWithHourlyFoisonnement, batteries, batteryDispatch.dispatch, batteryDispatch.naturalResult, step.result
+      )
+    };
+  }
+
+  private calculateEquipmentStep(
+    projectWithHourlyFoisonnement: Project,
+    foisonnements: { residential: number; industrial: number; productions: number },
+    currentSRG2TapPositions: Map<string, { A: SRG2SwitchState; B: SRG2SwitchState; C: SRG2SwitchState }>,
+    equipment?: SimulationEquipment
+  ): NetworkStepResult {
+    // Découplage PV en cascade : état des protections repris du pas précédent
+    // (les SRG2 éventuels sont alors régulés sans mémoire mécanique)
+    if (this.isSimulationActive && equipment?.pvTripping?.enabled) {
+      const simCalculator = new SimulationCalculator(
+        this.project.cosPhi,
+        this.project.cosPhiCharges,
+        this.project.cosPhiProductions
+      );
+      const tripping = simCalculator.calculateWithPVTripping(
+        projectWithHourlyFoisonnement,
+        'MIXTE',
+        equipment,
+        this.trippedPVClientIds
+      );
+      this.trippedPVClientIds = tripping.summary.trippedClientIds;
+      return { result: tripping.result, pvTripping: tripping.summary };
+    }
+
+    // Déterminer si on doit évaluer SRG2 heure par heure
+    const hasSRG2 = this.isSimulationActive && equipment && 
+      equipment.srg2Devices?.some(s => s.enabled);
+    
+    // Autres équipements de simulation (câbles, EQUI8)
+    const hasOtherEquipment = this.isSimulationActive && equipment && 
+      ((equipment.neutralCompensators?.some(c => c.enabled)) ||
+       (equipment.cableReplacement?.enabled) ||
+       equipment.inverterControlEnabled);
+
+    if (hasSRG2 && equipment?.srg2Devices) {
+      // === CALCUL SRG2 HEURE PAR HEURE AVEC MÉMOIRE MÉCANIQUE ===
+      return this.calculateWithHourlySRG2Evaluation(
+        projectWithHourlyFoisonnement,
+        equipment.srg2Devices.filter(s => s.enabled),
+        equipment.neutralCompensators?.filter(c => c.enabled),
+        equipment.cableReplacement,
+        currentSRG2TapPositions  // 🔑 Positions de prise actuelles (mémoire mécanique)
+      );
+    }
+
+    if (hasOtherEquipment && equipment) {
+      // Simulation sans SRG2 (câbles ou EQUI8 uniquement)
+      const simCalculator = new SimulationCalculator(
+        this.project.cosPhi,
+        this.project.cosPhiCharges,
+        this.project.cosPhiProductions
+      );
+      
+      return {
+        result: simCalculator.calculateWithSimulation(
+          projectWithHourlyFoisonnement,
+          'MIXTE',
+          equipment
+        )
+      };
+    }
+
+    // Pas de simulation active
+    const calculator = new ElectricalCalculator(
+      this.project.cosPhi,
+      this.project.cosPhiCharges,
+      this.project.cosPhiProductions
+    );
+    
+    return {
+      result: calculator.calculateScenarioWithHTConfig(
+        projectWithHourlyFoisonnement,
+        'MIXTE',
+        foisonnements.residential,  // Fallback pour clients manuels
+        foisonnements.productions,
+        this.project.manualPhaseDistribution,  // Déséquilibre conservé
+        this.project.clientsImportes,
+        this.project.clientLinks
+      )
+    };
+  }
+
   /**
    * Calcul en deux passes pour évaluation SRG2 heure par heure
    * 
@@ -792,7 +1314,8 @@ export class DailyProfileCalculator {
    * Trouve tous les nœuds en aval d'un nœud donné (vers les extrémités, loin de la source)
    */
   private findDownstreamNodes(startNodeId: string): string[] {
-    const source = this.project.nodes.find(n => n.isSource);
+    // Orientation depuis le poste source qui alimente ce nœud (réseau multi-postes)
+    const source = getFeedingSource(this.project.nodes, this.project.cables, startNodeId);
     if (!source) return [];
 
     const downstream: string[] = [];
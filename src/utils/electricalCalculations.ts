@@ -3,7 +3,14 @@ import { getConnectedNodes } from '@/utils/networkConnectivity';
 import { Complex, C, add, sub, mul, div, conj, scale, abs, fromPolar, arg } from '@/utils/complex';
 import { getNodeConnectionType } from '@/utils/nodeConnectionType';
 import { getLinkedClientsForNode, calculateNodePowersFromClients } from '@/utils/clientsUtils';
-import { getThermalCorrectionFactor, ThermalSeason } from '@/utils/thermalModel';
+import { getThermalCorrectionFactor, correctResistance, ThermalSeason } from '@/utils/thermalModel';
+import { isCableClosed } from '@/utils/networkConnectivity';
+import { partitionNetworkBySource, mergeSubstationResults, getSourceTransformerConfig } from '@/utils/multiSource';
+import { detectMeshLoops, buildLoopImpedanceMatrix, applyLoopInjections, updateLoopCurrents } from '@/utils/meshedNetwork';
+import { calculateNodeSequenceVoltages, getUnbalanceCompliance } from '@/utils/symmetricalComponents';
+import { getTapFactor } from '@/utils/transformerTap';
+import { getTransformerZeroSequenceImpedance } from '@/utils/transformerCatalogue';
+import { getNeutralBranchImpedance } from '@/utils/cableDerating';
 
 export class ElectricalCalculator {
   private cosPhi: number; // Legacy - utilisé comme fallback
@@ -60,7 +67,7 @@ export class ElectricalCalculator {
    * Calcule la tension de source BT réelle basée sur la tension HT mesurée
    * et le rapport de transformation du transformateur
    * 
-   * Formule: V_BT_réelle = V_HT_mesurée × (V_BT_nominale / V_HT_nominale)
+   * Formule: V_BT_réelle = V_HT_mesurée × (V_BT_nominale / V_HT_nominale) × (1 + prise/100)
    * 
    * @param transformerConfig Configuration du transformateur
    * @param htMeasuredVoltage Tension HT mesurée (V)
@@ -91,7 +98,7 @@ export class ElectricalCalculator {
     }
     
     // Calcul du rapport de transformation
-    const transformationRatio = btNominalVoltage / htNominalVoltage;
+    const transformationRatio = (btNominalVoltage / htNominalVoltage) * getTapFactor(transformerConfig);
     const realSourceVoltage = htMeasuredVoltage * transformationRatio;
     
     console.log(`📊 Calcul tension source réaliste:`);
@@ -255,6 +262,22 @@ export class ElectricalCalculator {
     return { R, X };
   }
 
+  /**
+   * Contexte thermique d'un câble : température conducteur imposée si renseignée,
+   * sinon correction saisonnière (première passe : pas de courant connu)
+   */
+  private buildThermalContext(
+    cable: Cable,
+    cableType: CableType,
+    season?: ThermalSeason
+  ): { season?: ThermalSeason; pose: CablePose; I_A?: number; Imax_A?: number; T_cable?: number } | undefined {
+    if (cable.conductorTemperature_C !== undefined) {
+      return { pose: cable.pose, T_cable: cable.conductorTemperature_C };
+    }
+    if (!season) return undefined;
+    return { season, pose: cable.pose, I_A: 0, Imax_A: cableType.maxCurrent_A || 0 };
+  }
+
   /**
    * Sélection des impédances R/X selon le type de réseau et le mode de calcul
    * 
@@ -268,19 +291,23 @@ export class ElectricalCalculator {
    * @param cableType Type de câble
    * @param is400V true si réseau 400V étoile, false si 230V triangle
    * @param isUnbalanced true si calcul monophasé déséquilibré
-   * @param forNeutral true si sélection pour conducteur neutre
+   * @param forNeutral true si sélection pour conducteur neutre (3 × RN/XN si renseignés)
    * @param thermalContext Contexte thermique optionnel pour correction de R
+   *   (T_cable : température conducteur imposée, prioritaire sur la saison)
    */
   private selectRX(
     cableType: CableType, 
     is400V: boolean, 
     isUnbalanced: boolean,
     forNeutral: boolean = false,
-    thermalContext?: { season: ThermalSeason; pose: CablePose; I_A?: number; Imax_A?: number }
+    thermalContext?: { season?: ThermalSeason; pose: CablePose; I_A?: number; Imax_A?: number; T_cable?: number }
   ): { R: number, X: number } {
     // Calcul du facteur de correction thermique
     let thermalFactor = 1;
-    if (thermalContext) {
+    if (thermalContext?.T_cable !== undefined) {
+      // Température conducteur imposée (modèle thermique transitoire du profil 24h)
+      thermalFactor = correctResistance(1, thermalContext.T_cable, cableType.matiere);
+    } else if (thermalContext?.season) {
       thermalFactor = getThermalCorrectionFactor(
         thermalContext.season,
         thermalContext.pose,
@@ -290,11 +317,13 @@ export class ElectricalCalculator {
       );
     }
 
-    // Conducteur neutre → toujours R0/X0 (avec correction thermique)
+    // Conducteur neutre → R0/X0, ou 3 × RN/XN du neutre explicite (section réduite)
+    // ramené sur la même base (avec correction thermique)
     if (forNeutral) {
+      const { R_ohm_per_km, X_ohm_per_km } = getNeutralBranchImpedance(cableType);
       return { 
-        R: cableType.R0_ohm_per_km * thermalFactor, 
-        X: cableType.X0_ohm_per_km 
+        R: R_ohm_per_km * thermalFactor, 
+        X: X_ohm_per_km 
       };
     }
     
@@ -386,10 +415,11 @@ export class ElectricalCalculator {
     I_source_net: Complex,
     Ztr_phase: Complex | null,
     cableIndexByPair: Map<string, Cable>,
-    I_source_net_phases?: { A: Complex; B: Complex; C: Complex } // Pour I_N en mode déséquilibré
+    I_source_net_phases?: { A: Complex; B: Complex; C: Complex }, // Pour I_N en mode déséquilibré
+    Ztr0_phase?: Complex | null // Impédance homopolaire transfo (déplacement du neutre)
   ): VirtualBusbar {
     const { U_base: U_nom_source, isThreePhase: isSourceThree } = this.getVoltage(source.connectionType);
-    const U_ref_line = source.tensionCible ?? transformerConfig.nominalVoltage_V ?? U_nom_source;
+    const U_ref_line = source.tensionCible ?? (transformerConfig.nominalVoltage_V ?? U_nom_source) * getTapFactor(transformerConfig);
 
     // Tension slack de référence (phasor)
     const Vslack = C(U_ref_line / (isSourceThree ? Math.sqrt(3) : 1), 0);
@@ -405,9 +435,13 @@ export class ElectricalCalculator {
     // Courant neutre du jeu de barres (si 400V et mode déséquilibré)
     const is400V = U_ref_line >= 350;
     let current_N: number | undefined;
+    let neutralShift_V: number | undefined;
     if (is400V && I_source_net_phases) {
       const I_N = add(add(I_source_net_phases.A, I_source_net_phases.B), I_source_net_phases.C);
       current_N = abs(I_N);
+      if (Ztr_phase && Ztr0_phase) {
+        neutralShift_V = abs(mul(sub(Ztr0_phase, Ztr_phase), scale(I_N, 1 / 3)));
+      }
     }
 
     // ΔU global appliqué au bus (en V, ligne)
@@ -492,6 +526,7 @@ export class ElectricalCalculator {
       voltage_V: busVoltage_V,
       current_A: busCurrent_A,
       current_N,
+      neutralShift_V,
       netSkVA,
       deltaU_V: dVtr_line_signed,
       deltaU_percent: U_ref_line ? (dVtr_line_signed / U_ref_line) * 100 : 0,
@@ -517,7 +552,7 @@ export class ElectricalCalculator {
     clientsImportes?: ClientImporte[],
     clientLinks?: ClientLink[]
   ): CalculationResult {
-    // Si configuration HT disponible, ajuster la tension de la source
+    // Si configuration HT disponible, ajuster la tension de chaque poste source
     let modifiedNodes = [...project.nodes];
     
     if (project.htVoltageConfig && project.transformerConfig) {
@@ -527,11 +562,10 @@ export class ElectricalCalculator {
         measuredVoltageHT_V
       } = project.htVoltageConfig;
 
-      const sourceNode = modifiedNodes.find(n => n.isSource);
-      if (sourceNode && !sourceNode.tensionCible) {
-        // Calculer la tension source réaliste
+      for (const sourceNode of modifiedNodes.filter(n => n.isSource && !n.tensionCible)) {
+        // Calculer la tension source réaliste avec le transformateur du poste
         const realisticVoltage = this.calculateSourceVoltage(
-          project.transformerConfig,
+          getSourceTransformerConfig(sourceNode, project.transformerConfig)!,
           measuredVoltageHT_V,
           nominalVoltageHT_V,
           nominalVoltageBT_V
@@ -548,7 +582,7 @@ export class ElectricalCalculator {
           n.id === sourceNode.id ? modifiedSourceNode : n
         );
 
-        console.log(`🔌 Application tension source HT réaliste: ${realisticVoltage.toFixed(1)}V`);
+        console.log(`🔌 Application tension source HT réaliste (${sourceNode.name}): ${realisticVoltage.toFixed(1)}V`);
       }
     }
 
@@ -598,6 +632,70 @@ export class ElectricalCalculator {
     // Saison pour correction thermique des câbles
     season?: ThermalSeason
   ): CalculationResult {
+    // Points de coupure ouverts : seuls les câbles fermés participent au calcul
+    const openCables = cables.filter(c => !isCableClosed(c));
+    if (openCables.length > 0) {
+      const result = this.calculateScenario(
+        nodes,
+        cables.filter(isCableClosed),
+        cableTypes,
+        scenario,
+        foisonnementCharges,
+        foisonnementProductions,
+        transformerConfig,
+        loadModel,
+        desequilibrePourcent,
+        manualPhaseDistribution,
+        clientsImportes,
+        clientLinks,
+        foisonnementChargesResidentiel,
+        foisonnementChargesIndustriel,
+        equi8CurrentInjections,
+        season
+      );
+      const openCableResults: Cable[] = openCables.map(c => ({
+        ...c,
+        current_A: 0,
+        voltageDrop_V: 0,
+        voltageDropPercent: 0,
+        losses_kW: 0,
+        apparentPower_kVA: 0
+      }));
+      return { ...result, cables: [...result.cables, ...openCableResults] };
+    }
+
+    // Réseau multi-postes : calcul indépendant de la zone de chaque poste source
+    if (nodes.filter(n => n.isSource).length > 1) {
+      const parts = partitionNetworkBySource(nodes, cables).map(partition => {
+        const source = nodes.find(n => n.id === partition.sourceId)!;
+        const sourceTransformer = getSourceTransformerConfig(source, transformerConfig);
+        const zoneInjections = equi8CurrentInjections
+          ? new Map([...equi8CurrentInjections].filter(([nodeId]) => partition.nodeIds.has(nodeId)))
+          : undefined;
+        const result = this.calculateScenario(
+          nodes.filter(n => partition.nodeIds.has(n.id)),
+          cables.filter(c => partition.cableIds.has(c.id)),
+          cableTypes,
+          scenario,
+          foisonnementCharges,
+          foisonnementProductions,
+          sourceTransformer,
+          loadModel,
+          desequilibrePourcent,
+          manualPhaseDistribution,
+          clientsImportes,
+          clientLinks,
+          foisonnementChargesResidentiel,
+          foisonnementChargesIndustriel,
+          zoneInjections,
+          season
+        );
+        return { source, transformerConfig: sourceTransformer, partition, result };
+      });
+      console.log(`🏭 Réseau multi-postes: ${parts.length} postes sources calculés`);
+      return mergeSubstationResults(scenario, parts);
+    }
+
     // Validation robuste des entrées
     this.validateInputs(nodes, cables, cableTypes, foisonnementCharges, foisonnementProductions, desequilibrePourcent);
     
@@ -619,6 +717,7 @@ export class ElectricalCalculator {
     }
 
     const parent = new Map<string, string | null>();
+    const parentCableIdOfChild = new Map<string, string>(); // Câble de l'arbre couvrant reliant chaque nœud à son parent
     const visited = new Set<string>();
     const queue: string[] = [source.id];
     parent.set(source.id, null);
@@ -630,6 +729,7 @@ export class ElectricalCalculator {
         if (!visited.has(edge.neighborId)) {
           visited.add(edge.neighborId);
           parent.set(edge.neighborId, u);
+          parentCableIdOfChild.set(edge.neighborId, edge.cableId);
           queue.push(edge.neighborId);
         }
       }
@@ -788,10 +888,11 @@ export class ElectricalCalculator {
       cableIndexByPair.set(key2, cab);
     }
 
+    // Câble parent de chaque nœud : celui retenu par le BFS (robuste aux câbles parallèles)
+    const cableById = new Map(cables.map(cab => [cab.id, cab] as const));
     const parentCableOfChild = new Map<string, (typeof cables)[number]>();
-    for (const [nodeId, p] of parent.entries()) {
-      if (!p) continue;
-      const cab = cableIndexByPair.get(`${p}|${nodeId}`);
+    for (const [nodeId, cableId] of parentCableIdOfChild.entries()) {
+      const cab = cableById.get(cableId);
       if (cab) parentCableOfChild.set(nodeId, cab);
     }
 
@@ -841,13 +942,8 @@ export class ElectricalCalculator {
       // Déterminer le type de réseau et le mode
       const is400V = U_line_base >= ElectricalCalculator.VOLTAGE_400V_THRESHOLD;
       
-      // Construire le contexte thermique si saison définie
-      const thermalCtx = projectSeason ? {
-        season: projectSeason,
-        pose: cab.pose,
-        I_A: 0, // Première passe : pas de courant connu
-        Imax_A: ct.maxCurrent_A || 0
-      } : undefined;
+      // Construire le contexte thermique si saison définie ou température conducteur imposée
+      const thermalCtx = this.buildThermalContext(cab, ct, projectSeason);
       
       const { R: R_ohm_per_km, X: X_ohm_per_km } = this.selectRX(ct, is400V, isUnbalanced, false, thermalCtx);
       // Series impedance per phase for the full segment
@@ -857,6 +953,28 @@ export class ElectricalCalculator {
       cableParentId.set(cab.id, parentId);
     }
 
+    // ---- Réseau maillé : câbles de bouclage hors arbre couvrant (méthode de compensation) ----
+    const meshLoops = detectMeshLoops(cables, parent, parentCableIdOfChild);
+    for (const loop of meshLoops) {
+      const cab = cableById.get(loop.cableId)!;
+      const ct = cableTypeById.get(cab.typeId);
+      if (!ct) throw new Error(`Cable type ${cab.typeId} introuvable`);
+      const L_km = this.calculateLengthMeters(cab.coordinates || []) / 1000;
+      const is400V = U_line_base >= ElectricalCalculator.VOLTAGE_400V_THRESHOLD;
+      const thermalCtx = this.buildThermalContext(cab, ct, projectSeason);
+      const { R: R_ohm_per_km, X: X_ohm_per_km } = this.selectRX(ct, is400V, isUnbalanced, false, thermalCtx);
+      cableZ_phase.set(cab.id, C(R_ohm_per_km * L_km, X_ohm_per_km * L_km));
+      // Convention : le courant de boucle circule de A vers B
+      cableParentId.set(cab.id, loop.nodeAId);
+      cableChildId.set(cab.id, loop.nodeBId);
+    }
+    const loopMatrix = meshLoops.length > 0
+      ? buildLoopImpedanceMatrix(meshLoops, parent, parentCableIdOfChild, cableZ_phase)
+      : [];
+    if (meshLoops.length > 0) {
+      console.log(`🔁 Réseau maillé: ${meshLoops.length} boucle(s) détectée(s) - câbles de bouclage: ${meshLoops.map(l => l.cableId).join(', ')}`);
+    }
+
     // ===== TENSION DE RÉFÉRENCE POUR LES CALCULS =====
     // U_line_base : tension nominale du réseau (230V ou 400V) - utilisée pour Zbase et choix impédances
     // Vslack_phase : tension réelle mesurée aux bornes du transfo - point de départ des calculs de chute
@@ -881,7 +999,7 @@ export class ElectricalCalculator {
     }
     // 2. Priorité: tension source ajustée via slider (±5%)
     else if (transformerConfig?.sourceVoltage) {
-      const U_line = transformerConfig.sourceVoltage;
+      const U_line = transformerConfig.sourceVoltage * getTapFactor(transformerConfig);
       console.log(`🎚️ Utilisation tension source (slider): ${U_line}V`);
       if (source.connectionType === 'TÉTRA_3P+N_230_400V') {
         Vslack_phase = U_line / Math.sqrt(3);
@@ -891,7 +1009,8 @@ export class ElectricalCalculator {
     }
     // 3. Sinon : utiliser tension nominale
     else if (transformerConfig?.nominalVoltage_V) {
-      const U_line = transformerConfig.nominalVoltage_V;
+      // Prise hors tension du transformateur appliquée à la tension à vide
+      const U_line = transformerConfig.nominalVoltage_V * getTapFactor(transformerConfig);
       // Décision basée sur le type de connexion, pas sur un seuil de tension
       if (source.connectionType === 'TÉTRA_3P+N_230_400V') {
         Vslack_phase = U_line / Math.sqrt(3); // Tétra : convertir phase-phase → phase-neutre
@@ -917,6 +1036,11 @@ export class ElectricalCalculator {
     console.log(`✅ Vslack_phase: ${Vslack_phase.toFixed(1)}V | U_line_base nominal: ${U_line_base}V`);
     const Vslack = C(Vslack_phase, 0);
 
+    // Compensation shunt à impédance constante : Y = jQ/Vn² (Q > 0 capacitif), courant absorbé I = Y·V
+    const V_shunt_nominal = source.connectionType === 'TÉTRA_3P+N_230_400V' ? U_line_base / Math.sqrt(3) : U_line_base;
+    const shuntCurrent = (Q_kVAr: number | undefined, Vn: Complex): Complex =>
+      Q_kVAr ? mul(C(0, Q_kVAr * 1000 / (V_shunt_nominal * V_shunt_nominal)), Vn) : C(0, 0);
+
     // Transformer series impedance (per phase)
     let Ztr_phase: Complex | null = null;
     if (transformerConfig) {
@@ -941,6 +1065,10 @@ export class ElectricalCalculator {
       }
       Ztr_phase = C(R, X);
     }
+    // Impédance homopolaire du transformateur (catalogue), Z0 = Z1 par défaut
+    const Ztr0_phase: Complex | null = transformerConfig && Ztr_phase
+      ? getTransformerZeroSequenceImpedance(transformerConfig, U_line_base, Ztr_phase)
+      : null;
 
     const V_node = new Map<string, Complex>();
     for (const n of nodes) V_node.set(n.id, Vslack);
@@ -1256,6 +1384,8 @@ export class ElectricalCalculator {
 
         const Vslack_phase_ph = fromPolar(Vslack_phase, this.deg2rad(angleDeg));
         for (const n of nodes) V_node_phase.set(n.id, Vslack_phase_ph);
+        const J_loop_phase: Complex[] = meshLoops.map(() => C(0, 0));
+        let J_applied_phase: Complex[] = [...J_loop_phase]; // Courants de boucle du dernier balayage (cohérents avec I_branch)
 
         let iter2 = 0;
         let converged2 = false;
@@ -1271,6 +1401,7 @@ export class ElectricalCalculator {
             const Sph = S_map.get(n.id) || C(0, 0);
             const Vsafe = abs(Vn) > ElectricalCalculator.MIN_VOLTAGE_SAFETY ? Vn : Vslack_phase_ph;
             let Iinj = conj(div(Sph, Vsafe));
+            Iinj = add(Iinj, shuntCurrent(n.shuntCompensation_kVAr?.[phaseLabel], Vn));
             
             // ✅ EQUI8 CME: Ajouter l'injection de courant shunt si présente
             // EQUI8 modifie les courants, JAMAIS les tensions directement.
@@ -1293,6 +1424,8 @@ export class ElectricalCalculator {
             
             I_inj_node_phase.set(n.id, Iinj);
           }
+          applyLoopInjections(I_inj_node_phase, meshLoops, J_loop_phase);
+          J_applied_phase = [...J_loop_phase];
 
           for (const u of postOrder) {
             if (u === source.id) continue;
@@ -1390,8 +1523,11 @@ export class ElectricalCalculator {
             }
           }
 
+          // Réseau maillé : correction des courants de boucle
+          const loopMismatch = updateLoopCurrents(meshLoops, V_node_phase, cableZ_phase, loopMatrix, J_loop_phase);
+
           // Convergence per-phase
-          let maxDelta = 0;
+          let maxDelta = loopMismatch;
           for (const [nid, Vn] of V_node_phase.entries()) {
             const Vp = V_prev2.get(nid) || Vslack_phase_ph;
             const d = abs(sub(Vn, Vp));
@@ -1402,6 +1538,7 @@ export class ElectricalCalculator {
         if (!converged2) {
           console.warn(`⚠️ BFS phase ${angleDeg}° non convergé`);
         }
+        meshLoops.forEach((loop, k) => I_branch_phase.set(loop.cableId, J_applied_phase[k]));
         return { V_node_phase, I_branch_phase };
       };
 
@@ -1466,6 +1603,7 @@ export class ElectricalCalculator {
         // Calculer la tension du neutre à chaque nœud en propageant la chute Z_neutre * I_N
         const V_neutral = new Map<string, Complex>();
         V_neutral.set(source.id, C(0, 0)); // Le neutre à la source est à 0V (référence)
+        let I_N_source = C(0, 0); // Courant neutre total au départ du transformateur
         
         // BFS depuis la source pour propager la tension du neutre
         const stack3 = [source.id];
@@ -1504,21 +1642,18 @@ export class ElectricalCalculator {
               }
             }
             
-            // Récupérer l'impédance du conducteur neutre (R0, X0)
+            if (u === source.id) I_N_source = add(I_N_source, IN_phasor);
+
+            // Récupérer l'impédance du conducteur neutre (R0/X0 ou 3 × RN/XN)
             const distalNode = nodeById.get(v)!;
             const ct = cableTypeById.get(cab.typeId);
             if (!ct) continue;
             const length_m = this.calculateLengthMeters(cab.coordinates || []);
             const L_km = length_m / 1000;
             
-            // Utiliser R0/X0 pour le conducteur neutre (forNeutral = true)
+            // Impédance du conducteur neutre : R0/X0 ou 3 × RN/XN (forNeutral = true)
             const is400V_local = U_line_base >= ElectricalCalculator.VOLTAGE_400V_THRESHOLD;
-            const thermalCtxNeutral = projectSeason ? {
-              season: projectSeason,
-              pose: cab.pose,
-              I_A: 0,
-              Imax_A: ct.maxCurrent_A || 0
-            } : undefined;
+            const thermalCtxNeutral = this.buildThermalContext(cab, ct, projectSeason);
             const { R: R0, X: X0 } = this.selectRX(ct, is400V_local, isUnbalanced, true, thermalCtxNeutral);
             const Z_neutral = C(R0 * L_km, X0 * L_km);
             
@@ -1534,6 +1669,15 @@ export class ElectricalCalculator {
             stack3.push(v);
           }
         }
+
+        // Déplacement du point neutre du transformateur : (Z0 - Z1)·I0 avec I0 = I_N/3
+        // (nul pour Z0 = Z1, opposé à l'élévation du neutre des câbles pour un Yzn11 où Z0 < Z1)
+        if (Ztr_phase && Ztr0_phase) {
+          const V_shift = mul(sub(Ztr0_phase, Ztr_phase), scale(I_N_source, 1 / 3));
+          if (abs(V_shift) > 1e-9) {
+            for (const [id, Vn] of V_neutral.entries()) V_neutral.set(id, add(Vn, V_shift));
+          }
+        }
         
         // Corriger les tensions phase-neutre en soustrayant la tension du neutre
         // V_phase_neutre_corrigé = V_phase - V_neutral
@@ -1544,7 +1688,7 @@ export class ElectricalCalculator {
         // supprimé car il n'est plus utilisé en mode CME.
         // ============================================================================
         for (const n of nodes) {
-          if (n.id === source.id) continue; // La source n'a pas besoin de correction
+          // La source n'est corrigée que du déplacement du neutre transformateur (nul si Z0 = Z1)
           
           const Vn = V_neutral.get(n.id);
           if (!Vn) continue;
@@ -1585,6 +1729,7 @@ export class ElectricalCalculator {
       // Compose cable results (par phase)
       calculatedCables.length = 0;
       globalLosses = 0;
+      const cablePowerFlows: NonNullable<CalculationResult['cablePowerFlows']> = [];
 
       for (const cab of cables) {
         const childId = cableChildId.get(cab.id);
@@ -1648,8 +1793,25 @@ export class ElectricalCalculator {
           losses_kW,
           apparentPower_kVA: undefined,
           currentsPerPhase_A: { A: IA_mag, B: IB_mag, C: IC_mag, N: is400V ? IN_mag : undefined },
+          currentNeutral_A: is400V ? IN_mag : undefined,
           voltageDropPerPhase_V: { A: dVA, B: dVB, C: dVC }
         });
+
+        // Flux P/Q du tronçon : S = V·I* au nœud amont, somme des trois phases
+        const upstreamId = parentId ?? (parent.get(cab.nodeBId) === cab.nodeAId ? cab.nodeAId : cab.nodeBId);
+        const S_cab = [
+          mul(phaseA.V_node_phase.get(upstreamId) || Vslack, conj(IA)),
+          mul(phaseB.V_node_phase.get(upstreamId) || Vslack, conj(IB)),
+          mul(phaseC.V_node_phase.get(upstreamId) || Vslack, conj(IC))
+        ].reduce((sum, S_phase) => add(sum, S_phase), C(0, 0));
+        const S_cab_kVA = abs(S_cab) / 1000;
+        cablePowerFlows.push({
+          cableId: cab.id,
+          P_kW: Number((S_cab.re / 1000).toFixed(3)),
+          Q_kVAr: Number((S_cab.im / 1000).toFixed(3)),
+          S_kVA: Number(S_cab_kVA.toFixed(3)),
+          pf: Number((S_cab_kVA > 1e-6 ? Math.abs(S_cab.re / 1000 / S_cab_kVA) : 1).toFixed(3))
+        });
       }
 
       // Tension nodale (pire phase) et conformité
@@ -1754,7 +1916,8 @@ export class ElectricalCalculator {
           I_source_net_A,
           Ztr_phase,
           cableIndexByPair,
-          { A: I_source_net_A, B: I_source_net_B, C: I_source_net_C }
+          { A: I_source_net_A, B: I_source_net_B, C: I_source_net_C },
+          Ztr0_phase
         );
       }
 
@@ -1871,6 +2034,9 @@ export class ElectricalCalculator {
       const finalCompliance = globalComplianceFromPhases === 'critical' ? 'critical' :
                               globalComplianceFromPhases === 'warning' ? 'warning' : compliance;
 
+      // Composantes symétriques et taux de déséquilibre EN50160
+      const nodeSequenceVoltages = calculateNodeSequenceVoltages(nodePhasorsPerPhase);
+
       const result: CalculationResult = {
         scenario,
         cables: calculatedCables,
@@ -1884,9 +2050,13 @@ export class ElectricalCalculator {
         nodeMetrics: undefined,
         nodePhasors: undefined,
         nodePhasorsPerPhase,
+        nodeSequenceVoltages,
+        unbalanceCompliance: getUnbalanceCompliance(nodeSequenceVoltages),
         nodeMetricsPerPhase, // Nouvelles métriques par phase avec conformité individuelle
-        cablePowerFlows: undefined,
-        virtualBusbar
+        cablePowerFlows,
+        virtualBusbar,
+        solverMode: meshLoops.length > 0 ? 'meshed' : 'radial',
+        meshLoops
       };
 
       console.log(`[ElectricalCalculator] Conformité multi-phase: global=${globalComplianceFromPhases}, final=${finalCompliance}`);
@@ -1961,6 +2131,8 @@ export class ElectricalCalculator {
     // Storage
     const I_branch = new Map<string, Complex>(); // by cable id (per phase)
     const I_inj_node = new Map<string, Complex>();
+    const J_loop: Complex[] = meshLoops.map(() => C(0, 0)); // Courants de boucle (réseau maillé)
+    let J_applied: Complex[] = [...J_loop]; // Courants de boucle du dernier balayage (cohérents avec I_branch)
 
     while (iter < maxIter) {
       iter++;
@@ -1974,10 +2146,13 @@ export class ElectricalCalculator {
         const Vn = V_node.get(n.id) || Vslack;
         const Sph = S_node_phase_VA.get(n.id) || C(0, 0);
         const Vsafe = abs(Vn) > ElectricalCalculator.MIN_VOLTAGE_SAFETY ? Vn : Vslack;
-        // I = conj(S / V)
-        const Iinj = conj(div(Sph, Vsafe));
+        // I = conj(S / V), plus le courant des gradins shunt (moyenne des trois phases)
+        const shunt = n.shuntCompensation_kVAr;
+        const Iinj = add(conj(div(Sph, Vsafe)), shuntCurrent(shunt && (shunt.A + shunt.B + shunt.C) / 3, Vn));
         I_inj_node.set(n.id, Iinj);
       }
+      applyLoopInjections(I_inj_node, meshLoops, J_loop);
+      J_applied = [...J_loop];
 
       for (const u of postOrder) {
         if (u === source.id) continue;
@@ -2033,8 +2208,11 @@ export class ElectricalCalculator {
         }
       }
 
+      // Réseau maillé : correction des courants de boucle
+      const loopMismatch = updateLoopCurrents(meshLoops, V_node, cableZ_phase, loopMatrix, J_loop);
+
       // Convergence check
-      let maxDelta = 0;
+      let maxDelta = loopMismatch;
       for (const [nid, Vn] of V_node.entries()) {
         const Vp = V_prev.get(nid) || Vslack;
         const d = abs(sub(Vn, Vp));
@@ -2045,6 +2223,7 @@ export class ElectricalCalculator {
     if (!converged) {
       console.warn(`⚠️ Backward–Forward Sweep non convergé (tol=${tol}, maxIter=${maxIter}). Les résultats peuvent être approximatifs.`);
     }
+    meshLoops.forEach((loop, k) => I_branch.set(loop.cableId, J_applied[k]));
 
     // Compose cable results from final branch currents and voltages
     calculatedCables.length = 0;
@@ -2319,6 +2498,8 @@ export class ElectricalCalculator {
       nodeMetricsPerPhase, // Maintenant toujours disponible
       cablePowerFlows,
       virtualBusbar,
+      solverMode: meshLoops.length > 0 ? 'meshed' : 'radial',
+      meshLoops,
       manualPhaseDistribution
     };
 
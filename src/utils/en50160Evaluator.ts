@@ -0,0 +1,218 @@
+import { CalculationResult, Project } from '@/types/network';
+import {
+  VoltageTimeSeries,
+  EN50160WeekEvaluation,
+  EN50160SeriesEvaluation,
+  EN50160Evaluation
+} from '@/types/dailyProfile';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+
+/**
+ * Critères EN50160 sur la tension d'alimentation BT
+ * - 95% des valeurs moyennes 10 min de chaque semaine dans Un ±10%
+ * - 100% des valeurs dans Un +10% / -15%
+ */
+export const EN50160_LIMITS = {
+  nominalVoltage_V: 230,
+  band95_percent: 10,
+  required_percent: 95,
+  upper100_percent: 10,
+  lower100_percent: -15,
+  aggregationMinutes: 10,
+  weekMinutes: 7 * 24 * 60
+};
+
+/**
+ * Centile par interpolation linéaire sur un tableau trié croissant
+ */
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/**
+ * Ramène une série au pas de 10 min (moyennes) si son pas est plus fin.
+ * Un pas plus long est conservé tel quel : chaque échantillon vaut stepMinutes/10 valeurs 10 min.
+ */
+const aggregateTo10Minutes = (series: VoltageTimeSeries): VoltageTimeSeries => {
+  const { aggregationMinutes } = EN50160_LIMITS;
+  if (series.stepMinutes >= aggregationMinutes || aggregationMinutes % series.stepMinutes !== 0) {
+    return series;
+  }
+
+  const groupSize = aggregationMinutes / series.stepMinutes;
+  const samples_V: number[][] = [];
+  for (let start = 0; start < series.samples_V.length; start += groupSize) {
+    const group = series.samples_V.slice(start, start + groupSize);
+    const phaseCount = group[0].length;
+    samples_V.push(Array.from({ length: phaseCount }, (_, phase) =>
+      group.reduce((sum, sample) => sum + sample[phase], 0) / group.length
+    ));
+  }
+  return { ...series, stepMinutes: aggregationMinutes, samples_V };
+};
+
+const evaluateWeek = (week: number, samples_V: number[][], stepMinutes: number, nominal: number): EN50160WeekEvaluation => {
+  const { band95_percent, required_percent, upper100_percent, lower100_percent, aggregationMinutes } = EN50160_LIMITS;
+  const low95 = nominal * (1 - band95_percent / 100);
+  const high95 = nominal * (1 + band95_percent / 100);
+  const low100 = nominal * (1 + lower100_percent / 100);
+  const high100 = nominal * (1 + upper100_percent / 100);
+
+  // Critère appliqué phase par phase : on retient la phase la plus défavorable
+  const phaseCount = samples_V[0].length;
+  const within = new Array(phaseCount).fill(0);
+  const highest: number[] = [];
+  const lowest: number[] = [];
+  let within100Band = true;
+
+  for (const sample of samples_V) {
+    sample.forEach((voltage, phase) => {
+      if (voltage >= low95 && voltage <= high95) within[phase]++;
+      if (voltage < low100 || voltage > high100) within100Band = false;
+    });
+    highest.push(Math.max(...sample));
+    lowest.push(Math.min(...sample));
+  }
+
+  highest.sort((a, b) => a - b);
+  lowest.sort((a, b) => a - b);
+  const percentWithin10 = (Math.min(...within) / samples_V.length) * 100;
+
+  return {
+    week,
+    sampleCount: Math.round(samples_V.length * Math.max(1, stepMinutes / aggregationMinutes)),
+    p95_V: percentile(highest, 95),
+    p5_V: percentile(lowest, 5),
+    min_V: lowest[0],
+    max_V: highest[highest.length - 1],
+    percentWithin10,
+    within100Band,
+    compliant: percentWithin10 >= required_percent && within100Band
+  };
+};
+
+/**
+ * Évalue une série semaine par semaine.
+ * Une série plus courte qu'une semaine (profil 24h) est considérée comme représentative de la semaine ;
+ * un reliquat de fin de série est rattaché à la dernière semaine complète.
+ */
+export const evaluateEN50160Series = (
+  series: VoltageTimeSeries,
+  nominalVoltage_V = EN50160_LIMITS.nominalVoltage_V
+): EN50160SeriesEvaluation | null => {
+  const aggregated = aggregateTo10Minutes(series);
+  if (aggregated.samples_V.length === 0) return null;
+
+  const samplesPerWeek = Math.max(1, Math.round(EN50160_LIMITS.weekMinutes / aggregated.stepMinutes));
+  const weekCount = Math.max(1, Math.floor(aggregated.samples_V.length / samplesPerWeek));
+
+  const weeks: EN50160WeekEvaluation[] = [];
+  for (let week = 0; week < weekCount; week++) {
+    const end = week === weekCount - 1 ? aggregated.samples_V.length : (week + 1) * samplesPerWeek;
+    weeks.push(evaluateWeek(week + 1, aggregated.samples_V.slice(week * samplesPerWeek, end), aggregated.stepMinutes, nominalVoltage_V));
+  }
+
+  const worstWeek = weeks.reduce((worst, w) => {
+    if (w.compliant !== worst.compliant) return w.compliant ? worst : w;
+    return w.percentWithin10 < worst.percentWithin10 ? w : worst;
+  });
+
+  return {
+    id: series.id,
+    label: series.label,
+    kind: series.kind,
+    weeks,
+    worstWeek,
+    compliant: weeks.every(w => w.compliant)
+  };
+};
+
+/**
+ * Évaluation statistique EN50160 d'un ensemble de séries (nœuds et clients)
+ */
+export const evaluateEN50160 = (
+  series: VoltageTimeSeries[],
+  nominalVoltage_V = EN50160_LIMITS.nominalVoltage_V
+): EN50160Evaluation => {
+  const evaluations = series
+    .map(s => evaluateEN50160Series(s, nominalVoltage_V))
+    .filter((e): e is EN50160SeriesEvaluation => e !== null);
+
+  const duration_h = series.reduce((max, s) => Math.max(max, (s.samples_V.length * s.stepMinutes) / 60), 0);
+
+  return {
+    nominalVoltage_V,
+    duration_h,
+    representativeWeek: duration_h * 60 < EN50160_LIMITS.weekMinutes,
+    nodes: evaluations.filter(e => e.kind === 'node'),
+    clients: evaluations.filter(e => e.kind === 'client'),
+    compliant: evaluations.every(e => e.compliant)
+  };
+};
+
+/**
+ * Construit les séries de tension de tous les nœuds et clients liés
+ * à partir des résultats réseau successifs (ex: 24 heures du profil journalier).
+ * Les tensions sont ramenées à la tension simple 230 V depuis les écarts par phase,
+ * quel que soit le couplage du nœud (TÉTRA équilibré exprimé en tension composée).
+ * Les clients MONO ne sont évalués que sur leur phase ; la chute dans le branchement n'est pas incluse.
+ * Les pas dont le calcul a échoué (null) sont ignorés.
+ */
+export const buildNetworkVoltageSeries = (
+  project: Project,
+  networkResults: (CalculationResult | null)[],
+  stepMinutes = 60
+): VoltageTimeSeries[] => {
+  const { nominalVoltage_V } = EN50160_LIMITS;
+  const steps = networkResults.filter((r): r is CalculationResult => !!r);
+  const nodeVoltages = new Map<string, { A: number; B: number; C: number }[]>();
+
+  for (const result of steps) {
+    for (const node of project.nodes) {
+      const deviations = getNodeDeviationsPercent(result, node.id);
+      if (!deviations) continue;
+      const list = nodeVoltages.get(node.id) ?? [];
+      list.push({
+        A: nominalVoltage_V * (1 + deviations.A / 100),
+        B: nominalVoltage_V * (1 + deviations.B / 100),
+        C: nominalVoltage_V * (1 + deviations.C / 100)
+      });
+      nodeVoltages.set(node.id, list);
+    }
+  }
+
+  const series: VoltageTimeSeries[] = [];
+
+  for (const node of project.nodes) {
+    const voltages = nodeVoltages.get(node.id);
+    if (node.isSource || !voltages || voltages.length !== steps.length) continue;
+    series.push({
+      id: node.id,
+      label: node.name || node.id,
+      kind: 'node',
+      stepMinutes,
+      samples_V: voltages.map(v => [v.A, v.B, v.C])
+    });
+  }
+
+  for (const link of project.clientLinks ?? []) {
+    const client = project.clientsImportes?.find(c => c.id === link.clientId);
+    const voltages = nodeVoltages.get(link.nodeId);
+    if (!client || !voltages || voltages.length !== steps.length) continue;
+
+    const phase = (client.connectionType ?? 'MONO') === 'MONO' ? client.assignedPhase : undefined;
+    series.push({
+      id: client.id,
+      label: client.nomCircuit || client.id,
+      kind: 'client',
+      stepMinutes,
+      samples_V: voltages.map(v => phase ? [v[phase]] : [v.A, v.B, v.C])
+    });
+  }
+
+  return series;
+};
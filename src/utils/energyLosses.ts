@@ -0,0 +1,126 @@
+import { Project, CalculationResult, TransformerConfig, VirtualBusbar } from '@/types/network';
+import { EnergyLossesBreakdown, EnergyLossesComparison, EnergyLossesLine } from '@/types/dailyProfile';
+import { getFeeders } from './networkConnectivity';
+import { getSourceTransformerConfig } from './multiSource';
+
+// Prix de valorisation des pertes par défaut (€/kWh, ordre de grandeur du prix d'achat des pertes)
+export const DEFAULT_LOSS_PRICE_EUR_PER_KWH = 0.08;
+
+/**
+ * Pertes instantanées d'un calcul de réseau (kW) : par câble, cuivre et fer des transformateurs
+ */
+export interface StepLosses {
+  cables: [string, number][];
+  transformerCopper_kW: number;
+  transformerIron_kW: number;
+}
+
+export const createEnergyLossesBreakdown = (): EnergyLossesBreakdown => ({
+  hours: 0,
+  cables: {},
+  transformerCopper_kWh: 0,
+  transformerIron_kWh: 0
+});
+
+/**
+ * Jeu de barres et transformateur de chaque poste (poste principal seul en mono-source)
+ */
+const getSubstationTransformers = (
+  project: Project,
+  result: CalculationResult
+): { virtualBusbar?: VirtualBusbar; transformerConfig?: TransformerConfig }[] => {
+  if (!result.substations?.length) {
+    return [{ virtualBusbar: result.virtualBusbar, transformerConfig: project.transformerConfig }];
+  }
+  return result.substations.map(substation => {
+    const source = project.nodes.find(n => n.id === substation.sourceNodeId);
+    return {
+      virtualBusbar: substation.virtualBusbar,
+      transformerConfig: source
+        ? getSourceTransformerConfig(source, project.transformerConfig)
+        : substation.transformerConfig ?? project.transformerConfig
+    };
+  });
+};
+
+export const getStepLosses = (result: CalculationResult, project: Project): StepLosses => {
+  const transformers = getSubstationTransformers(project, result);
+  return {
+    cables: result.cables.map(cable => [cable.id, cable.losses_kW ?? 0]),
+    transformerCopper_kW: transformers.reduce((sum, t) => sum + (t.virtualBusbar?.losses_kW ?? 0), 0),
+    transformerIron_kW: transformers.reduce((sum, t) => sum + (t.transformerConfig?.noLoadLosses_W ?? 0) / 1000, 0)
+  };
+};
+
+/**
+ * Intègre les pertes d'un pas de durée dt_h (h) ; les pertes fer suivent la durée intégrée
+ */
+export const accumulateStepLosses = (
+  breakdown: EnergyLossesBreakdown,
+  losses: StepLosses,
+  dt_h: number
+): void => {
+  for (const [cableId, losses_kW] of losses.cables) {
+    breakdown.cables[cableId] = (breakdown.cables[cableId] ?? 0) + losses_kW * dt_h;
+  }
+  breakdown.transformerCopper_kWh += losses.transformerCopper_kW * dt_h;
+  breakdown.transformerIron_kWh += losses.transformerIron_kW * dt_h;
+  breakdown.hours += dt_h;
+};
+
+export const getTotalEnergyLosses = (breakdown: EnergyLossesBreakdown): number =>
+  Object.values(breakdown.cables).reduce((sum, losses) => sum + losses, 0)
+  + breakdown.transformerCopper_kWh
+  + breakdown.transformerIron_kWh;
+
+/**
+ * Pertes de référence et de simulation par câble, par départ et pour le transformateur ;
+ * sans simulation, la référence sert des deux côtés (économie nulle)
+ */
+export const compareEnergyLosses = (
+  project: Project,
+  baseline: EnergyLossesBreakdown,
+  simulated: EnergyLossesBreakdown = baseline,
+  price_EUR_per_kWh: number = project.lossPrice_EUR_per_kWh ?? DEFAULT_LOSS_PRICE_EUR_PER_KWH
+): EnergyLossesComparison => {
+  const cableLine = (cableIds: string[], id: string, name: string): EnergyLossesLine => ({
+    id,
+    name,
+    baseline_kWh: cableIds.reduce((sum, cableId) => sum + (baseline.cables[cableId] ?? 0), 0),
+    simulated_kWh: cableIds.reduce((sum, cableId) => sum + (simulated.cables[cableId] ?? 0), 0)
+  });
+
+  const cables = project.cables
+    .map(cable => cableLine([cable.id], cable.id, cable.name || cable.id))
+    .sort((a, b) => b.baseline_kWh - a.baseline_kWh);
+  const feeders = getFeeders(project.nodes, project.cables)
+    .map(feeder => cableLine(feeder.cableIds, feeder.cableId, feeder.name))
+    .sort((a, b) => b.baseline_kWh - a.baseline_kWh);
+
+  const baselineTotal_kWh = getTotalEnergyLosses(baseline);
+  const simulatedTotal_kWh = getTotalEnergyLosses(simulated);
+  const savings_kWh = baselineTotal_kWh - simulatedTotal_kWh;
+
+  return {
+    hours: baseline.hours,
+    price_EUR_per_kWh,
+    cables,
+    feeders,
+    transformerCopper: {
+      id: 'transformer-copper',
+      name: 'Transformateur (cuivre)',
+      baseline_kWh: baseline.transformerCopper_kWh,
+      simulated_kWh: simulated.transformerCopper_kWh
+    },
+    transformerIron: {
+      id: 'transformer-iron',
+      name: 'Transformateur (fer)',
+      baseline_kWh: baseline.transformerIron_kWh,
+      simulated_kWh: simulated.transformerIron_kWh
+    },
+    baselineTotal_kWh,
+    simulatedTotal_kWh,
+    savings_kWh,
+    savings_EUR: savings_kWh * price_EUR_per_kWh
+  };
+};
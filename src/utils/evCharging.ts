@@ -0,0 +1,342 @@
+import {
+  Project,
+  CalculationResult,
+  ClientImporte,
+  EVChargerPower,
+  EVFleetSettings
+} from '@/types/network';
+import { EVFeederHosting } from '@/types/dailyProfile';
+import { ElectricalCalculator } from './electricalCalculations';
+import { getNodeDeviationsPercent, getNetworkVoltageIndicators } from './voltageIndicators';
+import { getEffectiveAmpacity } from './cableDerating';
+import { Feeder } from './networkConnectivity';
+
+const NOMINAL_VOLTAGE_V = 230;
+
+// Préfixe des charges virtuelles portant la puissance des bornes dans le projet de calcul
+const EV_ITEM_PREFIX = 'ev-';
+
+// Plage de réduction de la stratégie limitée en tension : arrêt 10 V sous le seuil
+const VOLTAGE_LIMIT_RANGE_V = 10;
+
+// Contraintes de l'accueil par départ : -10% EN50160 et ampacité des câbles
+const HOSTING_MIN_VOLTAGE_V = 207;
+// Borne de référence ajoutée pour l'accueil (7,4 kW monophasée, la plus courante)
+const HOSTING_REFERENCE_POWER_KW: EVChargerPower = 7.4;
+const HOSTING_MAX_CHARGERS = 512;
+
+export const EV_CHARGER_POWERS: EVChargerPower[] = [3.7, 7.4, 11, 22];
+
+/**
+ * Flotte par défaut : retour le soir vers 18h30, départ vers 7h30, 10 kWh par recharge
+ * (environ 60 km), heures creuses à partir de 22h
+ */
+export const createDefaultEVFleetSettings = (): EVFleetSettings => ({
+  enabled: true,
+  strategy: 'uncontrolled',
+  arrivalMean_h: 18.5,
+  arrivalStdDev_h: 1.5,
+  departureMean_h: 7.5,
+  departureStdDev_h: 1,
+  energyPerSession_kWh: 10,
+  nightStart_h: 22,
+  voltageLimit_V: 215
+});
+
+export interface EVSession {
+  clientId: string;
+  nodeId: string;
+  power_kW: number;
+  phase?: 'A' | 'B' | 'C';  // absente pour une borne triphasée
+  arrival_h: number;        // heure entière 0-23
+  departure_h: number;      // heure entière 0-23 (le lendemain si ≤ arrivée)
+  energy_kWh: number;
+}
+
+/**
+ * Quantile de la loi normale centrée réduite (approximation rationnelle d'Acklam, erreur < 1e-9)
+ */
+const normalQuantile = (p: number): number => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628274631];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+const toHour = (value: number): number => ((Math.round(value) % 24) + 24) % 24;
+
+// Durée de présence (1 à 24 h) : un départ à l'heure d'arrivée signifie le lendemain
+const getSessionLength = (session: EVSession): number =>
+  ((session.departure_h - session.arrival_h + 23) % 24) + 1;
+
+const getHoursSinceArrival = (session: EVSession, hour: number): number =>
+  (hour - session.arrival_h + 24) % 24;
+
+/**
+ * Clients équipés d'une borne et reliés à un nœud du réseau
+ */
+export const collectEVClients = (project: Project): { client: ClientImporte; nodeId: string }[] =>
+  (project.clientLinks ?? []).flatMap(link => {
+    const client = project.clientsImportes?.find(c => c.id === link.clientId);
+    return client?.evCharger ? [{ client, nodeId: link.nodeId }] : [];
+  });
+
+/**
+ * Sessions de recharge de la journée type. Les heures d'arrivée et de départ suivent les lois
+ * normales de la flotte, réparties de façon déterministe sur les quantiles (i + 0,5) / N :
+ * deux calculs successifs donnent le même résultat. Les départs sont appariés en ordre inverse
+ * des arrivées pour ne pas corréler les deux lois.
+ */
+export const buildEVSessions = (project: Project, settings: EVFleetSettings): EVSession[] => {
+  const evClients = collectEVClients(project);
+  const count = evClients.length;
+
+  return evClients.map(({ client, nodeId }, index) => {
+    const charger = client.evCharger!;
+    const session: EVSession = {
+      clientId: client.id,
+      nodeId,
+      power_kW: charger.power_kW,
+      phase: charger.connection === 'MONO' ? client.assignedPhase : undefined,
+      arrival_h: toHour(settings.arrivalMean_h + settings.arrivalStdDev_h * normalQuantile((index + 0.5) / count)),
+      departure_h: toHour(settings.departureMean_h + settings.departureStdDev_h * normalQuantile((count - index - 0.5) / count)),
+      energy_kWh: 0
+    };
+    // Énergie plafonnée à ce que la borne peut délivrer pendant la présence du véhicule
+    session.energy_kWh = Math.min(settings.energyPerSession_kWh, charger.power_kW * getSessionLength(session));
+    return session;
+  });
+};
+
+export const isVehiclePresent = (session: EVSession, hour: number): boolean =>
+  getHoursSinceArrival(session, hour) < getSessionLength(session);
+
+/**
+ * Recharge autorisée par la stratégie : le report de nuit attend le début des heures creuses
+ * lorsqu'il tombe pendant la présence du véhicule
+ */
+export const isChargingAllowed = (session: EVSession, hour: number, settings: EVFleetSettings): boolean => {
+  if (!isVehiclePresent(session, hour)) return false;
+  if (settings.strategy !== 'delayed_night') return true;
+  const nightOffset = getHoursSinceArrival(session, toHour(settings.nightStart_h));
+  return nightOffset >= getSessionLength(session) || getHoursSinceArrival(session, hour) >= nightOffset;
+};
+
+/**
+ * Puissance demandée sur un pas d'une heure : puissance de la borne, bornée à l'énergie restante
+ */
+export const getEVChargingRequest = (
+  session: EVSession,
+  remaining_kWh: number,
+  hour: number,
+  settings: EVFleetSettings
+): number => isChargingAllowed(session, hour, settings) ? Math.max(0, Math.min(session.power_kW, remaining_kWh)) : 0;
+
+/**
+ * Part de la puissance conservée par la stratégie limitée en tension :
+ * 100% au-dessus du seuil, décroissance linéaire jusqu'à l'arrêt 10 V en dessous
+ */
+export const getVoltageLimitFactor = (voltage_V: number, settings: EVFleetSettings): number =>
+  Math.max(0, Math.min(1, (voltage_V - (settings.voltageLimit_V - VOLTAGE_LIMIT_RANGE_V)) / VOLTAGE_LIMIT_RANGE_V));
+
+/**
+ * Tension phase-neutre à la borne : sa phase si monophasée, phase la plus basse sinon
+ */
+export const getEVChargerVoltage = (result: CalculationResult, session: EVSession): number | null => {
+  const deviations = getNodeDeviationsPercent(result, session.nodeId);
+  if (!deviations) return null;
+  const deviation = session.phase ? deviations[session.phase] : Math.min(deviations.A, deviations.B, deviations.C);
+  return NOMINAL_VOLTAGE_V * (1 + deviation / 100);
+};
+
+/**
+ * Début de pas : clôture des sessions dont le véhicule part (énergie non délivrée retournée)
+ * puis ouverture des sessions arrivant à cette heure
+ */
+export const advanceEVSessions = (sessions: EVSession[], remaining: Map<string, number>, hour: number): number => {
+  let unserved_kWh = 0;
+  for (const session of sessions) {
+    if (session.departure_h === hour && remaining.has(session.clientId)) {
+      unserved_kWh += remaining.get(session.clientId)!;
+      remaining.delete(session.clientId);
+    }
+  }
+  for (const session of sessions) {
+    if (session.arrival_h === hour) remaining.set(session.clientId, session.energy_kWh);
+  }
+  return unserved_kWh;
+};
+
+/**
+ * Énergie restante à minuit des véhicules arrivés la veille : la soirée précédente est rejouée
+ * avec la stratégie de la flotte, sans limitation en tension (réseau de la veille non calculé)
+ */
+export const createInitialEVState = (sessions: EVSession[], settings: EVFleetSettings): Map<string, number> => {
+  const remaining = new Map<string, number>();
+  for (const session of sessions) {
+    if (session.arrival_h === 0 || !isVehiclePresent(session, 0)) continue;
+    let energy_kWh = session.energy_kWh;
+    for (let hour = session.arrival_h; hour < 24; hour++) {
+      energy_kWh -= getEVChargingRequest(session, energy_kWh, hour, settings);
+    }
+    remaining.set(session.clientId, energy_kWh);
+  }
+  return remaining;
+};
+
+/**
+ * Copie du projet où chaque borne devient une charge virtuelle P de son nœud
+ * (sur sa phase si monophasée) : le solveur l'intègre sans modification.
+ */
+export const applyEVLoads = (
+  project: Project,
+  chargers: { session: EVSession; power_kW: number }[],
+  idPrefix: string = EV_ITEM_PREFIX
+): Project => {
+  const nodes = project.nodes.map(node => {
+    const items = chargers
+      .filter(c => c.session.nodeId === node.id && c.power_kW > 0)
+      .map(({ session, power_kW }) => ({
+        id: `${idPrefix}${session.clientId}`,
+        label: `Borne VE ${session.clientId}`,
+        S_kVA: 0,
+        P_kW: power_kW,
+        Q_kVAr: 0,
+        phase: session.phase
+      }));
+    return items.length > 0 ? { ...node, clients: [...node.clients, ...items] } : node;
+  });
+  return { ...project, nodes };
+};
+
+/**
+ * Tension minimale du réseau (V phase-neutre, sources exclues)
+ */
+export const getMinNetworkVoltage = (project: Project, result: CalculationResult): number => {
+  const sourceIds = new Set(project.nodes.filter(n => n.isSource).map(n => n.id));
+  return NOMINAL_VOLTAGE_V * (1 + getNetworkVoltageIndicators(result, sourceIds).minDeviationPercent / 100);
+};
+
+/**
+ * Courant de neutre maximal des câbles (nul en calcul équilibré)
+ */
+export const getMaxNeutralCurrent = (result: CalculationResult): number =>
+  Math.max(0, ...result.cables.map(c => c.currentsPerPhase_A?.N ?? 0));
+
+const getCableCurrent = (result: CalculationResult, cableId: string): number => {
+  const cable = result.cables.find(c => c.id === cableId);
+  if (!cable) return 0;
+  const perPhase = cable.currentsPerPhase_A;
+  return Math.max(cable.current_A ?? 0, perPhase?.A ?? 0, perPhase?.B ?? 0, perPhase?.C ?? 0);
+};
+
+/**
+ * Contrainte violée sur le départ : sous-tension (< 207 V) puis surcharge d'un câble d'ampacité connue
+ */
+const getFeederConstraint = (
+  project: Project,
+  feeder: Feeder,
+  result: CalculationResult
+): EVFeederHosting['limitingConstraint'] => {
+  for (const nodeId of feeder.nodeIds) {
+    const deviations = getNodeDeviationsPercent(result, nodeId);
+    if (deviations && NOMINAL_VOLTAGE_V * (1 + Math.min(deviations.A, deviations.B, deviations.C) / 100) < HOSTING_MIN_VOLTAGE_V) {
+      return 'undervoltage';
+    }
+  }
+  for (const cableId of feeder.cableIds) {
+    const cable = project.cables.find(c => c.id === cableId);
+    const maxCurrent_A = cable ? getEffectiveAmpacity(cable, project.cableTypes) : undefined;
+    if (maxCurrent_A && getCableCurrent(result, cableId) > maxCurrent_A) return 'overcurrent';
+  }
+  return 'none';
+};
+
+/**
+ * Bornes de référence (7,4 kW monophasées) réparties à tour de rôle sur les nœuds et les phases du départ
+ */
+const buildHostingChargers = (feeder: Feeder, count: number): { session: EVSession; power_kW: number }[] => {
+  const phases: ('A' | 'B' | 'C')[] = ['A', 'B', 'C'];
+  // Regroupement par nœud et par phase pour limiter le nombre de charges virtuelles
+  const grouped = new Map<string, { session: EVSession; power_kW: number }>();
+  for (let i = 0; i < count; i++) {
+    const nodeId = feeder.nodeIds[i % feeder.nodeIds.length];
+    const phase = phases[Math.floor(i / feeder.nodeIds.length) % 3];
+    const key = `${nodeId}-${phase}`;
+    const entry = grouped.get(key) ?? {
+      session: { clientId: key, nodeId, power_kW: 0, phase, arrival_h: 0, departure_h: 0, energy_kWh: 0 },
+      power_kW: 0
+    };
+    entry.power_kW += HOSTING_REFERENCE_POWER_KW;
+    grouped.set(key, entry);
+  }
+  return [...grouped.values()];
+};
+
+/**
+ * Nombre de bornes supplémentaires accueillies par le départ, le réseau naturel étant celui de
+ * l'heure la plus contrainte (bornes existantes incluses) : recherche par doublement puis dichotomie
+ */
+export const calculateFeederEVHosting = (
+  project: Project,
+  feeder: Feeder,
+  existingChargers: number
+): EVFeederHosting => {
+  const calculator = new ElectricalCalculator(project.cosPhi, project.cosPhiCharges, project.cosPhiProductions);
+  const evaluate = (count: number) => {
+    const result = calculator.calculateScenarioWithHTConfig(
+      applyEVLoads(project, buildHostingChargers(feeder, count), `${EV_ITEM_PREFIX}hosting-`),
+      'MIXTE',
+      project.foisonnementChargesResidentiel ?? project.foisonnementCharges,
+      project.foisonnementProductions,
+      project.manualPhaseDistribution,
+      project.clientsImportes,
+      project.clientLinks
+    );
+    return getFeederConstraint(project, feeder, result);
+  };
+  const hosting = (additionalChargers: number, limitingConstraint: EVFeederHosting['limitingConstraint']): EVFeederHosting => ({
+    feederCableId: feeder.cableId,
+    feederName: feeder.name,
+    existingChargers,
+    additionalChargers,
+    limitingConstraint
+  });
+
+  if (feeder.nodeIds.length === 0) return hosting(0, 'none');
+  const initial = evaluate(0);
+  if (initial !== 'none') return hosting(0, initial);
+
+  let accepted = 0;
+  let rejected = 1;
+  let constraint = evaluate(rejected);
+  while (constraint === 'none') {
+    accepted = rejected;
+    if (accepted >= HOSTING_MAX_CHARGERS) return hosting(accepted, 'none');
+    rejected = Math.min(rejected * 2, HOSTING_MAX_CHARGERS);
+    constraint = evaluate(rejected);
+  }
+  while (rejected - accepted > 1) {
+    const middle = Math.floor((accepted + rejected) / 2);
+    const middleConstraint = evaluate(middle);
+    if (middleConstraint === 'none') {
+      accepted = middle;
+    } else {
+      rejected = middle;
+      constraint = middleConstraint;
+    }
+  }
+  return hosting(accepted, constraint);
+};
@@ -0,0 +1,129 @@
+import { Project, ClientImporte, HeatPump, HeatPumpCOPPoint } from '@/types/network';
+import { HourlyProfile, Season, Weather } from '@/types/dailyProfile';
+
+// Préfixe des charges virtuelles portant la puissance des PAC dans le projet de calcul
+const HEAT_PUMP_ITEM_PREFIX = 'heatpump-';
+
+// Heures du minimum (lever du jour) et du maximum (milieu d'après-midi) de température
+const COLDEST_HOUR = 6;
+const WARMEST_HOUR = 15;
+
+/**
+ * COP d'une PAC air/eau basse température selon la température extérieure
+ */
+export const DEFAULT_COP_CURVE: HeatPumpCOPPoint[] = [
+  { temperature_C: -15, cop: 1.8 },
+  { temperature_C: -7, cop: 2.3 },
+  { temperature_C: 2, cop: 3 },
+  { temperature_C: 7, cop: 3.6 },
+  { temperature_C: 15, cop: 4.5 }
+];
+
+// Températures extrêmes de la journée type (°C) par saison et météo : nuits plus froides par ciel clair
+const SEASON_TEMPERATURES: Record<Season, Record<Weather, { min: number; max: number }>> = {
+  winter: { sunny: { min: -2, max: 8 }, gray: { min: 2, max: 6 } },
+  summer: { sunny: { min: 15, max: 28 }, gray: { min: 14, max: 20 } }
+};
+
+// Vague de froid : référence pour le dimensionnement hivernal
+export const COLD_SNAP_TEMPERATURES = { min: -12, max: -4 };
+
+/**
+ * PAC par défaut : maison individuelle, base -7°C, non-chauffage 15°C, appoint de 3 kW
+ */
+export const createDefaultHeatPump = (thermalPower_kW: number = 6): HeatPump => ({
+  thermalPower_kW,
+  designTemperature_C: -7,
+  heatingThreshold_C: 15,
+  backupHeater_kW: 3,
+  connection: thermalPower_kW <= 8 ? 'MONO' : 'TRI',
+  copCurve: DEFAULT_COP_CURVE
+});
+
+/**
+ * Profil de température journalier : minimum à 6h, maximum à 15h, interpolation en cosinus
+ */
+export const buildTemperatureProfile = (min_C: number, max_C: number): HourlyProfile => {
+  const profile: HourlyProfile = {};
+  for (let hour = 0; hour < 24; hour++) {
+    // Montée de 6h à 15h, descente de 15h à 6h le lendemain
+    const rising = hour >= COLDEST_HOUR && hour <= WARMEST_HOUR;
+    const progress = rising
+      ? (hour - COLDEST_HOUR) / (WARMEST_HOUR - COLDEST_HOUR)
+      : 1 - ((hour - WARMEST_HOUR + 24) % 24) / (24 - WARMEST_HOUR + COLDEST_HOUR);
+    profile[hour.toString()] = min_C + (max_C - min_C) * (1 - Math.cos(Math.PI * progress)) / 2;
+  }
+  return profile;
+};
+
+export const getDefaultTemperatureProfile = (season: Season, weather: Weather): HourlyProfile => {
+  const { min, max } = SEASON_TEMPERATURES[season][weather];
+  return buildTemperatureProfile(min, max);
+};
+
+/**
+ * COP interpolé linéairement sur la courbe, constant au-delà des points extrêmes
+ */
+export const getCOP = (curve: HeatPumpCOPPoint[], temperature_C: number): number => {
+  if (curve.length === 0) return 1;
+  if (temperature_C <= curve[0].temperature_C) return curve[0].cop;
+  const last = curve[curve.length - 1];
+  if (temperature_C >= last.temperature_C) return last.cop;
+  const upper = curve.findIndex(p => p.temperature_C >= temperature_C);
+  const a = curve[upper - 1];
+  const b = curve[upper];
+  return a.cop + (b.cop - a.cop) * (temperature_C - a.temperature_C) / (b.temperature_C - a.temperature_C);
+};
+
+/**
+ * Puissance électrique appelée (kW) : besoin de chauffage couvert par la PAC jusqu'à sa puissance
+ * calorifique, le complément sous la température de base par l'appoint résistif (COP 1)
+ */
+export const getHeatPumpElectricalPower = (heatPump: HeatPump, temperature_C: number): number => {
+  const range = heatPump.heatingThreshold_C - heatPump.designTemperature_C;
+  if (range <= 0 || temperature_C >= heatPump.heatingThreshold_C) return 0;
+  const demand_kW = heatPump.thermalPower_kW * (heatPump.heatingThreshold_C - temperature_C) / range;
+  const fromHeatPump_kW = Math.min(demand_kW, heatPump.thermalPower_kW);
+  const backup_kW = Math.min(demand_kW - fromHeatPump_kW, heatPump.backupHeater_kW);
+  return fromHeatPump_kW / getCOP(heatPump.copCurve, temperature_C) + backup_kW;
+};
+
+/**
+ * Clients équipés d'une PAC et reliés à un nœud du réseau
+ */
+export const collectHeatPumpClients = (project: Project): { client: ClientImporte; nodeId: string }[] =>
+  (project.clientLinks ?? []).flatMap(link => {
+    const client = project.clientsImportes?.find(c => c.id === link.clientId);
+    return client?.heatPump ? [{ client, nodeId: link.nodeId }] : [];
+  });
+
+/**
+ * Copie du projet où chaque PAC devient une charge virtuelle P de son nœud (sur la phase
+ * du client si monophasée), en plus de sa puissance souscrite foisonnée
+ */
+export const applyHeatPumpLoads = (
+  project: Project,
+  temperature_C: number
+): { project: Project; power_kW: number } => {
+  let power_kW = 0;
+  const heatPumpClients = collectHeatPumpClients(project);
+  const nodes = project.nodes.map(node => {
+    const items = heatPumpClients
+      .filter(c => c.nodeId === node.id)
+      .map(({ client }) => {
+        const P_kW = getHeatPumpElectricalPower(client.heatPump!, temperature_C);
+        power_kW += P_kW;
+        return {
+          id: `${HEAT_PUMP_ITEM_PREFIX}${client.id}`,
+          label: `PAC ${client.nomCircuit || client.id}`,
+          S_kVA: 0,
+          P_kW,
+          Q_kVAr: 0,
+          phase: client.heatPump!.connection === 'MONO' ? client.assignedPhase : undefined
+        };
+      })
+      .filter(item => item.P_kW > 0);
+    return items.length > 0 ? { ...node, clients: [...node.clients, ...items] } : node;
+  });
+  return { project: { ...project, nodes }, power_kW };
+};
@@ -0,0 +1,248 @@
+import {
+  Project,
+  Node,
+  CalculationResult,
+  SimulationEquipment,
+  HostingCapacityPhase,
+  HostingCapacityConstraint,
+  HostingCapacityOptions,
+  HostingCapacityEntry,
+  HostingCapacityResult
+} from '@/types/network';
+import { ElectricalCalculator } from './electricalCalculations';
+import { SimulationCalculator } from './simulationCalculator';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+import { getLinkedClientsForNode } from './clientsUtils';
+import { getTransformerLoading } from './transformerCatalogue';
+import { getEffectiveAmpacity, getCableMaxCurrent } from './cableDerating';
+
+// Surtension admise : 253 V = 230 V +10%
+const VOLTAGE_LIMIT_PERCENT = 10;
+// Identifiant de la production ajoutée pour l'étude
+const HOSTING_PV_ID = 'hosting-capacity-pv';
+
+export const defaultHostingCapacityOptions: HostingCapacityOptions = {
+  target: 'nodes',
+  phase: 'TRI',
+  maxPower_kVA: 250,
+  tolerance_kVA: 0.5
+};
+
+// Seuils de coloration de la carte : installation mono 6 kVA, tri 36 kVA
+export const HOSTING_CAPACITY_THRESHOLDS_KVA = { low: 6, high: 36 };
+
+type PhaseShares = { A: number; B: number; C: number };
+
+/**
+ * Répartition par phase des charges et productions d'un nœud, selon la même priorité que le solveur :
+ * autoPhaseDistribution (foisonnée si disponible), sinon répartition manuelle, sinon équilibrée.
+ */
+const getPhaseShares = (node: Node, project: Project): { charges: PhaseShares; productions: PhaseShares } => {
+  const normalize = (v: PhaseShares | undefined): PhaseShares => {
+    const total = v ? v.A + v.B + v.C : 0;
+    return v && total > 0.001 ? { A: v.A / total, B: v.B / total, C: v.C / total } : { A: 1 / 3, B: 1 / 3, C: 1 / 3 };
+  };
+
+  const auto = node.autoPhaseDistribution;
+  if (auto) {
+    const useFoisonne = !!(auto.charges.foisonneAvecCurseurs && auto.productions.foisonneAvecCurseurs);
+    return {
+      charges: normalize(useFoisonne ? auto.charges.foisonneAvecCurseurs : auto.charges.total),
+      productions: normalize(useFoisonne ? auto.productions.foisonneAvecCurseurs : auto.productions.total)
+    };
+  }
+  return {
+    charges: normalize(project.manualPhaseDistribution?.charges),
+    productions: normalize(project.manualPhaseDistribution?.productions)
+  };
+};
+
+/**
+ * Projet d'étude : productions existantes ramenées à foisonnement 100% (puissance injectée réelle)
+ * et PV supplémentaire de `added_kVA` au nœud, sur une phase ou en triphasé.
+ * Un raccordement mono impose le calcul déséquilibré (répartition manuelle équilibrée par défaut).
+ */
+const buildStudyProject = (project: Project, nodeId: string, phase: HostingCapacityPhase, added_kVA: number): Project => {
+  const productionRate = project.foisonnementProductions / 100;
+  const clientsImportes = project.clientsImportes?.map(c => ({ ...c, puissancePV_kVA: c.puissancePV_kVA * productionRate }));
+  const isMono = phase !== 'TRI';
+
+  const nodes = project.nodes.map(node => {
+    const productions = node.productions.map(p => ({ ...p, S_kVA: p.S_kVA * productionRate }));
+    if (node.id !== nodeId) return { ...node, productions };
+
+    const studyNode: Node = {
+      ...node,
+      productions: [...productions, { id: HOSTING_PV_ID, label: 'PV capacité d\'accueil', S_kVA: added_kVA }]
+    };
+
+    if (isMono) {
+      // Répartition synthétique : charges inchangées, PV existant réparti comme avant + PV ajouté sur la phase
+      const shares = getPhaseShares(node, project);
+      const linkedPV = clientsImportes && project.clientLinks
+        ? getLinkedClientsForNode(node.id, clientsImportes, project.clientLinks).reduce((s, c) => s + c.puissancePV_kVA, 0)
+        : 0;
+      const existingPV = linkedPV + productions.reduce((s, p) => s + p.S_kVA, 0);
+      const prod = (p: 'A' | 'B' | 'C') => existingPV * shares.productions[p] + (p === phase ? added_kVA : 0);
+      const zero = { A: 0, B: 0, C: 0 };
+
+      studyNode.autoPhaseDistribution = {
+        charges: { mono: zero, poly: zero, total: shares.charges },
+        productions: { mono: zero, poly: zero, total: { A: prod('A'), B: prod('B'), C: prod('C') } },
+        monoClientsCount: node.autoPhaseDistribution?.monoClientsCount ?? zero,
+        polyClientsCount: node.autoPhaseDistribution?.polyClientsCount ?? 0
+      };
+    }
+    return studyNode;
+  });
+
+  const forceUnbalanced = isMono && (project.loadModel ?? 'polyphase_equilibre') === 'polyphase_equilibre';
+
+  return {
+    ...project,
+    nodes,
+    clientsImportes,
+    foisonnementProductions: 100,
+    loadModel: forceUnbalanced ? 'monophase_reparti' : project.loadModel,
+    manualPhaseDistribution: project.manualPhaseDistribution ?? {
+      charges: { A: 33.33, B: 33.33, C: 33.34 },
+      productions: { A: 33.33, B: 33.33, C: 33.34 },
+      constraints: { min: -20, max: 20, total: 100 }
+    }
+  };
+};
+
+/**
+ * Première contrainte violée : surtension > 253 V, courant > ampacité effective, transformateur surchargé
+ */
+export const findHostingConstraintViolation = (
+  project: Project,
+  result: CalculationResult
+): { constraint: HostingCapacityConstraint; elementId: string } | null => {
+  for (const node of project.nodes) {
+    if (node.isSource) continue;
+    const deviations = getNodeDeviationsPercent(result, node.id);
+    if (deviations && Math.max(deviations.A, deviations.B, deviations.C) > VOLTAGE_LIMIT_PERCENT) {
+      return { constraint: 'voltage', elementId: node.id };
+    }
+  }
+
+  for (const cable of result.cables) {
+    const maxCurrent = getEffectiveAmpacity(cable, project.cableTypes);
+    if (!maxCurrent) continue;
+    if (getCableMaxCurrent(cable) > maxCurrent) return { constraint: 'cable', elementId: cable.id };
+  }
+
+  if (result.substations?.length) {
+    for (const substation of result.substations) {
+      const config = substation.transformerConfig ?? project.transformerConfig;
+      if (getTransformerLoading(substation.virtualBusbar, config) > 1) {
+        return { constraint: 'transformer', elementId: substation.sourceNodeId };
+      }
+    }
+  } else if (getTransformerLoading(result.virtualBusbar, project.transformerConfig) > 1) {
+    return { constraint: 'transformer', elementId: project.nodes.find(n => n.isSource)?.id ?? '' };
+  }
+
+  return null;
+};
+
+/**
+ * Étude de capacité d'accueil PV en scénario PRODUCTION, avec les équipements de simulation actifs.
+ * Recherche par dichotomie de la puissance PV supplémentaire maximale par nœud ou par client lié.
+ */
+export class HostingCapacityCalculator {
+  private project: Project;
+  private options: HostingCapacityOptions;
+  private simulationEquipment?: SimulationEquipment;
+
+  constructor(project: Project, options: HostingCapacityOptions, simulationEquipment?: SimulationEquipment) {
+    this.project = project;
+    this.options = options;
+    this.simulationEquipment = simulationEquipment;
+  }
+
+  calculate(): HostingCapacityResult {
+    // Cache par (nœud, raccordement) : plusieurs clients d'un même nœud partagent le résultat
+    const cache = new Map<string, Omit<HostingCapacityEntry, 'targetId' | 'targetName' | 'kind'>>();
+    const evaluate = (nodeId: string, phase: HostingCapacityPhase) => {
+      const key = `${nodeId}|${phase}`;
+      if (!cache.has(key)) cache.set(key, this.findCapacity(nodeId, phase));
+      return cache.get(key)!;
+    };
+
+    const entries: HostingCapacityEntry[] = [];
+
+    if (this.options.target === 'nodes') {
+      for (const node of this.project.nodes.filter(n => !n.isSource)) {
+        entries.push({ targetId: node.id, targetName: node.name || node.id, kind: 'node', ...evaluate(node.id, this.options.phase) });
+      }
+    } else {
+      for (const link of this.project.clientLinks ?? []) {
+        const client = this.project.clientsImportes?.find(c => c.id === link.clientId);
+        if (!client) continue;
+        const phase: HostingCapacityPhase = client.couplage === 'MONO' && client.assignedPhase ? client.assignedPhase : 'TRI';
+        entries.push({ targetId: client.id, targetName: client.nomCircuit || client.id, kind: 'client', ...evaluate(link.nodeId, phase) });
+      }
+    }
+
+    console.log(`☀️ Capacité d'accueil: ${entries.length} cibles, ${cache.size} recherches`);
+
+    return {
+      options: this.options,
+      withSimulation: !!this.simulationEquipment,
+      entries
+    };
+  }
+
+  private findCapacity(nodeId: string, phase: HostingCapacityPhase): Omit<HostingCapacityEntry, 'targetId' | 'targetName' | 'kind'> {
+    const { maxPower_kVA, tolerance_kVA } = this.options;
+    const base = { nodeId, phase };
+
+    // Contrainte déjà présente sans PV supplémentaire
+    const initial = this.check(nodeId, phase, 0);
+    if (initial) return { ...base, capacity_kVA: 0, limitingConstraint: initial.constraint, limitingElementId: initial.elementId };
+
+    // Borne haute acceptable : capacité au moins égale à la borne de recherche
+    if (!this.check(nodeId, phase, maxPower_kVA)) return { ...base, capacity_kVA: maxPower_kVA };
+
+    let low = 0;
+    let high = maxPower_kVA;
+    let limiting = this.check(nodeId, phase, high)!;
+    while (high - low > tolerance_kVA) {
+      const mid = (low + high) / 2;
+      const violation = this.check(nodeId, phase, mid);
+      if (violation) {
+        high = mid;
+        limiting = violation;
+      } else {
+        low = mid;
+      }
+    }
+
+    return { ...base, capacity_kVA: low, limitingConstraint: limiting.constraint, limitingElementId: limiting.elementId };
+  }
+
+  private check(nodeId: string, phase: HostingCapacityPhase, added_kVA: number) {
+    const project = buildStudyProject(this.project, nodeId, phase, added_kVA);
+    return findHostingConstraintViolation(project, this.calculateProduction(project));
+  }
+
+  private calculateProduction(project: Project): CalculationResult {
+    if (this.simulationEquipment) {
+      const simCalculator = new SimulationCalculator(project.cosPhi, project.cosPhiCharges, project.cosPhiProductions);
+      return simCalculator.calculateWithSimulation(project, 'PRODUCTION', this.simulationEquipment);
+    }
+
+    const calculator = new ElectricalCalculator(project.cosPhi, project.cosPhiCharges, project.cosPhiProductions);
+    return calculator.calculateScenarioWithHTConfig(
+      project,
+      'PRODUCTION',
+      project.foisonnementCharges,
+      project.foisonnementProductions,
+      project.manualPhaseDistribution,
+      project.clientsImportes,
+      project.clientLinks
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import {
+  Project,
+  CalculationResult,
+  CalculationScenario,
+  InverterControlSettings,
+  InverterQUCurve,
+  InverterPUCurve
+} from '@/types/network';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+
+// Tension phase-neutre de référence des courbes (EN50160 : 230 V ±10%)
+export const INVERTER_NOMINAL_VOLTAGE_V = 230;
+const OVERVOLTAGE_LIMIT_V = 253;
+
+// Préfixe des charges virtuelles portant les consignes P/Q des onduleurs dans le projet de calcul
+const INVERTER_ITEM_PREFIX = 'inverter-control-';
+
+/**
+ * Réglages par défaut inspirés de la C10/11 (Synergrid) : bande morte 225-240 V, Q jusqu'à
+ * 44% de Sn (cos φ 0,9) et réduction de puissance active entre 248 et 253 V.
+ */
+export const createDefaultInverterControlSettings = (): InverterControlSettings => ({
+  qu: { enabled: true, V1_V: 216, V2_V: 225, V3_V: 240, V4_V: 248, Qmax_percent: 44 },
+  pu: { enabled: true, Ustart_V: 248, Ustop_V: 253, Pmin_percent: 0 }
+});
+
+/**
+ * Consigne Q(U) en fraction de Qmax : > 0 absorption (surtension), < 0 injection (sous-tension),
+ * 0 dans la bande morte [V2, V3], interpolation linéaire entre les points de la courbe.
+ */
+export const getQUFactor = (curve: InverterQUCurve, voltage_V: number): number => {
+  if (!curve.enabled) return 0;
+  if (voltage_V >= curve.V4_V) return 1;
+  if (voltage_V > curve.V3_V) return (voltage_V - curve.V3_V) / (curve.V4_V - curve.V3_V);
+  if (voltage_V <= curve.V1_V) return -1;
+  if (voltage_V < curve.V2_V) return -(curve.V2_V - voltage_V) / (curve.V2_V - curve.V1_V);
+  return 0;
+};
+
+/**
+ * Puissance active maximale autorisée par P(U) en fraction de la puissance nominale.
+ */
+export const getPUFactor = (curve: InverterPUCurve, voltage_V: number): number => {
+  if (!curve.enabled || voltage_V <= curve.Ustart_V) return 1;
+  const pMin = curve.Pmin_percent / 100;
+  if (voltage_V >= curve.Ustop_V) return pMin;
+  return 1 - (1 - pMin) * (voltage_V - curve.Ustart_V) / (curve.Ustop_V - curve.Ustart_V);
+};
+
+export interface ControlledInverter {
+  id: string;
+  label: string;
+  nodeId: string;
+  kind: 'production' | 'client';
+  ratedPower_kVA: number;
+  phase?: 'A' | 'B' | 'C';
+  settings: InverterControlSettings;
+}
+
+export interface InverterSetpoint {
+  reactiveAbsorbed_kVAr: number;
+  activeCurtailed_kW: number;
+}
+
+const isControlActive = (settings?: InverterControlSettings): settings is InverterControlSettings =>
+  !!settings && (settings.qu.enabled || settings.pu.enabled);
+
+/**
+ * Onduleurs régulés du projet : productions manuelles des nœuds et PV des clients importés raccordés.
+ * La phase n'est exploitée que par le calcul déséquilibré ; le calcul équilibré somme les phases.
+ */
+export const collectControlledInverters = (project: Project): ControlledInverter[] => {
+  const inverters: ControlledInverter[] = [];
+
+  for (const node of project.nodes) {
+    for (const production of node.productions) {
+      const settings = production.inverterControl ?? project.inverterControlDefault;
+      if (production.S_kVA <= 0 || !isControlActive(settings)) continue;
+      inverters.push({
+        id: production.id,
+        label: production.label || production.id,
+        nodeId: node.id,
+        kind: 'production',
+        ratedPower_kVA: production.S_kVA,
+        phase: production.assignedPhase,
+        settings
+      });
+    }
+  }
+
+  const settings = project.inverterControlDefault;
+  if (!isControlActive(settings)) return inverters;
+  for (const link of project.clientLinks ?? []) {
+    const client = project.clientsImportes?.find(c => c.id === link.clientId);
+    if (!client || client.puissancePV_kVA <= 0) continue;
+    inverters.push({
+      id: client.id,
+      label: client.nomCircuit || client.id,
+      nodeId: link.nodeId,
+      kind: 'client',
+      ratedPower_kVA: client.puissancePV_kVA,
+      phase: client.connectionType === 'MONO' ? client.assignedPhase : client.assignedProductionPhase,
+      settings
+    });
+  }
+  return inverters;
+};
+
+/**
+ * Puissance active produite avant régulation (foisonnement et cos φ des productions du projet)
+ */
+export const getAvailableActivePower = (project: Project, scenario: CalculationScenario, inverter: ControlledInverter): number => {
+  if (scenario === 'PRÉLÈVEMENT') return 0;
+  return inverter.ratedPower_kVA * project.foisonnementProductions / 100 * (project.cosPhiProductions ?? 1);
+};
+
+/**
+ * Tension phase-neutre vue par l'onduleur : phase de raccordement pour un monophasé,
+ * phase la plus haute sinon (les onduleurs triphasés régulent sur la tension maximale).
+ */
+export const getInverterVoltage = (result: CalculationResult, inverter: ControlledInverter): number | null => {
+  const deviations = getNodeDeviationsPercent(result, inverter.nodeId);
+  if (!deviations) return null;
+  const deviation = inverter.phase ? deviations[inverter.phase] : Math.max(deviations.A, deviations.B, deviations.C);
+  return INVERTER_NOMINAL_VOLTAGE_V * (1 + deviation / 100);
+};
+
+/**
+ * Consigne cible de l'onduleur à la tension donnée. Q(U) n'agit que si l'onduleur produit ;
+ * Qmax est exprimé en % de Sn, en plus de la puissance active (capacité réactive C10/11).
+ */
+export const computeInverterSetpoint = (
+  inverter: ControlledInverter,
+  voltage_V: number,
+  availableP_kW: number
+): InverterSetpoint => {
+  if (availableP_kW <= 0) return { reactiveAbsorbed_kVAr: 0, activeCurtailed_kW: 0 };
+  const { qu, pu } = inverter.settings;
+  const maxP_kW = getPUFactor(pu, voltage_V) * inverter.ratedPower_kVA;
+  return {
+    reactiveAbsorbed_kVAr: getQUFactor(qu, voltage_V) * qu.Qmax_percent / 100 * inverter.ratedPower_kVA,
+    activeCurtailed_kW: Math.max(0, availableP_kW - maxP_kW)
+  };
+};
+
+/**
+ * Copie du projet où chaque consigne devient une charge virtuelle P/Q du nœud de l'onduleur
+ * (P écrêtée consommée, Q absorbée inductive) : le solveur l'intègre sans modification.
+ */
+export const applyInverterSetpoints = (
+  project: Project,
+  inverters: ControlledInverter[],
+  setpoints: Map<string, InverterSetpoint>
+): Project => {
+  const nodes = project.nodes.map(node => {
+    const items = inverters
+      .filter(inv => inv.nodeId === node.id)
+      .map(inv => {
+        const setpoint = setpoints.get(inv.id);
+        return {
+          id: `${INVERTER_ITEM_PREFIX}${inv.id}`,
+          label: `Régulation ${inv.label}`,
+          S_kVA: 0,
+          P_kW: setpoint?.activeCurtailed_kW ?? 0,
+          Q_kVAr: setpoint?.reactiveAbsorbed_kVAr ?? 0,
+          phase: inv.phase
+        };
+      });
+    return items.length > 0 ? { ...node, clients: [...node.clients, ...items] } : node;
+  });
+  return { ...project, nodes };
+};
+
+/**
+ * Tension phase-neutre maximale et nombre de nœuds au-delà de 253 V (sources exclues)
+ */
+export const getOvervoltageIndicators = (
+  project: Project,
+  result: CalculationResult
+): { maxVoltage_V: number; overvoltageNodes: number } => {
+  let maxDeviation = -Infinity;
+  let overvoltageNodes = 0;
+  for (const node of project.nodes) {
+    if (node.isSource) continue;
+    const deviations = getNodeDeviationsPercent(result, node.id);
+    if (!deviations) continue;
+    const deviation = Math.max(deviations.A, deviations.B, deviations.C);
+    maxDeviation = Math.max(maxDeviation, deviation);
+    if (INVERTER_NOMINAL_VOLTAGE_V * (1 + deviation / 100) > OVERVOLTAGE_LIMIT_V) overvoltageNodes++;
+  }
+  return {
+    maxVoltage_V: isFinite(maxDeviation) ? INVERTER_NOMINAL_VOLTAGE_V * (1 + maxDeviation / 100) : INVERTER_NOMINAL_VOLTAGE_V,
+    overvoltageNodes
+  };
+};
@@ -0,0 +1,175 @@
+import {
+  Project,
+  CalculationResult,
+  CalculationScenario,
+  LoadGrowthOptions,
+  LoadGrowthYearResult,
+  LoadGrowthViolation,
+  LoadGrowthResult
+} from '@/types/network';
+import { ElectricalCalculator } from './electricalCalculations';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+import { getEffectiveAmpacity, getCableMaxCurrent } from './cableDerating';
+
+// Limites appliquées chaque année : EN50160 ±10% et courant admissible des câbles
+const VOLTAGE_LIMIT_PERCENT = 10;
+const CABLE_LOADING_LIMIT_PERCENT = 100;
+
+const PLANNING_SCENARIOS: CalculationScenario[] = ['PRÉLÈVEMENT', 'PRODUCTION'];
+
+export const createDefaultLoadGrowthOptions = (): LoadGrowthOptions => ({
+  horizonYears: 10,
+  startYear: new Date().getFullYear(),
+  residentialGrowth_percent: 1,
+  industrialGrowth_percent: 0.5,
+  pvGrowth_percent: 10,
+  evPenetrationStart_percent: 5,
+  evPenetrationGrowth_percent: 4,
+  evPower_kVA: 7.4
+});
+
+/**
+ * Pénétration VE de l'année (bornée à 100%)
+ */
+export const getEVPenetration = (options: LoadGrowthOptions, yearOffset: number): number =>
+  Math.min(100, options.evPenetrationStart_percent + options.evPenetrationGrowth_percent * yearOffset);
+
+/**
+ * Projet de l'année `yearOffset` : puissances des clients importés et des charges/productions
+ * manuelles multipliées par la croissance cumulée. Le VE est ajouté en espérance à la puissance
+ * contractuelle de chaque client résidentiel ; les foisonnements du projet s'appliquent ensuite.
+ * Les répartitions de phases (autoPhaseDistribution) restent celles du projet.
+ */
+export const scaleProjectForYear = (project: Project, options: LoadGrowthOptions, yearOffset: number): Project => {
+  const residentialFactor = Math.pow(1 + options.residentialGrowth_percent / 100, yearOffset);
+  const industrialFactor = Math.pow(1 + options.industrialGrowth_percent / 100, yearOffset);
+  const pvFactor = Math.pow(1 + options.pvGrowth_percent / 100, yearOffset);
+  const evPower = options.evPower_kVA * getEVPenetration(options, yearOffset) / 100;
+
+  const clientsImportes = project.clientsImportes?.map(client => {
+    const isIndustrial = client.clientType === 'industriel';
+    return {
+      ...client,
+      puissanceContractuelle_kVA: isIndustrial
+        ? client.puissanceContractuelle_kVA * industrialFactor
+        : client.puissanceContractuelle_kVA * residentialFactor + evPower,
+      puissancePV_kVA: client.puissancePV_kVA * pvFactor
+    };
+  });
+
+  const nodes = project.nodes.map(node => ({
+    ...node,
+    clients: node.clients.map(client => ({ ...client, S_kVA: client.S_kVA * residentialFactor })),
+    productions: node.productions.map(production => ({ ...production, S_kVA: production.S_kVA * pvFactor }))
+  }));
+
+  return { ...project, nodes, clientsImportes };
+};
+
+const getCableLoading = (project: Project, result: CalculationResult, cableId: string): number | null => {
+  const cable = result.cables.find(c => c.id === cableId);
+  const maxCurrent = cable ? getEffectiveAmpacity(cable, project.cableTypes) : undefined;
+  if (!cable || !maxCurrent) return null;
+  return getCableMaxCurrent(cable) / maxCurrent * 100;
+};
+
+/**
+ * Horizon de planification : calcul du réseau année par année (mêmes scénarios que calculateAll
+ * en prélèvement et production) et première année de dépassement de chaque nœud et câble.
+ */
+export const runLoadGrowthPlanning = (project: Project, options: LoadGrowthOptions): LoadGrowthResult => {
+  const calculator = new ElectricalCalculator(
+    project.cosPhi,
+    project.cosPhiCharges ?? project.cosPhi ?? 0.95,
+    project.cosPhiProductions ?? 1.00
+  );
+  const nodes = project.nodes.filter(n => !n.isSource);
+  const firstViolations = new Map<string, LoadGrowthViolation>();
+  const years: LoadGrowthYearResult[] = [];
+
+  for (let offset = 0; offset <= options.horizonYears; offset++) {
+    const year = options.startYear + offset;
+    const scaled = scaleProjectForYear(project, options, offset);
+    const clients = scaled.clientsImportes ?? [];
+    const linked = clients.filter(c => scaled.clientLinks?.some(l => l.clientId === c.id));
+    const manualLoad = scaled.nodes.reduce((sum, n) => sum + n.clients.reduce((s, c) => s + c.S_kVA, 0), 0);
+    const manualPV = scaled.nodes.reduce((sum, n) => sum + n.productions.reduce((s, p) => s + p.S_kVA, 0), 0);
+
+    const yearResult: LoadGrowthYearResult = {
+      year,
+      residentialLoad_kVA: manualLoad + linked.filter(c => c.clientType !== 'industriel').reduce((s, c) => s + c.puissanceContractuelle_kVA, 0),
+      industrialLoad_kVA: linked.filter(c => c.clientType === 'industriel').reduce((s, c) => s + c.puissanceContractuelle_kVA, 0),
+      pv_kVA: manualPV + linked.reduce((s, c) => s + c.puissancePV_kVA, 0),
+      evPenetration_percent: getEVPenetration(options, offset),
+      minDeviation_percent: 0,
+      maxDeviation_percent: 0,
+      maxCableLoading_percent: 0,
+      violatingNodes: 0,
+      overloadedCables: 0
+    };
+
+    const violatingNodes = new Set<string>();
+    const overloadedCables = new Set<string>();
+
+    for (const scenario of PLANNING_SCENARIOS) {
+      let result: CalculationResult;
+      try {
+        result = calculator.calculateScenarioWithHTConfig(
+          scaled,
+          scenario,
+          scaled.foisonnementCharges,
+          scaled.foisonnementProductions,
+          scaled.manualPhaseDistribution,
+          scaled.clientsImportes || [],
+          scaled.clientLinks || []
+        );
+      } catch (error) {
+        console.warn(`⚠️ Planification: année ${year} (${scenario}) non calculée`, error);
+        yearResult.failed = true;
+        continue;
+      }
+
+      for (const node of nodes) {
+        const deviations = getNodeDeviationsPercent(result, node.id);
+        if (!deviations) continue;
+        const low = Math.min(deviations.A, deviations.B, deviations.C);
+        const high = Math.max(deviations.A, deviations.B, deviations.C);
+        yearResult.minDeviation_percent = Math.min(yearResult.minDeviation_percent, low);
+        yearResult.maxDeviation_percent = Math.max(yearResult.maxDeviation_percent, high);
+
+        const worst = Math.abs(low) > Math.abs(high) ? low : high;
+        if (Math.abs(worst) > VOLTAGE_LIMIT_PERCENT) {
+          violatingNodes.add(node.id);
+          if (!firstViolations.has(node.id)) {
+            firstViolations.set(node.id, {
+              elementId: node.id, elementName: node.name || node.id, kind: 'node', firstYear: year, scenario, value: worst
+            });
+          }
+        }
+      }
+
+      for (const cable of project.cables) {
+        const loading = getCableLoading(project, result, cable.id);
+        if (loading === null) continue;
+        yearResult.maxCableLoading_percent = Math.max(yearResult.maxCableLoading_percent, loading);
+        if (loading > CABLE_LOADING_LIMIT_PERCENT) {
+          overloadedCables.add(cable.id);
+          if (!firstViolations.has(cable.id)) {
+            firstViolations.set(cable.id, {
+              elementId: cable.id, elementName: cable.name || cable.id, kind: 'cable', firstYear: year, scenario, value: loading
+            });
+          }
+        }
+      }
+    }
+
+    yearResult.violatingNodes = violatingNodes.size;
+    yearResult.overloadedCables = overloadedCables.size;
+    years.push(yearResult);
+  }
+
+  const violations = [...firstViolations.values()].sort((a, b) => a.firstYear - b.firstYear || Math.abs(b.value) - Math.abs(a.value));
+  console.log(`📈 Planification ${options.startYear}-${options.startYear + options.horizonYears}: ${violations.length} élément(s) en contrainte`);
+
+  return { options, years, violations };
+};
@@ -0,0 +1,206 @@
+/**
+ * Support des réseaux BT maillés / bouclés
+ *
+ * Méthode de compensation (Shirmohammadi) appliquée au Backward-Forward Sweep :
+ * - L'arbre couvrant (BFS depuis la source) reste la base du balayage radial
+ * - Chaque câble refermant une boucle devient un "point de coupure"
+ * - Le courant de boucle J_k circule de l'extrémité A vers l'extrémité B du câble
+ *   de bouclage ; il est modélisé par deux injections opposées aux nœuds A et B
+ * - À chaque itération, l'écart E_k = V_A - V_B - Z_k × J_k est annulé par
+ *   ΔJ = M⁻¹ × E, où M est la matrice d'impédance de boucle (Thévenin)
+ *
+ * M[m][k] = Zc(a_m,a_k) - Zc(a_m,b_k) - Zc(b_m,a_k) + Zc(b_m,b_k) + δ_mk × Z_k
+ * avec Zc(x,y) l'impédance du chemin commun source→x et source→y dans l'arbre.
+ *
+ * L'impédance transformateur n'apparaît pas dans M : les injections de boucle
+ * sont de somme nulle et ne modifient pas le courant net de la source.
+ */
+
+import { Cable, MeshLoop } from '@/types/network';
+import { Complex, C, add, sub, mul, div, abs } from '@/utils/complex';
+
+/**
+ * Identifie les câbles de bouclage (hors arbre couvrant) et le chemin de chaque boucle
+ *
+ * @param cables Câbles du projet
+ * @param parent Parent de chaque nœud dans l'arbre couvrant (null pour la source)
+ * @param parentCableIdOfChild Câble reliant chaque nœud à son parent
+ */
+export const detectMeshLoops = (
+  cables: Cable[],
+  parent: Map<string, string | null>,
+  parentCableIdOfChild: Map<string, string>
+): MeshLoop[] => {
+  const treeCableIds = new Set(parentCableIdOfChild.values());
+  const loops: MeshLoop[] = [];
+
+  for (const cable of cables) {
+    if (treeCableIds.has(cable.id)) continue;
+    // Les deux extrémités doivent être alimentées (présentes dans l'arbre)
+    if (!parent.has(cable.nodeAId) || !parent.has(cable.nodeBId)) continue;
+    if (cable.nodeAId === cable.nodeBId) continue;
+
+    const pathA = pathToRoot(cable.nodeAId, parent);
+    const pathB = pathToRoot(cable.nodeBId, parent);
+    const setB = new Set(pathB);
+    const commonAncestor = pathA.find(id => setB.has(id))!;
+
+    const upFromA = pathA.slice(0, pathA.indexOf(commonAncestor) + 1);
+    const downToB = pathB.slice(0, pathB.indexOf(commonAncestor)).reverse();
+    const nodeIds = [...upFromA, ...downToB];
+
+    const cableIds: string[] = [];
+    for (const id of upFromA.slice(0, -1)) cableIds.push(parentCableIdOfChild.get(id)!);
+    for (const id of downToB) cableIds.push(parentCableIdOfChild.get(id)!);
+    cableIds.push(cable.id);
+
+    loops.push({
+      cableId: cable.id,
+      nodeAId: cable.nodeAId,
+      nodeBId: cable.nodeBId,
+      nodeIds,
+      cableIds
+    });
+  }
+
+  return loops;
+};
+
+/**
+ * Chemin d'un nœud vers la source (nœud inclus, source incluse)
+ */
+const pathToRoot = (nodeId: string, parent: Map<string, string | null>): string[] => {
+  const path: string[] = [];
+  let current: string | null | undefined = nodeId;
+  while (current) {
+    path.push(current);
+    current = parent.get(current);
+  }
+  return path;
+};
+
+/**
+ * Construit la matrice d'impédance de boucle M (par phase)
+ *
+ * @param loops Boucles détectées
+ * @param parent Parent de chaque nœud dans l'arbre couvrant
+ * @param parentCableIdOfChild Câble reliant chaque nœud à son parent
+ * @param cableZ Impédance série par phase de chaque câble (Ω)
+ */
+export const buildLoopImpedanceMatrix = (
+  loops: MeshLoop[],
+  parent: Map<string, string | null>,
+  parentCableIdOfChild: Map<string, string>,
+  cableZ: Map<string, Complex>
+): Complex[][] => {
+  // Câbles entre chaque nœud et la source
+  const rootCables = new Map<string, string[]>();
+  const getRootCables = (nodeId: string): string[] => {
+    if (!rootCables.has(nodeId)) {
+      rootCables.set(
+        nodeId,
+        pathToRoot(nodeId, parent)
+          .map(id => parentCableIdOfChild.get(id))
+          .filter((id): id is string => !!id)
+      );
+    }
+    return rootCables.get(nodeId)!;
+  };
+
+  const commonImpedance = (x: string, y: string): Complex => {
+    const cablesY = new Set(getRootCables(y));
+    let Z = C(0, 0);
+    for (const id of getRootCables(x)) {
+      if (cablesY.has(id)) Z = add(Z, cableZ.get(id) || C(0, 0));
+    }
+    return Z;
+  };
+
+  return loops.map(lm =>
+    loops.map(lk => {
+      let Z = sub(
+        add(commonImpedance(lm.nodeAId, lk.nodeAId), commonImpedance(lm.nodeBId, lk.nodeBId)),
+        add(commonImpedance(lm.nodeAId, lk.nodeBId), commonImpedance(lm.nodeBId, lk.nodeAId))
+      );
+      if (lm.cableId === lk.cableId) Z = add(Z, cableZ.get(lk.cableId) || C(0, 0));
+      return Z;
+    })
+  );
+};
+
+/**
+ * Résout le système linéaire complexe A·x = b (élimination de Gauss avec pivot partiel)
+ */
+export const solveComplexLinearSystem = (A: Complex[][], b: Complex[]): Complex[] => {
+  const n = b.length;
+  const M = A.map(row => [...row]);
+  const rhs = [...b];
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (abs(M[row][col]) > abs(M[pivot][col])) pivot = row;
+    }
+    if (abs(M[pivot][col]) < 1e-12) {
+      throw new Error('Matrice d\'impédance de boucle singulière');
+    }
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    [rhs[col], rhs[pivot]] = [rhs[pivot], rhs[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = div(M[row][col], M[col][col]);
+      for (let k = col; k < n; k++) M[row][k] = sub(M[row][k], mul(factor, M[col][k]));
+      rhs[row] = sub(rhs[row], mul(factor, rhs[col]));
+    }
+  }
+
+  const x: Complex[] = new Array(n).fill(C(0, 0));
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rhs[row];
+    for (let k = row + 1; k < n; k++) sum = sub(sum, mul(M[row][k], x[k]));
+    x[row] = div(sum, M[row][row]);
+  }
+  return x;
+};
+
+/**
+ * Ajoute les injections de boucle aux courants nodaux (convention : courant soutiré)
+ * Le nœud A fournit J_k au câble de bouclage, le nœud B le reçoit.
+ */
+export const applyLoopInjections = (
+  I_inj: Map<string, Complex>,
+  loops: MeshLoop[],
+  J: Complex[]
+): void => {
+  loops.forEach((loop, k) => {
+    I_inj.set(loop.nodeAId, add(I_inj.get(loop.nodeAId) || C(0, 0), J[k]));
+    I_inj.set(loop.nodeBId, sub(I_inj.get(loop.nodeBId) || C(0, 0), J[k]));
+  });
+};
+
+/**
+ * Met à jour les courants de boucle à partir des tensions du dernier balayage
+ *
+ * @returns Écart de tension maximal |E_k| avant correction (V)
+ */
+export const updateLoopCurrents = (
+  loops: MeshLoop[],
+  V_node: Map<string, Complex>,
+  cableZ: Map<string, Complex>,
+  loopMatrix: Complex[][],
+  J: Complex[]
+): number => {
+  if (loops.length === 0) return 0;
+
+  const mismatch = loops.map((loop, k) => {
+    const Va = V_node.get(loop.nodeAId) || C(0, 0);
+    const Vb = V_node.get(loop.nodeBId) || C(0, 0);
+    const Zk = cableZ.get(loop.cableId) || C(0, 0);
+    return sub(sub(Va, Vb), mul(Zk, J[k]));
+  });
+
+  const dJ = solveComplexLinearSystem(loopMatrix, mismatch);
+  dJ.forEach((d, k) => { J[k] = add(J[k], d); });
+
+  return Math.max(...mismatch.map(e => abs(e)));
+};
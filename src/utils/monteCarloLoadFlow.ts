@@ -0,0 +1,236 @@
+import {
+  Project,
+  CalculationResult,
+  LoadDistribution,
+  MonteCarloOptions,
+  MonteCarloNodeResult,
+  MonteCarloResult
+} from '@/types/network';
+import { ElectricalCalculator } from './electricalCalculations';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+import { percentile } from './en50160Evaluator';
+
+// Limite EN50160 appliquée à chaque tirage (%)
+const VOLTAGE_LIMIT_PERCENT = 10;
+
+/**
+ * Options par défaut : moyennes reprises des foisonnements du projet
+ */
+export const createDefaultMonteCarloOptions = (project: Project): MonteCarloOptions => ({
+  iterations: 200,
+  scenario: 'MIXTE',
+  residentialLoad: { mean_percent: project.foisonnementChargesResidentiel ?? project.foisonnementCharges, stdDev_percent: 15 },
+  industrialLoad: { mean_percent: project.foisonnementChargesIndustriel ?? project.foisonnementCharges, stdDev_percent: 20 },
+  pvOutput: { mean_percent: project.foisonnementProductions, stdDev_percent: 25 },
+  evPenetration_percent: 20,
+  evPower_kVA: 7.4,
+  seed: 1
+});
+
+/**
+ * Générateur pseudo-aléatoire mulberry32 (reproductible à graine égale)
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Tirage gaussien centré réduit (Box-Muller)
+ */
+const sampleNormal = (random: () => number): number => {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+/**
+ * Tirage d'une loi Gamma(shape, 1) (Marsaglia-Tsang)
+ */
+const sampleGamma = (random: () => number, shape: number): number => {
+  if (shape < 1) {
+    return sampleGamma(random, shape + 1) * Math.pow(Math.max(random(), Number.EPSILON), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const z = sampleNormal(random);
+    const v = Math.pow(1 + c * z, 3);
+    if (v <= 0) continue;
+    const u = Math.max(random(), Number.EPSILON);
+    if (Math.log(u) < 0.5 * z * z + d - d * v + d * Math.log(v)) return d * v;
+  }
+};
+
+/**
+ * Tirage borné à [0, 100] % : loi bêta de même moyenne et de même écart-type que la
+ * distribution (écart-type limité au maximum possible sur [0, 100] % pour cette moyenne).
+ * Contrairement à une gaussienne écrêtée, la moyenne des tirages est la moyenne configurée.
+ */
+export const sampleDistribution = (random: () => number, distribution: LoadDistribution): number => {
+  const mean = Math.min(1, Math.max(0, distribution.mean_percent / 100));
+  const maxVariance = mean * (1 - mean);
+  if (maxVariance <= 0 || distribution.stdDev_percent <= 0) return mean * 100;
+
+  const variance = Math.min((distribution.stdDev_percent / 100) ** 2, 0.99 * maxVariance);
+  const concentration = maxVariance / variance - 1;
+  const x = sampleGamma(random, mean * concentration);
+  const y = sampleGamma(random, (1 - mean) * concentration);
+  return x + y > 0 ? (100 * x) / (x + y) : mean * 100;
+};
+
+/**
+ * Projet d'un tirage : puissances déjà pondérées par les taux tirés, foisonnements ramenés à 100%.
+ * Les répartitions de phases (autoPhaseDistribution) restent celles du projet.
+ */
+const buildSampledProject = (project: Project, options: MonteCarloOptions, random: () => number): Project => {
+  const pvRate = sampleDistribution(random, options.pvOutput) / 100;
+
+  const clientsImportes = project.clientsImportes?.map(client => {
+    const isIndustrial = client.clientType === 'industriel';
+    const loadRate = sampleDistribution(random, isIndustrial ? options.industrialLoad : options.residentialLoad) / 100;
+    const hasEV = !isIndustrial && random() < options.evPenetration_percent / 100;
+    return {
+      ...client,
+      puissanceContractuelle_kVA: client.puissanceContractuelle_kVA * loadRate + (hasEV ? options.evPower_kVA : 0),
+      puissancePV_kVA: client.puissancePV_kVA * pvRate
+    };
+  });
+
+  const nodes = project.nodes.map(node => ({
+    ...node,
+    clients: node.clients.map(client => ({
+      ...client,
+      S_kVA: client.S_kVA * sampleDistribution(random, options.residentialLoad) / 100
+    })),
+    productions: node.productions.map(production => ({ ...production, S_kVA: production.S_kVA * pvRate }))
+  }));
+
+  return {
+    ...project,
+    nodes,
+    clientsImportes,
+    foisonnementCharges: 100,
+    foisonnementChargesResidentiel: 100,
+    foisonnementChargesIndustriel: 100,
+    foisonnementProductions: 100
+  };
+};
+
+/**
+ * Répartition de charge probabiliste : N calculs du scénario avec charges, production PV
+ * et présence de VE tirées aléatoirement. Fournit par nœud les centiles d'écart de tension
+ * et la probabilité de sortir de la plage EN50160 ±10%.
+ */
+export const runMonteCarloLoadFlow = (project: Project, options: MonteCarloOptions): MonteCarloResult => {
+  const random = createRandom(options.seed);
+  const calculator = new ElectricalCalculator(project.cosPhi, project.cosPhiCharges, project.cosPhiProductions);
+  const nodes = project.nodes.filter(n => !n.isSource);
+
+  const lows = new Map<string, number[]>(nodes.map(n => [n.id, []]));
+  const means = new Map<string, number[]>(nodes.map(n => [n.id, []]));
+  const highs = new Map<string, number[]>(nodes.map(n => [n.id, []]));
+  const violationCounts = new Map<string, number>(nodes.map(n => [n.id, 0]));
+  let iterations = 0;
+  let failedIterations = 0;
+  let networkViolations = 0;
+
+  for (let i = 0; i < options.iterations; i++) {
+    const sampled = buildSampledProject(project, options, random);
+    let result: CalculationResult;
+    try {
+      result = calculator.calculateScenarioWithHTConfig(
+        sampled,
+        options.scenario,
+        100,
+        100,
+        sampled.manualPhaseDistribution,
+        sampled.clientsImportes,
+        sampled.clientLinks
+      );
+    } catch (error) {
+      console.warn(`⚠️ Monte Carlo: tirage ${i + 1} non calculé`, error);
+      failedIterations++;
+      continue;
+    }
+
+    iterations++;
+    let violation = false;
+    for (const node of nodes) {
+      const deviations = getNodeDeviationsPercent(result, node.id);
+      if (!deviations) continue;
+      const values = [deviations.A, deviations.B, deviations.C];
+      const low = Math.min(...values);
+      const high = Math.max(...values);
+      lows.get(node.id)!.push(low);
+      highs.get(node.id)!.push(high);
+      means.get(node.id)!.push((deviations.A + deviations.B + deviations.C) / 3);
+      if (high > VOLTAGE_LIMIT_PERCENT || low < -VOLTAGE_LIMIT_PERCENT) {
+        violationCounts.set(node.id, violationCounts.get(node.id)! + 1);
+        violation = true;
+      }
+    }
+    if (violation) networkViolations++;
+  }
+
+  const nodeResults: MonteCarloNodeResult[] = [];
+  for (const node of nodes) {
+    const low = lows.get(node.id)!.sort((a, b) => a - b);
+    const high = highs.get(node.id)!.sort((a, b) => a - b);
+    const mean = means.get(node.id)!.sort((a, b) => a - b);
+    if (low.length === 0) continue;
+
+    const over = high.filter(d => d > VOLTAGE_LIMIT_PERCENT).length;
+    const under = low.filter(d => d < -VOLTAGE_LIMIT_PERCENT).length;
+
+    nodeResults.push({
+      nodeId: node.id,
+      nodeName: node.name || node.id,
+      p5_percent: percentile(low, 5),
+      p50_percent: percentile(mean, 50),
+      p95_percent: percentile(high, 95),
+      overVoltageProbability: over / high.length,
+      underVoltageProbability: under / low.length,
+      violationProbability: violationCounts.get(node.id)! / high.length
+    });
+  }
+
+  console.log(`🎲 Monte Carlo: ${iterations} tirages, probabilité de non-conformité réseau ${(iterations ? networkViolations / iterations * 100 : 0).toFixed(1)}%`);
+
+  return {
+    options,
+    iterations,
+    failedIterations,
+    nodes: nodeResults,
+    networkViolationProbability: iterations > 0 ? networkViolations / iterations : 0
+  };
+};
+
+/**
+ * Export CSV (séparateur ';', décimales à la virgule pour Excel FR)
+ */
+export const monteCarloResultToCSV = (result: MonteCarloResult): string => {
+  const format = (value: number, digits = 2) => value.toFixed(digits).replace('.', ',');
+  const lines = [
+    `# Monte Carlo ${result.options.scenario} - ${result.iterations} tirages - graine ${result.options.seed}`,
+    'Nœud;P5 (%);P50 (%);P95 (%);Prob. surtension (%);Prob. sous-tension (%);Prob. hors ±10% (%)'
+  ];
+  for (const node of result.nodes) {
+    lines.push([
+      node.nodeName.replace(/;/g, ','),
+      format(node.p5_percent),
+      format(node.p50_percent),
+      format(node.p95_percent),
+      format(node.overVoltageProbability * 100, 1),
+      format(node.underVoltageProbability * 100, 1),
+      format(node.violationProbability * 100, 1)
+    ].join(';'));
+  }
+  return lines.join('\n');
+};
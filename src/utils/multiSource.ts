@@ -0,0 +1,166 @@
+/**
+ * Réseaux multi-sources : plusieurs postes HTA/BT dans un même projet
+ *
+ * Chaque poste source alimente sa propre zone (composante connexe du réseau).
+ * Les zones sont calculées indépendamment avec le transformateur de leur poste,
+ * puis les résultats sont fusionnés et détaillés par poste.
+ *
+ * Deux postes ne peuvent pas être reliés électriquement (pas de couplage de
+ * transformateurs en BT) : un point de coupure doit les séparer.
+ */
+
+import { Node, Cable, CalculationResult, CalculationScenario, SubstationResult, TransformerConfig } from '@/types/network';
+import { isCableClosed } from '@/utils/networkConnectivity';
+
+export interface SourcePartition {
+  sourceId: string;
+  nodeIds: Set<string>;
+  cableIds: Set<string>;
+}
+
+/**
+ * Retourne la configuration transformateur d'un poste source
+ * Le poste principal (premier nœud source) utilise la configuration du projet.
+ */
+export const getSourceTransformerConfig = (
+  sourceNode: Node,
+  projectTransformerConfig?: TransformerConfig
+): TransformerConfig | undefined => {
+  return sourceNode.transformerConfig ?? projectTransformerConfig;
+};
+
+/**
+ * Découpe le réseau en zones alimentées par chaque poste source
+ * Les nœuds isolés (non alimentés) sont rattachés à la zone du premier poste,
+ * comme dans le calcul mono-source.
+ */
+export const partitionNetworkBySource = (nodes: Node[], cables: Cable[]): SourcePartition[] => {
+  const sources = nodes.filter(n => n.isSource);
+  const adjacency = new Map<string, { neighborId: string; cableId: string }[]>();
+  for (const cable of cables) {
+    if (!adjacency.has(cable.nodeAId)) adjacency.set(cable.nodeAId, []);
+    if (!adjacency.has(cable.nodeBId)) adjacency.set(cable.nodeBId, []);
+    adjacency.get(cable.nodeAId)!.push({ neighborId: cable.nodeBId, cableId: cable.id });
+    adjacency.get(cable.nodeBId)!.push({ neighborId: cable.nodeAId, cableId: cable.id });
+  }
+
+  const nodeById = new Map(nodes.map(n => [n.id, n] as const));
+  const owner = new Map<string, string>();
+  const partitions: SourcePartition[] = [];
+
+  for (const source of sources) {
+    if (owner.has(source.id)) {
+      const other = nodeById.get(owner.get(source.id)!);
+      throw new Error(
+        `Les postes sources "${other?.name ?? owner.get(source.id)}" et "${source.name}" sont reliés électriquement : ouvrir un point de coupure entre eux.`
+      );
+    }
+
+    const partition: SourcePartition = { sourceId: source.id, nodeIds: new Set([source.id]), cableIds: new Set() };
+    owner.set(source.id, source.id);
+    const queue = [source.id];
+    while (queue.length) {
+      const u = queue.shift()!;
+      for (const edge of adjacency.get(u) || []) {
+        partition.cableIds.add(edge.cableId);
+        if (owner.has(edge.neighborId)) continue;
+        owner.set(edge.neighborId, source.id);
+        partition.nodeIds.add(edge.neighborId);
+        queue.push(edge.neighborId);
+      }
+    }
+    partitions.push(partition);
+  }
+
+  // Nœuds et câbles non alimentés : rattachés au poste principal
+  if (partitions.length > 0) {
+    const main = partitions[0];
+    for (const n of nodes) {
+      if (!owner.has(n.id)) main.nodeIds.add(n.id);
+    }
+    const assignedCables = new Set(partitions.flatMap(p => [...p.cableIds]));
+    for (const c of cables) {
+      if (!assignedCables.has(c.id)) main.cableIds.add(c.id);
+    }
+  }
+
+  return partitions;
+};
+
+/**
+ * Poste source qui alimente un nœud (zone de partitionNetworkBySource,
+ * câbles ouverts exclus). Un nœud isolé est rattaché au poste principal.
+ */
+export const getFeedingSource = (nodes: Node[], cables: Cable[], nodeId: string): Node | undefined => {
+  const partition = partitionNetworkBySource(nodes, cables.filter(isCableClosed)).find(p => p.nodeIds.has(nodeId));
+  return partition ? nodes.find(n => n.id === partition.sourceId) : undefined;
+};
+
+const complianceRank: Record<CalculationResult['compliance'], number> = { normal: 0, warning: 1, critical: 2 };
+
+/**
+ * Fusionne les résultats calculés poste par poste en un résultat global
+ * Le jeu de barres global est celui du poste principal ; le détail par poste
+ * est disponible dans `substations`.
+ */
+export const mergeSubstationResults = (
+  scenario: CalculationScenario,
+  parts: { source: Node; transformerConfig?: TransformerConfig; partition: SourcePartition; result: CalculationResult }[]
+): CalculationResult => {
+  const results = parts.map(p => p.result);
+  const worst = results.reduce((a, b) => (b.maxVoltageDropPercent > a.maxVoltageDropPercent ? b : a), results[0]);
+
+  const substations: SubstationResult[] = parts.map(({ source, transformerConfig, partition, result }) => ({
+    sourceNodeId: source.id,
+    sourceName: source.name,
+    transformerConfig,
+    nodeIds: [...partition.nodeIds],
+    cableIds: [...partition.cableIds],
+    totalLoads_kVA: result.totalLoads_kVA,
+    totalProductions_kVA: result.totalProductions_kVA,
+    globalLosses_kW: result.globalLosses_kW,
+    maxVoltageDropPercent: result.maxVoltageDropPercent,
+    maxVoltageDropCircuitNumber: result.maxVoltageDropCircuitNumber,
+    compliance: result.compliance,
+    virtualBusbar: result.virtualBusbar
+  }));
+
+  const concat = <T>(pick: (r: CalculationResult) => T[] | undefined): T[] | undefined => {
+    const arrays = results.map(pick).filter((a): a is T[] => !!a);
+    return arrays.length > 0 ? arrays.flat() : undefined;
+  };
+
+  const meshLoops = concat(r => r.meshLoops) ?? [];
+
+  return {
+    scenario,
+    cables: results.flatMap(r => r.cables),
+    totalLoads_kVA: results.reduce((s, r) => s + r.totalLoads_kVA, 0),
+    totalProductions_kVA: results.reduce((s, r) => s + r.totalProductions_kVA, 0),
+    globalLosses_kW: results.reduce((s, r) => s + r.globalLosses_kW, 0),
+    maxVoltageDropPercent: worst.maxVoltageDropPercent,
+    maxVoltageDropCircuitNumber: worst.maxVoltageDropCircuitNumber,
+    compliance: results.reduce<CalculationResult['compliance']>(
+      (c, r) => (complianceRank[r.compliance] > complianceRank[c] ? r.compliance : c),
+      'normal'
+    ),
+    nodeVoltageDrops: concat(r => r.nodeVoltageDrops),
+    nodeMetrics: concat(r => r.nodeMetrics),
+    nodePhasors: concat(r => r.nodePhasors),
+    nodePhasorsPerPhase: concat(r => r.nodePhasorsPerPhase),
+    nodeSequenceVoltages: concat(r => r.nodeSequenceVoltages),
+    unbalanceCompliance: results.some(r => r.unbalanceCompliance)
+      ? results.reduce<CalculationResult['compliance']>(
+          (c, r) => (r.unbalanceCompliance && complianceRank[r.unbalanceCompliance] > complianceRank[c] ? r.unbalanceCompliance : c),
+          'normal'
+        )
+      : undefined,
+    nodeMetricsPerPhase: concat(r => r.nodeMetricsPerPhase),
+    cablePowerFlows: concat(r => r.cablePowerFlows),
+    virtualBusbar: results[0].virtualBusbar,
+    substations,
+    solverMode: meshLoops.length > 0 ? 'meshed' : 'radial',
+    meshLoops,
+    manualPhaseDistribution: results[0].manualPhaseDistribution
+  };
+};
@@ -1,5 +1,10 @@
 import { Node, Cable } from '@/types/network';
 
+/**
+ * Indique si un câble conduit (pas d'organe de coupure ou organe fermé)
+ */
+export const isCableClosed = (cable: Cable): boolean => cable.switchState !== 'open';
+
 /**
  * Calcule les nœuds alimentés (connectés à une source) dans le réseau
  */
@@ -15,6 +20,7 @@ export const getConnectedNodes = (nodes: Node[], cables: Cable[]): Set<string> =
   while (hasChanged) {
     hasChanged = false;
     cables.forEach(cable => {
+      if (!isCableClosed(cable)) return;
       const nodeAConnected = connectedNodes.has(cable.nodeAId);
       const nodeBConnected = connectedNodes.has(cable.nodeBId);
       
@@ -66,6 +72,7 @@ export const getCircuitNodes = (nodes: Node[], cables: Cable[], nodeId: string):
     while (hasChanged) {
       hasChanged = false;
       cables.forEach(cable => {
+        if (!isCableClosed(cable)) return;
         const nodeAConnected = sourceConnectedNodes.has(cable.nodeAId);
         const nodeBConnected = sourceConnectedNodes.has(cable.nodeBId);
         
@@ -87,4 +94,80 @@ export const getCircuitNodes = (nodes: Node[], cables: Cable[], nodeId: string):
   
   // Si aucune source n'alimente ce nœud (ne devrait pas arriver si le nœud est connecté)
   return new Set<string>([nodeId]);
-};
\ No newline at end of file
+};
+/**
+ * Câbles du chemin entre la source qui alimente un nœud et ce nœud
+ * (ordre aval → amont, vide si le nœud est une source ou n'est pas alimenté)
+ */
+export const getPathFromSource = (nodes: Node[], cables: Cable[], nodeId: string): Cable[] => {
+  const parentCable = new Map<string, Cable>();
+  const visited = new Set<string>(nodes.filter(node => node.isSource).map(node => node.id));
+  const queue = [...visited];
+
+  // Parcours en largeur depuis toutes les sources : plus court chemin en nombre de tronçons
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const cable of cables) {
+      if (!isCableClosed(cable)) continue;
+      const neighbor = cable.nodeAId === current ? cable.nodeBId
+        : cable.nodeBId === current ? cable.nodeAId : null;
+      if (!neighbor || visited.has(neighbor)) continue;
+      visited.add(neighbor);
+      parentCable.set(neighbor, cable);
+      queue.push(neighbor);
+    }
+  }
+
+  const path: Cable[] = [];
+  let currentNodeId = nodeId;
+  let cable = parentCable.get(currentNodeId);
+  while (cable) {
+    path.push(cable);
+    currentNodeId = cable.nodeAId === currentNodeId ? cable.nodeBId : cable.nodeAId;
+    cable = parentCable.get(currentNodeId);
+  }
+  return path;
+};
+
+export interface Feeder {
+  cableId: string;
+  name: string;
+  nodeIds: string[];    // nœuds du départ, du plus proche au plus éloigné de la source
+  cableIds: string[];
+}
+
+/**
+ * Départs BT : câbles fermés partant d'une source, avec les nœuds et câbles en aval
+ */
+export const getFeeders = (nodes: Node[], cables: Cable[]): Feeder[] => {
+  const closedCables = cables.filter(isCableClosed);
+  const sourceIds = new Set(nodes.filter(n => n.isSource).map(n => n.id));
+  const feeders: Feeder[] = [];
+
+  for (const feederCable of closedCables) {
+    const sourceEnd = sourceIds.has(feederCable.nodeAId) ? feederCable.nodeAId
+      : sourceIds.has(feederCable.nodeBId) ? feederCable.nodeBId : null;
+    if (!sourceEnd) continue;
+
+    const visited = new Set<string>(sourceIds);
+    const cableIds = [feederCable.id];
+    const nodeIds: string[] = [];
+    const queue = [sourceEnd === feederCable.nodeAId ? feederCable.nodeBId : feederCable.nodeAId];
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (visited.has(nodeId)) continue;
+      visited.add(nodeId);
+      nodeIds.push(nodeId);
+      for (const cable of closedCables) {
+        if (cable.id === feederCable.id || cableIds.includes(cable.id)) continue;
+        const next = cable.nodeAId === nodeId ? cable.nodeBId : cable.nodeBId === nodeId ? cable.nodeAId : null;
+        if (next && !visited.has(next)) {
+          cableIds.push(cable.id);
+          queue.push(next);
+        }
+      }
+    }
+    feeders.push({ cableId: feederCable.id, name: feederCable.name || feederCable.id, nodeIds, cableIds });
+  }
+  return feeders;
+};
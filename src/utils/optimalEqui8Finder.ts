@@ -21,13 +21,24 @@
  * 📊 SCORE CALCULÉ:
  * score(node) = I_neutral(node) / Z_upstream(node)
  * 
+ * Variante 'unbalance' : score(node) = u2(node) / Z_upstream(node), avec u2 le
+ * taux de déséquilibre inverse (composantes symétriques, EN50160).
+ * 
  * Le nœud optimal maximise ce score dans les bornes [Zmin, Zmax].
  * 
+ * ⚠️ LIMITES DU NEUTRE:
+ * L'EQUI8 ne soulage que le neutre des câbles situés en amont. Les candidats
+ * qui soulagent le plus de neutres en surcharge (neutres de section réduite
+ * notamment) sont classés en tête, le score départageant ensuite.
+ * 
  * ============================================================================
  */
 
 import { Project, Node, Cable, CableType, CalculationResult } from '@/types/network';
+import { getPathFromSource } from '@/utils/networkConnectivity';
 import { Complex, C, add, abs } from '@/utils/complex';
+import { calculateNodeSequenceVoltages } from '@/utils/symmetricalComponents';
+import { isNeutralOverloaded, getNeutralBranchImpedance } from '@/utils/cableDerating';
 
 // Configuration des bornes d'impédance
 const Z_MIN_RATIO = 0.10; // 10% de l'impédance totale du départ
@@ -36,9 +47,15 @@ const Z_MAX_RATIO = 0.70; // 70% de l'impédance totale du départ
 // Seuil minimal de courant de neutre à considérer (A)
 const MIN_NEUTRAL_CURRENT_A = 2.0;
 
+// Seuil minimal de taux de déséquilibre inverse à considérer (%)
+const MIN_UNBALANCE_PERCENT = 0.2;
+
 // Seuil minimal d'impédance pour éviter division par zéro (Ω)
 const MIN_IMPEDANCE_OHM = 0.001;
 
+/** Critère de classement des candidats */
+export type Equi8ScoringMetric = 'neutral_current' | 'unbalance';
+
 export interface OptimalEqui8Result {
   /** ID du nœud optimal */
   nodeId: string;
@@ -48,12 +65,16 @@ export interface OptimalEqui8Result {
   score: number;
   /** Courant de neutre au nœud (A) */
   neutralCurrent_A: number;
+  /** Taux de déséquilibre inverse u2 au nœud (%) */
+  unbalanceFactor_percent?: number;
   /** Impédance amont phase (Ω) */
   upstreamImpedance_Zph_Ohm: number;
   /** Impédance amont neutre (Ω) */
   upstreamImpedance_Zn_Ohm: number;
   /** Position relative sur le départ (0 = source, 1 = extrémité) */
   positionRatio: number;
+  /** Câbles amont dont le neutre est en surcharge (soulagés par l'EQUI8) */
+  relievedNeutralOverloads: number;
   /** Justification technique */
   justification: string;
 }
@@ -67,75 +88,38 @@ export interface OptimalEqui8Analysis {
   totalImpedance_Zph_Ohm: number;
   /** Bornes d'impédance appliquées */
   impedanceBounds: { Zmin: number; Zmax: number };
+  /** Critère de classement utilisé */
+  metric: Equi8ScoringMetric;
+  /** Câbles dont le courant de neutre dépasse l'ampacité du neutre */
+  overloadedNeutralCableIds: string[];
   /** Raison si aucun candidat trouvé */
   noResultReason?: string;
 }
 
 /**
- * Calcule l'impédance amont (Zph et Zn) entre la source et un nœud donné
+ * Calcule l'impédance amont (Zph et Zn) entre la source et un nœud donné,
+ * avec les câbles du chemin
  */
 function computeUpstreamImpedance(
   nodeId: string,
   nodes: Node[],
   cables: Cable[],
   cableTypes: CableType[]
-): { Zph_Ohm: number; Zn_Ohm: number; pathLength_m: number } {
-  const source = nodes.find(n => n.isSource);
-  if (!source) {
-    return { Zph_Ohm: 0, Zn_Ohm: 0, pathLength_m: 0 };
-  }
-  
-  if (nodeId === source.id) {
-    return { Zph_Ohm: 0, Zn_Ohm: 0, pathLength_m: 0 };
-  }
+): { Zph_Ohm: number; Zn_Ohm: number; pathLength_m: number; pathCableIds: string[] } {
+  // Chemin depuis le poste source qui alimente le nœud (réseau multi-postes)
+  const pathCables = getPathFromSource(nodes, cables, nodeId);
   
-  // BFS pour trouver le chemin de la source au nœud
-  const parent = new Map<string, string>();
-  const parentCable = new Map<string, Cable>();
-  const visited = new Set<string>();
-  const queue: string[] = [source.id];
-  visited.add(source.id);
-  
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    
-    for (const cable of cables) {
-      let neighbor: string | null = null;
-      if (cable.nodeAId === current && !visited.has(cable.nodeBId)) {
-        neighbor = cable.nodeBId;
-      } else if (cable.nodeBId === current && !visited.has(cable.nodeAId)) {
-        neighbor = cable.nodeAId;
-      }
-      
-      if (neighbor) {
-        visited.add(neighbor);
-        parent.set(neighbor, current);
-        parentCable.set(neighbor, cable);
-        queue.push(neighbor);
-      }
-    }
-  }
-  
-  // Si le nœud n'est pas atteignable
-  if (!parent.has(nodeId)) {
-    return { Zph_Ohm: 0, Zn_Ohm: 0, pathLength_m: 0 };
-  }
-  
-  // Remonter le chemin et sommer les impédances
+  // Sommer les impédances le long du chemin
   let Zph_total = 0;
   let Zn_total = 0;
   let pathLength_m = 0;
-  let currentNodeId = nodeId;
+  const pathCableIds: string[] = [];
   
-  while (currentNodeId !== source.id) {
-    const cable = parentCable.get(currentNodeId);
-    if (!cable) break;
+  for (const cable of pathCables) {
+    pathCableIds.push(cable.id);
     
     const cableType = cableTypes.find(ct => ct.id === cable.typeId);
-    if (!cableType) {
-      currentNodeId = parent.get(currentNodeId)!;
-      continue;
-    }
+    if (!cableType) continue;
     
     // Calculer la longueur du câble
     let length_m = cable.length_m || 0;
@@ -159,15 +143,13 @@ function computeUpstreamImpedance(
     
     // Sommer les résistances selon formule GRD belge
     // Phases: R = (R0 + 2*R12) / 3 (formule ORES/RESA/Sibelga)
-    // Neutre: R0 directement
+    // Neutre: R0, ou 3 × RN du neutre réduit (même base que R0)
     const R_grd = (cableType.R0_ohm_per_km + 2 * cableType.R12_ohm_per_km) / 3;
     Zph_total += R_grd * length_km;
-    Zn_total += cableType.R0_ohm_per_km * length_km;
-    
-    currentNodeId = parent.get(currentNodeId)!;
+    Zn_total += getNeutralBranchImpedance(cableType).R_ohm_per_km * length_km;
   }
   
-  return { Zph_Ohm: Zph_total, Zn_Ohm: Zn_total, pathLength_m };
+  return { Zph_Ohm: Zph_total, Zn_Ohm: Zn_total, pathLength_m, pathCableIds };
 }
 
 /**
@@ -264,11 +246,13 @@ function computeMaxNetworkImpedance(
  * 
  * @param project Configuration du projet réseau
  * @param calculationResult Résultats de calcul sans EQUI8 ni SRG2
+ * @param metric Critère de classement (courant de neutre ou taux de déséquilibre u2)
  * @returns Analyse complète avec nœud optimal et candidats
  */
 export function findOptimalEqui8Node(
   project: Project,
-  calculationResult: CalculationResult
+  calculationResult: CalculationResult,
+  metric: Equi8ScoringMetric = 'neutral_current'
 ): OptimalEqui8Analysis {
   const { nodes, cables, cableTypes } = project;
   
@@ -279,10 +263,20 @@ export function findOptimalEqui8Node(
       candidates: [],
       totalImpedance_Zph_Ohm: 0,
       impedanceBounds: { Zmin: 0, Zmax: 0 },
+      metric,
+      overloadedNeutralCableIds: [],
       noResultReason: 'EQUI8 nécessite un réseau 400V (tétraphasé)'
     };
   }
   
+  // Neutres en surcharge : seuls les EQUI8 placés en aval les soulagent
+  const overloadedNeutralCableIds = calculationResult.cables
+    .filter(cable => isNeutralOverloaded(cable, cableTypes))
+    .map(cable => cable.id);
+  if (overloadedNeutralCableIds.length > 0) {
+    console.log(`⚠️ Neutre en surcharge sur ${overloadedNeutralCableIds.length} câble(s): ${overloadedNeutralCableIds.join(', ')}`);
+  }
+
   // Calculer l'impédance totale maximale du départ
   const totalZph = computeMaxNetworkImpedance(nodes, cables, cableTypes);
   
@@ -292,6 +286,8 @@ export function findOptimalEqui8Node(
       candidates: [],
       totalImpedance_Zph_Ohm: 0,
       impedanceBounds: { Zmin: 0, Zmax: 0 },
+      metric,
+      overloadedNeutralCableIds,
       noResultReason: 'Impédance réseau trop faible pour analyse'
     };
   }
@@ -305,13 +301,18 @@ export function findOptimalEqui8Node(
   console.log(`   Bornes: Zmin=${Zmin.toFixed(4)}Ω (${(Z_MIN_RATIO*100).toFixed(0)}%), Zmax=${Zmax.toFixed(4)}Ω (${(Z_MAX_RATIO*100).toFixed(0)}%)`);
   
   const candidates: OptimalEqui8Result[] = [];
+
+  // Taux de déséquilibre par nœud (critère 'unbalance')
+  const sequenceVoltages = calculationResult.nodeSequenceVoltages
+    ?? (calculationResult.nodePhasorsPerPhase ? calculateNodeSequenceVoltages(calculationResult.nodePhasorsPerPhase) : []);
+  const unbalanceByNode = new Map(sequenceVoltages.map(sv => [sv.nodeId, sv.unbalanceFactor_percent] as const));
   
   // Analyser chaque nœud (sauf la source)
   for (const node of nodes) {
     if (node.isSource) continue;
     
     // Calculer l'impédance amont
-    const { Zph_Ohm, Zn_Ohm } = computeUpstreamImpedance(node.id, nodes, cables, cableTypes);
+    const { Zph_Ohm, Zn_Ohm, pathCableIds } = computeUpstreamImpedance(node.id, nodes, cables, cableTypes);
     
     // Vérifier les bornes d'impédance
     if (Zph_Ohm < Zmin) {
@@ -326,31 +327,42 @@ export function findOptimalEqui8Node(
     // Extraire le courant de neutre
     const I_N = extractNeutralCurrent(node.id, calculationResult, cables);
     
-    if (I_N < MIN_NEUTRAL_CURRENT_A) {
+    const u2 = unbalanceByNode.get(node.id);
+    
+    if (metric === 'unbalance') {
+      if (u2 === undefined || u2 < MIN_UNBALANCE_PERCENT) {
+        console.log(`   ⏭️ ${node.name || node.id}: u2=${(u2 ?? 0).toFixed(2)}% < seuil min (pas de déséquilibre)`);
+        continue;
+      }
+    } else if (I_N < MIN_NEUTRAL_CURRENT_A) {
       console.log(`   ⏭️ ${node.name || node.id}: I_N=${I_N.toFixed(2)}A < seuil min (pas de déséquilibre)`);
       continue;
     }
     
     // Calculer le score
-    const score = I_N / Math.max(Zph_Ohm, MIN_IMPEDANCE_OHM);
+    const score = (metric === 'unbalance' ? u2! : I_N) / Math.max(Zph_Ohm, MIN_IMPEDANCE_OHM);
     const positionRatio = Zph_Ohm / totalZph;
+    const relievedNeutralOverloads = pathCableIds.filter(id => overloadedNeutralCableIds.includes(id)).length;
     
     candidates.push({
       nodeId: node.id,
       nodeName: node.name || node.id,
       score,
       neutralCurrent_A: I_N,
+      unbalanceFactor_percent: u2,
       upstreamImpedance_Zph_Ohm: Zph_Ohm,
       upstreamImpedance_Zn_Ohm: Zn_Ohm,
       positionRatio,
-      justification: `I_N=${I_N.toFixed(1)}A, Z_up=${Zph_Ohm.toFixed(3)}Ω, position=${(positionRatio*100).toFixed(0)}% du départ`
+      relievedNeutralOverloads,
+      justification: `${metric === 'unbalance' ? `u2=${u2!.toFixed(2)}%, ` : ''}I_N=${I_N.toFixed(1)}A, Z_up=${Zph_Ohm.toFixed(3)}Ω, position=${(positionRatio*100).toFixed(0)}% du départ`
+        + (relievedNeutralOverloads > 0 ? `, soulage ${relievedNeutralOverloads} neutre(s) en surcharge` : '')
     });
     
     console.log(`   ✅ ${node.name || node.id}: score=${score.toFixed(2)}, I_N=${I_N.toFixed(1)}A, Z=${Zph_Ohm.toFixed(3)}Ω`);
   }
   
-  // Trier par score décroissant
-  candidates.sort((a, b) => b.score - a.score);
+  // Trier par neutres en surcharge soulagés, puis par score décroissant
+  candidates.sort((a, b) => (b.relievedNeutralOverloads - a.relievedNeutralOverloads) || (b.score - a.score));
   
   if (candidates.length === 0) {
     return {
@@ -358,7 +370,11 @@ export function findOptimalEqui8Node(
       candidates: [],
       totalImpedance_Zph_Ohm: totalZph,
       impedanceBounds: { Zmin, Zmax },
-      noResultReason: 'Aucun nœud ne satisfait les critères (courant de neutre > 2A et impédance dans les bornes)'
+      metric,
+      overloadedNeutralCableIds,
+      noResultReason: metric === 'unbalance'
+        ? `Aucun nœud ne satisfait les critères (u2 > ${MIN_UNBALANCE_PERCENT}% et impédance dans les bornes)`
+        : 'Aucun nœud ne satisfait les critères (courant de neutre > 2A et impédance dans les bornes)'
     };
   }
   
@@ -372,7 +388,9 @@ export function findOptimalEqui8Node(
     optimalNode,
     candidates,
     totalImpedance_Zph_Ohm: totalZph,
-    impedanceBounds: { Zmin, Zmax }
+    impedanceBounds: { Zmin, Zmax },
+    metric,
+    overloadedNeutralCableIds
   };
 }
 
@@ -388,6 +406,9 @@ export function formatOptimalEqui8Result(analysis: OptimalEqui8Analysis): string
   
   let text = `🎯 Nœud recommandé: ${optimalNode.nodeName}\n`;
   text += `   • Courant neutre: ${optimalNode.neutralCurrent_A.toFixed(1)} A\n`;
+  if (optimalNode.unbalanceFactor_percent !== undefined) {
+    text += `   • Déséquilibre u2: ${optimalNode.unbalanceFactor_percent.toFixed(2)} %\n`;
+  }
   text += `   • Impédance amont: ${optimalNode.upstreamImpedance_Zph_Ohm.toFixed(3)} Ω\n`;
   text += `   • Position: ${(optimalNode.positionRatio * 100).toFixed(0)}% du départ\n`;
   text += `   • Score: ${optimalNode.score.toFixed(2)}\n`;
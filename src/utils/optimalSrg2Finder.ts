@@ -27,6 +27,7 @@
  */
 
 import { Project, Node, Cable, CableType, CalculationResult } from '@/types/network';
+import { getPathFromSource } from '@/utils/networkConnectivity';
 
 // Configuration des bornes d'impédance pour SRG2
 const Z_MIN_RATIO_SRG2 = 0.15; // 15% de l'impédance totale du départ
@@ -82,61 +83,16 @@ function computeUpstreamImpedance(
   cables: Cable[],
   cableTypes: CableType[]
 ): { Zph_Ohm: number; pathLength_m: number } {
-  const source = nodes.find(n => n.isSource);
-  if (!source) {
-    return { Zph_Ohm: 0, pathLength_m: 0 };
-  }
-  
-  if (nodeId === source.id) {
-    return { Zph_Ohm: 0, pathLength_m: 0 };
-  }
-  
-  // BFS pour trouver le chemin de la source au nœud
-  const parent = new Map<string, string>();
-  const parentCable = new Map<string, Cable>();
-  const visited = new Set<string>();
-  const queue: string[] = [source.id];
-  visited.add(source.id);
-  
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    
-    for (const cable of cables) {
-      let neighbor: string | null = null;
-      if (cable.nodeAId === current && !visited.has(cable.nodeBId)) {
-        neighbor = cable.nodeBId;
-      } else if (cable.nodeBId === current && !visited.has(cable.nodeAId)) {
-        neighbor = cable.nodeAId;
-      }
-      
-      if (neighbor) {
-        visited.add(neighbor);
-        parent.set(neighbor, current);
-        parentCable.set(neighbor, cable);
-        queue.push(neighbor);
-      }
-    }
-  }
-  
-  // Si le nœud n'est pas atteignable
-  if (!parent.has(nodeId)) {
-    return { Zph_Ohm: 0, pathLength_m: 0 };
-  }
+  // Chemin depuis le poste source qui alimente le nœud (réseau multi-postes)
+  const pathCables = getPathFromSource(nodes, cables, nodeId);
   
-  // Remonter le chemin et sommer les impédances
+  // Sommer les impédances le long du chemin
   let Zph_total = 0;
   let pathLength_m = 0;
-  let currentNodeId = nodeId;
   
-  while (currentNodeId !== source.id) {
-    const cable = parentCable.get(currentNodeId);
-    if (!cable) break;
-    
+  for (const cable of pathCables) {
     const cableType = cableTypes.find(ct => ct.id === cable.typeId);
-    if (!cableType) {
-      currentNodeId = parent.get(currentNodeId)!;
-      continue;
-    }
+    if (!cableType) continue;
     
     // Calculer la longueur du câble
     let length_m = cable.length_m || 0;
@@ -162,8 +118,6 @@ function computeUpstreamImpedance(
     // Phases: R = (R0 + 2*R12) / 3 (formule ORES/RESA/Sibelga)
     const R_grd = (cableType.R0_ohm_per_km + 2 * cableType.R12_ohm_per_km) / 3;
     Zph_total += R_grd * length_km;
-    
-    currentNodeId = parent.get(currentNodeId)!;
   }
   
   return { Zph_Ohm: Zph_total, pathLength_m };
@@ -1,16 +1,21 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { generateCableDetailsTable } from './tableGenerator';
-import { Project, CalculationResult, CalculationScenario, SimulationResult } from '@/types/network';
+import { Project, Node, CalculationResult, CalculationScenario, SimulationResult, ConnectionStudyResult, VirtualBusbar } from '@/types/network';
 import { SRG2SimulationResult } from '@/types/srg2';
+import { EN50160Evaluation } from '@/types/dailyProfile';
 import { getConnectedNodes, getConnectedCables } from '@/utils/networkConnectivity';
 import { calculateTotalPowersForNodes } from './clientsUtils';
+import { describeConnectionConstraint, verdictLabels } from './connectionFeasibility';
+import { branchementCableTypes } from '@/data/branchementCableTypes';
 
 export interface PDFData {
   project: Project;
   results: Record<CalculationScenario, CalculationResult | null>;
   selectedScenario: CalculationScenario;
   simulationResults?: SimulationResult;
+  /** Conformité statistique EN50160 sur le profil journalier */
+  en50160?: EN50160Evaluation;
 }
 
 export class PDFGenerator {
@@ -96,24 +101,42 @@ export class PDFGenerator {
     }
   }
 
-  // Fonction pour obtenir la numérotation séquentielle des circuits
-  private getCircuitNumber(circuitId: string, project: Project, result: CalculationResult): number {
-    if (!result?.virtualBusbar?.circuits) return 0;
-    
+  private getProtectionComplianceText(compliance: 'normal' | 'warning' | 'critical'): string {
+    switch (compliance) {
+      case 'normal': return 'Conformes';
+      case 'warning': return 'À vérifier';
+      case 'critical': return 'Non conformes';
+    }
+  }
+
+  // Jeux de barres de chaque poste source (détail par poste en multi-postes)
+  private getSourceBusbars(project: Project, result: CalculationResult): { sourceNode: Node; busbar: VirtualBusbar }[] {
+    if (result.substations && result.substations.length > 1) {
+      return result.substations.flatMap(substation => {
+        const sourceNode = project.nodes.find(n => n.id === substation.sourceNodeId);
+        return sourceNode && substation.virtualBusbar ? [{ sourceNode, busbar: substation.virtualBusbar }] : [];
+      });
+    }
     const sourceNode = project.nodes.find(n => n.isSource);
-    if (!sourceNode) return 0;
-    
-    const mainCircuitCables = project.cables
-      .filter(cable => cable.nodeAId === sourceNode.id || cable.nodeBId === sourceNode.id)
-      .sort((a, b) => a.id.localeCompare(b.id));
-    
-    const circuitIndex = mainCircuitCables.findIndex(cable => cable.id === circuitId);
-    return circuitIndex >= 0 ? circuitIndex + 1 : 0;
+    return sourceNode && result.virtualBusbar ? [{ sourceNode, busbar: result.virtualBusbar }] : [];
+  }
+
+  // Numérotation séquentielle des circuits, poste par poste
+  private getCircuitNumbers(project: Project, sourceNodes: Node[]): Map<string, number> {
+    const numbers = new Map<string, number>();
+    for (const sourceNode of sourceNodes) {
+      project.cables
+        .filter(cable => cable.nodeAId === sourceNode.id || cable.nodeBId === sourceNode.id)
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .forEach(cable => numbers.set(cable.id, numbers.size + 1));
+    }
+    return numbers;
   }
 
   // Calculer les statistiques par circuit (similaire à ResultsPanel)
   private getCircuitStatistics(project: Project, result: CalculationResult) {
-    if (!project?.cables || !project?.nodes || !result?.virtualBusbar?.circuits) {
+    const sourceBusbars = project?.cables && project?.nodes && result ? this.getSourceBusbars(project, result) : [];
+    if (sourceBusbars.every(({ busbar }) => !busbar.circuits)) {
       return { totalLength: 0, circuitStats: [], connectedCableCount: 0 };
     }
     
@@ -165,18 +188,20 @@ export class PDFGenerator {
       maxVoltage: number;
     }> = [];
     
-    const sourceNode = project.nodes.find(n => n.isSource);
-    if (!sourceNode) {
-      return { totalLength: 0, circuitStats: [], connectedCableCount: connectedCables.length };
-    }
-    
-    const sortedCircuits = result.virtualBusbar.circuits
-      .map(circuit => ({ ...circuit, circuitNumber: this.getCircuitNumber(circuit.circuitId, project, result) }))
+    const circuitNumbers = this.getCircuitNumbers(project, sourceBusbars.map(({ sourceNode }) => sourceNode));
+    const isMultiSource = sourceBusbars.length > 1;
+    const sortedCircuits = sourceBusbars
+      .flatMap(({ sourceNode, busbar }) => (busbar.circuits ?? []).map(circuit => ({
+        ...circuit,
+        sourceNode,
+        circuitNumber: circuitNumbers.get(circuit.circuitId) ?? 0
+      })))
       .sort((a, b) => a.circuitNumber - b.circuitNumber);
     
     const allAssignedCableIds = new Set<string>();
     
     sortedCircuits.forEach(circuit => {
+      const { sourceNode, circuitNumber } = circuit;
       const mainCable = project.cables.find(c => c.id === circuit.circuitId);
       if (!mainCable) return;
       
@@ -201,8 +226,6 @@ export class PDFGenerator {
       const circuitLength = circuitCables.reduce((sum, cable) => sum + (cable.length_m || 0), 0);
       totalLength += circuitLength;
       
-      const circuitNumber = this.getCircuitNumber(circuit.circuitId, project, result);
-      
       // Déterminer la conformité du circuit
       let circuitCompliance: 'normal' | 'warning' | 'critical' = 'normal';
       const nominalVoltage = project.voltageSystem === 'TÉTRAPHASÉ_400V' ? 400 : 230;
@@ -215,7 +238,7 @@ export class PDFGenerator {
       
       circuitStats.push({
         circuitId: circuit.circuitId,
-        circuitName: `Circuit ${circuitNumber}`,
+        circuitName: isMultiSource ? `Circuit ${circuitNumber} (${sourceNode.name})` : `Circuit ${circuitNumber}`,
         circuitNumber,
         length: circuitLength,
         cableCount: circuitCables.length,
@@ -248,6 +271,9 @@ export class PDFGenerator {
     this.addText(`cos φ = ${data.project.cosPhi}`);
     this.addText(`Scénario: ${this.formatScenarioName(data.selectedScenario)}`);
     this.addText(`Conformité: ${this.getComplianceText(currentResult.compliance)}`);
+    if (currentResult.protection && currentResult.protection.checks.length > 0) {
+      this.addText(`Protections: ${this.getProtectionComplianceText(currentResult.protection.compliance)}`);
+    }
     this.currentY += 5;
 
     // Calcul charge et production contractuelles (manuel + clients importés)
@@ -288,8 +314,25 @@ export class PDFGenerator {
     this.addText(`Pertes globales: ${currentResult.globalLosses_kW.toFixed(3)} kW`);
     this.currentY += 5;
 
-    // Informations transformateur et jeu de barres complet
-    if (currentResult.virtualBusbar) {
+    // Réseau multi-postes : transformateur et jeu de barres détaillés par poste
+    if (currentResult.substations && currentResult.substations.length > 1) {
+      for (const substation of currentResult.substations) {
+        this.checkPageBreak(45);
+        this.addBoldText(`Poste ${substation.sourceName} :`, 10);
+        if (substation.transformerConfig) {
+          this.addText(`Transformateur: ${substation.transformerConfig.rating} - ${substation.transformerConfig.shortCircuitVoltage_percent}% Ucc`);
+        }
+        this.addText(`Charges: ${substation.totalLoads_kVA.toFixed(1)} kVA - Productions: ${substation.totalProductions_kVA.toFixed(1)} kVA`);
+        if (substation.virtualBusbar) {
+          this.addText(`Jeu de barres: ${substation.virtualBusbar.voltage_V.toFixed(1)} V - ${substation.virtualBusbar.current_A.toFixed(1)} A - ${substation.virtualBusbar.netSkVA.toFixed(1)} kVA`);
+          this.addText(`Pertes transformateur: ${substation.virtualBusbar.losses_kW?.toFixed(3) || 0} kW`);
+        }
+        this.addText(`Chute de tension max: ${substation.maxVoltageDropPercent.toFixed(2)}% - Conformité: ${this.getComplianceText(substation.compliance)}`);
+        this.currentY += 3;
+      }
+      this.currentY += 2;
+    } else if (currentResult.virtualBusbar) {
+      // Informations transformateur et jeu de barres complet
       this.addBoldText('Transformateur :', 10);
       this.addText(`Puissance: ${data.project.transformerConfig.rating}`);
       this.addText(`Tension de court-circuit: ${data.project.transformerConfig.shortCircuitVoltage_percent}% Ucc`);
@@ -638,6 +681,237 @@ export class PDFGenerator {
     this.currentY += 10;
   }
 
+  // Section 4: Courants de court-circuit
+  private addShortCircuitDetails(data: PDFData) {
+    const shortCircuit = data.results[data.selectedScenario]?.shortCircuit;
+    if (!shortCircuit || shortCircuit.nodes.length === 0) return;
+
+    this.checkPageBreak(60);
+    this.addSubtitle('Courants de Court-Circuit');
+    this.addText(`Ik max : c = ${shortCircuit.cMax}, conducteurs froids - Ik min : c = ${shortCircuit.cMin}, conducteurs chauds`, 9);
+    this.currentY += 2;
+
+    const headers = ['Nœud', 'Z1 max(mΩ)', 'Ik3 max(kA)', 'Ik3 min(kA)', 'Ik2 min(kA)', 'Ik1 max(kA)', 'Ik1 min(kA)'];
+    const colWidths = [40, 22, 22, 22, 22, 22, 22];
+    let x = this.margin;
+
+    this.pdf.setFont('helvetica', 'bold');
+    this.pdf.setFontSize(9);
+    headers.forEach((header, i) => {
+      this.pdf.text(header, x, this.currentY);
+      x += colWidths[i];
+    });
+    this.currentY += 6;
+    this.addLine();
+
+    this.pdf.setFont('helvetica', 'normal');
+    this.pdf.setFontSize(8);
+
+    shortCircuit.nodes.forEach(sc => {
+      this.checkPageBreak(8);
+      const node = data.project.nodes.find(n => n.id === sc.nodeId);
+
+      x = this.margin;
+      const values = [
+        node?.name || sc.nodeId,
+        (sc.Z1_max_ohm * 1000).toFixed(1),
+        sc.Ik3_max_kA.toFixed(2),
+        sc.Ik3_min_kA.toFixed(2),
+        sc.Ik2_min_kA.toFixed(2),
+        sc.Ik1_max_kA !== undefined ? sc.Ik1_max_kA.toFixed(2) : '-',
+        sc.Ik1_min_kA !== undefined ? sc.Ik1_min_kA.toFixed(2) : '-'
+      ];
+
+      values.forEach((value, i) => {
+        this.pdf.text(value, x, this.currentY);
+        x += colWidths[i];
+      });
+      this.currentY += 5;
+    });
+
+    this.currentY += 10;
+  }
+
+  // Section 5: Vérification des protections
+  private addProtectionDetails(data: PDFData) {
+    const protection = data.results[data.selectedScenario]?.protection;
+    if (!protection || protection.checks.length === 0) return;
+
+    this.checkPageBreak(60);
+    this.addSubtitle('Vérification des Protections');
+    this.addText(`Conformité: ${this.getProtectionComplianceText(protection.compliance)} - Temps de coupure max admis: ${protection.maxClearingTime_s} s`, 9);
+    this.currentY += 2;
+
+    protection.checks.forEach(check => {
+      this.checkPageBreak(20);
+      const cable = data.project.cables.find(c => c.id === check.cableId);
+      const endNode = data.project.nodes.find(n => n.id === check.endFaultNodeId);
+      const device = check.device ? `${check.device.type.replace('_', ' ')} ${check.device.rating_A} A` : 'aucune protection';
+
+      this.addBoldText(`${cable?.name || check.cableId}${check.isFeederHead ? ' (départ)' : ''} - ${device} - ${this.getProtectionComplianceText(check.compliance)}`, 9);
+      if (check.endFaultCurrent_A !== undefined) {
+        const clearing = check.clearingTime_s === undefined
+          ? '-'
+          : isFinite(check.clearingTime_s) ? `${check.clearingTime_s.toFixed(2)} s` : 'aucune coupure';
+        this.addText(`Ik min en bout de zone (${endNode?.name || '-'}): ${check.endFaultCurrent_A.toFixed(0)} A - Coupure: ${clearing}${check.weakestAmpacity_A !== undefined ? ` - Iz min: ${check.weakestAmpacity_A} A` : ''}`, 8);
+      }
+      check.messages.forEach(message => this.addText(`- ${message}`, 8));
+    });
+
+    this.currentY += 10;
+  }
+
+  // Section 6: Conformité statistique EN50160
+  private addEN50160Details(data: PDFData) {
+    const evaluation = data.en50160;
+    if (!evaluation) return;
+
+    this.checkPageBreak(60);
+    this.addSubtitle('Conformité EN50160 (statistique)');
+    this.addText(`95% des valeurs 10 min dans ±10% de ${evaluation.nominalVoltage_V} V, 100% dans +10% / -15%`, 9);
+    if (evaluation.representativeWeek) {
+      this.addText(`Profil journalier de ${evaluation.duration_h.toFixed(0)} h considéré représentatif de la semaine`, 9);
+    }
+    const nodeFailures = evaluation.nodes.filter(n => !n.compliant).length;
+    const clientFailures = evaluation.clients.filter(c => !c.compliant).length;
+    this.addBoldText(`Nœuds non conformes: ${nodeFailures}/${evaluation.nodes.length} - Clients non conformes: ${clientFailures}/${evaluation.clients.length}`, 9);
+    this.currentY += 2;
+
+    const headers = ['Nœud / Client', 'P5(V)', 'P95(V)', 'Min(V)', 'Max(V)', 'Dans ±10%', 'Bande 100%', 'Verdict'];
+    const colWidths = [44, 18, 18, 18, 18, 20, 20, 16];
+    let x = this.margin;
+
+    this.pdf.setFont('helvetica', 'bold');
+    this.pdf.setFontSize(9);
+    headers.forEach((header, i) => {
+      this.pdf.text(header, x, this.currentY);
+      x += colWidths[i];
+    });
+    this.currentY += 6;
+    this.addLine();
+
+    this.pdf.setFont('helvetica', 'normal');
+    this.pdf.setFontSize(8);
+
+    [...evaluation.nodes, ...evaluation.clients].forEach(series => {
+      this.checkPageBreak(8);
+      const week = series.worstWeek;
+
+      x = this.margin;
+      const values = [
+        `${series.kind === 'client' ? 'Client ' : ''}${series.label}`,
+        week.p5_V.toFixed(1),
+        week.p95_V.toFixed(1),
+        week.min_V.toFixed(1),
+        week.max_V.toFixed(1),
+        `${week.percentWithin10.toFixed(1)}%`,
+        week.within100Band ? 'Oui' : 'Non',
+        series.compliant ? 'OK' : 'NOK'
+      ];
+
+      values.forEach((value, i) => {
+        this.pdf.text(value, x, this.currentY);
+        x += colWidths[i];
+      });
+      this.currentY += 5;
+    });
+
+    this.currentY += 10;
+  }
+
+  private addTableRows(headers: string[], colWidths: number[], rows: string[][]) {
+    let x = this.margin;
+    this.pdf.setFont('helvetica', 'bold');
+    this.pdf.setFontSize(9);
+    headers.forEach((header, i) => {
+      this.pdf.text(header, x, this.currentY);
+      x += colWidths[i];
+    });
+    this.currentY += 6;
+    this.addLine();
+
+    this.pdf.setFont('helvetica', 'normal');
+    this.pdf.setFontSize(8);
+    rows.forEach(values => {
+      x = this.margin;
+      values.forEach((value, i) => {
+        this.pdf.text(value, x, this.currentY);
+        x += colWidths[i];
+      });
+      this.currentY += 5;
+    });
+    this.currentY += 4;
+  }
+
+  /**
+   * Rapport d'une page de l'étude de faisabilité de raccordement
+   */
+  public generateConnectionStudyReport(project: Project, study: ConnectionStudyResult): void {
+    const { request } = study;
+    const cable = branchementCableTypes.find(c => c.id === request.branchementCableId);
+
+    this.addTitle('Étude de faisabilité de raccordement', 16);
+    this.addText(`Projet ${project.name} - généré le ${new Date().toLocaleDateString('fr-FR')}`, 9);
+    this.currentY += 2;
+
+    // Verdict
+    const colors: Record<ConnectionStudyResult['verdict'], [number, number, number]> = {
+      accepted: [34, 197, 94],
+      accepted_with_works: [249, 115, 22],
+      refused: [239, 68, 68]
+    };
+    this.pdf.setFillColor(...colors[study.verdict]);
+    this.pdf.rect(this.margin, this.currentY - 5, 170, 10, 'F');
+    this.pdf.setTextColor(255, 255, 255);
+    this.addBoldText(`Verdict : ${verdictLabels[study.verdict]}`, 12, this.margin + 3);
+    this.pdf.setTextColor(0, 0, 0);
+    this.currentY += 4;
+
+    // Demande
+    this.addSubtitle('Demande', 11);
+    this.addText(`${request.nomCircuit} - ${request.clientType}, ${request.connectionType}${study.assignedPhase ? ` (phase ${study.assignedPhase})` : ''}`, 9);
+    this.addText(`Charge ${request.puissanceContractuelle_kVA} kVA - PV ${request.puissancePV_kVA} kVA - raccordé au nœud ${study.nodeName}`, 9);
+    this.addText(`Branchement ${cable?.label ?? request.branchementCableId} - ${study.branchementLength_m.toFixed(0)} m - ${study.branchementCurrent_A.toFixed(1)} A`, 9);
+    this.addText(`Tension au point client : ${study.clientVoltageMin_V.toFixed(1)} V (hiver) à ${study.clientVoltageMax_V.toFixed(1)} V (été ensoleillé)`, 9);
+    if (study.withSimulation) this.addText('Équipements de simulation pris en compte', 9);
+    this.currentY += 2;
+
+    // Contraintes et travaux
+    this.addSubtitle('Contraintes créées ou aggravées', 11);
+    if (study.constraints.length === 0) {
+      this.addText('Aucune', 9);
+    }
+    study.constraints.slice(0, 8).forEach(c => {
+      this.addText(`- ${describeConnectionConstraint(c)}${c.remedy ? ` -> ${c.remedy}` : ' -> non résoluble par travaux de raccordement'}`, 8);
+    });
+    this.currentY += 2;
+
+    // Comparaison avant / après : nœuds les plus impactés
+    this.addSubtitle('Tensions nœuds (écart le plus défavorable)', 11);
+    const nodes = [...study.nodes]
+      .sort((a, b) => Math.abs(b.after_percent - b.before_percent) - Math.abs(a.after_percent - a.before_percent))
+      .slice(0, 8);
+    this.addTableRows(
+      ['Nœud', 'Scénario', 'Avant (%)', 'Après (%)'],
+      [60, 45, 30, 30],
+      nodes.map(n => [n.nodeName, this.formatScenarioName(n.scenario), n.before_percent.toFixed(2), n.after_percent.toFixed(2)])
+    );
+
+    // Comparaison avant / après : tronçons les plus chargés
+    this.addSubtitle('Courants tronçons', 11);
+    const cables = [...study.cables]
+      .sort((a, b) => (b.after_A - b.before_A) - (a.after_A - a.before_A))
+      .slice(0, 6);
+    this.addTableRows(
+      ['Tronçon', 'Scénario', 'Avant (A)', 'Après (A)', 'Admissible (A)'],
+      [50, 45, 25, 25, 25],
+      cables.map(c => [c.cableName, this.formatScenarioName(c.scenario), c.before_A.toFixed(1), c.after_A.toFixed(1), c.maxCurrent_A?.toFixed(0) ?? '-'])
+    );
+
+    const fileName = `Raccordement_${request.nomCircuit.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`;
+    this.pdf.save(fileName);
+  }
+
   public async generateReport(data: PDFData): Promise<void> {
     // Page de titre
     this.addTitle('Rapport de Calcul de Réseau Électrique', 18);
@@ -653,6 +927,15 @@ export class PDFGenerator {
     // Section 3: Détail des tronçons
     this.addCableDetails(data);
 
+    // Section 4: Courants de court-circuit
+    this.addShortCircuitDetails(data);
+
+    // Section 5: Vérification des protections
+    this.addProtectionDetails(data);
+
+    // Section 6: Conformité statistique EN50160
+    this.addEN50160Details(data);
+
     // Télécharger le PDF
     const fileName = `Rapport_${data.project.name.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`;
     this.pdf.save(fileName);
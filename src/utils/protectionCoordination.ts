@@ -0,0 +1,202 @@
+/**
+ * ============================================================================
+ * VÉRIFICATION DES PROTECTIONS BT (FUSIBLES / DISJONCTEURS)
+ * ============================================================================
+ *
+ * Pour chaque appareil de protection placé en tête de câble :
+ * - Zone protégée : le câble et tous les câbles aval jusqu'à la protection
+ *   suivante (orientation par parcours depuis les postes, câbles fermés)
+ * - Défaut en bout de zone : courant de court-circuit minimal des nœuds de la
+ *   zone (Ik1 min en 400V tétraphasé, Ik2 min en 230V triangle)
+ * - Élimination : le temps de coupure lu sur la courbe temps-courant doit être
+ *   inférieur au temps maximal admis (5 s par défaut)
+ * - Surcharge : In ≤ 1,45 × Iz / (I2 / In) pour le câble le plus faible de la
+ *   zone (gG : In ≤ 0,91 Iz ; disjoncteur : In ≤ Iz). Les fusibles aM ne
+ *   protègent pas contre les surcharges.
+ *
+ * Les départs du poste sans protection sont signalés (avertissement).
+ *
+ * ============================================================================
+ */
+
+import { Project, Cable, ProtectionCheck, ProtectionResult, ShortCircuitResult } from '@/types/network';
+import { getClearingTime, getProtectionDeviceDefinition } from '@/data/protectionDevices';
+import { isCableClosed } from '@/utils/networkConnectivity';
+import { getEffectiveAmpacity } from '@/utils/cableDerating';
+
+// Temps de coupure maximal admis pour le défaut en bout de ligne (s)
+export const DEFAULT_MAX_CLEARING_TIME_S = 5;
+
+/**
+ * Oriente les câbles fermés depuis les postes : câbles enfants de chaque nœud
+ */
+const buildDownstreamTree = (project: Project, cables: Cable[]) => {
+  const adjacency = new Map<string, Cable[]>();
+  for (const cable of cables) {
+    if (!adjacency.has(cable.nodeAId)) adjacency.set(cable.nodeAId, []);
+    if (!adjacency.has(cable.nodeBId)) adjacency.set(cable.nodeBId, []);
+    adjacency.get(cable.nodeAId)!.push(cable);
+    adjacency.get(cable.nodeBId)!.push(cable);
+  }
+
+  const childNodeOfCable = new Map<string, string>();
+  const childCables = new Map<string, Cable[]>();
+  const visited = new Set<string>();
+
+  for (const source of project.nodes.filter(n => n.isSource)) {
+    if (visited.has(source.id)) continue;
+    visited.add(source.id);
+    const queue = [source.id];
+    while (queue.length) {
+      const u = queue.shift()!;
+      for (const cable of adjacency.get(u) || []) {
+        const v = cable.nodeAId === u ? cable.nodeBId : cable.nodeAId;
+        if (visited.has(v)) continue;
+        visited.add(v);
+        childNodeOfCable.set(cable.id, v);
+        if (!childCables.has(u)) childCables.set(u, []);
+        childCables.get(u)!.push(cable);
+        queue.push(v);
+      }
+    }
+  }
+
+  return { childNodeOfCable, childCables };
+};
+
+/**
+ * Vérifie l'ensemble des protections du projet à partir des courants de court-circuit
+ */
+export const checkProtections = (
+  project: Project,
+  shortCircuit: ShortCircuitResult,
+  maxClearingTime_s: number = DEFAULT_MAX_CLEARING_TIME_S
+): ProtectionResult => {
+  const closedCables = project.cables.filter(isCableClosed);
+  const { childNodeOfCable, childCables } = buildDownstreamTree(project, closedCables);
+  const sourceIds = new Set(project.nodes.filter(n => n.isSource).map(n => n.id));
+  const faultByNode = new Map(shortCircuit.nodes.map(sc => [sc.nodeId, sc] as const));
+
+  const getMinFaultCurrent_A = (nodeId: string): number | undefined => {
+    const sc = faultByNode.get(nodeId);
+    if (!sc) return undefined;
+    return (sc.Ik1_min_kA ?? sc.Ik2_min_kA) * 1000;
+  };
+
+  const checks: ProtectionCheck[] = [];
+
+  for (const cable of closedCables) {
+    const childNodeId = childNodeOfCable.get(cable.id);
+    if (!childNodeId) continue; // Câble de bouclage : non orienté
+
+    const isFeederHead = sourceIds.has(cable.nodeAId === childNodeId ? cable.nodeBId : cable.nodeAId);
+    if (!cable.protection && !isFeederHead) continue;
+
+    // Zone protégée : parcours aval jusqu'aux protections suivantes
+    const zoneCables: Cable[] = [cable];
+    const zoneNodeIds = [childNodeId];
+    const stack = [childNodeId];
+    while (stack.length) {
+      const u = stack.pop()!;
+      for (const child of childCables.get(u) || []) {
+        if (child.protection) continue;
+        const v = childNodeOfCable.get(child.id)!;
+        zoneCables.push(child);
+        zoneNodeIds.push(v);
+        stack.push(v);
+      }
+    }
+
+    if (!cable.protection) {
+      checks.push({
+        cableId: cable.id,
+        isFeederHead,
+        zoneCableIds: zoneCables.map(c => c.id),
+        faultCleared: false,
+        ampacityProtected: null,
+        compliance: 'warning',
+        messages: ['Départ sans appareil de protection']
+      });
+      continue;
+    }
+
+    const device = cable.protection;
+    const definition = getProtectionDeviceDefinition(device.type);
+    const messages: string[] = [];
+
+    // Défaut minimal en bout de zone
+    let endFaultNodeId: string | undefined;
+    let endFaultCurrent_A: number | undefined;
+    for (const nodeId of zoneNodeIds) {
+      const I = getMinFaultCurrent_A(nodeId);
+      if (I !== undefined && (endFaultCurrent_A === undefined || I < endFaultCurrent_A)) {
+        endFaultCurrent_A = I;
+        endFaultNodeId = nodeId;
+      }
+    }
+
+    const clearingTime_s = endFaultCurrent_A !== undefined
+      ? getClearingTime(device.type, device.rating_A, endFaultCurrent_A)
+      : undefined;
+    const faultCleared = clearingTime_s !== undefined && clearingTime_s <= maxClearingTime_s;
+    if (clearingTime_s === undefined) {
+      messages.push('Courant de court-circuit en bout de zone indisponible');
+    } else if (!faultCleared) {
+      messages.push(isFinite(clearingTime_s)
+        ? `Défaut en bout de ligne éliminé en ${clearingTime_s.toFixed(1)} s (> ${maxClearingTime_s} s)`
+        : 'Défaut en bout de ligne non détecté par la protection');
+    }
+
+    // Protection du câble le plus faible (ampacité déclassée selon la pose) contre les surcharges
+    let weakestCableId: string | undefined;
+    let weakestAmpacity_A: number | undefined;
+    for (const zoneCable of zoneCables) {
+      const Iz = getEffectiveAmpacity(zoneCable, project.cableTypes);
+      if (Iz && (weakestAmpacity_A === undefined || Iz < weakestAmpacity_A)) {
+        weakestAmpacity_A = Iz;
+        weakestCableId = zoneCable.id;
+      }
+    }
+
+    let ampacityProtected: boolean | null = null;
+    if (definition && !definition.overloadProtection) {
+      messages.push(`${definition.label} : protection contre les surcharges non assurée`);
+    } else if (definition && weakestAmpacity_A !== undefined) {
+      const maxRating_A = 1.45 * weakestAmpacity_A / definition.conventionalTripRatio;
+      ampacityProtected = device.rating_A <= maxRating_A;
+      if (!ampacityProtected) {
+        messages.push(`Calibre ${device.rating_A} A trop élevé pour Iz = ${Math.round(weakestAmpacity_A)} A (max ${Math.floor(maxRating_A)} A)`);
+      }
+    }
+
+    let compliance: ProtectionCheck['compliance'] = 'normal';
+    if ((clearingTime_s !== undefined && !faultCleared) || ampacityProtected === false) {
+      compliance = 'critical';
+    } else if (messages.length > 0) {
+      compliance = 'warning';
+    }
+
+    checks.push({
+      cableId: cable.id,
+      device,
+      isFeederHead,
+      zoneCableIds: zoneCables.map(c => c.id),
+      endFaultNodeId,
+      endFaultCurrent_A,
+      clearingTime_s,
+      faultCleared,
+      weakestCableId,
+      weakestAmpacity_A,
+      ampacityProtected,
+      compliance,
+      messages
+    });
+  }
+
+  const compliance: ProtectionResult['compliance'] = checks.some(c => c.compliance === 'critical')
+    ? 'critical'
+    : checks.some(c => c.compliance === 'warning') ? 'warning' : 'normal';
+
+  console.log(`🛡️ Protections vérifiées: ${checks.length} (${compliance})`);
+  return { compliance, maxClearingTime_s, checks };
+};
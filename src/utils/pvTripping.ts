@@ -0,0 +1,140 @@
+import {
+  Project,
+  ClientImporte,
+  CalculationResult,
+  CalculationScenario,
+  PVTrippingSettings
+} from '@/types/network';
+import { BranchementCableType, branchementCableTypes, calculateGeodeticDistance } from '@/data/branchementCableTypes';
+import { calculateBranchementVoltageDrop } from './clientDailyProfileCalculator';
+import { calculateNodeAutoPhaseDistribution } from './phaseDistributionCalculator';
+import { getLinkedClientsForNode } from './clientsUtils';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+
+const NOMINAL_VOLTAGE_V = 230;
+
+/**
+ * Réglage par défaut : découplage à 253 V (230 V +10%), reconnexion sous 248 V
+ */
+export const createDefaultPVTrippingSettings = (): PVTrippingSettings => ({
+  enabled: true,
+  tripVoltage_V: 253,
+  reconnectVoltage_V: 248
+});
+
+export interface PVTrippingClient {
+  client: ClientImporte;
+  nodeId: string;
+}
+
+/**
+ * Clients importés raccordés disposant d'une installation PV
+ */
+export const collectPVClients = (project: Project): PVTrippingClient[] =>
+  (project.clientLinks ?? []).flatMap(link => {
+    const client = project.clientsImportes?.find(c => c.id === link.clientId);
+    return client && client.puissancePV_kVA > 0 ? [{ client, nodeId: link.nodeId }] : [];
+  });
+
+/**
+ * Copie du projet où les PV des clients découplés ne produisent plus. En mode mixte,
+ * la répartition par phase des nœuds concernés est recalculée sans ces productions.
+ */
+export const withTrippedPV = (project: Project, trippedClientIds: Set<string>): Project => {
+  if (trippedClientIds.size === 0) return project;
+
+  const clientsImportes = project.clientsImportes?.map(c =>
+    trippedClientIds.has(c.id) ? { ...c, puissancePV_kVA: 0 } : c
+  );
+  const affectedNodeIds = new Set(
+    (project.clientLinks ?? []).filter(l => trippedClientIds.has(l.clientId)).map(l => l.nodeId)
+  );
+  const nodes = project.loadModel !== 'mixte_mono_poly' ? project.nodes : project.nodes.map(node => {
+    if (!affectedNodeIds.has(node.id)) return node;
+    return {
+      ...node,
+      autoPhaseDistribution: calculateNodeAutoPhaseDistribution(
+        node,
+        getLinkedClientsForNode(node.id, clientsImportes ?? [], project.clientLinks ?? []),
+        project.manualPhaseDistribution?.charges || { A: 33.33, B: 33.33, C: 33.34 },
+        project.manualPhaseDistribution?.productions || { A: 33.33, B: 33.33, C: 33.34 },
+        project.voltageSystem,
+        project.foisonnementChargesResidentiel ?? 15,
+        project.foisonnementChargesIndustriel ?? 70,
+        project.foisonnementProductions ?? 100,
+        project.treatSmallPolyProductionsAsMono || false
+      )
+    };
+  });
+
+  return { ...project, nodes, clientsImportes };
+};
+
+/**
+ * Production active du client pour le scénario (foisonnement et cos φ des productions)
+ */
+export const getClientPVPower = (project: Project, scenario: CalculationScenario, client: ClientImporte): number => {
+  if (scenario === 'PRÉLÈVEMENT') return 0;
+  return client.puissancePV_kVA * project.foisonnementProductions / 100 * (project.cosPhiProductions ?? 1);
+};
+
+/**
+ * Phase de mesure au nœud : phase du client monophasé (couplage phase-phase en 230 V,
+ * même convention que la courbe client du profil 24h), aucune pour un polyphasé
+ */
+const getClientPhase = (client: ClientImporte, project: Project): 'A' | 'B' | 'C' | undefined => {
+  if ((client.connectionType ?? 'MONO') !== 'MONO') return undefined;
+  if (project.voltageSystem !== 'TRIPHASÉ_230V') return client.assignedPhase || 'A';
+  const coupling = client.phaseCoupling || 'A-B';
+  if (coupling.includes('A') && coupling.includes('B')) return 'A';
+  if (coupling.includes('B') && coupling.includes('C')) return 'B';
+  return 'C';
+};
+
+/**
+ * Tension vue par la protection de découplage au point de raccordement : tension du nœud
+ * (phase du client, phase la plus haute pour un polyphasé) corrigée du câble de branchement
+ * avec la charge du client et, s'il est couplé, sa production.
+ */
+export const getConnectionPointVoltage = (
+  project: Project,
+  result: CalculationResult,
+  scenario: CalculationScenario,
+  pvClient: PVTrippingClient,
+  producing: boolean,
+  cable?: BranchementCableType
+): number | null => {
+  const deviations = getNodeDeviationsPercent(result, pvClient.nodeId);
+  if (!deviations) return null;
+  const { client } = pvClient;
+  const phase = getClientPhase(client, project);
+  const deviation = phase ? deviations[phase] : Math.max(deviations.A, deviations.B, deviations.C);
+  const nodeVoltage = NOMINAL_VOLTAGE_V * (1 + deviation / 100);
+
+  const node = project.nodes.find(n => n.id === pvClient.nodeId);
+  if (!cable || !node) return nodeVoltage;
+
+  const chargeFoisonnement = scenario === 'PRODUCTION'
+    ? 0
+    : client.clientType === 'industriel'
+      ? (project.foisonnementChargesIndustriel ?? project.foisonnementCharges)
+      : (project.foisonnementChargesResidentiel ?? project.foisonnementCharges);
+  const S_charge_VA = client.puissanceContractuelle_kVA * chargeFoisonnement / 100 * 1000;
+  const S_prod_VA = producing && scenario !== 'PRÉLÈVEMENT'
+    ? client.puissancePV_kVA * project.foisonnementProductions / 100 * 1000
+    : 0;
+
+  return nodeVoltage - calculateBranchementVoltageDrop(
+    S_charge_VA,
+    S_prod_VA,
+    client.connectionType ?? 'MONO',
+    cable,
+    calculateGeodeticDistance(node.lat, node.lng, client.lat, client.lng),
+    project.voltageSystem,
+    project.cosPhiCharges ?? 0.95,
+    project.cosPhiProductions ?? 1
+  );
+};
+
+export const getTrippingBranchementCable = (settings: PVTrippingSettings): BranchementCableType | undefined =>
+  settings.branchementCableId ? branchementCableTypes.find(c => c.id === settings.branchementCableId) : undefined;
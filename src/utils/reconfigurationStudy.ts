@@ -0,0 +1,202 @@
+/**
+ * ============================================================================
+ * ÉTUDE DE RECONFIGURATION (POINTS DE COUPURE)
+ * ============================================================================
+ *
+ * Recherche les positions de points de coupure ouverts donnant les plus
+ * faibles pertes ou la meilleure tenue de tension.
+ *
+ * 🧠 PRINCIPE:
+ * - Les câbles équipés d'un organe de coupure (switchState défini) sont les
+ *   positions candidates
+ * - La configuration actuelle est toujours évaluée en premier (référence de
+ *   comparaison, y compris lorsqu'aucun organe n'est ouvert)
+ * - Le nombre de points ouverts de la configuration actuelle est conservé :
+ *   chaque configuration testée ouvre autant d'organes que l'existant (un seul
+ *   si aucun n'est ouvert)
+ * - Une configuration n'est retenue que si elle alimente les mêmes nœuds
+ *   que la configuration actuelle (getConnectedNodes)
+ * - Chaque configuration valide est recalculée (calculateScenarioWithHTConfig)
+ *
+ * 📊 CRITÈRES:
+ * - Pertes globales (kW) : à minimiser
+ * - Écart de tension max EN50160 par rapport à la tension de référence : à minimiser
+ *
+ * ============================================================================
+ */
+
+import { Project, Cable, CalculationResult, CalculationScenario } from '@/types/network';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { getConnectedNodes, isCableClosed } from '@/utils/networkConnectivity';
+import { getNetworkVoltageIndicators } from '@/utils/voltageIndicators';
+
+// Nombre maximal de configurations évaluées (explosion combinatoire)
+const DEFAULT_MAX_CONFIGURATIONS = 200;
+
+export interface ReconfigurationOption {
+  /** Câbles dont l'organe de coupure est ouvert dans cette configuration */
+  openCableIds: string[];
+  /** Pertes globales (kW) */
+  globalLosses_kW: number;
+  /** Tension minimale des nœuds (V) */
+  minVoltage_V: number;
+  /** Tension maximale des nœuds (V) */
+  maxVoltage_V: number;
+  /** Écart maximal par rapport à la tension de référence (%) */
+  worstDeviationPercent: number;
+  /** Chute de tension max (%) */
+  maxVoltageDropPercent: number;
+  /** Conformité globale */
+  compliance: CalculationResult['compliance'];
+  /** Configuration actuelle du projet */
+  isCurrent: boolean;
+}
+
+export interface ReconfigurationStudyResult {
+  scenario: CalculationScenario;
+  /** Configurations valides triées par pertes croissantes */
+  options: ReconfigurationOption[];
+  /** Configuration aux pertes minimales */
+  bestByLosses: ReconfigurationOption | null;
+  /** Configuration à l'écart de tension minimal */
+  bestByVoltage: ReconfigurationOption | null;
+  /** Nombre de configurations testées (valides ou non) */
+  evaluatedCount: number;
+  /** Vrai si l'énumération a été tronquée */
+  truncated: boolean;
+  /** Raison si aucune option trouvée */
+  noResultReason?: string;
+}
+
+/**
+ * Énumère les combinaisons de k éléments parmi items (ordre lexicographique)
+ */
+function* combinations<T>(items: T[], k: number, start = 0, prefix: T[] = []): Generator<T[]> {
+  if (prefix.length === k) {
+    yield prefix;
+    return;
+  }
+  for (let i = start; i <= items.length - (k - prefix.length); i++) {
+    yield* combinations(items, k, i + 1, [...prefix, items[i]]);
+  }
+}
+
+/**
+ * Applique un ensemble de points de coupure ouverts aux câbles équipés
+ */
+function applyOpenPoints(cables: Cable[], openCableIds: Set<string>): Cable[] {
+  return cables.map(c => {
+    if (c.switchState === undefined) return c;
+    return { ...c, switchState: openCableIds.has(c.id) ? 'open' : 'closed' };
+  });
+}
+
+const configurationKey = (openCableIds: string[]): string => [...openCableIds].sort().join('|');
+
+/**
+ * Configuration actuelle puis combinaisons de même nombre de points ouverts
+ */
+function* candidateConfigurations(switchableIds: string[], currentOpenIds: string[]): Generator<string[]> {
+  yield currentOpenIds;
+  const currentKey = configurationKey(currentOpenIds);
+  for (const combo of combinations(switchableIds, Math.max(1, currentOpenIds.length))) {
+    if (configurationKey(combo) !== currentKey) yield combo;
+  }
+}
+
+/**
+ * Lance l'étude de reconfiguration sur un scénario
+ */
+export function runReconfigurationStudy(
+  project: Project,
+  scenario: CalculationScenario,
+  maxConfigurations: number = DEFAULT_MAX_CONFIGURATIONS
+): ReconfigurationStudyResult {
+  const switchableCables = project.cables.filter(c => c.switchState !== undefined);
+  const currentOpenIds = project.cables.filter(c => !isCableClosed(c)).map(c => c.id);
+  const empty: ReconfigurationStudyResult = {
+    scenario,
+    options: [],
+    bestByLosses: null,
+    bestByVoltage: null,
+    evaluatedCount: 0,
+    truncated: false
+  };
+
+  if (switchableCables.length < 2) {
+    return { ...empty, noResultReason: 'Au moins deux câbles équipés d\'un organe de coupure sont nécessaires.' };
+  }
+
+  const referenceConnected = getConnectedNodes(project.nodes, project.cables);
+  const sourceIds = new Set(project.nodes.filter(n => n.isSource).map(n => n.id));
+  const currentKey = configurationKey(currentOpenIds);
+
+  const calculator = new ElectricalCalculator(
+    project.cosPhi,
+    project.cosPhiCharges ?? project.cosPhi ?? 0.95,
+    project.cosPhiProductions ?? 1.00
+  );
+
+  const options: ReconfigurationOption[] = [];
+  let evaluatedCount = 0;
+  let truncated = false;
+
+  for (const combo of candidateConfigurations(switchableCables.map(c => c.id), currentOpenIds)) {
+    if (evaluatedCount >= maxConfigurations) {
+      truncated = true;
+      break;
+    }
+    evaluatedCount++;
+
+    const openIds = new Set(combo);
+    const cables = applyOpenPoints(project.cables, openIds);
+
+    // La configuration doit alimenter exactement les mêmes nœuds
+    const connected = getConnectedNodes(project.nodes, cables);
+    if (connected.size !== referenceConnected.size) continue;
+
+    try {
+      const result = calculator.calculateScenarioWithHTConfig(
+        { ...project, cables },
+        scenario,
+        project.foisonnementCharges,
+        project.foisonnementProductions,
+        project.manualPhaseDistribution,
+        project.clientsImportes || [],
+        project.clientLinks || []
+      );
+      const voltages = getNetworkVoltageIndicators(result, sourceIds);
+      options.push({
+        openCableIds: combo,
+        globalLosses_kW: result.globalLosses_kW,
+        minVoltage_V: voltages.minVoltage_V,
+        maxVoltage_V: voltages.maxVoltage_V,
+        worstDeviationPercent: voltages.worstDeviationPercent,
+        maxVoltageDropPercent: result.maxVoltageDropPercent,
+        compliance: result.compliance,
+        isCurrent: configurationKey(combo) === currentKey
+      });
+    } catch (error) {
+      // Configuration non calculable (ex: deux postes reliés) : ignorée
+      console.warn(`⚠️ Reconfiguration [${combo.join(', ')}] ignorée:`, error);
+    }
+  }
+
+  if (options.length === 0) {
+    return { ...empty, evaluatedCount, truncated, noResultReason: 'Aucune configuration valide n\'alimente tous les nœuds.' };
+  }
+
+  options.sort((a, b) => a.globalLosses_kW - b.globalLosses_kW);
+  const bestByVoltage = options.reduce((best, o) => (o.worstDeviationPercent < best.worstDeviationPercent ? o : best), options[0]);
+
+  console.log(`🔀 Reconfiguration: ${options.length} configurations valides sur ${evaluatedCount} testées`);
+
+  return {
+    scenario,
+    options,
+    bestByLosses: options[0],
+    bestByVoltage,
+    evaluatedCount,
+    truncated
+  };
+}
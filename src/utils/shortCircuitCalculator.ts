@@ -0,0 +1,243 @@
+/**
+ * ============================================================================
+ * CALCUL DES COURANTS DE COURT-CIRCUIT (IEC 60909 simplifiée)
+ * ============================================================================
+ *
+ * Courants de défaut présumés à chaque nœud :
+ * - Triphasé       : Ik3 = c × Un / (√3 × |Z1|)
+ * - Biphasé (Ph-Ph): Ik2 = c × Un / (2 × |Z1|)
+ * - Phase-neutre   : Ik1 = √3 × c × Un / |2 × Z1 + Z0|   (réseau 400V uniquement)
+ *
+ * 🧠 IMPÉDANCES DE THÉVENIN:
+ * Les impédances amont Z1/Z0 sont les termes diagonaux de la matrice Zbus
+ * (inverse de la matrice d'admittance nodale). Chaque poste est relié à la
+ * référence par l'impédance de son transformateur. Cette approche traite
+ * directement les réseaux maillés et multi-postes.
+ * - Câbles : Z1 = R12 + jX12, Z0 = R0 + jX0 (retour par le neutre inclus dans R0)
+ * - Transformateur : Z0T issu du catalogue (Dyn11 ≈ Z1T, Yzn11 << Z1T), Z0T = Z1T à défaut
+ * - Réseau HTA amont : négligé (hypothèse majorante pour Ik max)
+ *
+ * 🌡️ CONDITIONS:
+ * - Ik max : c = 1.05, conducteurs froids (température ambiante hiver)
+ * - Ik min : c = 0.95, conducteurs chauds (ambiante été + échauffement
+ *   à pleine charge, modèle thermique)
+ *
+ * ============================================================================
+ */
+
+import { Project, Node, Cable, CableType, TransformerConfig, NodeShortCircuit, ShortCircuitResult } from '@/types/network';
+import { Complex, C, add, sub, mul, div, abs } from '@/utils/complex';
+import { getConnectedNodes, isCableClosed } from '@/utils/networkConnectivity';
+import { getSourceTransformerConfig } from '@/utils/multiSource';
+import { getAmbientTemperature, calculateCableTemperature, correctResistance } from '@/utils/thermalModel';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { getTransformerZeroSequenceImpedance } from '@/utils/transformerCatalogue';
+
+// Facteurs de tension IEC 60909 pour la BT (tolérance +6%)
+export const C_MAX = 1.05;
+export const C_MIN = 0.95;
+
+type FaultCondition = 'max' | 'min';
+
+/**
+ * Impédance directe du transformateur ramenée côté BT (Ω/phase)
+ * Même modèle que le calcul de répartition (Ucc% et X/R, repli R = 5% Z)
+ */
+export const getTransformerImpedance = (transformerConfig: TransformerConfig, U_line_V: number): Complex => {
+  const Zmag = (transformerConfig.shortCircuitVoltage_percent / 100) *
+    (U_line_V * U_line_V) / (transformerConfig.nominalPower_kVA * 1000);
+  const xOverR = transformerConfig.xOverR;
+  if (typeof xOverR === 'number' && isFinite(xOverR) && xOverR > 0) {
+    const R = Zmag / Math.sqrt(1 + xOverR * xOverR);
+    return C(R, R * xOverR);
+  }
+  const R = 0.05 * Zmag;
+  return C(R, Math.sqrt(Math.max(0, Zmag * Zmag - R * R)));
+};
+
+/**
+ * Résistance linéique corrigée selon les conditions de défaut (Ω/km)
+ */
+const getFaultResistance = (R20: number, cableType: CableType, cable: Cable, condition: FaultCondition): number => {
+  if (condition === 'max') {
+    return correctResistance(R20, getAmbientTemperature('winter', cable.pose), cableType.matiere);
+  }
+  const T_ambient = getAmbientTemperature('summer', cable.pose);
+  const Imax = cableType.maxCurrent_A || 0;
+  const T_hot = calculateCableTemperature(T_ambient, Imax, Imax, cable.pose);
+  return correctResistance(R20, T_hot, cableType.matiere);
+};
+
+/**
+ * Inverse une matrice complexe (Gauss-Jordan avec pivot partiel)
+ */
+const invertComplexMatrix = (A: Complex[][]): Complex[][] => {
+  const n = A.length;
+  const M = A.map(row => [...row]);
+  const inv: Complex[][] = A.map((_, i) => A.map((__, j) => C(i === j ? 1 : 0, 0)));
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (abs(M[row][col]) > abs(M[pivot][col])) pivot = row;
+    }
+    if (abs(M[pivot][col]) < 1e-15) {
+      throw new Error('Matrice d\'admittance singulière (nœud isolé ?)');
+    }
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    [inv[col], inv[pivot]] = [inv[pivot], inv[col]];
+
+    const p = M[col][col];
+    for (let k = 0; k < n; k++) {
+      M[col][k] = div(M[col][k], p);
+      inv[col][k] = div(inv[col][k], p);
+    }
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = M[row][col];
+      if (factor.re === 0 && factor.im === 0) continue;
+      for (let k = 0; k < n; k++) {
+        M[row][k] = sub(M[row][k], mul(factor, M[col][k]));
+        inv[row][k] = sub(inv[row][k], mul(factor, inv[col][k]));
+      }
+    }
+  }
+  return inv;
+};
+
+/**
+ * Impédances de Thévenin (diagonale de Zbus) pour une séquence donnée
+ */
+const computeTheveninImpedances = (
+  nodeIds: string[],
+  cables: Cable[],
+  cableTypeById: Map<string, CableType>,
+  sourceImpedances: Map<string, Complex>,
+  sequence: 'direct' | 'zero',
+  condition: FaultCondition
+): Map<string, Complex> => {
+  const index = new Map(nodeIds.map((id, i) => [id, i] as const));
+  const n = nodeIds.length;
+  const Y: Complex[][] = nodeIds.map(() => nodeIds.map(() => C(0, 0)));
+
+  for (const cable of cables) {
+    const i = index.get(cable.nodeAId);
+    const j = index.get(cable.nodeBId);
+    const ct = cableTypeById.get(cable.typeId);
+    if (i === undefined || j === undefined || i === j || !ct) continue;
+
+    const L_km = (cable.length_m || ElectricalCalculator.calculateCableLength(cable.coordinates || [])) / 1000;
+    const R20 = sequence === 'direct' ? ct.R12_ohm_per_km : ct.R0_ohm_per_km;
+    const X = sequence === 'direct' ? ct.X12_ohm_per_km : ct.X0_ohm_per_km;
+    const Z = C(getFaultResistance(R20, ct, cable, condition) * L_km, X * L_km);
+    if (abs(Z) < 1e-9) continue;
+
+    const y = div(C(1, 0), Z);
+    Y[i][i] = add(Y[i][i], y);
+    Y[j][j] = add(Y[j][j], y);
+    Y[i][j] = sub(Y[i][j], y);
+    Y[j][i] = sub(Y[j][i], y);
+  }
+
+  for (const [sourceId, Zs] of sourceImpedances.entries()) {
+    const i = index.get(sourceId);
+    if (i === undefined) continue;
+    Y[i][i] = add(Y[i][i], div(C(1, 0), Zs));
+  }
+
+  const Zbus = invertComplexMatrix(Y);
+  const result = new Map<string, Complex>();
+  for (let i = 0; i < n; i++) result.set(nodeIds[i], Zbus[i][i]);
+  return result;
+};
+
+/**
+ * Identifie le poste alimentant chaque nœud (parcours des câbles fermés)
+ */
+const getFeedingSources = (nodes: Node[], cables: Cable[]): Map<string, string> => {
+  const owner = new Map<string, string>();
+  const adjacency = new Map<string, string[]>();
+  for (const c of cables) {
+    if (!adjacency.has(c.nodeAId)) adjacency.set(c.nodeAId, []);
+    if (!adjacency.has(c.nodeBId)) adjacency.set(c.nodeBId, []);
+    adjacency.get(c.nodeAId)!.push(c.nodeBId);
+    adjacency.get(c.nodeBId)!.push(c.nodeAId);
+  }
+  for (const source of nodes.filter(n => n.isSource)) {
+    if (owner.has(source.id)) continue;
+    owner.set(source.id, source.id);
+    const queue = [source.id];
+    while (queue.length) {
+      const u = queue.shift()!;
+      for (const v of adjacency.get(u) || []) {
+        if (owner.has(v)) continue;
+        owner.set(v, source.id);
+        queue.push(v);
+      }
+    }
+  }
+  return owner;
+};
+
+/**
+ * Calcule les courants de court-circuit présumés à tous les nœuds alimentés
+ */
+export const calculateShortCircuitCurrents = (project: Project): ShortCircuitResult => {
+  const U_line = project.voltageSystem === 'TRIPHASÉ_230V' ? 230 : 400;
+  const hasNeutral = project.voltageSystem === 'TÉTRAPHASÉ_400V';
+  const closedCables = project.cables.filter(isCableClosed);
+  const connected = getConnectedNodes(project.nodes, closedCables);
+  const nodeIds = project.nodes.filter(n => connected.has(n.id)).map(n => n.id);
+  const empty: ShortCircuitResult = { voltage_V: U_line, cMax: C_MAX, cMin: C_MIN, nodes: [] };
+
+  if (nodeIds.length === 0) return empty;
+
+  const cableTypeById = new Map(project.cableTypes.map(ct => [ct.id, ct] as const));
+  const sourceImpedances = new Map<string, Complex>();
+  const sourceZeroImpedances = new Map<string, Complex>();
+  for (const source of project.nodes.filter(n => n.isSource)) {
+    const transformer = getSourceTransformerConfig(source, project.transformerConfig);
+    if (!transformer) continue;
+    const Z1T = getTransformerImpedance(transformer, U_line);
+    sourceImpedances.set(source.id, Z1T);
+    sourceZeroImpedances.set(source.id, getTransformerZeroSequenceImpedance(transformer, U_line, Z1T));
+  }
+  if (sourceImpedances.size === 0) return empty;
+
+  const Z1 = {
+    max: computeTheveninImpedances(nodeIds, closedCables, cableTypeById, sourceImpedances, 'direct', 'max'),
+    min: computeTheveninImpedances(nodeIds, closedCables, cableTypeById, sourceImpedances, 'direct', 'min')
+  };
+  const Z0 = hasNeutral ? {
+    max: computeTheveninImpedances(nodeIds, closedCables, cableTypeById, sourceZeroImpedances, 'zero', 'max'),
+    min: computeTheveninImpedances(nodeIds, closedCables, cableTypeById, sourceZeroImpedances, 'zero', 'min')
+  } : null;
+
+  const feedingSources = getFeedingSources(project.nodes, closedCables);
+  const toKA = (I_A: number) => I_A / 1000;
+
+  const nodes: NodeShortCircuit[] = nodeIds.map(nodeId => {
+    const z1Max = abs(Z1.max.get(nodeId)!);
+    const z1Min = abs(Z1.min.get(nodeId)!);
+    const result: NodeShortCircuit = {
+      nodeId,
+      sourceNodeId: feedingSources.get(nodeId) || '',
+      Z1_max_ohm: z1Max,
+      Z1_min_ohm: z1Min,
+      Ik3_max_kA: toKA(C_MAX * U_line / (Math.sqrt(3) * z1Max)),
+      Ik3_min_kA: toKA(C_MIN * U_line / (Math.sqrt(3) * z1Min)),
+      Ik2_max_kA: toKA(C_MAX * U_line / (2 * z1Max)),
+      Ik2_min_kA: toKA(C_MIN * U_line / (2 * z1Min))
+    };
+    if (Z0) {
+      const loopMax = abs(add(mul(C(2, 0), Z1.max.get(nodeId)!), Z0.max.get(nodeId)!));
+      const loopMin = abs(add(mul(C(2, 0), Z1.min.get(nodeId)!), Z0.min.get(nodeId)!));
+      result.Ik1_max_kA = toKA(Math.sqrt(3) * C_MAX * U_line / loopMax);
+      result.Ik1_min_kA = toKA(Math.sqrt(3) * C_MIN * U_line / loopMin);
+    }
+    return result;
+  });
+
+  console.log(`⚡ Courts-circuits calculés sur ${nodes.length} nœuds`);
+  return { voltage_V: U_line, cMax: C_MAX, cMin: C_MIN, nodes };
+};
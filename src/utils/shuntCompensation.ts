@@ -0,0 +1,94 @@
+import { Project, CalculationResult, ShuntBank, ShuntBankResult } from '@/types/network';
+import { getNodeDeviationsPercent } from './voltageIndicators';
+
+const NOMINAL_VOLTAGE_V = 230;
+
+/**
+ * Batterie de condensateurs par défaut : 3 × 5 kVAr fixes, plage de commutation 220-240 V
+ */
+export const createDefaultShuntBank = (id: string, nodeId: string, name: string): ShuntBank => ({
+  id,
+  nodeId,
+  name,
+  enabled: true,
+  type: 'capacitor',
+  ratedPerPhase_kVAr: { A: 5, B: 5, C: 5 },
+  switching: 'fixed',
+  steps: 3,
+  voltageLow_V: 220,
+  voltageHigh_V: 240
+});
+
+/**
+ * Tension de commande du gradin : phase la plus basse pour un condensateur (relève la tension),
+ * phase la plus haute pour une réactance (l'abaisse)
+ */
+export const getShuntControlVoltage = (result: CalculationResult, bank: ShuntBank): number | null => {
+  const deviations = getNodeDeviationsPercent(result, bank.nodeId);
+  if (!deviations) return null;
+  const values = [deviations.A, deviations.B, deviations.C];
+  const deviation = bank.type === 'capacitor' ? Math.min(...values) : Math.max(...values);
+  return NOMINAL_VOLTAGE_V * (1 + deviation / 100);
+};
+
+/**
+ * Gradins en service : tous pour une batterie fixe ; sinon un gradin de plus ou de moins
+ * quand la tension sort de la plage [voltageLow_V, voltageHigh_V] (bande morte entre les deux)
+ */
+export const getNextShuntSteps = (bank: ShuntBank, voltage_V: number, stepsOn: number): number => {
+  if (bank.switching === 'fixed') return bank.steps;
+  const tooLow = voltage_V < bank.voltageLow_V;
+  const tooHigh = voltage_V > bank.voltageHigh_V;
+  const increase = bank.type === 'capacitor' ? tooLow : tooHigh;
+  const decrease = bank.type === 'capacitor' ? tooHigh : tooLow;
+  if (increase) return Math.min(bank.steps, stepsOn + 1);
+  if (decrease) return Math.max(0, stepsOn - 1);
+  return stepsOn;
+};
+
+/**
+ * Copie du projet où les gradins en service deviennent une compensation shunt des nœuds,
+ * modélisée par le solveur en impédance constante (Q ∝ V²)
+ */
+export const applyShuntBanks = (project: Project, banks: ShuntBank[], stepsOn: Map<string, number>): Project => {
+  const nodes = project.nodes.map(node => {
+    const nodeBanks = banks.filter(b => b.nodeId === node.id && (stepsOn.get(b.id) ?? 0) > 0);
+    if (nodeBanks.length === 0) return node;
+    const compensation = { ...(node.shuntCompensation_kVAr ?? { A: 0, B: 0, C: 0 }) };
+    for (const bank of nodeBanks) {
+      const share = (stepsOn.get(bank.id) ?? 0) / Math.max(1, bank.steps) * (bank.type === 'capacitor' ? 1 : -1);
+      compensation.A += bank.ratedPerPhase_kVAr.A * share;
+      compensation.B += bank.ratedPerPhase_kVAr.B * share;
+      compensation.C += bank.ratedPerPhase_kVAr.C * share;
+    }
+    return { ...node, shuntCompensation_kVAr: compensation };
+  });
+  return { ...project, nodes };
+};
+
+/**
+ * Réactif effectivement fourni par les gradins en service sous la tension calculée de chaque phase
+ */
+export const summarizeShuntBanks = (
+  banks: ShuntBank[],
+  stepsOn: Map<string, number>,
+  baselineResult: CalculationResult,
+  result: CalculationResult
+): ShuntBankResult[] => banks.map(bank => {
+  const steps = stepsOn.get(bank.id) ?? 0;
+  const share = steps / Math.max(1, bank.steps);
+  const deviations = getNodeDeviationsPercent(result, bank.nodeId) ?? { A: 0, B: 0, C: 0 };
+  const Q_kVAr = (['A', 'B', 'C'] as const).reduce((sum, phase) =>
+    sum + bank.ratedPerPhase_kVAr[phase] * share * Math.pow(1 + deviations[phase] / 100, 2), 0);
+  const voltageBefore_V = getShuntControlVoltage(baselineResult, bank) ?? NOMINAL_VOLTAGE_V;
+
+  return {
+    bankId: bank.id,
+    name: bank.name,
+    nodeId: bank.nodeId,
+    stepsOn: steps,
+    Q_kVAr: bank.type === 'capacitor' ? Q_kVAr : -Q_kVAr,
+    voltageBefore_V,
+    voltageAfter_V: getShuntControlVoltage(result, bank) ?? voltageBefore_V
+  };
+});
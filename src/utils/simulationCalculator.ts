@@ -13,11 +13,36 @@ import {
   CableUpgrade,
   EQUI8Mode,
   EQUI8ThermalWindow,
+  InverterControlSummary,
+  InverterControlResult,
+  PVTrippingSummary,
+  PVTripEvent,
+  BatterySimulationSummary,
+  ShuntBank,
 } from '@/types/network';
 import { SRG2Config, SRG2SimulationResult, SRG2SwitchState, DEFAULT_SRG2_400_CONFIG, DEFAULT_SRG2_230_CONFIG } from '@/types/srg2';
 import { ElectricalCalculator } from '@/utils/electricalCalculations';
 import { Complex, C, add, sub, mul, div, abs, fromPolar, scale, normalize, arg } from '@/utils/complex';
 import { getCircuitNodes } from '@/utils/networkConnectivity';
+import { getFeedingSource } from '@/utils/multiSource';
+import {
+  collectControlledInverters,
+  getAvailableActivePower,
+  getInverterVoltage,
+  computeInverterSetpoint,
+  applyInverterSetpoints,
+  getOvervoltageIndicators,
+  InverterSetpoint,
+} from '@/utils/inverterControl';
+import {
+  collectPVClients,
+  withTrippedPV,
+  getClientPVPower,
+  getConnectionPointVoltage,
+  getTrippingBranchementCable,
+} from '@/utils/pvTripping';
+import { dispatchBatteries, applyBatteryDispatch, summarizeBatteries } from '@/utils/batteryStorage';
+import { applyShuntBanks, getNextShuntSteps, getShuntControlVoltage, summarizeShuntBanks } from '@/utils/shuntCompensation';
 // ============================================================================
 // @deprecated - Imports supprimés du module load-shift obsolète
 // L'EQUI8 utilise maintenant exclusivement le mode CME (injection de courant)
@@ -43,9 +68,14 @@ export class SimulationCalculator extends ElectricalCalculator {
   private static readonly SIM_MAX_LOCAL_ITERATIONS = 50;
   private static readonly SIM_VOLTAGE_400V_THRESHOLD = 350;
   
-  // Constantes pour le mode Forcé
-  private static readonly PRODUCTION_DISCONNECT_VOLTAGE = 253;
+  // Seuil de découplage des productions par défaut (230 V +10%)
+  public static readonly PRODUCTION_DISCONNECT_VOLTAGE = 253;
   public static readonly CONVERGENCE_TOLERANCE_V = 0.01;
+
+  // Régulation Q(U)/P(U) des onduleurs : boucle amortie autour du calcul avec équipements
+  private static readonly INVERTER_MAX_ITERATIONS = 50;
+  private static readonly INVERTER_DAMPING = 0.5;
+  private static readonly INVERTER_TOLERANCE_KVA = 0.01;
   
   private simCosPhi: number;
   
@@ -251,7 +281,8 @@ export class SimulationCalculator extends ElectricalCalculator {
     equipment: SimulationEquipment
   ): CalculationResult {
     const config = project.forcedModeConfig!;
-    const sourceNode = project.nodes.find(n => n.isSource);
+    // Poste source qui alimente le nœud de mesure (réseau multi-postes)
+    const sourceNode = getFeedingSource(project.nodes, project.cables, config.measurementNodeId);
     
     // Gestion correcte de la tension de référence selon le système de tension
     let sourceVoltage = sourceNode?.tensionCible || 230;
@@ -575,32 +606,56 @@ export class SimulationCalculator extends ElectricalCalculator {
       baselineResult = this.runForcedModeSimulation(projectToUse, scenario, equipment);
     } else {
       // Autres modes : baseline normal avec foisonnements différenciés
-      baselineResult = this.calculateScenario(
-        projectToUse.nodes,
-        projectToUse.cables,
-        projectToUse.cableTypes,
-        scenario,
-        projectToUse.foisonnementChargesResidentiel ?? projectToUse.foisonnementCharges,
-        projectToUse.foisonnementProductions,
-        projectToUse.transformerConfig,
-        projectToUse.loadModel,
-        projectToUse.desequilibrePourcent,
-        projectToUse.manualPhaseDistribution,
-        projectToUse.clientsImportes,
-        projectToUse.clientLinks,
-        projectToUse.foisonnementChargesResidentiel,
-        projectToUse.foisonnementChargesIndustriel
-      );
+      baselineResult = this.calculateNaturalScenario(projectToUse, scenario);
+    }
+
+    // Batteries : consigne décidée sur le réseau sans équipement, à l'état de charge initial (pas d'une heure)
+    let projectWithEquipment = projectToUse;
+    const batteries = equipment.batteries?.filter(b => b.enabled) ?? [];
+    const batteryDispatch = batteries.length > 0
+      ? dispatchBatteries(projectToUse, scenario, baselineResult, batteries, new Map())
+      : undefined;
+    if (batteryDispatch) {
+      projectWithEquipment = applyBatteryDispatch(projectToUse, batteries, batteryDispatch);
+    }
+
+    // Gradins shunt : commutation décidée sur le réseau sans régulateur, puis maintenue
+    const shuntBanks = equipment.shuntBanks?.filter(b => b.enabled) ?? [];
+    let shuntSteps: Map<string, number> | undefined;
+    if (shuntBanks.length > 0) {
+      const switching = this.calculateShuntBankSwitching(projectWithEquipment, scenario, shuntBanks);
+      projectWithEquipment = switching.project;
+      shuntSteps = switching.stepsOn;
+    }
+
+    // Découplage en cascade des PV clients : les équipements s'appliquent au réseau stabilisé
+    let pvTripping: PVTrippingSummary | undefined;
+    if (equipment.pvTripping?.enabled) {
+      const tripping = this.calculateWithPVTripping(projectWithEquipment, scenario, equipment);
+      projectWithEquipment = tripping.project;
+      pvTripping = tripping.summary;
     }
 
     // Ensuite calculer avec les équipements de simulation actifs
     // Passer calculationResults pour lecture directe des tensions naturelles
-    const simulationResult = this.calculateScenarioWithEquipment(
-      projectToUse,
-      scenario,
-      equipment,
-      calculationResults
-    );
+    let simulationResult: CalculationResult;
+    let inverterControl: InverterControlSummary | undefined;
+    if (equipment.inverterControlEnabled) {
+      const controlled = this.calculateWithInverterControl(projectWithEquipment, scenario, equipment, baselineResult);
+      simulationResult = controlled.result;
+      inverterControl = controlled.summary;
+    } else {
+      simulationResult = this.calculateScenarioWithEquipment(
+        projectWithEquipment,
+        scenario,
+        equipment,
+        // Tensions naturelles du réseau sans découplage, batterie ni gradin non représentatives
+        pvTripping || batteryDispatch || shuntSteps ? undefined : calculationResults
+      );
+    }
+    const batterySummary: BatterySimulationSummary | undefined = batteryDispatch
+      ? summarizeBatteries(projectToUse, batteries, batteryDispatch, baselineResult, simulationResult)
+      : undefined;
 
     console.log('🎯 SRG2 simulation terminée - nettoyage des marqueurs maintenant');
     // Nettoyage des marqueurs SRG2 après calcul final et utilisation des résultats
@@ -611,7 +666,295 @@ export class SimulationCalculator extends ElectricalCalculator {
       isSimulation: true,
       equipment,
       baselineResult,
-      convergenceStatus: (simulationResult as any).convergenceStatus || (baselineResult as any).convergenceStatus
+      convergenceStatus: (simulationResult as any).convergenceStatus || (baselineResult as any).convergenceStatus,
+      inverterControl,
+      pvTripping,
+      batteries: batterySummary,
+      shuntBanks: shuntSteps ? summarizeShuntBanks(shuntBanks, shuntSteps, baselineResult, simulationResult) : undefined
+    };
+  }
+
+  /**
+   * Calcul du projet sans équipement, foisonnements différenciés résidentiel / industriel
+   */
+  private calculateNaturalScenario(project: Project, scenario: CalculationScenario): CalculationResult {
+    return this.calculateScenario(
+      project.nodes,
+      project.cables,
+      project.cableTypes,
+      scenario,
+      project.foisonnementChargesResidentiel ?? project.foisonnementCharges,
+      project.foisonnementProductions,
+      project.transformerConfig,
+      project.loadModel,
+      project.desequilibrePourcent,
+      project.manualPhaseDistribution,
+      project.clientsImportes,
+      project.clientLinks,
+      project.foisonnementChargesResidentiel,
+      project.foisonnementChargesIndustriel
+    );
+  }
+
+  /**
+   * Commutation des gradins shunt : les batteries fixes sont en service d'emblée, les batteries
+   * commandées partent hors service et gagnent ou perdent un gradin par itération selon la tension
+   * du nœud, jusqu'à un état stable (bande morte entre les seuils).
+   */
+  calculateShuntBankSwitching(
+    project: Project,
+    scenario: CalculationScenario,
+    banks: ShuntBank[]
+  ): { project: Project; result: CalculationResult; stepsOn: Map<string, number> } {
+    const stepsOn = new Map(banks.map(b => [b.id, b.switching === 'fixed' ? b.steps : 0]));
+    let shuntProject = applyShuntBanks(project, banks, stepsOn);
+    let result = this.calculateNaturalScenario(shuntProject, scenario);
+    const maxIterations = banks.reduce((sum, b) => sum + b.steps, 0) + 1;
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      let changed = false;
+      for (const bank of banks) {
+        const voltage = getShuntControlVoltage(result, bank);
+        if (voltage === null) continue;
+        const next = getNextShuntSteps(bank, voltage, stepsOn.get(bank.id)!);
+        if (next !== stepsOn.get(bank.id)) {
+          stepsOn.set(bank.id, next);
+          changed = true;
+        }
+      }
+      if (!changed) break;
+      shuntProject = applyShuntBanks(project, banks, stepsOn);
+      result = this.calculateNaturalScenario(shuntProject, scenario);
+    }
+
+    console.log(`🔌 Gradins shunt ${scenario}: ${banks.map(b => `${b.name} ${stepsOn.get(b.id)}/${b.steps}`).join(', ')}`);
+    return { project: shuntProject, result, stepsOn };
+  }
+
+  /**
+   * Découplage en cascade des PV clients : à chaque étape, l'onduleur dont la tension au point de
+   * raccordement dépasse le plus le seuil se découple, ce qui abaisse la tension des voisins.
+   * Un onduleur découplé ne se reconnecte que sous le seuil bas (hystérésis). Itération jusqu'à
+   * un état stable ; un état déjà rencontré signale une oscillation.
+   * @param initiallyTripped - Clients déjà découplés (état conservé d'un pas de temps au suivant)
+   */
+  calculateWithPVTripping(
+    project: Project,
+    scenario: CalculationScenario,
+    equipment: SimulationEquipment,
+    initiallyTripped: string[] = []
+  ): { project: Project; result: CalculationResult; summary: PVTrippingSummary } {
+    const settings = equipment.pvTripping ?? {
+      enabled: true,
+      tripVoltage_V: SimulationCalculator.PRODUCTION_DISCONNECT_VOLTAGE,
+      reconnectVoltage_V: SimulationCalculator.PRODUCTION_DISCONNECT_VOLTAGE
+    };
+    const cable = getTrippingBranchementCable(settings);
+    const pvClients = collectPVClients(project);
+    const tripped = new Set(initiallyTripped.filter(id => pvClients.some(c => c.client.id === id)));
+    const events: PVTripEvent[] = [];
+    const visitedStates = new Set<string>();
+    const maxSteps = 2 * pvClients.length + 1;
+
+    let trippedProject = withTrippedPV(project, tripped);
+    let result = this.calculateTrippingStep(trippedProject, scenario, equipment);
+    let stable = false;
+
+    for (let step = 1; step <= maxSteps; step++) {
+      visitedStates.add([...tripped].sort().join('|'));
+
+      // Découplage prioritaire : tension la plus haute parmi les onduleurs couplés
+      let candidate: { id: string; voltage: number; action: 'trip' | 'reconnect' } | null = null;
+      for (const pvClient of pvClients) {
+        if (tripped.has(pvClient.client.id)) continue;
+        const voltage = getConnectionPointVoltage(project, result, scenario, pvClient, true, cable);
+        if (voltage !== null && voltage > settings.tripVoltage_V && (!candidate || voltage > candidate.voltage)) {
+          candidate = { id: pvClient.client.id, voltage, action: 'trip' };
+        }
+      }
+      // Sinon reconnexion de l'onduleur découplé le moins contraint
+      if (!candidate) {
+        for (const pvClient of pvClients) {
+          if (!tripped.has(pvClient.client.id)) continue;
+          const voltage = getConnectionPointVoltage(project, result, scenario, pvClient, false, cable);
+          if (voltage !== null && voltage < settings.reconnectVoltage_V && (!candidate || voltage < candidate.voltage)) {
+            candidate = { id: pvClient.client.id, voltage, action: 'reconnect' };
+          }
+        }
+      }
+      if (!candidate) {
+        stable = true;
+        break;
+      }
+
+      if (candidate.action === 'trip') tripped.add(candidate.id);
+      else tripped.delete(candidate.id);
+      const pvClient = pvClients.find(c => c.client.id === candidate!.id)!;
+      events.push({
+        step,
+        clientId: candidate.id,
+        clientName: pvClient.client.nomCircuit || candidate.id,
+        nodeId: pvClient.nodeId,
+        action: candidate.action,
+        voltage_V: candidate.voltage
+      });
+
+      trippedProject = withTrippedPV(project, tripped);
+      result = this.calculateTrippingStep(trippedProject, scenario, equipment);
+      if (visitedStates.has([...tripped].sort().join('|'))) {
+        // Pompage : l'onduleur reconnecté se découplerait à nouveau, il est retenu découplé
+        console.warn(`⚠️ Découplage PV ${scenario}: oscillation détectée à l'étape ${step}`);
+        if (candidate.action === 'reconnect') {
+          tripped.add(candidate.id);
+          trippedProject = withTrippedPV(project, tripped);
+          result = this.calculateTrippingStep(trippedProject, scenario, equipment);
+        }
+        break;
+      }
+    }
+
+    const lostPower_kW = pvClients
+      .filter(c => tripped.has(c.client.id))
+      .reduce((sum, c) => sum + getClientPVPower(project, scenario, c.client), 0);
+    console.log(`⚡ Découplage PV ${scenario}: ${tripped.size} client(s) découplé(s), ${events.length} événement(s)${stable ? '' : ' (instable)'}`);
+
+    return {
+      project: trippedProject,
+      result,
+      summary: { stable, events, trippedClientIds: [...tripped], lostPower_kW }
+    };
+  }
+
+  private calculateTrippingStep(
+    project: Project,
+    scenario: CalculationScenario,
+    equipment: SimulationEquipment
+  ): CalculationResult {
+    return equipment.inverterControlEnabled
+      ? this.solveInverterSetpoints(project, scenario, equipment).result
+      : this.calculateScenarioWithEquipment(project, scenario, equipment);
+  }
+
+  /**
+   * Régulation Q(U)/P(U) des onduleurs PV : les consignes dépendent des tensions qu'elles modifient,
+   * d'où une boucle de point fixe amortie autour du calcul avec équipements (SRG2/EQUI8 inclus).
+   * Les consignes sont injectées comme charges P/Q virtuelles dans une copie du projet.
+   */
+  private calculateWithInverterControl(
+    project: Project,
+    scenario: CalculationScenario,
+    equipment: SimulationEquipment,
+    baselineResult: CalculationResult
+  ): { result: CalculationResult; summary: InverterControlSummary } {
+    const controlled = this.solveInverterSetpoints(project, scenario, equipment);
+
+    // Besoin en SRG2 : réseau sans régulateur, avec et sans régulation des onduleurs
+    const hasActiveSRG2 = equipment.srg2Devices?.some(s => s.enabled);
+    const withoutSRG2 = hasActiveSRG2
+      ? this.solveInverterSetpoints(project, scenario, { ...equipment, srg2Devices: [] })
+      : controlled;
+    const baselineIndicators = getOvervoltageIndicators(project, baselineResult);
+    const controlledIndicators = getOvervoltageIndicators(project, withoutSRG2.result);
+
+    const inverters = controlled.inverters;
+    console.log(`🔆 Régulation onduleurs ${scenario}: ${inverters.length} onduleur(s), ${controlled.iterations} itération(s)${controlled.converged ? '' : ' (non convergé)'}`);
+
+    return {
+      result: controlled.result,
+      summary: {
+        converged: controlled.converged,
+        iterations: controlled.iterations,
+        inverters,
+        totalReactiveAbsorbed_kVAr: inverters.reduce((sum, inv) => sum + inv.reactiveAbsorbed_kVAr, 0),
+        totalCurtailed_kW: inverters.reduce((sum, inv) => sum + inv.activeCurtailed_kW, 0),
+        baselineMaxVoltage_V: baselineIndicators.maxVoltage_V,
+        baselineOvervoltageNodes: baselineIndicators.overvoltageNodes,
+        controlledMaxVoltage_V: controlledIndicators.maxVoltage_V,
+        controlledOvervoltageNodes: controlledIndicators.overvoltageNodes
+      }
+    };
+  }
+
+  private solveInverterSetpoints(
+    project: Project,
+    scenario: CalculationScenario,
+    equipment: SimulationEquipment
+  ): { result: CalculationResult; inverters: InverterControlResult[]; converged: boolean; iterations: number } {
+    const inverters = collectControlledInverters(project);
+    const setpoints = new Map<string, InverterSetpoint>(
+      inverters.map(inv => [inv.id, { reactiveAbsorbed_kVAr: 0, activeCurtailed_kW: 0 }])
+    );
+    const voltages = new Map<string, number>();
+    let alpha = SimulationCalculator.INVERTER_DAMPING;
+    let previousDelta = Infinity;
+
+    let result: CalculationResult;
+    let converged = false;
+    let iterations = 0;
+
+    do {
+      iterations++;
+      // Tensions naturelles recalculées sur le projet modifié (pas de calculationResults)
+      result = this.calculateScenarioWithEquipment(
+        applyInverterSetpoints(project, inverters, setpoints),
+        scenario,
+        equipment
+      );
+      if (inverters.length === 0) {
+        converged = true;
+        break;
+      }
+
+      let maxDelta = 0;
+      for (const inverter of inverters) {
+        const voltage = getInverterVoltage(result, inverter);
+        if (voltage === null) continue;
+        const target = computeInverterSetpoint(inverter, voltage, getAvailableActivePower(project, scenario, inverter));
+        const current = setpoints.get(inverter.id)!;
+        const deltaQ = target.reactiveAbsorbed_kVAr - current.reactiveAbsorbed_kVAr;
+        const deltaP = target.activeCurtailed_kW - current.activeCurtailed_kW;
+        maxDelta = Math.max(maxDelta, Math.abs(deltaQ), Math.abs(deltaP));
+        setpoints.set(inverter.id, {
+          reactiveAbsorbed_kVAr: current.reactiveAbsorbed_kVAr + alpha * deltaQ,
+          activeCurtailed_kW: current.activeCurtailed_kW + alpha * deltaP
+        });
+      }
+
+      converged = maxDelta < SimulationCalculator.INVERTER_TOLERANCE_KVA;
+      // Pente P(U) raide sur réseau faible : oscillation → amortissement renforcé, puis relâché
+      alpha = maxDelta > previousDelta
+        ? alpha / 2
+        : Math.min(SimulationCalculator.INVERTER_DAMPING, alpha * 1.25);
+      previousDelta = maxDelta;
+    } while (!converged && iterations < SimulationCalculator.INVERTER_MAX_ITERATIONS);
+
+    if (inverters.length > 0) {
+      // Consignes finales appliquées pour que le résultat corresponde aux valeurs rapportées
+      result = this.calculateScenarioWithEquipment(
+        applyInverterSetpoints(project, inverters, setpoints),
+        scenario,
+        equipment
+      );
+      for (const inverter of inverters) {
+        const voltage = getInverterVoltage(result, inverter);
+        if (voltage !== null) voltages.set(inverter.id, voltage);
+      }
+    }
+
+    return {
+      result,
+      converged,
+      iterations,
+      inverters: inverters.map(inv => ({
+        inverterId: inv.id,
+        label: inv.label,
+        nodeId: inv.nodeId,
+        kind: inv.kind,
+        ratedPower_kVA: inv.ratedPower_kVA,
+        voltage_V: voltages.get(inv.id) ?? 0,
+        reactiveAbsorbed_kVAr: setpoints.get(inv.id)!.reactiveAbsorbed_kVAr,
+        activeCurtailed_kW: setpoints.get(inv.id)!.activeCurtailed_kW
+      }))
     };
   }
   
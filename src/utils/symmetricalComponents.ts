@@ -0,0 +1,103 @@
+/**
+ * ============================================================================
+ * COMPOSANTES SYMÉTRIQUES ET TAUX DE DÉSÉQUILIBRE DE TENSION
+ * ============================================================================
+ *
+ * Décomposition de Fortescue des phaseurs de tension nodaux (a = 1∠120°) :
+ * - V0 = (Va + Vb + Vc) / 3           (homopolaire)
+ * - V1 = (Va + a·Vb + a²·Vc) / 3      (directe)
+ * - V2 = (Va + a²·Vb + a·Vc) / 3      (inverse)
+ *
+ * 📊 TAUX DE DÉSÉQUILIBRE (EN50160):
+ * u2 = |V2| / |V1| × 100, limite 2% (valeurs 10 min, 95% du temps),
+ * vigilance au-delà de 1,5%.
+ * Le rapport est identique en tensions simples et composées : la composante
+ * homopolaire n'intervient pas.
+ *
+ * ============================================================================
+ */
+
+import { CalculationResult, NodeSequenceVoltages } from '@/types/network';
+import { Complex, C, add, mul, scale, abs, fromPolar } from '@/utils/complex';
+
+// Limite EN50160 du taux de déséquilibre inverse (%)
+export const EN50160_UNBALANCE_LIMIT_PERCENT = 2;
+// Seuil de vigilance (75 % de la limite) : conforme mais proche de la limite (%)
+export const EN50160_UNBALANCE_WARNING_PERCENT = 1.5;
+
+const A_OPERATOR = fromPolar(1, (2 * Math.PI) / 3);
+const A2_OPERATOR = fromPolar(1, (-2 * Math.PI) / 3);
+
+export interface SequenceComponents {
+  V0: Complex;
+  V1: Complex;
+  V2: Complex;
+}
+
+/**
+ * Composantes symétriques d'un système triphasé de phaseurs
+ */
+export const computeSequenceComponents = (Va: Complex, Vb: Complex, Vc: Complex): SequenceComponents => ({
+  V0: scale(add(add(Va, Vb), Vc), 1 / 3),
+  V1: scale(add(add(Va, mul(A_OPERATOR, Vb)), mul(A2_OPERATOR, Vc)), 1 / 3),
+  V2: scale(add(add(Va, mul(A2_OPERATOR, Vb)), mul(A_OPERATOR, Vc)), 1 / 3)
+});
+
+/**
+ * Tensions de séquence et taux de déséquilibre par nœud à partir de nodePhasorsPerPhase
+ */
+export const calculateNodeSequenceVoltages = (
+  nodePhasorsPerPhase: NonNullable<CalculationResult['nodePhasorsPerPhase']>
+): NodeSequenceVoltages[] => {
+  const phasorsByNode = new Map<string, { A?: Complex; B?: Complex; C?: Complex }>();
+  for (const p of nodePhasorsPerPhase) {
+    if (!phasorsByNode.has(p.nodeId)) phasorsByNode.set(p.nodeId, {});
+    phasorsByNode.get(p.nodeId)![p.phase] = C(p.V_real, p.V_imag);
+  }
+
+  const result: NodeSequenceVoltages[] = [];
+  for (const [nodeId, phasors] of phasorsByNode.entries()) {
+    if (!phasors.A || !phasors.B || !phasors.C) continue;
+
+    const { V0, V1, V2 } = computeSequenceComponents(phasors.A, phasors.B, phasors.C);
+    const V1_mag = abs(V1);
+    const unbalanceFactor_percent = V1_mag > 0 ? (abs(V2) / V1_mag) * 100 : 0;
+
+    result.push({
+      nodeId,
+      V0_V: abs(V0),
+      V1_V: V1_mag,
+      V2_V: abs(V2),
+      unbalanceFactor_percent,
+      zeroSequenceFactor_percent: V1_mag > 0 ? (abs(V0) / V1_mag) * 100 : 0,
+      compliant: unbalanceFactor_percent <= EN50160_UNBALANCE_LIMIT_PERCENT
+    });
+  }
+  return result;
+};
+
+/**
+ * Taux de déséquilibre maximal du réseau (%), sources exclues
+ */
+export const getMaxUnbalanceFactor = (
+  sequenceVoltages: NodeSequenceVoltages[] | undefined,
+  excludedNodeIds: Set<string> = new Set()
+): number => {
+  let max = 0;
+  for (const s of sequenceVoltages || []) {
+    if (excludedNodeIds.has(s.nodeId)) continue;
+    max = Math.max(max, s.unbalanceFactor_percent);
+  }
+  return max;
+};
+
+/**
+ * Conformité du déséquilibre sur un ensemble de nœuds : critique au-delà de la
+ * limite EN50160, vigilance au-delà de 1,5%
+ */
+export const getUnbalanceCompliance = (
+  sequenceVoltages: NodeSequenceVoltages[]
+): 'normal' | 'warning' | 'critical' => {
+  if (sequenceVoltages.some(s => !s.compliant)) return 'critical';
+  return sequenceVoltages.some(s => s.unbalanceFactor_percent > EN50160_UNBALANCE_WARNING_PERCENT) ? 'warning' : 'normal';
+};
@@ -14,9 +14,12 @@
  * 
  * Impact : R plus élevée en été → chute de tension plus forte
  *          R plus basse en hiver → chute de tension plus faible
+ *
+ * Régime transitoire (profil 24h) : modèle du premier ordre de constante de temps τ
+ *   T(t + Δt) = T_établi + (T(t) - T_établi) × exp(-Δt / τ)
  */
 
-import { CablePose } from '@/types/network';
+import { Cable, CablePose } from '@/types/network';
 
 export type ThermalSeason = 'winter' | 'summer';
 
@@ -32,6 +35,13 @@ const HEATING_CONSTANTS: Record<string, number> = {
   'SOUTERRAIN': 35,
 };
 
+// Constante de temps thermique par défaut (min) : conducteur et isolant en aérien,
+// conducteur et terrain proche en souterrain
+const THERMAL_TIME_CONSTANTS_MIN: Record<string, number> = {
+  'AÉRIEN': 15,
+  'SOUTERRAIN': 120,
+};
+
 // Coefficients de température α (1/°C) par matériau
 const ALPHA_COEFFICIENTS: Record<string, number> = {
   'CUIVRE': 0.00393,
@@ -121,3 +131,45 @@ export function getThermalCorrectionFactor(
   
   return 1 + alpha * (T_cable - 20);
 }
+
+/**
+ * Température admissible du conducteur (°C) : température atteinte en régime établi
+ * au courant admissible, sous l'ambiance estivale de référence de la pose
+ */
+export function getRatedConductorTemperature(pose: CablePose): number {
+  return getAmbientTemperature('summer', pose) + (HEATING_CONSTANTS[pose] || 0);
+}
+
+/**
+ * Constante de temps thermique du câble (min) : valeur du tronçon, défaut selon la pose
+ */
+export function getThermalTimeConstant(cable: Pick<Cable, 'pose' | 'thermalTimeConstant_min'>): number {
+  return cable.thermalTimeConstant_min ?? THERMAL_TIME_CONSTANTS_MIN[cable.pose] ?? 30;
+}
+
+/**
+ * Température du conducteur après Δt (premier ordre) vers la température de régime établi
+ *
+ * @param T_start Température en début de pas (°C)
+ * @param T_steady Température de régime établi au courant du pas (°C)
+ * @param dt_min Durée du pas (min)
+ * @param tau_min Constante de temps thermique (min)
+ */
+export function advanceCableTemperature(
+  T_start: number,
+  T_steady: number,
+  dt_min: number,
+  tau_min: number
+): number {
+  if (tau_min <= 0) return T_steady;
+  return T_steady + (T_start - T_steady) * Math.exp(-dt_min / tau_min);
+}
+
+/**
+ * Câbles dont la température conducteur est imposée au calcul (état thermique courant)
+ */
+export function applyConductorTemperatures(cables: Cable[], temperatures: Map<string, number>): Cable[] {
+  return cables.map(cable => temperatures.has(cable.id)
+    ? { ...cable, conductorTemperature_C: temperatures.get(cable.id) }
+    : cable);
+}
@@ -0,0 +1,139 @@
+/**
+ * ============================================================================
+ * CATALOGUE TRANSFORMATEURS ET IMPÉDANCE HOMOPOLAIRE
+ * ============================================================================
+ *
+ * Le catalogue est sauvegardé dans le projet (project.transformerTypes) et
+ * initialisé depuis defaultTransformerTypes. La sélection d'une entrée recopie
+ * ses caractéristiques dans la TransformerConfig (typeId conservé).
+ *
+ * 🔌 IMPÉDANCE HOMOPOLAIRE (vue du côté BT):
+ * - Dyn11 : le triangle HTA referme les courants homopolaires, Z0 ≈ Z1
+ * - Yzn11 : le zigzag compense les ampères-tours, Z0 << Z1
+ * - Sans donnée catalogue : Z0 = Z1 (comportement historique)
+ *
+ * En régime déséquilibré, la chute dans le transformateur d'une phase vaut
+ * Z1·Ia + (Z0 - Z1)·I0 avec I0 = (Ia + Ib + Ic) / 3 = I_N / 3 : le terme
+ * (Z0 - Z1)·I0 est un déplacement du point neutre commun aux trois phases.
+ *
+ * ============================================================================
+ */
+
+import { Project, CalculationResult, TransformerConfig, TransformerType, VirtualBusbar } from '@/types/network';
+import { Complex, C } from '@/utils/complex';
+import { defaultTransformerTypes } from '@/data/defaultTransformerTypes';
+
+/**
+ * Catalogue du projet (catalogue par défaut pour les anciens projets)
+ */
+export const getTransformerTypes = (project: Project): TransformerType[] =>
+  project.transformerTypes && project.transformerTypes.length > 0
+    ? project.transformerTypes
+    : defaultTransformerTypes;
+
+/**
+ * Recopie une entrée du catalogue dans la configuration transformateur
+ * (tension nominale, tension source et prise sont conservées)
+ */
+export const applyTransformerType = (config: TransformerConfig, type: TransformerType): TransformerConfig => ({
+  ...config,
+  typeId: type.id,
+  rating: `${type.nominalPower_kVA}kVA`,
+  nominalPower_kVA: type.nominalPower_kVA,
+  shortCircuitVoltage_percent: type.shortCircuitVoltage_percent,
+  xOverR: type.xOverR,
+  coupling: type.coupling,
+  zeroSequenceImpedance_percent: type.zeroSequenceImpedance_percent,
+  zeroSequenceXOverR: type.zeroSequenceXOverR,
+  noLoadLosses_W: type.noLoadLosses_W,
+  loadLosses_W: type.loadLosses_W
+});
+
+/**
+ * Entrée du catalogue correspondant à une configuration transformateur :
+ * typeId si présent, sinon même puissance et même Ucc (cabine de préférence,
+ * les anciens projets ne proposant que des transformateurs de cabine)
+ */
+export const findTransformerType = (types: TransformerType[], config: TransformerConfig): TransformerType | undefined => {
+  if (config.typeId) {
+    const selected = types.find(t => t.id === config.typeId);
+    if (selected) return selected;
+  }
+  const candidates = types.filter(t =>
+    t.nominalPower_kVA === config.nominalPower_kVA &&
+    Math.abs(t.shortCircuitVoltage_percent - config.shortCircuitVoltage_percent) < 1e-6
+  );
+  return candidates.find(t => t.mounting === 'CABINE') ?? candidates[0];
+};
+
+/**
+ * Rétrocompatibilité : renseigne le typeId des configurations antérieures au catalogue
+ * (les caractéristiques électriques de la configuration ne sont pas modifiées)
+ */
+export const migrateTransformerTypeId = (config: TransformerConfig, types: TransformerType[]): TransformerConfig => {
+  const type = findTransformerType(types, config);
+  if (!type || type.id === config.typeId) return config;
+  return { ...config, typeId: type.id };
+};
+
+/**
+ * Nouvelle entrée de catalogue (valeurs d'un 250 kVA Dyn11 de cabine)
+ */
+export const createTransformerType = (): TransformerType => ({
+  id: `transformer-${Date.now()}`,
+  label: 'Nouveau transformateur',
+  nominalPower_kVA: 250,
+  mounting: 'CABINE',
+  coupling: 'Dyn11',
+  shortCircuitVoltage_percent: 4,
+  xOverR: 2.5,
+  noLoadLosses_W: 300,
+  loadLosses_W: 2350,
+  zeroSequenceImpedance_percent: 3.6,
+  zeroSequenceXOverR: 2.5
+});
+
+/**
+ * Impédance homopolaire du transformateur ramenée au côté BT (Ω/phase)
+ * Retourne Z1 si la configuration ne précise pas Z0
+ */
+export const getTransformerZeroSequenceImpedance = (
+  transformerConfig: TransformerConfig,
+  U_line_V: number,
+  Z1: Complex
+): Complex => {
+  const z0_percent = transformerConfig.zeroSequenceImpedance_percent;
+  if (typeof z0_percent !== 'number' || !isFinite(z0_percent) || z0_percent <= 0) return Z1;
+
+  const Z0mag = (z0_percent / 100) * (U_line_V * U_line_V) / (transformerConfig.nominalPower_kVA * 1000);
+  const x0OverR0 = transformerConfig.zeroSequenceXOverR ?? transformerConfig.xOverR;
+  if (typeof x0OverR0 === 'number' && isFinite(x0OverR0) && x0OverR0 > 0) {
+    const R0 = Z0mag / Math.sqrt(1 + x0OverR0 * x0OverR0);
+    return C(R0, R0 * x0OverR0);
+  }
+  // Même angle que Z1 si X0/R0 inconnu
+  const Z1mag = Math.hypot(Z1.re, Z1.im);
+  return Z1mag > 0 ? C(Z1.re * Z0mag / Z1mag, Z1.im * Z0mag / Z1mag) : C(0, Z0mag);
+};
+
+/**
+ * Charge du transformateur (courant du jeu de barres / courant assigné)
+ */
+export const getTransformerLoading = (busbar: VirtualBusbar | undefined, config: TransformerConfig | undefined): number => {
+  if (!busbar || !config?.nominalPower_kVA) return 0;
+  const U_n = config.nominalVoltage_V ?? 400;
+  const I_n = (config.nominalPower_kVA * 1000) / (Math.sqrt(3) * U_n);
+  return busbar.current_A / I_n;
+};
+
+/**
+ * Charge du transformateur le plus sollicité (réseau multi-postes compris)
+ */
+export const getMaxTransformerLoading = (project: Project, result: CalculationResult): number => {
+  if (result.substations?.length) {
+    return Math.max(...result.substations.map(s =>
+      getTransformerLoading(s.virtualBusbar, s.transformerConfig ?? project.transformerConfig)
+    ));
+  }
+  return getTransformerLoading(result.virtualBusbar, project.transformerConfig);
+};
@@ -0,0 +1,127 @@
+/**
+ * ============================================================================
+ * CHANGEUR DE PRISES HORS TENSION DU TRANSFORMATEUR HTA/BT
+ * ============================================================================
+ *
+ * Les transformateurs de distribution disposent de prises fixes manœuvrées
+ * hors tension (-5%, -2.5%, 0, +2.5%, +5%). La position est exprimée ici par
+ * son effet sur la tension BT à vide : V_BT = V_BT,réf × (1 + prise / 100).
+ *
+ * 🔎 RECHERCHE DE LA MEILLEURE PRISE:
+ * - Chaque prise est évaluée sur les scénarios PRÉLÈVEMENT (chute de tension)
+ *   et PRODUCTION (hausse de tension)
+ * - Critère : écart EN50160 maximal (en valeur absolue) sur l'ensemble des
+ *   nœuds et des scénarios, à minimiser
+ * - La prise recommandée est celle qui minimise ce pire écart (à égalité,
+ *   la prise la plus proche de 0)
+ *
+ * ============================================================================
+ */
+
+import { Project, CalculationScenario, TransformerConfig, TransformerTapPosition } from '@/types/network';
+import { ElectricalCalculator } from '@/utils/electricalCalculations';
+import { getNetworkVoltageIndicators } from '@/utils/voltageIndicators';
+
+export const TRANSFORMER_TAP_POSITIONS: TransformerTapPosition[] = [-5, -2.5, 0, 2.5, 5];
+
+// Scénarios encadrant la plage de tension (charge max / injection max)
+const DEFAULT_TAP_SCENARIOS: CalculationScenario[] = ['PRÉLÈVEMENT', 'PRODUCTION'];
+
+/**
+ * Facteur multiplicatif appliqué à la tension BT par la prise du transformateur
+ */
+export const getTapFactor = (transformerConfig?: TransformerConfig): number =>
+  1 + (transformerConfig?.tapPosition_percent ?? 0) / 100;
+
+export interface TapScenarioIndicators {
+  scenario: CalculationScenario;
+  /** Écart minimal (%) - sous-tension */
+  minDeviationPercent: number;
+  /** Écart maximal (%) - surtension */
+  maxDeviationPercent: number;
+}
+
+export interface TapOption {
+  tap: TransformerTapPosition;
+  /** Indicateurs par scénario évalué */
+  scenarios: TapScenarioIndicators[];
+  /** Pire écart EN50160 en valeur absolue, tous scénarios confondus (%) */
+  worstDeviationPercent: number;
+  /** Aucun nœud au-delà de ±10% */
+  compliant: boolean;
+  /** Position actuelle du transformateur */
+  isCurrent: boolean;
+}
+
+export interface TapStudyResult {
+  options: TapOption[];
+  bestTap: TransformerTapPosition;
+  currentTap: TransformerTapPosition;
+  /** Gain sur le pire écart par rapport à la prise actuelle (points de %) */
+  improvementPercent: number;
+}
+
+/**
+ * Évalue toutes les prises du transformateur principal et recommande la meilleure
+ */
+export function findBestTapPosition(
+  project: Project,
+  scenarios: CalculationScenario[] = DEFAULT_TAP_SCENARIOS
+): TapStudyResult {
+  const calculator = new ElectricalCalculator(
+    project.cosPhi,
+    project.cosPhiCharges ?? project.cosPhi ?? 0.95,
+    project.cosPhiProductions ?? 1.00
+  );
+  const sourceIds = new Set(project.nodes.filter(n => n.isSource).map(n => n.id));
+  const currentTap = project.transformerConfig.tapPosition_percent ?? 0;
+
+  const options: TapOption[] = TRANSFORMER_TAP_POSITIONS.map(tap => {
+    const tappedProject: Project = {
+      ...project,
+      transformerConfig: { ...project.transformerConfig, tapPosition_percent: tap }
+    };
+
+    const scenarioIndicators = scenarios.map(scenario => {
+      const result = calculator.calculateScenarioWithHTConfig(
+        tappedProject,
+        scenario,
+        project.foisonnementCharges,
+        project.foisonnementProductions,
+        project.manualPhaseDistribution,
+        project.clientsImportes || [],
+        project.clientLinks || []
+      );
+      const { minDeviationPercent, maxDeviationPercent } = getNetworkVoltageIndicators(result, sourceIds);
+      return { scenario, minDeviationPercent, maxDeviationPercent };
+    });
+
+    const worstDeviationPercent = Math.max(
+      ...scenarioIndicators.map(s => Math.max(Math.abs(s.minDeviationPercent), Math.abs(s.maxDeviationPercent)))
+    );
+
+    return {
+      tap,
+      scenarios: scenarioIndicators,
+      worstDeviationPercent,
+      compliant: worstDeviationPercent <= 10,
+      isCurrent: tap === currentTap
+    };
+  });
+
+  const best = options.reduce((b, o) => {
+    if (o.worstDeviationPercent < b.worstDeviationPercent - 1e-9) return o;
+    if (Math.abs(o.worstDeviationPercent - b.worstDeviationPercent) <= 1e-9 && Math.abs(o.tap) < Math.abs(b.tap)) return o;
+    return b;
+  }, options[0]);
+  const current = options.find(o => o.isCurrent);
+
+  console.log(`🔧 Meilleure prise transformateur: ${best.tap > 0 ? '+' : ''}${best.tap}% (écart max ${best.worstDeviationPercent.toFixed(2)}%)`);
+
+  return {
+    options,
+    bestTap: best.tap,
+    currentTap,
+    improvementPercent: current ? current.worstDeviationPercent - best.worstDeviationPercent : 0
+  };
+}
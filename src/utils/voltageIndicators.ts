@@ -0,0 +1,85 @@
+/**
+ * Indicateurs de tension EN50160 extraits d'un résultat de calcul
+ *
+ * Les tensions affichées (nodeMetricsPerPhase.voltagesPerPhase) dépendent du mode :
+ * - mode déséquilibré : tensions phase-neutre (référence 230V), écarts fournis
+ *   par deviationsPerPhase
+ * - mode équilibré : tensions à l'échelle ligne du nœud, écart déduit de V_pu
+ * Les écarts sont donc toujours exprimés en % de la tension de référence du nœud.
+ */
+
+import { CalculationResult } from '@/types/network';
+
+export interface NetworkVoltageIndicators {
+  /** Tension affichée minimale (V) */
+  minVoltage_V: number;
+  /** Tension affichée maximale (V) */
+  maxVoltage_V: number;
+  /** Écart minimal (%) - le plus négatif (sous-tension) */
+  minDeviationPercent: number;
+  /** Écart maximal (%) - le plus positif (surtension) */
+  maxDeviationPercent: number;
+  /** Écart absolu maximal (%) */
+  worstDeviationPercent: number;
+}
+
+/**
+ * Écarts de tension par phase d'un nœud (%), positif = surtension
+ */
+export const getNodeDeviationsPercent = (
+  result: CalculationResult,
+  nodeId: string
+): { A: number; B: number; C: number } | null => {
+  const metrics = result.nodeMetricsPerPhase?.find(m => m.nodeId === nodeId);
+  if (metrics?.deviationsPerPhase) return metrics.deviationsPerPhase;
+
+  const simple = result.nodeMetrics?.find(m => m.nodeId === nodeId);
+  if (simple?.V_pu) {
+    const deviation = (simple.V_pu - 1) * 100;
+    return { A: deviation, B: deviation, C: deviation };
+  }
+  return null;
+};
+
+/**
+ * Indicateurs de tension sur l'ensemble des nœuds (sources exclues)
+ */
+export const getNetworkVoltageIndicators = (
+  result: CalculationResult,
+  excludedNodeIds: Set<string> = new Set()
+): NetworkVoltageIndicators => {
+  let minVoltage = Infinity;
+  let maxVoltage = -Infinity;
+  let minDeviation = Infinity;
+  let maxDeviation = -Infinity;
+
+  for (const metrics of result.nodeMetricsPerPhase || []) {
+    if (excludedNodeIds.has(metrics.nodeId)) continue;
+
+    for (const V of [metrics.voltagesPerPhase.A, metrics.voltagesPerPhase.B, metrics.voltagesPerPhase.C]) {
+      if (!V) continue;
+      minVoltage = Math.min(minVoltage, V);
+      maxVoltage = Math.max(maxVoltage, V);
+    }
+
+    const deviations = getNodeDeviationsPercent(result, metrics.nodeId);
+    if (!deviations) continue;
+    for (const d of [deviations.A, deviations.B, deviations.C]) {
+      minDeviation = Math.min(minDeviation, d);
+      maxDeviation = Math.max(maxDeviation, d);
+    }
+  }
+
+  if (!isFinite(minDeviation)) {
+    minDeviation = 0;
+    maxDeviation = 0;
+  }
+
+  return {
+    minVoltage_V: isFinite(minVoltage) ? minVoltage : 0,
+    maxVoltage_V: isFinite(maxVoltage) ? maxVoltage : 0,
+    minDeviationPercent: minDeviation,
+    maxDeviationPercent: maxDeviation,
+    worstDeviationPercent: Math.max(Math.abs(minDeviation), Math.abs(maxDeviation))
+  };
+};